@@ -18,6 +18,8 @@ const { execSync } = require('child_process');
 const PLUGINS_DIR = path.join(__dirname, 'src/plugins');
 const OUTPUT_FILE = path.join(__dirname, 'src/embedded-plugins.ts');
 const VALID_EXTENSIONS = ['.ts', '.js'];
+// 通过 new Worker() 加载的脚本
+const WORKER_ENTRYPOINTS = ['src/plugins/chess/utils/EngineWorker.ts'];
 
 // 帮助函数：检查目录是否存在
 async function dirExists(dirPath) {
@@ -151,7 +153,9 @@ async function main() {
   // 运行Bun编译命令
   console.log('开始编译...');
   try {
-    execSync('bun build src/app.ts --compile --outfile natsuki', {
+    // Worker 脚本不会被静态导入，需要作为额外入口一起编译；
+    // 以 src 为根目录，Worker 按相对 src 的路径嵌入，与 ChessEngine 中的查找路径一致
+    execSync(`bun build src/app.ts ${WORKER_ENTRYPOINTS.join(' ')} --compile --root src --outfile natsuki`, {
       stdio: 'inherit'
     });
     console.log('编译完成');
@@ -0,0 +1,105 @@
+#!/usr/bin/env bun
+
+import fs from 'fs';
+import path from 'path';
+import { OpeningBook, type OpeningBookData } from '../src/plugins/chess/utils/OpeningBook';
+
+/**
+ * 象棋开局库生成脚本
+ * 从导出格式的 PGN 棋谱（/chess pgn 的输出，一个文件可包含多局）生成 Zobrist 索引的开局库
+ *
+ * 用法：
+ *   bun run scripts/build-opening-book.ts <棋谱文件或目录...> [--out 文件] [--max-ply 步数] [--min-weight 权重]
+ *
+ * 默认输出到随插件打包的 src/plugins/chess/data/opening-book.json；
+ * 输出到其他位置时，可以在 chess.json 的 openingBookPath 中指定该文件
+ */
+
+const DEFAULT_OUTPUT = path.join(__dirname, '../src/plugins/chess/data/opening-book.json');
+const RECORD_EXTENSIONS = ['.pgn', '.txt'];
+
+// 解析命令行参数
+function parseArgs(argv: string[]) {
+    const inputs: string[] = [];
+    let output = DEFAULT_OUTPUT;
+    let maxPly: number | undefined;
+    let minWeight: number | undefined;
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i]!;
+        if (arg === '--out') {
+            output = path.resolve(argv[++i] ?? '');
+        } else if (arg === '--max-ply') {
+            maxPly = Number(argv[++i]);
+        } else if (arg === '--min-weight') {
+            minWeight = Number(argv[++i]);
+        } else {
+            inputs.push(path.resolve(arg));
+        }
+    }
+
+    if (maxPly !== undefined && !(Number.isInteger(maxPly) && maxPly > 0)) {
+        throw new Error('--max-ply 应为正整数');
+    }
+    if (minWeight !== undefined && !(minWeight > 0)) {
+        throw new Error('--min-weight 应为正数');
+    }
+
+    return { inputs, output, maxPly, minWeight };
+}
+
+// 展开目录，收集所有棋谱文件
+function collectFiles(inputs: string[]): string[] {
+    const files: string[] = [];
+    for (const input of inputs) {
+        if (fs.statSync(input).isDirectory()) {
+            const entries = fs.readdirSync(input)
+                .filter(file => RECORD_EXTENSIONS.includes(path.extname(file).toLowerCase()))
+                .sort()
+                .map(file => path.join(input, file));
+            files.push(...entries);
+        } else {
+            files.push(input);
+        }
+    }
+    return files;
+}
+
+// 每个局面占一行，便于查看差异
+function formatBook(data: OpeningBookData): string {
+    const { positions, ...header } = data;
+    const lines = Object.entries(positions).map(([key, moves]) => `    ${JSON.stringify(key)}: ${JSON.stringify(moves)}`);
+    const headerText = JSON.stringify(header, null, 2).slice(0, -2);
+    return `${headerText},\n  "positions": {\n${lines.join(',\n')}\n  }\n}\n`;
+}
+
+function main() {
+    const { inputs, output, maxPly, minWeight } = parseArgs(process.argv.slice(2));
+    if (inputs.length === 0) {
+        console.error('用法: bun run scripts/build-opening-book.ts <棋谱文件或目录...> [--out 文件] [--max-ply 步数] [--min-weight 权重]');
+        process.exit(1);
+    }
+
+    const records: string[] = [];
+    for (const file of collectFiles(inputs)) {
+        const fileRecords = OpeningBook.splitRecords(fs.readFileSync(file, 'utf-8'));
+        console.log(`读取 ${path.relative(process.cwd(), file)}: ${fileRecords.length} 局`);
+        records.push(...fileRecords);
+    }
+
+    const { data, errors } = OpeningBook.build(records, { maxPly, minWeight });
+    for (const error of errors) {
+        console.warn(`跳过 ${error}`);
+    }
+
+    fs.writeFileSync(output, formatBook(data), 'utf-8');
+    console.log(`已生成开局库: ${output}`);
+    console.log(`收录 ${data.games} 局，${Object.keys(data.positions).length} 个局面`);
+}
+
+try {
+    main();
+} catch (err) {
+    console.error('生成开局库失败:', err instanceof Error ? err.message : err);
+    process.exit(1);
+}
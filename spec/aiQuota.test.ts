@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { BotHarness } from "../src/harness/Harness";
+
+let configDir: string;
+let harness: BotHarness;
+
+beforeEach(async () => {
+    // ai.json 为默认聊天单独配置每日次数
+    configDir = await fs.mkdtemp(path.join(os.tmpdir(), "natsuki-quota-"));
+    await fs.writeFile(path.join(configDir, "ai.json"), JSON.stringify({
+        quota: { cap: 20 },
+        chatQuotas: { "-1000": { daily: 3 } }
+    }));
+    harness = await BotHarness.create({ plugins: ["system", "ai"], configDir, enableChats: [-1000, -1001] });
+});
+
+afterEach(async () => {
+    await harness.dispose();
+    await fs.rm(configDir, { recursive: true, force: true });
+});
+
+test("聊天策略依次合并默认策略、ai.json 中的聊天配置和命令设置", async () => {
+    let calls = await harness.send("/aiquota");
+    expect(calls[0]?.text).toContain("每次重置为：3次");
+    expect(calls[0]?.text).toContain("发言累积上限：20次");
+    expect(calls[0]?.text).not.toContain("（默认）");
+
+    harness.resetLimits();
+    await harness.send("/aiquota set cap 50");
+    harness.resetLimits();
+    calls = await harness.send("/aiquota");
+    expect(calls[0]?.text).toContain("每次重置为：3次");
+    expect(calls[0]?.text).toContain("发言累积上限：50次");
+
+    // 其他聊天不受影响
+    harness.resetLimits();
+    calls = await harness.send("/aiquota", { chatId: -1001 });
+    expect(calls[0]?.text).toContain("每次重置为：8次");
+    expect(calls[0]?.text).toContain("（默认）");
+});
+
+test("清除命令设置的策略后提示 ai.json 中的聊天配置仍然生效", async () => {
+    await harness.send("/aiquota set daily 10");
+    harness.resetLimits();
+
+    const calls = await harness.send("/aiquota clear");
+    expect(calls[0]?.text).toContain("ai.json 中为本聊天配置的策略仍然生效");
+    expect(calls[0]?.text).toContain("每次重置为3次");
+
+    const saved = JSON.parse(await fs.readFile(path.join(configDir, "ai-chat-quotas.json"), "utf8"));
+    expect(saved["-1000"]).toBeUndefined();
+});
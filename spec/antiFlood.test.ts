@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import { BotHarness } from "../src/harness/Harness";
+
+let harness: BotHarness;
+
+// 用户的警报值保存在插件模块中，每个测试使用不同的用户
+beforeEach(async () => {
+    harness = await BotHarness.create({ plugins: ["system", "antiFlood"] });
+});
+
+afterEach(async () => {
+    await harness.dispose();
+});
+
+test("连续重复发送消息触发刷屏保护并删除消息", async () => {
+    const results = [];
+    for (let i = 0; i < 4; i++) {
+        results.push(await harness.send("刷屏刷屏刷屏", { userId: 3001 }));
+    }
+
+    expect(results[0]).toHaveLength(0);
+    const warning = results.flat().find(call => call.text?.includes("你已触发刷屏保护"));
+    expect(warning).toBeDefined();
+    expect(results[3]?.some(call => call.method === "deleteMessagesById")).toBe(true);
+
+    harness.resetLimits();
+    const calls = await harness.send("/antiflood", { userId: 3001 });
+    expect(calls[0]?.text).toContain("[限制中]");
+});
+
+test("不影响其他用户的正常发言", async () => {
+    for (let i = 0; i < 4; i++) {
+        await harness.send("刷屏刷屏刷屏", { userId: 3002 });
+    }
+
+    const calls = await harness.send("正常发言", { userId: 3003 });
+    expect(calls).toHaveLength(0);
+});
+
+test("管理员豁免刷屏检测", async () => {
+    const calls = [];
+    for (let i = 0; i < 4; i++) {
+        calls.push(...await harness.send("刷屏刷屏刷屏"));
+    }
+    expect(calls).toHaveLength(0);
+});
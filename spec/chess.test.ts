@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { BotHarness } from "../src/harness/Harness";
+
+let harness: BotHarness;
+
+beforeEach(async () => {
+    harness = await BotHarness.create({ plugins: ["system", "chess/chess"] });
+});
+
+afterEach(async () => {
+    await harness.dispose();
+});
+
+test("象棋复盘按钮不处理其他插件同名功能的回调", async () => {
+    const calls = await harness.click("chats:review:approve:-100123", { messageId: 1001 });
+
+    const answers = calls.filter(call => call.method === "answer");
+    expect(answers).toHaveLength(1);
+    expect(answers[0]?.text).not.toBe("已经到头了");
+});
+
+test("象棋复盘按钮仍然响应自己的回调", async () => {
+    const calls = await harness.click("chess:review:unknown:-1", { messageId: 1001 });
+
+    const answers = calls.filter(call => call.method === "answer");
+    expect(answers).toHaveLength(1);
+    expect(answers[0]?.text).toBe("已经到头了");
+});
+
+test("与玩家的对局进行中不能使用引擎分析", async () => {
+    await harness.send("/chess challenge 2002", { userId: 2001 });
+    harness.resetLimits();
+    await harness.send("/chess accept", { userId: 2002 });
+    harness.resetLimits();
+
+    const calls = await harness.send("/chess analyze 1", { userId: 2001 });
+    expect(calls[0]?.text).toContain("不能使用引擎分析");
+
+    harness.resetLimits();
+    await harness.send("/chess resign", { userId: 2001 });
+});
+
+test("AI对局可以使用引擎分析", async () => {
+    await harness.send("/chess ai easy", { userId: 2003 });
+    harness.resetLimits();
+
+    const calls = await harness.send("/chess analyze 1", { userId: 2003 });
+    expect(calls[0]?.text).toContain("局面分析");
+
+    harness.resetLimits();
+    await harness.send("/chess resign", { userId: 2003 });
+});
+
+test("悔棋按钮的回调数据不超过64字节，对方可以同意悔棋", async () => {
+    const red = 5123456788;
+    const black = 5123456789;
+    await harness.send(`/chess challenge ${black}`, { userId: red });
+    harness.resetLimits();
+    await harness.send("/chess accept", { userId: black });
+    harness.resetLimits();
+    await harness.send("/chess move 炮二平五", { userId: red });
+    harness.resetLimits();
+
+    const calls = await harness.send("/chess undo", { userId: red });
+    const params = calls[0]?.args[1] as { replyMarkup?: { buttons: { data: Uint8Array }[][] } } | undefined;
+    const data = (params?.replyMarkup?.buttons.flat() ?? []).map(button => new TextDecoder().decode(button.data));
+    expect(data).toHaveLength(2);
+    for (const item of data) {
+        expect(new TextEncoder().encode(item).length).toBeLessThanOrEqual(64);
+    }
+
+    const rejected = await harness.click(data[0]!, { userId: red });
+    expect(rejected.find(call => call.method === "answer")?.text).toContain("请使用自己的菜单");
+
+    const accepted = await harness.click(data[0]!, { userId: black });
+    expect(accepted.find(call => call.method === "answer")?.text).toBe("您同意了悔棋请求");
+    expect(accepted.some(call => call.text?.includes("已悔棋"))).toBe(true);
+
+    harness.resetLimits();
+    await harness.send("/chess resign", { userId: red });
+});
+
+test("卸载插件时等待对局和等级分写入完成", async () => {
+    const configDir = await fs.mkdtemp(path.join(os.tmpdir(), "natsuki-chess-"));
+    const local = await BotHarness.create({ plugins: ["chess/chess"], configDir });
+    try {
+        await local.send("/chess challenge 2005", { userId: 2004 });
+        local.resetLimits();
+        await local.send("/chess accept", { userId: 2005 });
+        local.resetLimits();
+        await local.send("/chess resign", { userId: 2004 });
+        await local.dispose();
+
+        const ratings = JSON.parse(await fs.readFile(path.join(configDir, "chess-ratings.json"), "utf-8"));
+        expect(ratings.results.some((result: { ratingChanges: Record<string, number> }) => "2004" in result.ratingChanges)).toBe(true);
+    } finally {
+        await fs.rm(configDir, { recursive: true, force: true });
+    }
+});
@@ -0,0 +1,55 @@
+import { expect, test } from "bun:test";
+import { CitationList } from "../src/ai/CitationList";
+
+function createList(): CitationList {
+    const citations = new CitationList();
+    citations.add("第一篇", "https://a.example/1");
+    citations.add("第二篇", "https://b.example/2?x=1&y=2");
+    citations.add("没有链接的来源");
+    return citations;
+}
+
+test("同一链接只编号一次", () => {
+    const citations = createList();
+    expect(citations.add("重复的第一篇", "https://a.example/1")).toBe(1);
+    expect(citations.add("第四篇", "https://d.example")).toBe(4);
+    expect(citations.size).toBe(4);
+});
+
+test("把引用编号替换为来源链接", () => {
+    const linked = createList().link("答案[1]，另见[结果 2]和[1, 3]。");
+    expect(linked).toBe(
+        '答案<a href="https://a.example/1">[1]</a>，另见<a href="https://b.example/2?x=1&amp;y=2">[2]</a>和' +
+        '<a href="https://a.example/1">[1]</a>[3]。'
+    );
+});
+
+test("去掉不存在的编号，不处理代码中的方括号", () => {
+    const linked = createList().link("编造的[9]引用，<code>arr[1]</code>[2]");
+    expect(linked).toBe('编造的引用，<code>arr[1]</code><a href="https://b.example/2?x=1&amp;y=2">[2]</a>');
+});
+
+test("只列出被引用的来源", () => {
+    const formatted = createList().format("见[2]和[3]");
+    expect(formatted).toContain("<b>📎 来源:</b>");
+    expect(formatted).not.toContain("第一篇");
+    expect(formatted).toContain('[2] <a href="https://b.example/2?x=1&amp;y=2">第二篇</a>');
+    expect(formatted).toContain("[3] 没有链接的来源");
+});
+
+test("没有有效引用时列出全部来源", () => {
+    const formatted = createList().format("没有引用[7]，<code>[1]</code>");
+    expect(formatted).toContain("[1] ");
+    expect(formatted).toContain("[2] ");
+    expect(formatted).toContain("[3] ");
+});
+
+test("没有来源时不输出来源列表，过长的标题被截断", () => {
+    expect(new CitationList().format("[1]")).toBe("");
+
+    const citations = new CitationList("相关消息");
+    citations.add("标".repeat(80));
+    const formatted = citations.format("");
+    expect(formatted).toContain("<b>📎 相关消息:</b>");
+    expect(formatted).toContain(`${"标".repeat(60)}...`);
+});
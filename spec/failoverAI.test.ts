@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import { FailoverAI, ProviderRegistry } from "../src/ai/ProviderRegistry";
+import type { Message } from "../src/ai/provider/BaseProvider";
+import type { OpenAICompatibleConfig } from "../src/ai/provider/OpenAICompatible";
+
+const originalFetch = globalThis.fetch;
+// 每个服务返回的状态码，未列出的服务正常回答
+let statuses: Record<string, number>;
+let requested: string[];
+
+// 服务健康状态是全局的，每个测试使用不同名称的服务
+function useEndpoints(...names: string[]): void {
+    const endpoints: Record<string, OpenAICompatibleConfig> = {};
+    for (const name of names) {
+        endpoints[name] = { baseURL: `http://${name}.test/v1` };
+    }
+    ProviderRegistry.configure({ fast: names.map(name => ({ provider: name, model: "test" })) }, endpoints);
+}
+
+beforeEach(() => {
+    statuses = {};
+    requested = [];
+    globalThis.fetch = (async (url: string) => {
+        const name = new URL(url).hostname.replace(/\.test$/, "");
+        requested.push(name);
+        const status = statuses[name];
+        if (status) {
+            return Response.json({ error: { message: `status ${status}` } }, { status });
+        }
+        return Response.json({ choices: [{ message: { content: `来自 ${name} 的回答` } }] });
+    }) as unknown as typeof fetch;
+});
+
+afterEach(() => {
+    globalThis.fetch = originalFetch;
+    ProviderRegistry.configure({});
+});
+
+test("限流时切换到下一个服务并暂停该服务", async () => {
+    useEndpoints("limited", "backup");
+    statuses.limited = 429;
+
+    const answer = await new FailoverAI("fast").get("你好");
+    expect(answer).toBe("来自 backup 的回答");
+    expect(requested).toEqual(["limited", "backup"]);
+
+    // 暂停中的服务排到最后，首选服务暂停时视为降级
+    expect(ProviderRegistry.getCandidates("fast").map(entry => entry.provider)).toEqual(["backup", "limited"]);
+    expect(ProviderRegistry.isDegraded("fast")).toBe(true);
+    const health = ProviderRegistry.getStatus().get("limited")!;
+    expect(health.failures).toBe(1);
+    expect(health.backoffUntil - Date.now()).toBeGreaterThan(55 * 1000);
+});
+
+test("额度不足时暂停较长时间", async () => {
+    useEndpoints("nocredits", "fallback");
+    statuses.nocredits = 402;
+
+    expect(await new FailoverAI("fast").get("你好")).toBe("来自 fallback 的回答");
+    const health = ProviderRegistry.getStatus().get("nocredits")!;
+    expect(health.backoffUntil - Date.now()).toBeGreaterThan(25 * 60 * 1000);
+});
+
+test("请求错误不切换服务", async () => {
+    useEndpoints("badrequest", "unused");
+    statuses.badrequest = 400;
+
+    await expect(new FailoverAI("fast").get("你好")).rejects.toThrow("Bad request");
+    expect(requested).toEqual(["badrequest"]);
+    expect(ProviderRegistry.getStatus().get("badrequest")!.failures).toBe(0);
+});
+
+test("成功后清除暂停状态", async () => {
+    useEndpoints("recovering");
+    statuses.recovering = 429;
+
+    // 所有服务都暂停时仍然尝试
+    await expect(new FailoverAI("fast").get("你好")).rejects.toThrow();
+    delete statuses.recovering;
+    expect(await new FailoverAI("fast").get("你好")).toBe("来自 recovering 的回答");
+
+    const health = ProviderRegistry.getStatus().get("recovering")!;
+    expect(health.failures).toBe(0);
+    expect(health.backoffUntil).toBe(0);
+    expect(ProviderRegistry.isDegraded("fast")).toBe(false);
+});
+
+test("成功的问答保存到对话历史", async () => {
+    useEndpoints("history");
+    const messages: Message[] = [];
+
+    await new FailoverAI("fast", messages).get("第一个问题");
+    expect(messages).toEqual([
+        { role: "user", content: "第一个问题" },
+        { role: "assistant", content: "来自 history 的回答" }
+    ]);
+});
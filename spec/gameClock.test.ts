@@ -0,0 +1,65 @@
+import { expect, test } from "bun:test";
+import { PieceColor, TimeControlType } from "../src/plugins/chess/models/ChessTypes";
+import { GameClock } from "../src/plugins/chess/utils/GameClock";
+
+test("解析加秒制、包干制和读秒制", () => {
+    expect(GameClock.parse("10+5")).toEqual({ type: TimeControlType.FISCHER, initial: 600, increment: 5, byoyomi: 0 });
+    expect(GameClock.parse(" 15 ")).toEqual({ type: TimeControlType.SUDDEN_DEATH, initial: 900, increment: 0, byoyomi: 0 });
+    expect(GameClock.parse("5B30")).toEqual({ type: TimeControlType.BYOYOMI, initial: 300, increment: 0, byoyomi: 30 });
+    expect(GameClock.parse("b30")).toEqual({ type: TimeControlType.BYOYOMI, initial: 0, increment: 0, byoyomi: 30 });
+});
+
+test("无法解析或没有用时的设置返回 null", () => {
+    for (const text of ["", "0", "0+5", "5b0", "abc", "10+", "1000", "10:00"]) {
+        expect(GameClock.parse(text)).toBeNull();
+    }
+});
+
+test("时限设置的文字描述", () => {
+    expect(GameClock.describe(GameClock.parse("10+5")!)).toBe("10分钟 每步加5秒");
+    expect(GameClock.describe(GameClock.parse("15")!)).toBe("15分钟包干");
+    expect(GameClock.describe(GameClock.parse("5b30")!)).toBe("5分钟 读秒每步30秒");
+    expect(GameClock.describe(GameClock.parse("b30")!)).toBe("每步30秒");
+    expect(GameClock.formatDuration(545_001)).toBe("09:06");
+});
+
+test("加秒制走棋后结算用时并加秒", () => {
+    const clock = new GameClock(GameClock.parse("1+5")!, 0);
+
+    expect(clock.punch(PieceColor.RED, 20_000)).toBe(true);
+    expect(clock.getRemaining(PieceColor.RED, PieceColor.BLACK, 30_000)).toBe(45_000);
+    expect(clock.getRemaining(PieceColor.BLACK, PieceColor.BLACK, 30_000)).toBe(50_000);
+    expect(clock.getText(PieceColor.BLACK, 30_000)).toBe("红 00:45 | 黑 00:50");
+});
+
+test("包干制用完即超时", () => {
+    const clock = new GameClock(GameClock.parse("1")!, 0);
+
+    expect(clock.isFlagged(PieceColor.RED, 60_000)).toBe(false);
+    expect(clock.isFlagged(PieceColor.RED, 60_001)).toBe(true);
+    expect(clock.punch(PieceColor.RED, 60_001)).toBe(false);
+});
+
+test("读秒制基本用时用完后每步限时", () => {
+    const clock = new GameClock(GameClock.parse("1b30")!, 0);
+
+    // 红方用掉全部基本用时，在读秒内走完
+    expect(clock.punch(PieceColor.RED, 80_000)).toBe(true);
+    expect(clock.isInByoyomi(PieceColor.RED, PieceColor.BLACK, 80_000)).toBe(true);
+    expect(clock.getSideText(PieceColor.RED, PieceColor.BLACK, 80_000)).toBe("读秒 00:30");
+
+    // 黑方走完后红方每步只有30秒
+    clock.punch(PieceColor.BLACK, 90_000);
+    expect(clock.getDeadline(PieceColor.RED)).toBe(120_000);
+    expect(clock.getSideText(PieceColor.RED, PieceColor.RED, 100_000)).toBe("读秒 00:20");
+    expect(clock.isFlagged(PieceColor.RED, 120_001)).toBe(true);
+});
+
+test("序列化后恢复时钟状态", () => {
+    const clock = new GameClock(GameClock.parse("3+2")!, 0);
+    clock.punch(PieceColor.RED, 10_000);
+
+    const restored = GameClock.fromJSON(JSON.parse(JSON.stringify(clock.toJSON())));
+    expect(restored.control).toEqual(clock.control);
+    expect(restored.getText(PieceColor.BLACK, 25_000)).toBe(clock.getText(PieceColor.BLACK, 25_000));
+});
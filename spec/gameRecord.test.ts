@@ -0,0 +1,70 @@
+import { expect, test } from "bun:test";
+import { PieceColor, PieceType } from "../src/plugins/chess/models/ChessTypes";
+import { Game } from "../src/plugins/chess/models/Game";
+import { GameRecord, START_FEN } from "../src/plugins/chess/utils/GameRecord";
+
+// 残局：红车马对黑士象，黑方行棋
+const ENDGAME_FEN = "3akab2/9/4b4/9/9/9/9/4N4/4R4/4K4 b - - 12 1";
+
+test("标准开局的 FEN 导入后再导出保持不变", () => {
+    const { board, turn, halfmove } = GameRecord.parseFEN(START_FEN);
+    expect(turn).toBe(PieceColor.RED);
+    expect(halfmove).toBe(0);
+    expect(GameRecord.toFEN(board, turn, { halfmove, fullmove: 1 })).toBe(START_FEN);
+});
+
+test("残局的 FEN 保留行动方和未吃子步数", () => {
+    const { board, turn, halfmove } = GameRecord.parseFEN(ENDGAME_FEN);
+    expect(turn).toBe(PieceColor.BLACK);
+    expect(halfmove).toBe(12);
+    expect(GameRecord.toFEN(board, turn, { halfmove, fullmove: 1 })).toBe(ENDGAME_FEN);
+    // 不带计数时只输出局面和行动方
+    expect(GameRecord.toFEN(board, turn)).toBe("3akab2/9/4b4/9/9/9/9/4N4/4R4/4K4 b");
+});
+
+test("FEN 左右与棋盘内部的列相反", () => {
+    // 红方一路（棋盘内部第0列）是 FEN 每行的最后一列
+    const { board } = GameRecord.parseFEN("4k4/9/9/9/9/9/9/9/9/3K4R w");
+    expect(board.getPiece([9, 0])?.type).toBe(PieceType.CHARIOT);
+    expect(board.getPiece([9, 5])?.type).toBe(PieceType.GENERAL);
+});
+
+test("兼容 e/h 棋子别名并省略计数", () => {
+    const { board, turn } = GameRecord.parseFEN("rheakaehr/9/1c5c1/p1p1p1p1p/9/9/P1P1P1P1P/1C5C1/9/RHEAKAEHR");
+    expect(GameRecord.toFEN(board, turn, { halfmove: 0, fullmove: 1 })).toBe(START_FEN);
+});
+
+test("拒绝无效的 FEN", () => {
+    const invalid: [string, string][] = [
+        ["", "FEN 不能为空"],
+        ["4k4/9/9 w", "FEN 应有 10 行"],
+        ["4k4/9/9/9/9/9/9/9/9/4K3X w", "无效字符"],
+        ["4k4/9/9/9/9/9/9/9/9/4K3 w", "应有 9 列"],
+        ["9/9/9/9/9/9/9/9/9/4K4 w", "缺少黑将"],
+        ["k8/9/9/9/9/9/9/9/9/4K4 w", "位置不合法"],
+        ["4k4/9/9/9/9/9/9/9/9/4K4 x", "无效的行动方"]
+    ];
+    for (const [fen, message] of invalid) {
+        expect(() => GameRecord.parseFEN(fen)).toThrow(message);
+    }
+});
+
+test("ICCS 和 WXF 走法互相转换", () => {
+    const { board } = GameRecord.parseFEN(START_FEN);
+    const move = GameRecord.parseICCS("h2e2")!;
+    expect(GameRecord.toICCS(move.from, move.to)).toBe("H2-E2");
+    expect(GameRecord.toWXF(board, move.from, move.to)).toBe("C2.5");
+    expect(GameRecord.findWXFMove(board, PieceColor.RED, "C2.5")).toEqual(move);
+    expect(GameRecord.parseICCS("j2e2")).toBeNull();
+});
+
+test("从 FEN 开始的对局保存后恢复到相同局面", () => {
+    const game = Game.fromFEN(ENDGAME_FEN, 1, "AI", -1000);
+    const { from, to } = GameRecord.parseICCS("d9e8")!;
+    expect(game.move(from, to).success).toBe(true);
+
+    const restored = Game.fromJSON(JSON.parse(JSON.stringify(game.toJSON())));
+    expect(restored.toJSON().startFen).toBe(ENDGAME_FEN);
+    expect(restored.board).toEqual(game.board);
+    expect(restored.currentTurn).toBe(PieceColor.RED);
+});
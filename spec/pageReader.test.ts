@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import { PageReader, type PageReadingOptions } from "../src/ai/PageReader";
+
+const originalFetch = globalThis.fetch;
+const OPTIONS: PageReadingOptions = {
+    enabled: true,
+    maxPages: 3,
+    maxPassages: 4,
+    passageLength: 40,
+    maxBytes: 100000,
+    timeout: 5000,
+    domainTimeouts: {}
+};
+
+// 各网址返回的网页
+let pages: Record<string, string>;
+let requested: string[];
+
+beforeEach(() => {
+    pages = {};
+    requested = [];
+    globalThis.fetch = (async (url: string) => {
+        requested.push(url);
+        const body = pages[url];
+        if (body === undefined) {
+            return new Response("not found", { status: 404 });
+        }
+        const contentType = url.endsWith(".json") ? "application/json" : "text/html; charset=utf-8";
+        return new Response(body, { headers: { "content-type": contentType } });
+    }) as unknown as typeof fetch;
+});
+
+afterEach(() => {
+    globalThis.fetch = originalFetch;
+});
+
+function html(...paragraphs: string[]): string {
+    return `<html><body><nav>首页 导航 菜单</nav><script>var tracking = 1;</script>${paragraphs.map(text => `<p>${text}</p>`).join("")}<footer>版权所有</footer></body></html>`;
+}
+
+test("按句子分段并挑选与问题相关的段落", async () => {
+    pages["https://a.example/"] = html(
+        "今天的天气很好，适合出门散步，公园里有很多人在放风筝。",
+        "量子计算机利用量子比特进行运算，量子比特可以同时处于多个状态。",
+        "晚饭吃了面条和饺子，味道都很不错，下次还要再来这家店。"
+    );
+
+    const result = await new PageReader().read("量子计算机是怎么运算的", [{ title: "页面A", link: "https://a.example/" }], OPTIONS);
+
+    expect(result).toContain("标题: 页面A");
+    expect(result).toContain("量子比特");
+    expect(result).not.toContain("面条");
+    expect(result).not.toContain("导航");
+    expect(result).not.toContain("tracking");
+});
+
+test("段落按长度拆分，同一网页的段落按原文顺序排列", async () => {
+    const sentences = Array.from({ length: 6 }, (_, i) => `第${i + 1}句讲的是量子计算的第${i + 1}个要点，内容比较长需要拆分成多段。`);
+    pages["https://a.example/"] = html(sentences.join(""));
+
+    const result = await new PageReader().read("量子计算", [{ title: "页面A", link: "https://a.example/" }], { ...OPTIONS, maxPassages: 6 });
+
+    const passages = result.split("\n").filter(line => line.startsWith("…"));
+    expect(passages.length).toBeGreaterThan(1);
+    // 句子依次合并，达到段落字数时结束一段
+    for (const passage of passages) {
+        const text = passage.slice(1, -1);
+        expect(text.length).toBeGreaterThanOrEqual(OPTIONS.passageLength);
+        expect(text.length).toBeLessThan(OPTIONS.passageLength * 2);
+    }
+    // 每个网页最多占一半名额
+    expect(passages).toHaveLength(3);
+    const order = passages.map(passage => Number(/第(\d)句/.exec(passage)?.[1] ?? 0));
+    expect(order).toEqual([...order].sort((a, b) => a - b));
+});
+
+test("都不相关时使用每个网页的第一段", async () => {
+    pages["https://a.example/"] = html("第一个网页的开头介绍了本文的主要内容和写作背景。", "第一个网页的第二段讲的是其他事情和一些细节。");
+    pages["https://b.example/"] = html("第二个网页的开头说明了作者的观点以及参考资料。");
+
+    const result = await new PageReader().read("火星殖民", [
+        { title: "页面A", link: "https://a.example/" },
+        { title: "页面B", link: "https://b.example/" }
+    ], { ...OPTIONS, passageLength: 20 });
+
+    expect(result).toContain("第一个网页的开头");
+    expect(result).not.toContain("第二段");
+    expect(result).toContain("第二个网页的开头");
+});
+
+test("跳过文件和视频链接，忽略不是网页的内容，登记引用编号", async () => {
+    pages["https://a.example/data.json"] = "{\"text\": \"量子计算机的介绍和原理说明，内容足够长可以成为段落。\"}";
+    pages["https://b.example/"] = html("量子计算机的介绍和原理说明，内容足够长可以成为段落。");
+
+    const cited: string[] = [];
+    const result = await new PageReader().read("量子计算机", [
+        { title: "文档", link: "https://a.example/paper.pdf" },
+        { title: "视频", link: "https://www.bilibili.com/video/BV1xx411c7mD" },
+        { title: "数据", link: "https://a.example/data.json" },
+        { title: "页面B", link: "https://b.example/" }
+    ], OPTIONS, (title, link) => cited.push(`${title} ${link}`));
+
+    expect(requested).toEqual(["https://a.example/data.json", "https://b.example/"]);
+    expect(result).toStartWith("[结果 1] 标题: 页面B");
+    expect(cited).toEqual(["页面B https://b.example/"]);
+});
+
+test("关闭网页读取时不请求网页", async () => {
+    const result = await new PageReader().read("问题", [{ title: "页面A", link: "https://a.example/" }], { ...OPTIONS, enabled: false });
+    expect(result).toBe("");
+    expect(requested).toHaveLength(0);
+});
@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import { BotHarness } from "../src/harness/Harness";
+
+let harness: BotHarness;
+
+beforeEach(async () => {
+    harness = await BotHarness.create({ plugins: ["system", "permManager"] });
+});
+
+afterEach(async () => {
+    await harness.dispose();
+});
+
+test("非管理员不能打开权限管理中心", async () => {
+    const calls = await harness.send("/perm", { userId: 42 });
+    expect(calls[0]?.text).toBe("❌ 你没有执行此命令的权限");
+});
+
+test("授予和撤销权限后立即生效", async () => {
+    let calls = await harness.send("/perm grant 42 plugin.manage");
+    expect(calls[0]?.text).toContain("已授予用户 42");
+    harness.resetLimits();
+
+    calls = await harness.send("/plugins", { userId: 42 });
+    expect(calls[0]?.text).toContain("📂 插件列表");
+    harness.resetLimits();
+
+    calls = await harness.send("/perm revoke 42 plugin.manage");
+    expect(calls[0]?.text).toContain("已撤销用户 42");
+    harness.resetLimits();
+
+    calls = await harness.send("/plugins", { userId: 42 });
+    expect(calls[0]?.text).toBe("❌ 你没有执行此命令的权限");
+});
+
+test("查看用户权限", async () => {
+    await harness.send("/perm grant 43 plugin.manage");
+    harness.resetLimits();
+
+    const calls = await harness.send("/perm user 43");
+    expect(calls[0]?.text).toContain("用户 43 的权限信息");
+    expect(calls[0]?.text).toContain("plugin.manage");
+});
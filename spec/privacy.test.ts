@@ -0,0 +1,26 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import { BotHarness } from "../src/harness/Harness";
+
+let harness: BotHarness;
+
+beforeEach(async () => {
+    harness = await BotHarness.create({ plugins: ["system", "privacy"] });
+});
+
+afterEach(async () => {
+    await harness.dispose();
+});
+
+test("移除链接中的跟踪参数并替换原消息", async () => {
+    const calls = await harness.send("看看 https://www.bilibili.com/video/BV1xx411c7mD?spm_id_from=333.1007&vd_source=abc", { userId: 42 });
+
+    const answer = calls.find(call => call.method === "answerText");
+    expect(answer?.text).toContain("https://www.bilibili.com/video/BV1xx411c7mD");
+    expect(answer?.text).not.toContain("spm_id_from");
+    expect(calls.some(call => call.method === "delete")).toBe(true);
+});
+
+test("没有跟踪参数的链接不做处理", async () => {
+    expect(await harness.send("https://example.com/page", { userId: 42 })).toHaveLength(0);
+    expect(await harness.send("https://www.bilibili.com/video/BV1xx411c7mD", { userId: 42 })).toHaveLength(0);
+});
@@ -0,0 +1,40 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import { BotHarness } from "../src/harness/Harness";
+
+let harness: BotHarness;
+
+beforeEach(async () => {
+    harness = await BotHarness.create({ plugins: ["system"] });
+});
+
+afterEach(async () => {
+    await harness.dispose();
+});
+
+test("非管理员不能查看插件列表", async () => {
+    const calls = await harness.send("/plugins", { userId: 42 });
+    expect(calls[0]?.text).toBe("❌ 你没有执行此命令的权限");
+});
+
+test("管理员可以查看插件列表", async () => {
+    const calls = await harness.send("/plugins");
+    expect(calls[0]?.text).toContain("📂 插件列表 (1)");
+    expect(calls[0]?.text).toContain("✅ 已启用 system");
+});
+
+test("帮助只列出用户可以使用的命令", async () => {
+    const calls = await harness.send("/help", { userId: 42 });
+    expect(calls[0]?.text).toContain("命令帮助中心");
+    expect(calls[0]?.text).toContain("/help");
+    expect(calls[0]?.text).not.toContain("/exec");
+});
+
+test("管理员可以查看聊天白名单", async () => {
+    const calls = await harness.send("/chats list");
+    expect(calls[0]?.text).toContain("✅ 已批准 -1000");
+});
+
+test("不处理未启用聊天中的命令", async () => {
+    const calls = await harness.send("/start", { chatId: -2000 });
+    expect(calls.filter(call => call.text !== undefined)).toHaveLength(0);
+});
@@ -1,9 +1,62 @@
-import OpenRouter from "./provider/OpenRouter";
+import type { Message } from "./provider/BaseProvider";
+import { FailoverAI, ProviderRegistry, type AIRole } from "./ProviderRegistry";
+import { PersonaManager, type Persona, type PromptContext } from "./Persona";
 
-export function getHighQualityAI() {
-    return new OpenRouter([], "deepseek/deepseek-r1:free");
+/**
+ * 获取指定用途的AI，请求按配置顺序尝试候选服务，服务不可用时自动切换
+ * @param messages 之前的对话历史，用于多轮对话
+ */
+export function getAI(role: AIRole, messages: Message[] = []) {
+    return new FailoverAI(role, messages);
+}
+
+/**
+ * @param messages 之前的对话历史，用于多轮对话
+ */
+export function getHighQualityAI(messages: Message[] = []) {
+    return getAI('highQuality', messages);
 }
 
 export function getFastAI() {
-    return new OpenRouter([], "deepseek/deepseek-chat-v3-0324:free");
+    return getAI('fast');
+}
+
+export function getTranslationAI() {
+    return getAI('translation');
+}
+
+export function getSummarizationAI() {
+    return getAI('summarization');
+}
+
+/**
+ * 识别图片的AI，只有配置了 vision 的模型会接收图片
+ * @param messages 之前的对话历史，用于多轮对话
+ */
+export function getVisionAI(messages: Message[] = []) {
+    return getAI('vision', messages);
+}
+
+/**
+ * 用途的首选服务是否暂停中，此时响应可能更慢
+ */
+export function isAIDegraded(role: AIRole): boolean {
+    return ProviderRegistry.isDegraded(role);
+}
+
+/**
+ * 获取并渲染提示词模板，聊天的人设覆盖了该名称的模板时使用覆盖的模板
+ * 使用AI的插件都通过这里获取提示词，模板中可以使用 {{date}}、{{chatTitle}} 等变量
+ * @param name 模板名称
+ * @param template 插件内置的模板
+ */
+export function renderPrompt(name: string, template: string, context: PromptContext = {}): string {
+    return PersonaManager.renderPrompt(name, template, context);
+}
+
+/**
+ * 获取聊天的AI人设
+ */
+export function getPersona(chatId?: number): Persona {
+    return PersonaManager.get(chatId);
 }
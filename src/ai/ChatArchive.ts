@@ -0,0 +1,351 @@
+import type { Jieba } from "@node-rs/jieba";
+import { log } from "../log";
+import type { Features } from "../features";
+import { ConfigStore } from "../utils/ConfigStore";
+
+// 存档的一条消息
+export interface ArchivedMessage {
+    id: number;      // 消息ID
+    userId: number;
+    name: string;    // 发送者名称
+    text: string;
+    date: number;    // 发送时间（毫秒）
+}
+
+// 检索结果
+export interface RecallResult {
+    message: ArchivedMessage;
+    score: number;
+    link?: string;   // 消息链接，普通群组没有
+}
+
+export interface ChatArchiveOptions {
+    maxMessages: number;    // 每个聊天保留的消息数量，超出时丢弃最早的消息
+    maxTextLength: number;  // 每条消息保留的字数
+}
+
+// 开启存档的聊天列表（配置目录下的 ai-archive.json）
+interface ArchiveListData {
+    chats: number[];
+}
+
+// 聊天的存档内容（配置目录下的 ai-archive.<聊天ID>.json）
+interface ArchiveChatData {
+    username?: string;  // 公开群组的用户名，用于生成消息链接
+    messages: ArchivedMessage[];
+}
+
+// 索引中的一条消息
+interface IndexedDocument {
+    message: ArchivedMessage;
+    counts: Map<string, number>; // 词频
+    length: number;              // 分词数量
+}
+
+// 收到消息后延迟保存（毫秒），合并频繁的写入
+const ARCHIVE_SAVE_DELAY = 30 * 1000;
+
+// BM25 参数
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// 检索时忽略的常见词
+const STOP_WORDS = new Set([
+    '的', '了', '是', '我', '你', '他', '她', '它', '我们', '你们', '他们', '吗', '呢', '吧', '啊', '呀',
+    '什么', '怎么', '怎么样', '这', '那', '这个', '那个', '和', '与', '在', '有', '就', '也', '都', '要', '会',
+    '还', '又', '把', '被', '给', '对', '说', '一个', '没有', '不', '之前', '以前', '时候',
+    'the', 'a', 'an', 'is', 'are', 'was', 'to', 'of', 'and', 'or', 'in', 'on', 'for', 'it', 'we', 'i', 'you'
+]);
+
+// 至少包含一个文字或数字的词才建立索引
+const WORD_PATTERN = /[\p{L}\p{N}]/u;
+
+// 结巴分词实例，首次使用时加载词典
+let jiebaPromise: Promise<Jieba> | null = null;
+
+function getJieba(): Promise<Jieba> {
+    jiebaPromise ??= (async () => {
+        const [{ Jieba }, { dict }] = await Promise.all([
+            import('@node-rs/jieba'),
+            import('@node-rs/jieba/dict')
+        ]);
+        return Jieba.withDict(dict);
+    })();
+    return jiebaPromise;
+}
+
+/**
+ * 分词并去掉标点和常见词，统一为小写
+ */
+export async function tokenize(text: string): Promise<string[]> {
+    const jieba = await getJieba();
+    return jieba.cutForSearch(text.toLowerCase(), true)
+        .map(word => word.trim())
+        .filter(word => word && WORD_PATTERN.test(word) && !STOP_WORDS.has(word));
+}
+
+/**
+ * 单个聊天的消息和倒排索引
+ */
+class ChatIndex {
+    readonly messages: ArchivedMessage[] = [];
+
+    private documents = new Map<number, IndexedDocument>(); // 消息ID -> 消息和词频
+    private postings = new Map<string, Set<number>>();      // 词 -> 包含该词的消息ID
+    private totalLength = 0;
+
+    constructor(public username?: string) { }
+
+    /**
+     * 加入消息和它的分词结果，已存在的消息ID会被忽略
+     */
+    add(message: ArchivedMessage, tokens: string[]): void {
+        if (this.documents.has(message.id)) return;
+
+        this.messages.push(message);
+        const counts = new Map<string, number>();
+        for (const token of tokens) {
+            counts.set(token, (counts.get(token) ?? 0) + 1);
+        }
+        this.documents.set(message.id, { message, counts, length: tokens.length });
+        this.totalLength += tokens.length;
+        for (const token of counts.keys()) {
+            let ids = this.postings.get(token);
+            if (!ids) {
+                ids = new Set();
+                this.postings.set(token, ids);
+            }
+            ids.add(message.id);
+        }
+    }
+
+    /**
+     * 丢弃最早的消息，直到不超过 maxMessages 条
+     */
+    trim(maxMessages: number): void {
+        const removed = this.messages.splice(0, Math.max(0, this.messages.length - maxMessages));
+        for (const message of removed) {
+            const document = this.documents.get(message.id);
+            if (!document) continue;
+            this.documents.delete(message.id);
+            this.totalLength -= document.length;
+            for (const token of document.counts.keys()) {
+                const ids = this.postings.get(token);
+                ids?.delete(message.id);
+                if (ids?.size === 0) {
+                    this.postings.delete(token);
+                }
+            }
+        }
+    }
+
+    /**
+     * 按 BM25 计算相关度，分数相同时较新的消息优先
+     */
+    search(tokens: string[], limit: number): { message: ArchivedMessage; score: number }[] {
+        const total = this.documents.size;
+        if (total === 0) return [];
+
+        const averageLength = this.totalLength / total || 1;
+        const scores = new Map<number, number>();
+        for (const token of new Set(tokens)) {
+            const ids = this.postings.get(token);
+            if (!ids) continue;
+            const idf = Math.log(1 + (total - ids.size + 0.5) / (ids.size + 0.5));
+            for (const id of ids) {
+                const { counts, length } = this.documents.get(id)!;
+                const frequency = counts.get(token)!;
+                const score = idf * frequency * (BM25_K1 + 1) /
+                    (frequency + BM25_K1 * (1 - BM25_B + BM25_B * length / averageLength));
+                scores.set(id, (scores.get(id) ?? 0) + score);
+            }
+        }
+
+        return [...scores]
+            .map(([id, score]) => ({ message: this.documents.get(id)!.message, score }))
+            .sort((a, b) => b.score - a.score || b.message.date - a.message.date)
+            .slice(0, limit);
+    }
+
+    toJSON(): ArchiveChatData {
+        return { ...(this.username ? { username: this.username } : {}), messages: this.messages };
+    }
+}
+
+/**
+ * 聊天记录存档
+ * 管理员为聊天开启存档后，保存该聊天之后的文字消息，并使用结巴分词建立本地全文索引，
+ * 供 /ai recall 检索群内过去的讨论。
+ *
+ * 开启存档的聊天列表保存在 ai-archive.json，每个聊天的消息保存在 ai-archive.<聊天ID>.json，
+ * 聊天的索引在首次使用时从保存的消息重建。
+ */
+export class ChatArchive {
+    static readonly CONFIG_NAME = 'ai-archive';
+
+    private enabledChats = new Set<number>();
+    private indexes = new Map<number, Promise<ChatIndex>>();
+    private readonly store = new ConfigStore();
+    // 有新消息等待保存的聊天
+    private dirtyChats = new Set<number>();
+
+    constructor(private options: ChatArchiveOptions) { }
+
+    /**
+     * 读取开启存档的聊天列表
+     */
+    async load(features: Features, options: ChatArchiveOptions = this.options): Promise<void> {
+        this.store.attach(features);
+        this.options = options;
+        this.indexes.clear();
+        const data = await this.store.load<ArchiveListData>(ChatArchive.CONFIG_NAME, { chats: [] });
+        this.enabledChats = new Set(Array.isArray(data.chats) ? data.chats.filter(id => typeof id === 'number') : []);
+    }
+
+    /**
+     * 聊天是否开启了存档
+     */
+    isEnabled(chatId: number): boolean {
+        return this.enabledChats.has(chatId);
+    }
+
+    /**
+     * 为聊天开启存档
+     * @returns 是否保存成功
+     */
+    async enable(chatId: number): Promise<boolean> {
+        this.enabledChats.add(chatId);
+        return this.saveList();
+    }
+
+    /**
+     * 关闭聊天的存档并删除已保存的消息
+     * @returns 是否保存成功
+     */
+    async disable(chatId: number): Promise<boolean> {
+        this.enabledChats.delete(chatId);
+        this.indexes.delete(chatId);
+        this.dirtyChats.delete(chatId);
+        return await this.store.save(this.getChatConfigName(chatId), { messages: [] }) && await this.saveList();
+    }
+
+    /**
+     * 存档的消息数量
+     */
+    async count(chatId: number): Promise<number> {
+        return this.isEnabled(chatId) ? (await this.getIndex(chatId)).messages.length : 0;
+    }
+
+    /**
+     * 存档一条消息，聊天未开启存档时忽略
+     * @param username 公开群组的用户名，用于生成消息链接
+     */
+    async add(chatId: number, message: ArchivedMessage, username?: string | null): Promise<void> {
+        if (!this.isEnabled(chatId)) return;
+
+        const text = message.text.trim().slice(0, this.options.maxTextLength);
+        if (!text) return;
+
+        const index = await this.getIndex(chatId);
+        index.username = username || undefined;
+        index.add({ ...message, text }, await tokenize(`${message.name} ${text}`));
+        index.trim(this.options.maxMessages);
+        this.dirtyChats.add(chatId);
+        this.scheduleSave();
+    }
+
+    /**
+     * 检索与问题相关的消息
+     * @returns 按相关度排序的消息
+     */
+    async search(chatId: number, query: string, limit: number): Promise<RecallResult[]> {
+        if (!this.isEnabled(chatId)) return [];
+
+        const index = await this.getIndex(chatId);
+        const tokens = await tokenize(query);
+        return index.search(tokens, limit).map(({ message, score }) => ({
+            message,
+            score,
+            link: ChatArchive.getMessageLink(chatId, message.id, index.username)
+        }));
+    }
+
+    /**
+     * 生成消息链接，公开群组使用用户名，超级群组使用 t.me/c 链接，普通群组没有链接
+     */
+    static getMessageLink(chatId: number, messageId: number, username?: string): string | undefined {
+        if (username) {
+            return `https://t.me/${username}/${messageId}`;
+        }
+        // 超级群组的ID为 -100 加上频道ID
+        if (chatId < -1000000000000) {
+            return `https://t.me/c/${-chatId - 1000000000000}/${messageId}`;
+        }
+        return undefined;
+    }
+
+    /**
+     * 保存尚未写入的消息
+     */
+    flush(): Promise<void> {
+        return this.store.flush();
+    }
+
+    /**
+     * 获取聊天的索引，首次使用时读取保存的消息并建立索引
+     */
+    private getIndex(chatId: number): Promise<ChatIndex> {
+        let index = this.indexes.get(chatId);
+        if (!index) {
+            index = this.loadIndex(chatId);
+            this.indexes.set(chatId, index);
+        }
+        return index;
+    }
+
+    private async loadIndex(chatId: number): Promise<ChatIndex> {
+        const data = await this.store.load<ArchiveChatData>(this.getChatConfigName(chatId), { messages: [] });
+        const index = new ChatIndex(data.username);
+        const messages = Array.isArray(data.messages) ? data.messages : [];
+        for (const message of messages) {
+            if (typeof message?.id !== 'number' || typeof message.text !== 'string') continue;
+            index.add(message, await tokenize(`${message.name} ${message.text}`));
+        }
+        index.trim(this.options.maxMessages);
+        log.debug(`聊天 ${chatId} 的存档已加载，共 ${index.messages.length} 条消息`);
+        return index;
+    }
+
+    private getChatConfigName(chatId: number): string {
+        return `${ChatArchive.CONFIG_NAME}.${chatId}`;
+    }
+
+    /**
+     * 延迟保存，合并短时间内的多条消息
+     */
+    private scheduleSave(): void {
+        this.store.schedule(() => this.save(), ARCHIVE_SAVE_DELAY);
+    }
+
+    /**
+     * 保存有新消息的聊天
+     */
+    private async save(): Promise<void> {
+        const chatIds = [...this.dirtyChats];
+        this.dirtyChats.clear();
+        for (const chatId of chatIds) {
+            const index = this.indexes.get(chatId);
+            if (!index) continue;
+            if (!await this.store.save(this.getChatConfigName(chatId), (await index).toJSON())) {
+                log.warn(`保存聊天 ${chatId} 的存档失败`);
+            }
+        }
+    }
+
+    /**
+     * 保存开启存档的聊天列表
+     */
+    private saveList(): Promise<boolean> {
+        return this.store.save(ChatArchive.CONFIG_NAME, { chats: [...this.enabledChats] });
+    }
+}
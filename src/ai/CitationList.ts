@@ -0,0 +1,90 @@
+import { escapeHTML } from "../utils/HtmlHelper";
+
+// 登记回答可以引用的来源，返回来源编号
+export type CiteSource = (title: string, link?: string) => number;
+
+// 回答中的引用编号，例如 [1]、[1, 3]、[结果 2]
+const CITATION_PATTERN = /\[(?:结果\s*)?(\d+(?:\s*[,，、]\s*\d+)*)\]/g;
+// 代码中的方括号不是引用
+const CODE_BLOCK_PATTERN = /(<(code|pre)\b[^>]*>[\s\S]*?<\/\2>)/gi;
+// 来源列表中标题的最大长度
+const CITATION_TITLE_LENGTH = 60;
+
+/**
+ * 回答引用的来源
+ * 来源按登记顺序从 1 开始编号，同一链接只编号一次。格式化回答时把 [编号] 替换为来源链接，
+ * 去掉模型编造的、不对应任何来源的编号，并在回答下方列出被引用的来源
+ */
+export class CitationList {
+    private sources: { title: string; link?: string }[] = [];
+    private numbers = new Map<string, number>();
+
+    /**
+     * @param label 来源列表的标题
+     */
+    constructor(private readonly label = '来源') { }
+
+    get size(): number {
+        return this.sources.length;
+    }
+
+    /**
+     * 登记来源
+     * @returns 来源的编号
+     */
+    add(title: string, link?: string): number {
+        const existing = link ? this.numbers.get(link) : undefined;
+        if (existing) return existing;
+
+        this.sources.push({ title, link });
+        if (link) this.numbers.set(link, this.sources.length);
+        return this.sources.length;
+    }
+
+    /**
+     * 把HTML回答中的 [编号] 替换为来源链接，去掉不存在的编号
+     */
+    link(content: string): string {
+        return content.split(CODE_BLOCK_PATTERN).map((part, index) => {
+            // split 的结果依次为：普通文本、代码块、代码块的标签名
+            if (index % 3 !== 0) return index % 3 === 1 ? part : '';
+            return part.replace(CITATION_PATTERN, (_, list: string) => this.parse(list).map(number => {
+                const source = this.sources[number - 1]!;
+                return source.link ? `<a href="${escapeHTML(source.link)}">[${number}]</a>` : `[${number}]`;
+            }).join(''));
+        }).join('');
+    }
+
+    /**
+     * 格式化被引用的来源，回答中没有有效的引用时列出全部来源
+     */
+    format(content: string): string {
+        if (this.sources.length === 0) return '';
+
+        const cited = new Set<number>();
+        for (const match of content.replace(CODE_BLOCK_PATTERN, '').matchAll(CITATION_PATTERN)) {
+            this.parse(match[1]!).forEach(number => cited.add(number));
+        }
+        const numbers = cited.size > 0
+            ? [...cited].sort((a, b) => a - b)
+            : this.sources.map((_, index) => index + 1);
+
+        const lines = numbers.map(number => {
+            const source = this.sources[number - 1]!;
+            const title = escapeHTML(source.title.length > CITATION_TITLE_LENGTH
+                ? `${source.title.slice(0, CITATION_TITLE_LENGTH)}...`
+                : source.title);
+            return `[${number}] ${source.link ? `<a href="${escapeHTML(source.link)}">${title}</a>` : title}`;
+        });
+        return `<br><br><blockquote collapsible><b>📎 ${this.label}:</b><br>${lines.join('<br>')}</blockquote>`;
+    }
+
+    /**
+     * 解析引用中的编号，只保留存在的来源
+     */
+    private parse(list: string): number[] {
+        return list.split(/\s*[,，、]\s*/)
+            .map(Number)
+            .filter(number => Number.isInteger(number) && number >= 1 && number <= this.sources.length);
+    }
+}
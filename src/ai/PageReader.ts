@@ -0,0 +1,249 @@
+import { log } from "../log";
+import { extractText } from "../utils/HtmlHelper";
+import { generateRandomUserAgent } from "../utils/UserAgent";
+import { tokenize } from "./ChatArchive";
+import type { CiteSource } from "./CitationList";
+
+// 网页正文缓存时间（毫秒）和缓存的网页数量
+const PAGE_CACHE_EXPIRY = 30 * 60 * 1000;
+const PAGE_CACHE_SIZE = 100;
+// 每个网页保留的正文字数
+const MAX_PAGE_TEXT = 20000;
+// 不读取正文的链接：文件下载和视频网站
+const SKIPPED_PAGE_PATTERN = /\.(?:pdf|docx?|xlsx?|pptx?|zip|rar|7z|exe|apk|mp3|mp4)(?:[?#]|$)|youtube\.com|youtu\.be|bilibili\.com\/video/i;
+// 不属于正文的标签，连同内容一起去掉
+const NON_CONTENT_PATTERN = /<(script|style|noscript|template|svg|iframe|nav|header|footer|aside|form|button|select)\b[^>]*>[\s\S]*?<\/\1\s*>/gi;
+
+// 读取网页的设置（ai 插件配置中的 pageReading）
+export interface PageReadingOptions {
+    enabled: boolean;       // 是否读取搜索结果的网页正文
+    maxPages: number;       // 每次搜索读取的网页数量
+    maxPassages: number;    // 交给AI的段落数量
+    passageLength: number;  // 每个段落的字数
+    maxBytes: number;       // 每个网页最多下载的字节数
+    timeout: number;        // 读取网页的超时时间（毫秒）
+    domainTimeouts: Record<string, number>; // 按域名覆盖超时时间，同时匹配子域名
+}
+
+// 网页正文中的一段
+interface PagePassage {
+    page: number;      // 所在网页的序号
+    position: number;  // 在网页中的位置
+    text: string;
+    score: number;
+}
+
+/**
+ * 网页读取类 - 读取搜索结果的网页正文，按与问题的相关度挑选段落
+ * 只读取HTML和纯文本网页，超过大小限制的部分不读取；每个域名可以单独设置超时时间
+ */
+export class PageReader {
+    private pageCache = new Map<string, { timestamp: number, text: string }>();
+
+    /**
+     * 读取网页并挑选与问题最相关的段落
+     * @param pages 要读取的网页，按优先顺序
+     * @param options 读取网页的设置
+     * @param cite 登记引用的来源，与搜索结果使用相同的编号
+     * @returns 按网页分组的段落，没有读取到内容时为空字符串
+     */
+    async read(question: string, pages: { title: string; link: string }[], options: PageReadingOptions, cite?: CiteSource): Promise<string> {
+        const targets = pages.filter(page => !SKIPPED_PAGE_PATTERN.test(page.link)).slice(0, options.maxPages);
+        if (!options.enabled || targets.length === 0) return '';
+
+        const texts = await Promise.all(targets.map(page => this.getPageText(page.link, options)));
+        const passages = texts.flatMap((text, page) =>
+            PageReader.splitPassages(text, options.passageLength).map((passage, position) => ({ page, position, text: passage, score: 0 })));
+        if (passages.length === 0) return '';
+
+        const selected = await PageReader.rankPassages(question, passages, options.maxPassages);
+        log.info(`已读取${texts.filter(Boolean).length}/${targets.length}个网页，选出${selected.length}个相关段落`);
+
+        return targets.map((page, index) => {
+            const pagePassages = selected.filter(passage => passage.page === index).sort((a, b) => a.position - b.position);
+            if (pagePassages.length === 0) return '';
+            const number = cite ? `[结果 ${cite(page.title, page.link)}] ` : '';
+            return `${number}标题: ${page.title}\n链接: ${page.link}\n${pagePassages.map(passage => `…${passage.text}…`).join('\n')}\n`;
+        }).filter(Boolean).join('\n');
+    }
+
+    /**
+     * 获取网页正文，读取失败时返回空字符串
+     */
+    private async getPageText(url: string, options: PageReadingOptions): Promise<string> {
+        const cached = this.pageCache.get(url);
+        if (cached && Date.now() - cached.timestamp < PAGE_CACHE_EXPIRY) {
+            return cached.text;
+        }
+
+        let text = '';
+        try {
+            const html = await this.fetchPage(url, options);
+            text = html ? PageReader.extractMainText(html) : '';
+        } catch (err) {
+            const error = err instanceof Error ? err : new Error(String(err));
+            log.debug(`读取网页 ${url} 失败: ${error.message}`);
+        }
+
+        // 失败的结果也缓存，避免反复请求无法访问的网页
+        this.pageCache.delete(url);
+        this.pageCache.set(url, { timestamp: Date.now(), text });
+        if (this.pageCache.size > PAGE_CACHE_SIZE) {
+            this.pageCache.delete(this.pageCache.keys().next().value!);
+        }
+        return text;
+    }
+
+    /**
+     * 下载网页，只读取 maxBytes 以内的内容
+     * @returns 网页内容，不是HTML或纯文本时返回 null
+     */
+    private async fetchPage(url: string, options: PageReadingOptions): Promise<string | null> {
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), PageReader.getTimeout(url, options));
+
+        try {
+            const response = await fetch(url, {
+                signal: controller.signal,
+                redirect: 'follow',
+                headers: {
+                    'User-Agent': generateRandomUserAgent(),
+                    'Accept': 'text/html,application/xhtml+xml,text/plain;q=0.9',
+                    'Accept-Language': 'zh-CN,zh;q=0.9,en;q=0.8'
+                }
+            });
+            const contentType = response.headers.get('content-type') ?? '';
+            if (!response.ok || !response.body || (contentType && !/text\/html|text\/plain|xhtml/i.test(contentType))) {
+                await response.body?.cancel();
+                return null;
+            }
+
+            const reader = response.body.getReader();
+            const chunks: Uint8Array[] = [];
+            let size = 0;
+            while (size < options.maxBytes) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                chunks.push(value);
+                size += value.length;
+            }
+            await reader.cancel();
+
+            const bytes = new Uint8Array(size);
+            let offset = 0;
+            for (const chunk of chunks) {
+                bytes.set(chunk, offset);
+                offset += chunk.length;
+            }
+            return PageReader.decode(bytes.subarray(0, options.maxBytes), contentType);
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    /**
+     * 按响应头或网页中声明的编码解码，不支持的编码使用 UTF-8
+     */
+    private static decode(bytes: Uint8Array, contentType: string): string {
+        const head = new TextDecoder('ascii').decode(bytes.subarray(0, 2048));
+        const charset = /charset=["']?([\w-]+)/i.exec(contentType)?.[1] ?? /<meta[^>]+charset=["']?([\w-]+)/i.exec(head)?.[1] ?? 'utf-8';
+        try {
+            return new TextDecoder(charset as ConstructorParameters<typeof TextDecoder>[0]).decode(bytes);
+        } catch {
+            return new TextDecoder('utf-8').decode(bytes);
+        }
+    }
+
+    /**
+     * 网页的超时时间，domainTimeouts 中的域名同时匹配其子域名
+     */
+    private static getTimeout(url: string, options: PageReadingOptions): number {
+        const hostname = new URL(url).hostname;
+        const domain = Object.keys(options.domainTimeouts)
+            .filter(domain => hostname === domain || hostname.endsWith(`.${domain}`))
+            .sort((a, b) => b.length - a.length)[0];
+        return domain ? options.domainTimeouts[domain]! : options.timeout;
+    }
+
+    /**
+     * 提取网页正文：去掉脚本、导航等内容，优先使用 article 或 main 标签中的内容
+     */
+    private static extractMainText(html: string): string {
+        const content = html.replace(/<!--[\s\S]*?-->/g, '').replace(NON_CONTENT_PATTERN, ' ');
+        const main = /<article\b[^>]*>([\s\S]*?)<\/article>/i.exec(content)?.[1]
+            ?? /<main\b[^>]*>([\s\S]*?)<\/main>/i.exec(content)?.[1]
+            ?? /<body\b[^>]*>([\s\S]*)/i.exec(content)?.[1]
+            ?? content;
+        // 块级标签结束处补上空格，避免相邻的标题和正文连在一起
+        return extractText(main.replace(/<\/(p|div|li|h[1-6]|tr|section)>/gi, ' </$1>'))
+            .slice(0, MAX_PAGE_TEXT);
+    }
+
+    /**
+     * 按句子把正文分成长度接近 length 的段落
+     */
+    private static splitPassages(text: string, length: number): string[] {
+        const passages: string[] = [];
+        let current = '';
+        for (const sentence of text.split(/(?<=[。！？!?；;])|(?<=\.)\s+/)) {
+            for (let start = 0; start < sentence.length; start += length) {
+                current += sentence.slice(start, start + length);
+                if (current.length >= length) {
+                    passages.push(current.trim());
+                    current = '';
+                }
+            }
+        }
+        if (current.trim().length >= 20) {
+            passages.push(current.trim());
+        }
+        return passages;
+    }
+
+    /**
+     * 按 BM25 计算段落与问题的相关度，选出最相关的段落；都不相关时使用每个网页的第一段
+     */
+    private static async rankPassages(question: string, passages: PagePassage[], count: number): Promise<PagePassage[]> {
+        const queryTokens = new Set(await tokenize(question));
+        const passageTokens = await Promise.all(passages.map(passage => tokenize(passage.text)));
+        const averageLength = passageTokens.reduce((sum, tokens) => sum + tokens.length, 0) / passages.length || 1;
+
+        const documentFrequency = new Map<string, number>();
+        for (const tokens of passageTokens) {
+            for (const token of new Set(tokens)) {
+                if (queryTokens.has(token)) {
+                    documentFrequency.set(token, (documentFrequency.get(token) ?? 0) + 1);
+                }
+            }
+        }
+
+        passages.forEach((passage, index) => {
+            const tokens = passageTokens[index]!;
+            const frequencies = new Map<string, number>();
+            for (const token of tokens) {
+                if (queryTokens.has(token)) frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+            }
+            passage.score = 0;
+            for (const [token, frequency] of frequencies) {
+                const df = documentFrequency.get(token)!;
+                const idf = Math.log(1 + (passages.length - df + 0.5) / (df + 0.5));
+                passage.score += idf * frequency * 2.2 / (frequency + 1.2 * (0.25 + 0.75 * tokens.length / averageLength));
+            }
+        });
+
+        // 相同的段落只保留一次，每个网页最多占一半名额，避免一个长网页挤掉其他网页
+        const seen = new Set<string>();
+        const perPage = new Map<number, number>();
+        const maxPerPage = Math.ceil(count / 2);
+        const relevant = passages.filter(passage => passage.score > 0).sort((a, b) => b.score - a.score).filter(passage => {
+            const used = perPage.get(passage.page) ?? 0;
+            if (seen.has(passage.text) || used >= maxPerPage) return false;
+            seen.add(passage.text);
+            perPage.set(passage.page, used + 1);
+            return true;
+        });
+        return relevant.length > 0
+            ? relevant.slice(0, count)
+            : passages.filter(passage => passage.position === 0).slice(0, count);
+    }
+}
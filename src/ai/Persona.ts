@@ -0,0 +1,238 @@
+import { log } from "../log";
+import type { Features } from "../features";
+import { ConfigStore } from "../utils/ConfigStore";
+import type { Message } from "./provider/BaseProvider";
+import { AI_ROLES, type AIRole } from "./ProviderRegistry";
+
+// 回答长度
+export type AnswerLength = 'short' | 'normal' | 'detailed';
+
+// 聊天的AI人设
+export interface Persona {
+    systemPrompt: string;          // 系统提示词，支持模板变量
+    language: string;              // 回答使用的语言
+    answerLength: AnswerLength;
+    search: boolean;               // 回答前是否联网搜索和调用工具
+    role: AIRole;                  // 回答使用的AI用途
+    prompts: Record<string, string>; // 按名称覆盖插件的提示词模板
+}
+
+// 渲染提示词模板时的上下文，其他字段作为同名变量
+export interface PromptContext {
+    chatId?: number;
+    chatTitle?: string;
+    userName?: string;
+    [name: string]: string | number | undefined;
+}
+
+// 持久化文件内容
+interface PersonaStoreData {
+    chats: Record<string, Partial<Persona>>; // 聊天ID -> 与默认人设不同的字段
+}
+
+export const DEFAULT_PERSONA: Persona = {
+    systemPrompt: '',
+    language: '简体中文',
+    answerLength: 'normal',
+    search: true,
+    role: 'highQuality',
+    prompts: {}
+};
+
+export const ANSWER_LENGTHS: AnswerLength[] = ['short', 'normal', 'detailed'];
+
+// 可以用于回答的AI用途（识图用途只在有图片时使用）
+export const PERSONA_ROLES: AIRole[] = AI_ROLES.filter(role => role !== 'vision');
+
+const LENGTH_INSTRUCTIONS: Record<AnswerLength, string> = {
+    short: '回答尽量简短，只给出结论和最关键的信息，一般不超过150字。',
+    normal: '',
+    detailed: '回答尽量详细全面，充分展开背景、原因和细节。'
+};
+
+const TEMPLATE_VARIABLE = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * AI人设管理
+ * 每个聊天可以设置系统提示词、回答语言、回答长度、是否联网搜索、回答使用的AI用途，
+ * 并按名称覆盖各插件的提示词模板。人设保存到配置目录下的 ai-personas.json。
+ *
+ * 所有使用AI的插件通过 renderPrompt 获取提示词，模板中的 {{变量}} 会被替换，
+ * 内置变量有 date、time、datetime、chatId、chatTitle、userName、language
+ */
+export class PersonaManager {
+    static readonly CONFIG_NAME = 'ai-personas';
+
+    private static defaults: Persona = DEFAULT_PERSONA;
+    private static data: PersonaStoreData = { chats: {} };
+    private static store = new ConfigStore();
+
+    /**
+     * 读取保存的人设
+     * @param defaults 所有聊天的默认人设（ai 插件配置中的 persona）
+     */
+    static async load(features: Features, defaults: Partial<Persona> = {}): Promise<void> {
+        this.store.attach(features);
+        this.defaults = this.merge(DEFAULT_PERSONA, this.sanitize(defaults, 'default'));
+
+        const data = await this.store.load<PersonaStoreData>(this.CONFIG_NAME, { chats: {} });
+        const chats: Record<string, Partial<Persona>> = {};
+        if (data.chats && typeof data.chats === 'object') {
+            for (const [chatId, persona] of Object.entries(data.chats)) {
+                chats[chatId] = this.sanitize(persona, chatId);
+            }
+        }
+        this.data = { chats };
+    }
+
+    /**
+     * 获取聊天的人设
+     */
+    static get(chatId?: number): Persona {
+        const override = chatId === undefined ? undefined : this.data.chats[String(chatId)];
+        return override ? this.merge(this.defaults, override) : this.defaults;
+    }
+
+    /**
+     * 聊天是否设置了自己的人设
+     */
+    static isCustom(chatId: number): boolean {
+        return !!this.data.chats[String(chatId)];
+    }
+
+    /**
+     * 修改聊天的人设
+     * @returns 是否保存成功
+     */
+    static async set(chatId: number, changes: Partial<Persona>): Promise<boolean> {
+        const key = String(chatId);
+        const current = this.data.chats[key] ?? {};
+        this.data.chats[key] = {
+            ...current,
+            ...changes,
+            ...(changes.prompts ? { prompts: { ...current.prompts, ...changes.prompts } } : {})
+        };
+        return this.save();
+    }
+
+    /**
+     * 恢复聊天的默认人设
+     * @returns 是否保存成功
+     */
+    static async reset(chatId: number): Promise<boolean> {
+        delete this.data.chats[String(chatId)];
+        return this.save();
+    }
+
+    /**
+     * 取消聊天对某个提示词模板的覆盖
+     * @returns 是否保存成功，聊天没有覆盖该模板时返回 false
+     */
+    static async resetPrompt(chatId: number, name: string): Promise<boolean> {
+        const prompts = this.data.chats[String(chatId)]?.prompts;
+        if (!prompts || !(name in prompts)) {
+            return false;
+        }
+        delete prompts[name];
+        return this.save();
+    }
+
+    /**
+     * 获取并渲染提示词模板，聊天的人设覆盖了该名称的模板时使用覆盖的模板
+     * @param name 模板名称，例如 translation、news_summary
+     * @param template 插件内置的模板
+     * @param context 聊天信息和模板中使用的其他变量
+     */
+    static renderPrompt(name: string, template: string, context: PromptContext = {}): string {
+        const persona = this.get(context.chatId);
+        return this.render(persona.prompts[name] ?? template, context);
+    }
+
+    /**
+     * 生成人设的系统提示词，包含回答语言和长度要求；没有需要说明的内容时返回空字符串
+     */
+    static getSystemPrompt(context: PromptContext = {}): string {
+        const persona = this.get(context.chatId);
+        return [
+            this.render(persona.systemPrompt, context).trim(),
+            persona.language ? `请使用${persona.language}回答。` : '',
+            LENGTH_INSTRUCTIONS[persona.answerLength]
+        ].filter(Boolean).join('\n');
+    }
+
+    /**
+     * 在对话历史前加上人设的系统提示词
+     */
+    static withSystemPrompt(messages: Message[], context: PromptContext = {}): Message[] {
+        const systemPrompt = this.getSystemPrompt(context);
+        return systemPrompt ? [{ role: 'system', content: systemPrompt }, ...messages] : messages;
+    }
+
+    /**
+     * 替换模板中的 {{变量}}，未知的变量替换为空字符串
+     */
+    static render(template: string, context: PromptContext = {}): string {
+        const variables = this.getVariables(context);
+        return template.replace(TEMPLATE_VARIABLE, (_, name: string) => variables[name] ?? '');
+    }
+
+    private static getVariables(context: PromptContext): Record<string, string> {
+        const now = new Date();
+        const variables: Record<string, string> = {
+            date: now.toLocaleDateString('zh-CN', { year: 'numeric', month: '2-digit', day: '2-digit' }),
+            time: now.toLocaleTimeString('zh-CN', { hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: false }),
+            datetime: now.toLocaleString('zh-CN', {
+                year: 'numeric', month: '2-digit', day: '2-digit',
+                hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: false
+            }),
+            language: this.get(context.chatId).language
+        };
+        for (const [name, value] of Object.entries(context)) {
+            if (value !== undefined) {
+                variables[name] = String(value);
+            }
+        }
+        return variables;
+    }
+
+    private static merge(base: Persona, override: Partial<Persona>): Persona {
+        return { ...base, ...override, prompts: { ...base.prompts, ...override.prompts } };
+    }
+
+    /**
+     * 去掉无效的字段
+     */
+    private static sanitize(persona: Partial<Persona>, name: string): Partial<Persona> {
+        if (!persona || typeof persona !== 'object') {
+            log.warn(`AI人设 ${name} 无效，已忽略`);
+            return {};
+        }
+
+        const result: Partial<Persona> = {};
+        if (typeof persona.systemPrompt === 'string') result.systemPrompt = persona.systemPrompt;
+        if (typeof persona.language === 'string') result.language = persona.language;
+        if (ANSWER_LENGTHS.includes(persona.answerLength as AnswerLength)) result.answerLength = persona.answerLength;
+        if (typeof persona.search === 'boolean') result.search = persona.search;
+        if (PERSONA_ROLES.includes(persona.role as AIRole)) result.role = persona.role;
+        if (persona.prompts && typeof persona.prompts === 'object') {
+            result.prompts = Object.fromEntries(Object.entries(persona.prompts).filter(([, value]) => typeof value === 'string'));
+        }
+
+        const ignored = Object.keys(persona).filter(key => !(key in result));
+        if (ignored.length > 0) {
+            log.warn(`AI人设 ${name} 中的 ${ignored.join(', ')} 无效，已忽略`);
+        }
+        return result;
+    }
+
+    /**
+     * 等待所有写入完成
+     */
+    static flush(): Promise<void> {
+        return this.store.flush();
+    }
+
+    private static save(): Promise<boolean> {
+        return this.store.save(this.CONFIG_NAME, this.data);
+    }
+}
@@ -0,0 +1,343 @@
+import { log } from "../log";
+import { ProviderError } from "./provider/BaseProvider";
+import type { Message, ToolCall, ToolDefinition } from "./provider/BaseProvider";
+import OpenRouter from "./provider/OpenRouter";
+import DeepInfra from "./provider/DeepInfra";
+import DuckDuckGo from "./provider/DuckDuckGo";
+import OpenAICompatible, { type OpenAICompatibleConfig } from "./provider/OpenAICompatible";
+
+// AI 用途，每种用途按顺序配置候选服务
+export type AIRole = 'fast' | 'highQuality' | 'translation' | 'summarization' | 'vision';
+
+// 候选服务：服务名称 + 模型
+export interface ProviderEntry {
+    provider: string;
+    model: string;
+    vision?: boolean; // 模型是否支持图片输入
+    tools?: boolean;  // 模型是否支持工具调用，不支持的模型收到工具声明时会直接报错
+}
+
+// 服务配置（ai 插件配置中的 providers），每种用途一个有序列表，排在前面的优先使用
+export type ProviderRegistryConfig = Record<AIRole, ProviderEntry[]>;
+
+// 各服务需要实现的对话接口
+export interface ChatProvider {
+    stream(output: (content: string, done: boolean, thinking?: string) => void, text: string, store?: boolean, images?: string[]): Promise<void>;
+    get(text: string, store?: boolean): Promise<string>;
+    readonly supportsTools?: boolean;
+    readonly supportsImages?: boolean;
+    streamWithTools?(
+        output: (content: string, done: boolean, thinking?: string) => void,
+        text: string,
+        tools: ToolDefinition[],
+        executeTool: (call: ToolCall) => Promise<string>,
+        maxSteps?: number
+    ): Promise<void>;
+}
+
+// 自定义的 OpenAI 兼容服务，名称可以在各用途的候选服务中使用
+export type EndpointConfig = Record<string, OpenAICompatibleConfig>;
+
+// 服务健康状态
+export interface ProviderHealth {
+    failures: number;      // 连续失败次数
+    backoffUntil: number;  // 在此之前暂停使用（时间戳）
+    lastError?: string;
+    lastSuccessAt?: number;
+}
+
+export const AI_ROLES: AIRole[] = ['fast', 'highQuality', 'translation', 'summarization', 'vision'];
+
+export const DEFAULT_PROVIDER_CONFIG: ProviderRegistryConfig = {
+    fast: [
+        { provider: 'openrouter', model: 'deepseek/deepseek-chat-v3-0324:free', tools: true },
+        { provider: 'deepinfra', model: 'deepseek-ai/DeepSeek-V3' },
+        { provider: 'duckduckgo', model: 'o3-mini' }
+    ],
+    highQuality: [
+        { provider: 'openrouter', model: 'deepseek/deepseek-r1:free' },
+        { provider: 'deepinfra', model: 'deepseek-ai/DeepSeek-R1' },
+        // R1 不支持工具调用，使用工具回答时改用该模型
+        { provider: 'openrouter', model: 'deepseek/deepseek-chat-v3-0324:free', tools: true }
+    ],
+    translation: [
+        { provider: 'openrouter', model: 'deepseek/deepseek-chat-v3-0324:free' },
+        { provider: 'duckduckgo', model: 'o3-mini' }
+    ],
+    summarization: [
+        { provider: 'openrouter', model: 'deepseek/deepseek-r1:free' },
+        { provider: 'deepinfra', model: 'deepseek-ai/DeepSeek-V3' }
+    ],
+    vision: [
+        { provider: 'openrouter', model: 'qwen/qwen2.5-vl-72b-instruct:free', vision: true },
+        { provider: 'deepinfra', model: 'meta-llama/Llama-4-Maverick-17B-128E-Instruct-FP8', vision: true }
+    ]
+};
+
+// 可用的服务
+const PROVIDER_FACTORIES: Record<string, (messages: Message[], model: string) => ChatProvider> = {
+    openrouter: (messages, model) => new OpenRouter(messages, model),
+    deepinfra: (messages, model) => new DeepInfra(messages, model),
+    duckduckgo: (messages, model) => new DuckDuckGo(messages, model)
+};
+
+// 暂停时长：限流和服务端错误按连续失败次数翻倍，额度不足直接暂停较长时间
+const RATE_LIMIT_BACKOFF = 60 * 1000;
+const SERVER_ERROR_BACKOFF = 30 * 1000;
+const NO_CREDITS_BACKOFF = 30 * 60 * 1000;
+const MAX_BACKOFF = 15 * 60 * 1000;
+
+/**
+ * AI 服务注册表
+ * 记录每种用途的候选服务和每个服务的健康状态。
+ * 服务限流（429）、额度不足（402）、服务端错误（5xx）或无法连接时暂停使用一段时间，
+ * 请求自动切换到下一个候选服务
+ */
+export class ProviderRegistry {
+    private static config: ProviderRegistryConfig = DEFAULT_PROVIDER_CONFIG;
+    private static endpoints: Map<string, OpenAICompatibleConfig> = new Map();
+    private static health: Map<string, ProviderHealth> = new Map();
+
+    /**
+     * 应用服务配置，未知的服务会被忽略，某种用途没有可用服务时使用默认配置
+     * @param endpoints 自定义的 OpenAI 兼容服务，不能与内置服务同名
+     */
+    static configure(config: Partial<ProviderRegistryConfig>, endpoints: EndpointConfig = {}): void {
+        this.endpoints.clear();
+        for (const [name, endpoint] of Object.entries(endpoints)) {
+            if (PROVIDER_FACTORIES[name]) {
+                log.warn(`自定义AI服务 ${name} 与内置服务同名，已忽略`);
+            } else if (!endpoint || typeof endpoint.baseURL !== 'string' || !endpoint.baseURL) {
+                log.warn(`自定义AI服务 ${name} 缺少 baseURL，已忽略`);
+            } else {
+                this.endpoints.set(name, endpoint);
+            }
+        }
+
+        const next = { ...DEFAULT_PROVIDER_CONFIG };
+        for (const role of AI_ROLES) {
+            const entries = Array.isArray(config[role]) ? config[role] : [];
+            const valid = entries.filter(entry => {
+                if (entry && this.isKnownProvider(entry.provider) && typeof entry.model === 'string' &&
+                    (entry.vision === undefined || typeof entry.vision === 'boolean') &&
+                    (entry.tools === undefined || typeof entry.tools === 'boolean')) {
+                    return true;
+                }
+                log.warn(`AI服务配置 ${role} 中的 ${JSON.stringify(entry)} 无效，已忽略`);
+                return false;
+            });
+            if (valid.length > 0) {
+                next[role] = valid;
+            }
+        }
+        this.config = next;
+    }
+
+    /**
+     * 获取用途的候选服务，可用的服务按配置顺序排在前面，
+     * 暂停中的服务按恢复时间排在最后，全部暂停时仍会尝试
+     */
+    static getCandidates(role: AIRole): ProviderEntry[] {
+        const now = Date.now();
+        const entries = this.config[role];
+        const available = entries.filter(entry => this.getHealth(entry.provider).backoffUntil <= now);
+        const backoff = entries
+            .filter(entry => this.getHealth(entry.provider).backoffUntil > now)
+            .sort((a, b) => this.getHealth(a.provider).backoffUntil - this.getHealth(b.provider).backoffUntil);
+        return [...available, ...backoff];
+    }
+
+    /**
+     * 用途的首选服务是否暂停中（请求会使用备用服务）
+     */
+    static isDegraded(role: AIRole): boolean {
+        const first = this.config[role][0];
+        return !!first && this.getHealth(first.provider).backoffUntil > Date.now();
+    }
+
+    static createProvider(entry: ProviderEntry, messages: Message[]): ChatProvider {
+        const endpoint = this.endpoints.get(entry.provider);
+        if (endpoint) {
+            return new OpenAICompatible(endpoint, messages, entry.model);
+        }
+        return PROVIDER_FACTORIES[entry.provider]!(messages, entry.model);
+    }
+
+    /**
+     * 服务和模型是否都支持工具调用
+     */
+    static supportsTools(entry: ProviderEntry): boolean {
+        return entry.tools === true && this.createProvider(entry, []).supportsTools === true;
+    }
+
+    /**
+     * 服务和模型是否都支持图片输入
+     */
+    static supportsImages(entry: ProviderEntry): boolean {
+        return entry.vision === true && this.createProvider(entry, []).supportsImages === true;
+    }
+
+    /**
+     * 请求失败时是否切换到下一个服务
+     * 其他 HTTP 错误（如 400、401）说明请求或配置有问题，直接抛出
+     */
+    static shouldFailover(error: unknown): boolean {
+        return !(error instanceof ProviderError) || error.isUnavailable;
+    }
+
+    static recordSuccess(provider: string): void {
+        const health = this.getHealth(provider);
+        health.failures = 0;
+        health.backoffUntil = 0;
+        health.lastSuccessAt = Date.now();
+    }
+
+    static recordFailure(provider: string, error: unknown): void {
+        const health = this.getHealth(provider);
+        const status = error instanceof ProviderError ? error.status : undefined;
+        health.failures++;
+        health.lastError = error instanceof Error ? error.message : String(error);
+
+        let delay: number;
+        if (status === 402) {
+            delay = NO_CREDITS_BACKOFF;
+        } else {
+            const base = status === 429 ? RATE_LIMIT_BACKOFF : SERVER_ERROR_BACKOFF;
+            delay = Math.min(MAX_BACKOFF, base * 2 ** (health.failures - 1));
+        }
+        health.backoffUntil = Date.now() + delay;
+        log.warn(`AI服务 ${provider} 暂停使用 ${Math.round(delay / 1000)} 秒: ${health.lastError}`);
+    }
+
+    /**
+     * 所有服务的健康状态
+     */
+    static getStatus(): Map<string, ProviderHealth> {
+        const providers = [...Object.keys(PROVIDER_FACTORIES), ...this.endpoints.keys()];
+        return new Map(providers.map(provider => [provider, { ...this.getHealth(provider) }]));
+    }
+
+    private static isKnownProvider(provider: string): boolean {
+        return !!PROVIDER_FACTORIES[provider] || this.endpoints.has(provider);
+    }
+
+    private static getHealth(provider: string): ProviderHealth {
+        let health = this.health.get(provider);
+        if (!health) {
+            health = { failures: 0, backoffUntil: 0 };
+            this.health.set(provider, health);
+        }
+        return health;
+    }
+}
+
+/**
+ * 带自动切换的 AI 对话
+ * 与单个服务的接口相同，请求依次尝试用途的候选服务；
+ * 流式输出已经开始后出错不再切换，避免回答内容重复
+ */
+export class FailoverAI implements ChatProvider {
+    constructor(private readonly role: AIRole, private readonly messages: Message[] = []) { }
+
+    /**
+     * 流式对话，附带图片时只使用支持图片的服务
+     * 图片不保存到历史中，追问时只保留文字
+     */
+    async stream(output: (content: string, done: boolean, thinking?: string) => void, text: string, store = true, images: string[] = []): Promise<void> {
+        let started = false;
+        await this.run(async provider => {
+            let answer = '';
+            await provider.stream((content, done, thinking) => {
+                started ||= content.length > 0;
+                answer = content;
+                output(content, done, thinking);
+            }, text, false, images);
+            return answer;
+        }, text, store, () => started, images.length > 0 ? entry => ProviderRegistry.supportsImages(entry) : undefined);
+    }
+
+    async get(text: string, store = true): Promise<string> {
+        return this.run(provider => provider.get(text, false), text, store, () => false);
+    }
+
+    /**
+     * 用途的候选服务中是否有支持工具调用的服务和模型
+     */
+    get supportsTools(): boolean {
+        return ProviderRegistry.getCandidates(this.role).some(entry => ProviderRegistry.supportsTools(entry));
+    }
+
+    /**
+     * 用途的候选服务中是否有支持图片输入的服务
+     */
+    get supportsImages(): boolean {
+        return ProviderRegistry.getCandidates(this.role).some(entry => ProviderRegistry.supportsImages(entry));
+    }
+
+    /**
+     * 带工具调用的流式对话，只使用配置了 tools 的模型
+     */
+    async streamWithTools(
+        output: (content: string, done: boolean, thinking?: string) => void,
+        text: string,
+        tools: ToolDefinition[],
+        executeTool: (call: ToolCall) => Promise<string>,
+        maxSteps?: number
+    ): Promise<void> {
+        let started = false;
+        await this.run(async provider => {
+            if (!provider.streamWithTools) {
+                throw new Error('该服务不支持工具调用');
+            }
+            let answer = '';
+            await provider.streamWithTools((content, done, thinking) => {
+                started ||= content.length > 0;
+                answer = content;
+                output(content, done, thinking);
+            }, text, tools, executeTool, maxSteps);
+            return answer;
+        }, text, true, () => started, entry => ProviderRegistry.supportsTools(entry));
+    }
+
+    /**
+     * 依次尝试候选服务
+     * @param outputStarted 是否已经有内容输出给调用方
+     */
+    private async run(
+        request: (provider: ChatProvider) => Promise<string>,
+        text: string,
+        store: boolean,
+        outputStarted: () => boolean,
+        filter: (entry: ProviderEntry) => boolean = () => true
+    ): Promise<string> {
+        const candidates = ProviderRegistry.getCandidates(this.role).filter(filter);
+        let lastError: unknown = new Error(`没有可用的AI服务 (${this.role})`);
+
+        for (const [index, entry] of candidates.entries()) {
+            try {
+                // 每个服务使用历史的副本，失败的尝试不会留在历史中
+                const provider = ProviderRegistry.createProvider(entry, [...this.messages]);
+                const content = await request(provider);
+                ProviderRegistry.recordSuccess(entry.provider);
+                if (store) {
+                    this.messages.push({ role: 'user', content: text }, { role: 'assistant', content });
+                }
+                return content;
+            } catch (err) {
+                if (!ProviderRegistry.shouldFailover(err)) {
+                    throw err;
+                }
+                ProviderRegistry.recordFailure(entry.provider, err);
+                if (outputStarted()) {
+                    throw err;
+                }
+                lastError = err;
+                if (index < candidates.length - 1) {
+                    log.warn(`AI服务 ${entry.provider}/${entry.model} 不可用，切换到下一个服务`);
+                }
+            }
+        }
+
+        throw lastError;
+    }
+}
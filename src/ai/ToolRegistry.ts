@@ -0,0 +1,128 @@
+import { log } from "../log";
+import type { ToolCall, ToolDefinition } from "./provider/BaseProvider";
+
+// 工具参数（JSON Schema 的一个属性）
+export interface AIToolParameter {
+    type: 'string' | 'number' | 'integer' | 'boolean';
+    description: string;
+    enum?: string[];
+}
+
+// 工具执行时的上下文
+export interface AIToolContext {
+    chatId: number;
+    userId: number;
+    // 登记回答可以引用的来源，返回来源编号；工具在结果中用该编号标注来源，模型回答时引用
+    cite?(title: string, link?: string): number;
+}
+
+/**
+ * 插件提供给 AI 助手的工具，在插件的 tools 中声明
+ * 工具应当只读取信息，执行结果以文本形式交给模型
+ */
+export interface AITool {
+    name: string;        // 工具名称，只能包含字母、数字、下划线和连字符
+    title: string;       // 显示给用户的名称，例如“维基百科”
+    description: string; // 给模型看的用途说明
+    parameters: Record<string, AIToolParameter>;
+    required?: string[];
+    execute(args: Record<string, any>, context: AIToolContext): Promise<string>;
+}
+
+// 单次工具调用的超时时间（毫秒）
+const TOOL_TIMEOUT = 20000;
+// 交给模型的工具结果最大长度
+const MAX_RESULT_LENGTH = 4000;
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+/**
+ * AI 工具注册表
+ * 汇总一次对话中可用的工具，生成提供给模型的声明并执行模型请求的调用；
+ * 工具出错时把错误说明作为结果交给模型，由模型决定换用其他方式
+ */
+export class ToolRegistry {
+    private readonly tools = new Map<string, AITool>();
+
+    constructor(tools: AITool[] = []) {
+        for (const tool of tools) {
+            this.register(tool);
+        }
+    }
+
+    register(tool: AITool): void {
+        if (!TOOL_NAME_PATTERN.test(tool.name)) {
+            log.warn(`AI工具名称 ${tool.name} 无效，已忽略`);
+            return;
+        }
+        if (this.tools.has(tool.name)) {
+            log.warn(`AI工具 ${tool.name} 重复注册，已忽略`);
+            return;
+        }
+        this.tools.set(tool.name, tool);
+    }
+
+    get size(): number {
+        return this.tools.size;
+    }
+
+    get(name: string): AITool | undefined {
+        return this.tools.get(name);
+    }
+
+    /**
+     * 提供给模型的工具声明
+     */
+    getDefinitions(): ToolDefinition[] {
+        return Array.from(this.tools.values()).map(tool => ({
+            type: 'function',
+            function: {
+                name: tool.name,
+                description: tool.description,
+                parameters: {
+                    type: 'object',
+                    properties: tool.parameters,
+                    required: tool.required ?? []
+                }
+            }
+        }));
+    }
+
+    /**
+     * 执行模型请求的工具调用
+     * @returns 交给模型的结果文本，出错时为错误说明
+     */
+    async execute(call: ToolCall, context: AIToolContext): Promise<string> {
+        const tool = this.tools.get(call.function.name);
+        if (!tool) {
+            return `错误: 没有名为 ${call.function.name} 的工具`;
+        }
+
+        let args: Record<string, any>;
+        try {
+            args = call.function.arguments.trim() ? JSON.parse(call.function.arguments) : {};
+        } catch {
+            return `错误: 工具参数不是有效的JSON: ${call.function.arguments}`;
+        }
+
+        const missing = (tool.required ?? []).filter(name => args[name] === undefined || args[name] === '');
+        if (missing.length > 0) {
+            return `错误: 缺少参数 ${missing.join(', ')}`;
+        }
+
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        try {
+            const timeout = new Promise<never>((_, reject) => {
+                timer = setTimeout(() => reject(new Error('工具执行超时')), TOOL_TIMEOUT);
+            });
+            const result = await Promise.race([tool.execute(args, context), timeout]);
+            const text = result.trim() || '没有找到相关结果';
+            return text.length > MAX_RESULT_LENGTH ? `${text.slice(0, MAX_RESULT_LENGTH)}\n...(结果过长，已截断)` : text;
+        } catch (err) {
+            const error = err instanceof Error ? err : new Error(String(err));
+            log.warn(`AI工具 ${tool.name} 执行失败: ${error.message}`);
+            return `错误: ${error.message}`;
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+}
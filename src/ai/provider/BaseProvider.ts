@@ -1,9 +1,39 @@
 import { log } from "../../log";
 
 export interface Message {
-    role: "user" | "assistant" | "system";
+    role: "user" | "assistant" | "system" | "tool";
     content: string;
     thinking?: string;
+    tool_calls?: ToolCall[]; // assistant 消息中请求调用的工具
+    tool_call_id?: string;   // tool 消息对应的工具调用
+    images?: string[];       // user 消息附带的图片（data URL）
+}
+
+// 模型请求的工具调用（OpenAI 格式）
+export interface ToolCall {
+    id: string;
+    type: 'function';
+    function: {
+        name: string;
+        arguments: string; // JSON 字符串
+    };
+}
+
+// 提供给模型的工具声明（OpenAI 格式）
+export interface ToolDefinition {
+    type: 'function';
+    function: {
+        name: string;
+        description: string;
+        parameters: Record<string, any>; // JSON Schema
+    };
+}
+
+// 一次流式请求的结果
+export interface StreamResult {
+    content: string;
+    thinking?: string;
+    toolCalls: ToolCall[];
 }
 
 export interface ProviderConfig {
@@ -21,7 +51,23 @@ export interface ProviderConfig {
     };
 }
 
-export const slowModeState: { isSlowMode: boolean; slowModeStart: number | null } = { isSlowMode: false, slowModeStart: null };
+/**
+ * 服务返回的 HTTP 错误
+ * status 用于判断是否应暂停该服务并切换到其他服务
+ */
+export class ProviderError extends Error {
+    constructor(message: string, public readonly status?: number) {
+        super(message);
+        this.name = 'ProviderError';
+    }
+
+    /**
+     * 服务暂时不可用：限流（429）、额度不足（402）或服务端错误（5xx）
+     */
+    get isUnavailable(): boolean {
+        return this.status === 429 || this.status === 402 || (this.status !== undefined && this.status >= 500);
+    }
+}
 
 export default class BaseProvider {
     protected messages: Message[];
@@ -29,6 +75,10 @@ export default class BaseProvider {
     protected apiKey?: Array<string>;
     protected chainOfThought: boolean;
     protected thinkingParameter: string;
+    // 本次请求提供给模型的工具
+    protected tools: ToolDefinition[] = [];
+    // 流式输出中的工具调用片段，按 index 拼接
+    private pendingToolCalls: ToolCall[] = [];
 
     constructor(messages: Message[] = [], model: string = '', chainOfThought: boolean = false, thinkingParameter: string = 'thinking') {
         this.messages = messages;
@@ -37,26 +87,12 @@ export default class BaseProvider {
         this.thinkingParameter = thinkingParameter;
     }
 
-    static async delayIfSlowMode(): Promise<void> {
-        if (slowModeState.isSlowMode) {
-            const now = Date.now();
-            if (slowModeState.slowModeStart && now - slowModeState.slowModeStart > 60000) {
-                log.info('Slow mode expired, resuming normal speed.');
-                slowModeState.slowModeStart = null;
-            } else if (slowModeState.slowModeStart) {
-                log.info('Slow mode active, delaying for 5 seconds.');
-                await new Promise(resolve => setTimeout(resolve, 5000));
-            }
-        }
-    }
-
     protected handleError(error: any, attempt: number, maxRetries: number): boolean {
         const statusCode = error.response?.status;
+        // 限流时不在同一服务上重试，由调用方暂停该服务并切换
         if (statusCode === 429) {
             log.warn(`Rate limit hit. Attempt ${attempt + 1} of ${maxRetries}`);
-            slowModeState.isSlowMode = true;
-            slowModeState.slowModeStart = Date.now();
-            return true;
+            throw new ProviderError('Rate limit exceeded', 429);
         }
 
         const errorMap: Record<number, string> = {
@@ -66,8 +102,36 @@ export default class BaseProvider {
             402: 'Insufficient credits'
         };
 
-        if (errorMap[statusCode]) throw new Error(errorMap[statusCode]);
-        return attempt < maxRetries - 1;
+        if (errorMap[statusCode]) throw new ProviderError(errorMap[statusCode], statusCode);
+        if (attempt < maxRetries - 1) return true;
+        if (statusCode) throw new ProviderError(`Request failed with status ${statusCode}`, statusCode);
+        return false;
+    }
+
+    /**
+     * 服务是否支持图片输入（OpenAI 格式的 image_url 内容）
+     * 还需要所用的模型支持图片，由服务配置中的 vision 标记
+     */
+    get supportsImages(): boolean {
+        return false;
+    }
+
+    /**
+     * 转换为请求中的消息格式：去掉思考过程，附带图片的消息转换为多段内容
+     */
+    protected formatMessages(): any[] {
+        return this.messages.map(({ thinking, images, ...message }) => {
+            if (!images || images.length === 0) {
+                return message;
+            }
+            return {
+                ...message,
+                content: [
+                    { type: 'text', text: message.content },
+                    ...images.map(url => ({ type: 'image_url', image_url: { url } }))
+                ]
+            };
+        });
     }
 
     /**
@@ -104,6 +168,11 @@ export default class BaseProvider {
                     content += parsed.choices[0].delta.content;
                 }
                 
+                // 拼接工具调用，名称和参数分多个片段返回
+                if (Array.isArray(parsed.choices[0].delta?.tool_calls)) {
+                    this.appendToolCallDeltas(parsed.choices[0].delta.tool_calls);
+                }
+
                 // 处理思考过程
                 if (this.chainOfThought && parsed.choices[0].delta?.[this.thinkingParameter]) {
                     thinking = (thinking || '') + parsed.choices[0].delta[this.thinkingParameter];
@@ -126,8 +195,9 @@ export default class BaseProvider {
     protected async handleStream(
         reader: { read(): Promise<{ done: boolean; value?: any }> },
         output: (content: string, done: boolean, thinking?: string) => void
-    ): Promise<{ content: string, thinking?: string }> {
+    ): Promise<StreamResult> {
         let content = '';
+        this.pendingToolCalls = [];
         let thinking: string | undefined = '';
         const decoder = new TextDecoder('utf-8', { fatal: false, ignoreBOM: true });
         let buffer = '';
@@ -162,13 +232,83 @@ export default class BaseProvider {
                 thinking = result.thinking;
             }
 
-            return { content, thinking };
+            return { content, thinking, toolCalls: this.pendingToolCalls.filter(call => call.function.name) };
         } catch (error) {
             log.error('Stream handling error:', error);
             throw error;
         }
     }
 
+    /**
+     * 服务是否支持工具调用，支持的服务需要实现 streamCompletion
+     * 还需要所用的模型支持工具调用，由服务配置中的 tools 标记
+     */
+    get supportsTools(): boolean {
+        return false;
+    }
+
+    /**
+     * 带工具调用的流式对话
+     * 模型请求调用工具时执行工具并把结果加入对话，再次请求，直到模型给出回答；
+     * 达到最大步数后不再提供工具，要求模型直接回答
+     * 服务不检查模型是否支持工具调用，调用方应只对配置了 tools 的模型使用
+     * @param tools 提供给模型的工具
+     * @param executeTool 执行工具调用，返回交给模型的结果
+     * @param maxSteps 最多调用工具的轮数
+     */
+    async streamWithTools(
+        output: (content: string, done: boolean, thinking?: string) => void,
+        text: string,
+        tools: ToolDefinition[],
+        executeTool: (call: ToolCall) => Promise<string>,
+        maxSteps = 4
+    ): Promise<void> {
+        this.messages.push({ role: "user", content: text });
+        try {
+            for (let step = 0; ; step++) {
+                this.tools = step < maxSteps ? tools : [];
+                const { content, thinking, toolCalls } = await this.streamCompletion(output);
+
+                if (toolCalls.length === 0 || this.tools.length === 0) {
+                    output(content, true, thinking);
+                    const messageToStore: Message = { role: "assistant", content };
+                    if (thinking) {
+                        messageToStore.thinking = thinking;
+                    }
+                    this.messages.push(messageToStore);
+                    return;
+                }
+
+                this.messages.push({ role: "assistant", content, tool_calls: toolCalls });
+                for (const call of toolCalls) {
+                    const result = await executeTool(call);
+                    this.messages.push({ role: "tool", tool_call_id: call.id, content: result });
+                }
+            }
+        } finally {
+            this.tools = [];
+        }
+    }
+
+    /**
+     * 使用当前的对话和工具请求一次流式回答
+     */
+    protected async streamCompletion(
+        _output: (content: string, done: boolean, thinking?: string) => void
+    ): Promise<StreamResult> {
+        throw new Error('该服务不支持工具调用');
+    }
+
+    private appendToolCallDeltas(deltas: any[]): void {
+        for (const delta of deltas) {
+            const index = typeof delta.index === 'number' ? delta.index : this.pendingToolCalls.length;
+            const call = this.pendingToolCalls[index] ??= { id: `call_${index}`, type: 'function', function: { name: '', arguments: '' } };
+            if (delta.id) call.id = delta.id;
+            if (delta.function?.name) call.function.name += delta.function.name;
+            if (delta.function?.arguments) call.function.arguments += delta.function.arguments;
+        }
+    }
+
     protected validateApiKey(): void {
         if (!this.apiKey || this.apiKey.length === 0) {
             throw new Error('API key is not configured');
@@ -2,7 +2,7 @@ import BaseProvider from './BaseProvider';
 import type { Message } from './BaseProvider';
 import { log } from '../../log';
 import { generateRandomUserAgent } from '../../utils/UserAgent';
-import { slowModeState } from './BaseProvider'; 
+import { ProviderError } from './BaseProvider';
 
 // 默认模型配置
 const API_CONFIG = {
@@ -71,6 +71,10 @@ export default class DeepInfra extends BaseProvider {
         super(messages, model, chainOfThought, thinkingParameter);
     }
 
+    get supportsImages(): boolean {
+        return true;
+    }
+
     /**
      * 在请求之间添加延迟以避免速率限制
      * @param multiplier 延迟乘数
@@ -94,7 +98,6 @@ export default class DeepInfra extends BaseProvider {
      */
     private async requestCompletion(maxRetries = 3, streaming = true): Promise<Response> {
         await this.sleep();
-        await DeepInfra.delayIfSlowMode();
 
         for (let attempt = 0; attempt < maxRetries; attempt++) {
             try {
@@ -103,7 +106,7 @@ export default class DeepInfra extends BaseProvider {
                 // 构建请求体
                 const requestBody: any = {
                     model: this.model,
-                    messages: this.messages,
+                    messages: this.formatMessages(),
                     stream: streaming,
                     temperature: API_CONFIG.params.temperature,
                     max_tokens: API_CONFIG.params.max_tokens,
@@ -153,19 +156,13 @@ export default class DeepInfra extends BaseProvider {
 
                 if (!response.ok) {
                     if (response.status === 429) {
-                        log.warn(`速率限制命中。尝试 ${attempt + 1} / ${maxRetries}。启用慢速模式。`);
-                        slowModeState.isSlowMode = true;
-                        slowModeState.slowModeStart = Date.now();
-                        
-                        // 重试延迟
-                        const waitTime = 2000 * (2 ** attempt) * (1 + Math.random() * 0.2);
-                        await new Promise(resolve => setTimeout(resolve, waitTime));
-                        continue;
+                        log.warn(`速率限制命中。尝试 ${attempt + 1} / ${maxRetries}`);
+                        throw new ProviderError('速率限制', 429);
                     }
                     
                     // 尝试获取错误详情
                     const errorText = await response.text().catch(() => '无法读取错误详情');
-                    throw new Error(`请求失败: ${response.status} ${response.statusText} - ${errorText}`);
+                    throw new ProviderError(`请求失败: ${response.status} ${response.statusText} - ${errorText}`, response.status);
                 }
                 
                 return response;
@@ -173,7 +170,9 @@ export default class DeepInfra extends BaseProvider {
                 const errorMessage = error instanceof Error ? error.message : String(error);
                 log.warn(`请求失败 (${attempt + 1}/${maxRetries}): ${errorMessage}`);
                 
-                if (attempt < maxRetries - 1) {
+                // 只重试服务端错误和网络错误
+                const retryable = !(error instanceof ProviderError) || (error.status ?? 0) >= 500;
+                if (retryable && attempt < maxRetries - 1) {
                     // 重试延迟
                     const waitTime = 1000 * (2 ** attempt) * (1 + Math.random() * 0.2);
                     await new Promise(resolve => setTimeout(resolve, waitTime));
@@ -191,13 +190,15 @@ export default class DeepInfra extends BaseProvider {
      * @param output 输出回调函数
      * @param text 输入文本
      * @param store 是否存储消息
+     * @param images 附带的图片（data URL）
      */
     async stream(
         output: (content: string, done: boolean, thinking?: string) => void, 
         text: string, 
-        store = true
+        store = true,
+        images: string[] = []
     ): Promise<void> {
-        this.messages.push({ role: "user", content: text });
+        this.messages.push({ role: "user", content: text, ...(images.length > 0 ? { images } : {}) });
         this.functionBuffer = ''; // 重置函数参数缓冲区
 
         try {
@@ -1,7 +1,7 @@
 import BaseProvider from './BaseProvider';
 import type { Message } from './BaseProvider';
 import { log } from '../../log';
-import { slowModeState } from './BaseProvider';
+import { ProviderError } from './BaseProvider';
 import { generateRandomUserAgent } from '../../utils/UserAgent';
 
 // 默认模型配置
@@ -14,9 +14,9 @@ interface DuckResponse {
     message?: string;
 }
 
-class DuckDuckGoError extends Error {
-    constructor(message: string, public type?: string) {
-        super(message);
+class DuckDuckGoError extends ProviderError {
+    constructor(message: string, public type?: string, status?: number) {
+        super(message, status);
         this.name = 'DuckDuckGoError';
     }
 }
@@ -249,7 +249,6 @@ export default class DuckDuckGo extends BaseProvider {
     private async requestCompletion(maxRetries = 3): Promise<Response> {
         await this.ensureInitialized();
         await this.sleep();
-        await DuckDuckGo.delayIfSlowMode();
 
         let retryCount = 0;
         while (retryCount < maxRetries) {
@@ -290,18 +289,10 @@ export default class DuckDuckGo extends BaseProvider {
                             throw new DuckDuckGoError("会话限制已达到", errorData.type);
                         }
 
-                        log.warn(`速率限制命中。尝试 ${retryCount + 1} / ${maxRetries}。启用慢速模式。`);
-                        slowModeState.isSlowMode = true;
-                        slowModeState.slowModeStart = Date.now();
-
-                        retryCount++;
-                        const waitTime = this.baseDelay * (2 ** retryCount) * (1 + Math.random());
-                        await new Promise(resolve => setTimeout(resolve, waitTime));
-
-                        // 刷新Cookie和VQD
+                        log.warn(`速率限制命中。尝试 ${retryCount + 1} / ${maxRetries}`);
+                        // 刷新Cookie，下次请求时重新获取
                         this.cookieInitialized = false;
-                        await this.getDefaultCookies();
-                        continue;
+                        throw new DuckDuckGoError("速率限制", errorData.type, 429);
                     }
 
                     if (response.status === 400) {
@@ -328,7 +319,7 @@ export default class DuckDuckGo extends BaseProvider {
                     }
 
                     const errorText = await response.text().catch(() => '无法读取错误响应');
-                    throw new Error(`请求失败: ${response.status} ${response.statusText} - ${errorText}`);
+                    throw new ProviderError(`请求失败: ${response.status} ${response.statusText} - ${errorText}`, response.status);
                 }
 
                 // 更新VQD和VQD HASH
@@ -347,6 +338,10 @@ export default class DuckDuckGo extends BaseProvider {
                 if (error instanceof DuckDuckGoError) {
                     throw error;
                 }
+                // 只重试服务端错误和网络错误
+                if (error instanceof ProviderError && (error.status ?? 0) < 500) {
+                    throw error;
+                }
 
                 retryCount++;
                 if (retryCount >= maxRetries) {
@@ -397,7 +392,7 @@ export default class DuckDuckGo extends BaseProvider {
                                 if (parsed.type === "ERR_CONVERSATION_LIMIT") {
                                     throw new DuckDuckGoError("会话限制已达到", parsed.type);
                                 }
-                                throw new DuckDuckGoError("速率限制", parsed.type);
+                                throw new DuckDuckGoError("速率限制", parsed.type, 429);
                             }
                             throw new DuckDuckGoError(parsed.type || '未知错误', parsed.type);
                         }
@@ -0,0 +1,199 @@
+import BaseProvider from './BaseProvider';
+import type { Message, StreamResult } from './BaseProvider';
+import { log } from '../../log';
+
+// 自定义服务地址配置（ai 插件配置中的 endpoints）
+export interface OpenAICompatibleConfig {
+    baseURL: string;                   // 接口地址，例如 http://192.168.1.10:8080/v1
+    apiKeys?: string[];                // 本地服务通常不需要，多个时随机使用
+    headers?: Record<string, string>;  // 额外的请求头
+    timeout?: number;                  // 请求超时（毫秒），本地模型较慢时可以调大
+    thinkingParameter?: string;        // 返回思考过程的字段名，默认 reasoning_content
+    params?: {
+        temperature?: number;
+        max_tokens?: number;
+        top_p?: number;
+    };
+}
+
+const DEFAULT_PARAMS = {
+    temperature: 1.0,
+    max_tokens: 8000,
+    top_p: 1.0
+};
+const DEFAULT_TIMEOUT = 180000;
+const THINK_START_TAG = '<think>';
+const THINK_END_TAG = '</think>';
+
+interface OpenAIResponse {
+    choices: Array<{
+        message: {
+            content: string;
+            [key: string]: any;
+        };
+    }>;
+}
+
+/**
+ * 通用的 OpenAI 兼容服务
+ * 适用于自建的 llama.cpp、vLLM、Ollama 等 /chat/completions 接口；
+ * 思考过程可以来自单独的字段，也可以来自回答开头的 <think> 标签
+ */
+export default class OpenAICompatible extends BaseProvider {
+    private readonly baseURL: string;
+
+    constructor(private readonly config: OpenAICompatibleConfig, messages: Message[] = [], model: string = '') {
+        super(messages, model, true, config.thinkingParameter || 'reasoning_content');
+        this.baseURL = config.baseURL.replace(/\/+$/, '');
+        this.apiKey = config.apiKeys ?? [];
+    }
+
+    /**
+     * 从回答中分离开头 <think> 标签内的思考过程
+     * 流式输出时标签可能尚未完整，未闭合的标签内容都视为思考过程
+     */
+    static splitThinkTags(raw: string, thinking?: string): { content: string, thinking?: string } {
+        const text = raw.trimStart();
+        if (!text.startsWith(THINK_START_TAG)) {
+            // 标签的开头部分还没有收全，暂不输出
+            if (text.length > 0 && THINK_START_TAG.startsWith(text)) {
+                return { content: '', thinking };
+            }
+            return { content: raw, thinking };
+        }
+
+        const end = text.indexOf(THINK_END_TAG);
+        let tagThinking = text.slice(THINK_START_TAG.length, end === -1 ? undefined : end);
+        if (end === -1) {
+            // 去掉尚未收全的结束标签
+            for (let length = THINK_END_TAG.length - 1; length > 0; length--) {
+                if (tagThinking.endsWith(THINK_END_TAG.slice(0, length))) {
+                    tagThinking = tagThinking.slice(0, -length);
+                    break;
+                }
+            }
+        }
+        tagThinking = tagThinking.trim();
+        const content = end === -1 ? '' : text.slice(end + THINK_END_TAG.length).trimStart();
+        return { content, thinking: [thinking, tagThinking].filter(Boolean).join('\n') || undefined };
+    }
+
+    private async makeRequest(streaming = false, maxRetries = 3): Promise<Response> {
+        const apiKey = this.getApiKey();
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/json',
+            ...this.config.headers,
+            ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+            ...(streaming ? { 'Accept': 'text/event-stream' } : {})
+        };
+
+        const requestBody = {
+            model: this.model,
+            messages: this.formatMessages(),
+            stream: streaming,
+            ...DEFAULT_PARAMS,
+            ...this.config.params,
+            ...(this.tools.length > 0 ? { tools: this.tools } : {})
+        };
+
+        for (let attempt = 0; attempt < maxRetries; attempt++) {
+            try {
+                const controller = new AbortController();
+                const timeoutId = setTimeout(() => controller.abort(), this.config.timeout ?? DEFAULT_TIMEOUT);
+
+                const response = await fetch(`${this.baseURL}/chat/completions`, {
+                    method: 'POST',
+                    headers,
+                    body: JSON.stringify(requestBody),
+                    signal: controller.signal
+                });
+
+                clearTimeout(timeoutId);
+
+                if (!response.ok) {
+                    const errorData = await response.json().catch(() => ({ message: 'Failed to parse error response' }));
+                    log.error(`API错误 ${this.baseURL} (${response.status}):`, JSON.stringify(errorData));
+                    throw { response: { status: response.status, data: errorData } };
+                }
+
+                return response;
+            } catch (error) {
+                if (!this.handleError(error, attempt, maxRetries)) throw error;
+                await new Promise(resolve => setTimeout(resolve, 1000 * (attempt + 1)));
+            }
+        }
+        throw new Error(`Request failed after ${maxRetries} retries`);
+    }
+
+    get supportsTools(): boolean {
+        return true;
+    }
+
+    get supportsImages(): boolean {
+        return true;
+    }
+
+    protected async streamCompletion(output: (content: string, done: boolean, thinking?: string) => void): Promise<StreamResult> {
+        const response = await this.makeRequest(true);
+        const reader = response.body?.getReader();
+        if (!reader) throw new Error('No reader available');
+
+        // 基类累积原始回答，输出前分离 <think> 标签
+        const result = await this.handleStream(reader, (raw, done, thinking) => {
+            const split = OpenAICompatible.splitThinkTags(raw, thinking);
+            output(split.content, done, split.thinking);
+        });
+        return { ...OpenAICompatible.splitThinkTags(result.content, result.thinking || undefined), toolCalls: result.toolCalls };
+    }
+
+    async stream(output: (content: string, done: boolean, thinking?: string) => void, text: string, store = true, images: string[] = []): Promise<void> {
+        this.messages.push({ role: "user", content: text, ...(images.length > 0 ? { images } : {}) });
+        try {
+            const { content, thinking } = await this.streamCompletion(output);
+
+            output(content, true, thinking);
+            if (store) {
+                const messageToStore: Message = { role: "assistant", content };
+                if (thinking) {
+                    messageToStore.thinking = thinking;
+                }
+                this.messages.push(messageToStore);
+            }
+        } catch (error: unknown) {
+            log.error('Stream failed:', error instanceof Error ? error.message : error);
+            throw error;
+        }
+    }
+
+    async get(text: string, store = true): Promise<string> {
+        this.messages.push({ role: "user", content: text });
+        try {
+            const response = await this.makeRequest(false);
+            const data = await response.json() as OpenAIResponse;
+
+            if (!data || !Array.isArray(data.choices) || data.choices.length === 0) {
+                log.error('Invalid API response:', JSON.stringify(data));
+                throw new Error('API返回的响应格式不正确或为空');
+            }
+
+            const message = data.choices[0]?.message;
+            const { content, thinking } = OpenAICompatible.splitThinkTags(message?.content || '', message?.[this.thinkingParameter]);
+            if (!content) {
+                throw new Error('Invalid response format from API');
+            }
+
+            if (store) {
+                const messageToStore: Message = { role: "assistant", content };
+                if (thinking) {
+                    messageToStore.thinking = thinking;
+                }
+                this.messages.push(messageToStore);
+            }
+
+            return content;
+        } catch (error: unknown) {
+            log.error('Request failed:', error instanceof Error ? error.message : error);
+            throw error;
+        }
+    }
+}
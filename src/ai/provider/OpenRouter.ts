@@ -1,5 +1,5 @@
 import BaseProvider from './BaseProvider';
-import type { Message, ProviderConfig } from './BaseProvider';
+import type { Message, ProviderConfig, StreamResult } from './BaseProvider';
 import { log } from '../../log';
 
 const API_CONFIG: ProviderConfig = {
@@ -43,7 +43,6 @@ export default class OpenRouter extends BaseProvider {
 
     private async makeRequest(streaming = false, maxRetries = 3): Promise<Response> {
         this.validateApiKey();
-        await OpenRouter.delayIfSlowMode();
 
         const headers = {
             ...API_CONFIG.headers,
@@ -54,7 +53,7 @@ export default class OpenRouter extends BaseProvider {
         // 构建请求体
         const requestBody: any = {
             model: this.model,
-            messages: this.messages,
+            messages: this.formatMessages(),
             stream: streaming,
             temperature: API_CONFIG.params.temperature,
             max_tokens: API_CONFIG.params.max_tokens,
@@ -63,6 +62,10 @@ export default class OpenRouter extends BaseProvider {
             presence_penalty: API_CONFIG.params.presence_penalty
         };
         
+        if (this.tools.length > 0) {
+            requestBody.tools = this.tools;
+        }
+
         // 添加思考过程配置
         if (this.chainOfThought) {
             requestBody.reasoning = {
@@ -101,15 +104,27 @@ export default class OpenRouter extends BaseProvider {
         throw new Error(`Request failed after ${maxRetries} retries`);
     }
 
-    async stream(output: (content: string, done: boolean, thinking?: string) => void, text: string, store = true): Promise<void> {
-        this.messages.push({ role: "user", content: text });
-        try {
-            const response = await this.makeRequest(true);
-            const reader = response.body?.getReader();
-            if (!reader) throw new Error('No reader available');
+    get supportsTools(): boolean {
+        return true;
+    }
 
-            // 使用基类的流式处理方法
-            const { content, thinking } = await this.handleStream(reader, output);
+    get supportsImages(): boolean {
+        return true;
+    }
+
+    protected async streamCompletion(output: (content: string, done: boolean, thinking?: string) => void): Promise<StreamResult> {
+        const response = await this.makeRequest(true);
+        const reader = response.body?.getReader();
+        if (!reader) throw new Error('No reader available');
+
+        // 使用基类的流式处理方法
+        return this.handleStream(reader, output);
+    }
+
+    async stream(output: (content: string, done: boolean, thinking?: string) => void, text: string, store = true, images: string[] = []): Promise<void> {
+        this.messages.push({ role: "user", content: text, ...(images.length > 0 ? { images } : {}) });
+        try {
+            const { content, thinking } = await this.streamCompletion(output);
 
             // 最终输出和存储
             output(content, true, thinking);
@@ -1,9 +1,7 @@
 import { SqliteStorage, TelegramClient } from "@mtcute/bun";
 import { log } from './log';
 import { Features } from './features';
-
-export const enableChats = process.env.ENABLE_CHATS?.split(',').map(Number) || [];
-export const managerIds = process.env.MANAGER_IDS?.split(',').map(Number) || [];
+import { managerIds } from './env';
 
 if (!managerIds.length) {
     throw new Error('请设置 MANAGER_IDS 环境变量');
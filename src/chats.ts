@@ -0,0 +1,225 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { log } from './log';
+import { CallbackDataBuilder } from './utils/callback';
+
+// 聊天状态: 已批准、等待审核、已屏蔽
+export type ChatStatus = 'approved' | 'pending' | 'blocked';
+
+// 聊天记录
+export interface ChatRecord {
+    id: number;
+    status: ChatStatus;
+    // 聊天标题
+    title?: string;
+    // 添加者（邀请机器人或执行 /chats add 的用户）
+    addedBy?: number;
+    // 最后更新时间
+    updatedAt: number;
+}
+
+/**
+ * 待审核聊天的回调数据
+ * 格式: chats:review:action:chatId，action 为 approve 或 deny
+ * 注意 chatId 通常为负数，解析后是字符串，使用前需要 Number() 转换
+ */
+export const ChatReviewCB = new CallbackDataBuilder<{
+    action: string;
+    chatId: number;
+}>('chats', 'review', ['action', 'chatId']);
+
+/**
+ * 聊天注册表
+ * 持久化保存允许使用机器人的聊天列表，替代只在启动时读取一次的 ENABLE_CHATS
+ * ENABLE_CHATS 中的聊天会在首次出现时自动加入为已批准
+ */
+export class ChatRegistry {
+    // 所有聊天记录
+    private chats = new Map<number, ChatRecord>();
+    // 机器人被拉入未知群组时是否进入待审核状态并通知管理员
+    private approvalRequired = true;
+    // 配置路径
+    private configPath: string;
+
+    /**
+     * 创建聊天注册表
+     * @param configDir 配置文件目录
+     */
+    constructor(configDir: string) {
+        this.configPath = path.join(configDir, 'chats.json');
+    }
+
+    /**
+     * 初始化聊天注册表
+     * @param seedChats 环境变量中配置的聊天，未出现过的会加入为已批准
+     */
+    async init(seedChats: number[]): Promise<void> {
+        await this.loadConfig();
+
+        let seeded = 0;
+        for (const chatId of seedChats) {
+            if (!this.chats.has(chatId)) {
+                this.chats.set(chatId, { id: chatId, status: 'approved', updatedAt: Date.now() });
+                seeded++;
+            }
+        }
+
+        if (seeded > 0) {
+            await this.saveConfig();
+        }
+
+        log.info(`Chat registry initialized: ${this.getApprovedChats().length} approved, ${this.list('pending').length} pending`);
+    }
+
+    /**
+     * 检查聊天是否已批准
+     * @param chatId 聊天ID
+     */
+    isApproved(chatId: number): boolean {
+        return this.chats.get(chatId)?.status === 'approved';
+    }
+
+    /**
+     * 获取所有已批准的聊天ID
+     */
+    getApprovedChats(): number[] {
+        return this.list('approved').map(chat => chat.id);
+    }
+
+    /**
+     * 获取聊天记录
+     * @param chatId 聊天ID
+     */
+    get(chatId: number): ChatRecord | undefined {
+        return this.chats.get(chatId);
+    }
+
+    /**
+     * 列出聊天记录
+     * @param status 只列出指定状态的聊天
+     */
+    list(status?: ChatStatus): ChatRecord[] {
+        const chats = Array.from(this.chats.values());
+        return status ? chats.filter(chat => chat.status === status) : chats;
+    }
+
+    /**
+     * 是否需要审核新群组
+     */
+    isApprovalRequired(): boolean {
+        return this.approvalRequired;
+    }
+
+    /**
+     * 设置是否需要审核新群组
+     * @param required 是否需要审核
+     */
+    async setApprovalRequired(required: boolean): Promise<boolean> {
+        this.approvalRequired = required;
+        return this.saveConfig();
+    }
+
+    /**
+     * 批准聊天
+     * @param chatId 聊天ID
+     * @param info 附加信息
+     */
+    async approve(chatId: number, info: Partial<Pick<ChatRecord, 'title' | 'addedBy'>> = {}): Promise<boolean> {
+        return this.setStatus(chatId, 'approved', info);
+    }
+
+    /**
+     * 屏蔽聊天（从白名单移除并记录，避免重启后被 ENABLE_CHATS 重新加入）
+     * @param chatId 聊天ID
+     */
+    async block(chatId: number): Promise<boolean> {
+        return this.setStatus(chatId, 'blocked');
+    }
+
+    /**
+     * 将聊天标记为待审核
+     * 已批准或已屏蔽的聊天不会被修改
+     * @param chatId 聊天ID
+     * @param info 附加信息
+     * @returns 是否为新的待审核聊天
+     */
+    async markPending(chatId: number, info: Partial<Pick<ChatRecord, 'title' | 'addedBy'>> = {}): Promise<boolean> {
+        const existing = this.chats.get(chatId);
+        if (existing && existing.status !== 'pending') {
+            return false;
+        }
+
+        await this.setStatus(chatId, 'pending', info);
+        return !existing;
+    }
+
+    /**
+     * 修改聊天状态并保存
+     */
+    private async setStatus(chatId: number, status: ChatStatus, info: Partial<Pick<ChatRecord, 'title' | 'addedBy'>> = {}): Promise<boolean> {
+        const existing = this.chats.get(chatId);
+        this.chats.set(chatId, {
+            id: chatId,
+            title: info.title ?? existing?.title,
+            addedBy: info.addedBy ?? existing?.addedBy,
+            status,
+            updatedAt: Date.now()
+        });
+
+        log.info(`Chat ${chatId} is now ${status}`);
+        return this.saveConfig();
+    }
+
+    /**
+     * 保存聊天配置到文件
+     */
+    async saveConfig(): Promise<boolean> {
+        try {
+            const config = {
+                approvalRequired: this.approvalRequired,
+                chats: Array.from(this.chats.values())
+            };
+
+            await fs.mkdir(path.dirname(this.configPath), { recursive: true });
+            await fs.writeFile(this.configPath, JSON.stringify(config, null, 2), 'utf-8');
+            return true;
+        } catch (err) {
+            log.error('Failed to save chat registry:', err);
+            return false;
+        }
+    }
+
+    /**
+     * 从文件加载聊天配置
+     */
+    async loadConfig(): Promise<boolean> {
+        try {
+            // 检查文件是否存在
+            try {
+                await fs.access(this.configPath);
+            } catch (err) {
+                // 文件不存在，不是错误
+                return false;
+            }
+
+            const content = await fs.readFile(this.configPath, 'utf-8');
+            const config = JSON.parse(content);
+
+            if (typeof config.approvalRequired === 'boolean') {
+                this.approvalRequired = config.approvalRequired;
+            }
+
+            if (config.chats && Array.isArray(config.chats)) {
+                for (const chat of config.chats as ChatRecord[]) {
+                    this.chats.set(chat.id, chat);
+                }
+            }
+
+            log.info('Chat registry loaded');
+            return true;
+        } catch (err) {
+            log.error('Failed to load chat registry:', err);
+            return false;
+        }
+    }
+}
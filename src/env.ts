@@ -0,0 +1,9 @@
+/**
+ * 环境变量配置
+ * 从 app.ts 中独立出来，使 Features 与插件在不启动 Telegram 客户端的情况下也能被导入（例如离线测试框架）
+ */
+
+// 启用机器人的聊天ID列表
+export const enableChats = process.env.ENABLE_CHATS?.split(',').map(Number) || [];
+// 管理员ID列表
+export const managerIds = process.env.MANAGER_IDS?.split(',').map(Number) || [];
@@ -1,7 +1,7 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
-import { TelegramClient } from '@mtcute/bun';
+import { BotKeyboard, TelegramClient, html, type ChatMemberUpdate } from '@mtcute/bun';
 import {
     Dispatcher,
     filters,
@@ -9,9 +9,11 @@ import {
     type CallbackQueryContext
 } from '@mtcute/dispatcher';
 import { log } from './log';
-import { enableChats, managerIds } from './app';
+import { enableChats, managerIds } from './env';
 import { PermissionManager, type Permission } from './permissions';
+import { ChatRegistry, ChatReviewCB } from './chats';
 import { embeddedPlugins, embeddedPluginsList } from './embedded-plugins';
+import type { AITool } from './ai/ToolRegistry';
 
 // 扩展 TelegramClient 类型，以便在整个应用中访问features实例
 declare module '@mtcute/bun' {
@@ -241,6 +243,8 @@ export interface BotPlugin {
     commands?: PluginCommand[];
     // 添加权限声明数组
     permissions?: Permission[];
+    // 提供给AI助手调用的工具
+    tools?: AITool[];
     onLoad?(client: TelegramClient): Promise<void>;
     onUnload?(): Promise<void>;
     // 插件依赖，插件加载时会先加载其依赖
@@ -299,6 +303,10 @@ export class Features {
     /** 权限管理器实例 */
     private permissionManager!: PermissionManager;
 
+    // ===== 聊天白名单相关 =====
+    /** 聊天注册表实例 */
+    private chatRegistry?: ChatRegistry;
+
     // ===== 命令系统相关 =====
     /** 命令冷却时间跟踪: 用户ID -> (命令名称 -> 时间戳) */
     private commandCooldowns: Map<number, Map<string, number>> = new Map();
@@ -371,12 +379,18 @@ export class Features {
     // ===== 配置系统相关 =====
     /** 插件配置缓存: 插件名称 -> 配置对象 */
     private pluginConfigs = new Map<string, any>();
+    /** 聊天级插件开关: 聊天ID（'*' 表示所有聊天的默认值） -> (插件名称 -> 是否启用) */
+    private chatPluginSettings: Record<string, Record<string, boolean>> = {};
+    /** 聊天级插件开关的配置文件名 */
+    private readonly CHAT_PLUGINS_FILE = 'chat-plugins.json';
 
     // ===== 内存管理相关 =====
     /** 内存清理间隔（毫秒） */
     private readonly MEMORY_CLEANUP_INTERVAL = 300000; // 5分钟（原为10分钟，减少以提高清理频率）
     /** 内存清理定时器 */
     private memoryCleanupTimer?: ReturnType<typeof setInterval>;
+    /** 启动后首次内存清理的定时器 */
+    private memoryInitialCleanupTimer?: ReturnType<typeof setTimeout>;
     /** 内存使用历史记录，用于计算增长率和检测潜在内存泄漏 */
     private memoryHistory: { timestamp: number; rss: number; heapTotal: number; heapUsed: number }[] = [];
     /** 内存历史记录最大数量 */
@@ -538,6 +552,15 @@ export class Features {
         return Array.from(this.plugins.values());
     }
 
+    /**
+     * 获取所有已加载插件的注册名称
+     * 注册名称可能包含子目录（例如 chess/chess），用于 getPlugin、enablePlugin 等方法
+     * @returns 插件名称数组
+     */
+    getPluginNames(): string[] {
+        return Array.from(this.plugins.keys());
+    }
+
     /**
      * 获取指定名称的插件
      * @param name 插件名称
@@ -558,6 +581,17 @@ export class Features {
         return this.permissionManager;
     }
 
+    /**
+     * 获取聊天注册表实例
+     * @returns 聊天注册表实例
+     */
+    getChatRegistry(): ChatRegistry {
+        if (!this.chatRegistry) {
+            throw new Error('聊天注册表尚未初始化');
+        }
+        return this.chatRegistry;
+    }
+
     /**
      * 检查用户是否有指定权限
      * 这是唯一需要保留的权限管理方法，其他方法应直接使用权限管理器
@@ -750,6 +784,194 @@ export class Features {
         }
     }
 
+    /**
+     * 检查插件在指定聊天中是否启用
+     * 插件必须处于全局启用状态，再依次检查聊天级设置和默认设置（'*'），均未设置时视为启用
+     * system 插件在所有聊天中始终启用
+     * 
+     * @param name 插件名称
+     * @param chatId 聊天ID
+     * @returns 是否启用
+     */
+    isPluginEnabledForChat(name: string, chatId: number): boolean {
+        const plugin = this.plugins.get(name);
+        if (!plugin || plugin.status !== PluginStatus.ACTIVE) {
+            return false;
+        }
+
+        if (name === 'system') {
+            return true;
+        }
+
+        const chatSetting = this.chatPluginSettings[String(chatId)]?.[name];
+        if (chatSetting !== undefined) {
+            return chatSetting;
+        }
+
+        return this.chatPluginSettings['*']?.[name] ?? true;
+    }
+
+    /**
+     * 获取指定聊天中可供AI助手调用的工具
+     * 只包含在该聊天中启用的插件声明的工具
+     * 
+     * @param chatId 聊天ID
+     * @returns 工具列表
+     */
+    getAITools(chatId: number): AITool[] {
+        const tools: AITool[] = [];
+        for (const [name, plugin] of this.plugins) {
+            if (plugin.tools?.length && this.isPluginEnabledForChat(name, chatId)) {
+                tools.push(...plugin.tools);
+            }
+        }
+        return tools;
+    }
+
+    /**
+     * 从聊天列表中筛选出启用了指定插件的聊天
+     * 供需要主动推送消息的插件（如 rss、wolfx）使用
+     * 
+     * @param name 插件名称
+     * @param chatIds 候选聊天ID列表，默认为所有已批准的聊天
+     * @returns 启用了该插件的聊天ID列表
+     */
+    getChatsWithPlugin(name: string, chatIds: number[] = this.getEnabledChats()): number[] {
+        return chatIds.filter(chatId => this.isPluginEnabledForChat(name, chatId));
+    }
+
+    /**
+     * 获取指定聊天的插件开关设置
+     * @param chatId 聊天ID，'*' 表示默认设置
+     * @returns 插件名称 -> 是否启用
+     */
+    getChatPluginSettings(chatId: number | '*'): Record<string, boolean> {
+        return { ...this.chatPluginSettings[String(chatId)] };
+    }
+
+    /**
+     * 在指定聊天中启用插件
+     * @param name 插件名称
+     * @param chatId 聊天ID，'*' 表示修改所有聊天的默认值
+     * @returns 是否成功
+     */
+    async enablePluginForChat(name: string, chatId: number | '*'): Promise<boolean> {
+        return this.setChatPluginSetting(name, chatId, true);
+    }
+
+    /**
+     * 在指定聊天中禁用插件
+     * @param name 插件名称
+     * @param chatId 聊天ID，'*' 表示修改所有聊天的默认值
+     * @returns 是否成功
+     */
+    async disablePluginForChat(name: string, chatId: number | '*'): Promise<boolean> {
+        if (name === 'system') {
+            log.warn('不能在聊天中禁用系统插件');
+            return false;
+        }
+        return this.setChatPluginSetting(name, chatId, false);
+    }
+
+    /**
+     * 清除插件在指定聊天中的设置，恢复为默认值
+     * @param name 插件名称
+     * @param chatId 聊天ID，'*' 表示清除默认值
+     * @returns 是否成功
+     */
+    async resetPluginForChat(name: string, chatId: number | '*'): Promise<boolean> {
+        return this.setChatPluginSetting(name, chatId, undefined);
+    }
+
+    /**
+     * 修改并保存聊天级插件设置
+     * @param name 插件名称
+     * @param chatId 聊天ID或 '*'
+     * @param enabled 是否启用，undefined 表示清除设置
+     * @returns 是否成功
+     * @private
+     */
+    private async setChatPluginSetting(name: string, chatId: number | '*', enabled: boolean | undefined): Promise<boolean> {
+        if (!this.plugins.has(name)) {
+            log.warn(`插件 ${name} 未找到`);
+            return false;
+        }
+
+        const key = String(chatId);
+        const settings = this.chatPluginSettings[key] ?? {};
+
+        if (enabled === undefined) {
+            delete settings[name];
+        } else {
+            settings[name] = enabled;
+        }
+
+        if (Object.keys(settings).length > 0) {
+            this.chatPluginSettings[key] = settings;
+        } else {
+            delete this.chatPluginSettings[key];
+        }
+
+        log.info(`插件 ${name} 在聊天 ${key} 中${enabled === undefined ? '已恢复默认设置' : enabled ? '已启用' : '已禁用'}`);
+        return this.saveChatPluginSettings();
+    }
+
+    /**
+     * 从配置目录加载聊天级插件设置
+     * @private
+     */
+    private async loadChatPluginSettings(): Promise<void> {
+        const filePath = path.join(this.configDir, this.CHAT_PLUGINS_FILE);
+
+        try {
+            if (!await pathUtils.fileExists(filePath)) {
+                return;
+            }
+
+            const content = await fs.readFile(filePath, 'utf-8');
+            this.chatPluginSettings = JSON.parse(content);
+            log.debug(`已加载 ${Object.keys(this.chatPluginSettings).length} 个聊天的插件设置`);
+        } catch (err) {
+            const error = err instanceof Error ? err : new Error(String(err));
+            log.warn(`读取聊天插件设置失败: ${error.message}。将使用默认设置。`);
+            this.chatPluginSettings = {};
+        }
+    }
+
+    /**
+     * 保存聊天级插件设置到配置目录
+     * @returns 是否保存成功
+     * @private
+     */
+    private async saveChatPluginSettings(): Promise<boolean> {
+        try {
+            await this.ensureConfigDir();
+            const filePath = path.join(this.configDir, this.CHAT_PLUGINS_FILE);
+            await fs.writeFile(filePath, JSON.stringify(this.chatPluginSettings, null, 2), 'utf-8');
+            return true;
+        } catch (err) {
+            const error = err instanceof Error ? err : new Error(String(err));
+            log.error(`保存聊天插件设置失败: ${error.message}`);
+            return false;
+        }
+    }
+
+    /**
+     * 查找插件实例在插件表中的注册名称
+     * 注册名称可能与 plugin.name 不同（例如子目录插件 chess/chess）
+     * @param plugin 插件实例
+     * @returns 注册名称
+     * @private
+     */
+    private getPluginRegisteredName(plugin: BotPlugin): string | undefined {
+        for (const [name, registered] of this.plugins.entries()) {
+            if (registered === plugin) {
+                return name;
+            }
+        }
+        return undefined;
+    }
+
     /**
      * 获取插件配置
      * 合并并返回插件的配置，按照以下优先级：
@@ -920,6 +1142,12 @@ export class Features {
                     }
                 }
 
+                // 跳过在当前聊天中被禁用的插件
+                const handlerPluginName = this.findPluginByEvent(handler);
+                if (handlerPluginName && !this.isPluginEnabledForChat(handlerPluginName, context.chatId)) {
+                    continue;
+                }
+
                 // 应用常规过滤器（如果有）
                 if (handler.filter && !handler.filter(context)) {
                     continue;
@@ -1006,14 +1234,16 @@ export class Features {
                             const handlerPromise = handler.handler(context);
                             
                             // 设置超时控制
+                            let timeoutId: ReturnType<typeof setTimeout> | undefined;
                             const timeoutPromise = new Promise<void>((_, reject) => {
-                                setTimeout(() => {
+                                timeoutId = setTimeout(() => {
                                     reject(new Error(`处理器执行超时(${HANDLER_TIMEOUT}ms)`));
                                 }, HANDLER_TIMEOUT);
                             });
 
-                            // 执行事件处理器（竞争超时）
-                            await Promise.race([handlerPromise, timeoutPromise]);
+                            // 执行事件处理器（竞争超时），完成后清除计时器
+                            await Promise.race([handlerPromise, timeoutPromise])
+                                .finally(() => clearTimeout(timeoutId));
                         } catch (err) {
                             // 捕获处理器中的错误
                             const error = err instanceof Error ? err : new Error(String(err));
@@ -1212,123 +1442,205 @@ export class Features {
     private setupHandlers() {
         // 处理普通消息
         this.dispatcher.onNewMessage(
-            filters.and(
-                filters.or(
-                    filters.chatId(enableChats),
-                    filters.chatId(managerIds)
-                ),
-                filters.text
-            ),
-            async (ctx: MessageContext) => {
-                try {
-                    // 检查是否是命令
-                    if (ctx.text?.startsWith('/')) {
-                        await this.processCommand(ctx);
-                        return;
-                    }
+            filters.text,
+            (ctx: MessageContext) => this.handleNewMessage(ctx)
+        );
 
-                    // 创建消息事件上下文
-                    const userId = ctx.sender.id
+        // 处理回调查询
+        this.dispatcher.onCallbackQuery(
+            (ctx: CallbackQueryContext) => this.handleCallbackQuery(ctx)
+        );
 
-                    const context: MessageEventContext = {
-                        type: 'message',
-                        client: this.client,
-                        chatId: ctx.chat.id,
-                        message: ctx,
-                        hasPermission: (permission) => this.hasPermission(userId, permission),
-                    };
+        // 处理机器人被加入群组
+        this.dispatcher.onChatMemberUpdate(
+            (upd: ChatMemberUpdate) => this.handleChatMemberUpdate(upd)
+        );
+    }
 
-                    // 分发消息事件
-                    await this.handleEvent('message', context);
-                } catch (err) {
-                    const error = err instanceof Error ? err : new Error(String(err));
-                    const userId = ctx.sender?.id || 'unknown';
-                    const chatId = ctx.chat?.id || 'unknown';
-                    const textPreview = ctx.text ? `${ctx.text.substring(0, 30)}${ctx.text.length > 30 ? '...' : ''}` : 'empty';
+    /**
+     * 检查聊天是否允许使用机器人
+     * 每次调用都查询聊天注册表，/chats 命令的修改立即生效
+     * @param chatId 聊天ID
+     * @returns 是否允许
+     */
+    isChatAllowed(chatId: number): boolean {
+        if (managerIds.includes(chatId)) return true;
+        // 注册表初始化前回退到环境变量
+        return this.chatRegistry ? this.chatRegistry.isApproved(chatId) : enableChats.includes(chatId);
+    }
 
-                    log.error(`消息处理错误 (用户: ${userId}, 聊天: ${chatId}, 文本: ${textPreview}): ${error.message}`);
-                    if (error.stack) {
-                        log.debug(`错误堆栈: ${error.stack}`);
-                    }
-                }
+    /**
+     * 获取所有已批准的聊天ID
+     * @returns 聊天ID列表
+     */
+    getEnabledChats(): number[] {
+        return this.chatRegistry ? this.chatRegistry.getApprovedChats() : [...enableChats];
+    }
+
+    /**
+     * 处理聊天成员变化
+     * 机器人被加入未知群组且开启了审核时，将群组标记为待审核并通知管理员
+     * @param upd 成员变化信息
+     */
+    async handleChatMemberUpdate(upd: ChatMemberUpdate): Promise<void> {
+        try {
+            if (!upd.isSelf || (upd.type !== 'added' && upd.type !== 'joined')) {
+                return;
             }
-        );
 
-        // 处理回调查询
-        this.dispatcher.onCallbackQuery(
-            async (ctx: CallbackQueryContext) => {
-                try {
-                    const data = ctx.dataStr;
-                    if (!data) return;
-
-                    // 检查聊天ID是否允许
-                    if (ctx.chat && (enableChats.length > 0 || managerIds.length > 0)) {
-                        const chatId = ctx.chat.id;
-                        if (!enableChats.includes(chatId) && !managerIds.includes(chatId)) {
-                            return; // 聊天不在允许列表中
-                        }
-                    }
+            const registry = this.chatRegistry;
+            const chatId = upd.chat.id;
+            if (!registry || !registry.isApprovalRequired() || registry.get(chatId)) {
+                return;
+            }
 
-                    // 创建回调查询事件上下文
-                    const context: CallbackEventContext = {
-                        type: 'callback',
-                        client: this.client,
-                        chatId: ctx.chat.id,
-                        query: ctx,
-                        data,
-                        hasPermission: (permission) => this.hasPermission(ctx.user.id, permission),
-                        parseData: {
-                            hasPrefix: (prefix) => data.startsWith(prefix),
-                            getPart: (index) => data.split(':')[index],
-                            getIntPart: (index, defaultValue = 0) => {
-                                const part = data.split(':')[index];
-                                return part ? parseInt(part, 10) || defaultValue : defaultValue;
-                            },
-                            getParts: () => data.split(':'),
-                            getCommand: () => data.split(':')[0] || '',
-                            getSubCommand: () => data.split(':')[1],
-                            parseAsObject: <T>(schema: Record<string, 'int' | 'string' | 'boolean'>, startIndex = 1): T => {
-                                const parts = data.split(':');
-                                const result: Record<string, any> = {};
-
-                                Object.entries(schema).forEach(([key, type], idx) => {
-                                    const partIndex = startIndex + idx;
-                                    const value = parts[partIndex];
-
-                                    if (type === 'int') {
-                                        result[key] = value ? parseInt(value, 10) || 0 : 0;
-                                    } else if (type === 'boolean') {
-                                        result[key] = value === 'true' || value === '1';
-                                    } else {
-                                        result[key] = value || '';
-                                    }
-                                });
+            const isNew = await registry.markPending(chatId, {
+                title: upd.chat.displayName,
+                addedBy: upd.actor.id
+            });
+            if (!isNew) return;
 
-                                return result as T;
-                            }
-                        }
-                    };
+            log.info(`机器人被 ${upd.actor.id} 加入未知群组 ${chatId}，等待管理员审核`);
 
-                    // 分发回调查询事件
-                    await this.handleEvent('callback', context);
-                } catch (err) {
+            const keyboard = BotKeyboard.inline([
+                [
+                    BotKeyboard.callback('✅ 批准', ChatReviewCB.build({ action: 'approve', chatId })),
+                    BotKeyboard.callback('❌ 拒绝并退出', ChatReviewCB.build({ action: 'deny', chatId }))
+                ]
+            ]);
+
+            const text = html`🆕 <b>机器人被加入了新群组</b><br><br>群组: ${upd.chat.displayName}<br>ID: <code>${chatId}</code><br>邀请者: ${upd.actor.displayName} (<code>${upd.actor.id}</code>)<br><br>批准前机器人不会响应该群组的消息`;
+
+            for (const managerId of managerIds) {
+                await this.client.sendText(managerId, text, { replyMarkup: keyboard }).catch(err => {
                     const error = err instanceof Error ? err : new Error(String(err));
-                    const userId = ctx.user.id;
-                    const chatId = ctx.chat?.id || 'unknown';
-                    const dataPreview = ctx.dataStr ? `${ctx.dataStr.substring(0, 30)}${ctx.dataStr.length > 30 ? '...' : ''}` : 'empty';
+                    log.warn(`无法向管理员 ${managerId} 发送群组审核通知: ${error.message}`);
+                });
+            }
+        } catch (err) {
+            const error = err instanceof Error ? err : new Error(String(err));
+            log.error(`处理聊天成员变化失败: ${error.message}`);
+        }
+    }
 
-                    log.error(`回调查询处理错误 (用户: ${userId}, 聊天: ${chatId}, 数据: ${dataPreview}): ${error.message}`);
-                    if (error.stack) {
-                        log.debug(`错误堆栈: ${error.stack}`);
-                    }
+    /**
+     * 处理新的文本消息
+     * 由事件分发器调用，也可由离线测试框架直接调用
+     * @param ctx 消息上下文
+     */
+    async handleNewMessage(ctx: MessageContext): Promise<void> {
+        // 检查聊天ID是否允许
+        if (!ctx.text || !this.isChatAllowed(ctx.chat.id)) {
+            return;
+        }
+
+        try {
+            // 检查是否是命令
+            if (ctx.text?.startsWith('/')) {
+                await this.processCommand(ctx);
+                return;
+            }
+
+            // 创建消息事件上下文
+            const userId = ctx.sender.id
+
+            const context: MessageEventContext = {
+                type: 'message',
+                client: this.client,
+                chatId: ctx.chat.id,
+                message: ctx,
+                hasPermission: (permission) => this.hasPermission(userId, permission),
+            };
+
+            // 分发消息事件
+            await this.handleEvent('message', context);
+        } catch (err) {
+            const error = err instanceof Error ? err : new Error(String(err));
+            const userId = ctx.sender?.id || 'unknown';
+            const chatId = ctx.chat?.id || 'unknown';
+            const textPreview = ctx.text ? `${ctx.text.substring(0, 30)}${ctx.text.length > 30 ? '...' : ''}` : 'empty';
+
+            log.error(`消息处理错误 (用户: ${userId}, 聊天: ${chatId}, 文本: ${textPreview}): ${error.message}`);
+            if (error.stack) {
+                log.debug(`错误堆栈: ${error.stack}`);
+            }
+        }
+    }
+
+    /**
+     * 处理回调查询
+     * 由事件分发器调用，也可由离线测试框架直接调用
+     * @param ctx 回调查询上下文
+     */
+    async handleCallbackQuery(ctx: CallbackQueryContext): Promise<void> {
+        try {
+            const data = ctx.dataStr;
+            if (!data) return;
+
+            // 检查聊天ID是否允许
+            if (ctx.chat && !this.isChatAllowed(ctx.chat.id)) {
+                return; // 聊天不在允许列表中
+            }
+
+            // 创建回调查询事件上下文
+            const context: CallbackEventContext = {
+                type: 'callback',
+                client: this.client,
+                chatId: ctx.chat.id,
+                query: ctx,
+                data,
+                hasPermission: (permission) => this.hasPermission(ctx.user.id, permission),
+                parseData: {
+                    hasPrefix: (prefix) => data.startsWith(prefix),
+                    getPart: (index) => data.split(':')[index],
+                    getIntPart: (index, defaultValue = 0) => {
+                        const part = data.split(':')[index];
+                        return part ? parseInt(part, 10) || defaultValue : defaultValue;
+                    },
+                    getParts: () => data.split(':'),
+                    getCommand: () => data.split(':')[0] || '',
+                    getSubCommand: () => data.split(':')[1],
+                    parseAsObject: <T>(schema: Record<string, 'int' | 'string' | 'boolean'>, startIndex = 1): T => {
+                        const parts = data.split(':');
+                        const result: Record<string, any> = {};
+
+                        Object.entries(schema).forEach(([key, type], idx) => {
+                            const partIndex = startIndex + idx;
+                            const value = parts[partIndex];
+
+                            if (type === 'int') {
+                                result[key] = value ? parseInt(value, 10) || 0 : 0;
+                            } else if (type === 'boolean') {
+                                result[key] = value === 'true' || value === '1';
+                            } else {
+                                result[key] = value || '';
+                            }
+                        });
 
-                    // 通知用户发生错误
-                    await ctx.answer({
-                        text: '❌ 系统错误',
-                        alert: true
-                    }).catch(() => { });
+                        return result as T;
+                    }
                 }
-            });
+            };
+
+            // 分发回调查询事件
+            await this.handleEvent('callback', context);
+        } catch (err) {
+            const error = err instanceof Error ? err : new Error(String(err));
+            const userId = ctx.user.id;
+            const chatId = ctx.chat?.id || 'unknown';
+            const dataPreview = ctx.dataStr ? `${ctx.dataStr.substring(0, 30)}${ctx.dataStr.length > 30 ? '...' : ''}` : 'empty';
+
+            log.error(`回调查询处理错误 (用户: ${userId}, 聊天: ${chatId}, 数据: ${dataPreview}): ${error.message}`);
+            if (error.stack) {
+                log.debug(`错误堆栈: ${error.stack}`);
+            }
+
+            // 通知用户发生错误
+            await ctx.answer({
+                text: '❌ 系统错误',
+                alert: true
+            }).catch(() => { });
+        }
     }
 
     /**
@@ -1488,8 +1800,11 @@ export class Features {
                 hasPermission: (permission) => this.hasPermission(userId, permission),
             };
 
-            // 查找命令处理器
-            let commandHandlers = this.findCommandHandlers(command);
+            // 查找命令处理器，并排除在当前聊天中被禁用的插件
+            let commandHandlers = this.findCommandHandlers(command).filter(({ plugin }) => {
+                const name = this.getPluginRegisteredName(plugin);
+                return !name || this.isPluginEnabledForChat(name, ctx.chat.id);
+            });
 
             // 如果没有找到命令处理器，直接返回
             if (commandHandlers.length === 0) {
@@ -1573,8 +1888,9 @@ export class Features {
                 log.info(`执行命令: ${command} (插件: ${plugin.name}), 用户: ${userId}`);
 
                 // 使用Promise.race添加超时保护
+                let timeoutId: ReturnType<typeof setTimeout> | undefined;
                 const timeoutPromise = new Promise<void>((_, reject) => {
-                    setTimeout(() => {
+                    timeoutId = setTimeout(() => {
                         reject(new Error(`命令 ${command} 执行超时 (插件: ${plugin.name})`));
                     }, this.COMMAND_TIMEOUT);
                 });
@@ -1582,7 +1898,7 @@ export class Features {
                 await Promise.race([
                     cmd.handler(context),
                     timeoutPromise
-                ]);
+                ]).finally(() => clearTimeout(timeoutId));
 
                 // 更新冷却时间
                 if (cmd.cooldown && userId) {
@@ -2021,9 +2337,10 @@ export class Features {
 
     /**
      * 初始化功能管理器
+     * @param pluginNames 只加载指定的插件（用于离线测试框架），默认扫描插件目录加载全部插件
      * @returns 是否成功初始化
      */
-    async init(): Promise<boolean> {
+    async init(pluginNames?: string[]): Promise<boolean> {
         try {
             log.info('正在初始化功能管理器...');
 
@@ -2039,6 +2356,13 @@ export class Features {
             await this.permissionManager.init();
             log.info('权限管理器初始化完成');
 
+            // 初始化聊天注册表，环境变量中的聊天作为初始白名单
+            this.chatRegistry = new ChatRegistry(this.configDir);
+            await this.chatRegistry.init(enableChats);
+
+            // 加载聊天级插件设置
+            await this.loadChatPluginSettings();
+
             // 设置事件处理器
             this.setupHandlers();
 
@@ -2047,7 +2371,7 @@ export class Features {
 
             // 加载插件（权限管理器初始化后）
             log.info('开始加载插件...');
-            await this.loadPlugins();
+            await this.loadPlugins(pluginNames);
 
             log.info('功能管理器初始化完成');
             return true;
@@ -2385,9 +2709,10 @@ export class Features {
 
     /**
      * 加载所有插件
+     * @param pluginNames 只加载指定的插件，未指定时扫描插件目录
      * @private
      */
-    private async loadPlugins(): Promise<void> {
+    private async loadPlugins(pluginNames?: string[]): Promise<void> {
         const startTime = Date.now();
         log.info('开始加载插件...');
 
@@ -2395,15 +2720,17 @@ export class Features {
             // 检查是否为二进制环境 (兼容 Windows 的 .exe)
             const isBinaryEnvironment = process.execPath.endsWith('natsuki') || process.execPath.endsWith('natsuki.exe');
 
-            if (isBinaryEnvironment) {
+            if (isBinaryEnvironment && !pluginNames) {
                 log.info('检测到二进制环境，使用预编译插件...');
                 await this.loadEmbeddedPlugins();
             } else {
                 // 获取已安装的插件文件列表（包括子目录中的）
                 const pluginDir = this.pluginsDir;
 
-                // 扫描插件目录及其子目录
-                const pluginFiles = await this.scanPluginsDir(pluginDir);
+                // 扫描插件目录及其子目录（指定插件名时跳过扫描）
+                const pluginFiles: { name: string }[] = pluginNames
+                    ? pluginNames.map(name => ({ name }))
+                    : await this.scanPluginsDir(pluginDir);
 
                 if (pluginFiles.length === 0) {
                     log.warn('未找到任何插件文件');
@@ -3007,7 +3334,7 @@ export class Features {
         this.memoryCleanupTimer = setInterval(cleanupFunction, cleanupInterval);
 
         // 添加一次立即清理，但延迟10秒执行，避免启动时资源竞争
-        setTimeout(() => this.cleanupMemory(), 10000);
+        this.memoryInitialCleanupTimer = setTimeout(() => this.cleanupMemory(), 10000);
     }
 
     /**
@@ -3713,6 +4040,10 @@ export class Features {
             clearInterval(this.memoryCleanupTimer);
             this.memoryCleanupTimer = undefined;
         }
+        if (this.memoryInitialCleanupTimer) {
+            clearTimeout(this.memoryInitialCleanupTimer);
+            this.memoryInitialCleanupTimer = undefined;
+        }
 
         // 禁用所有插件
         for (const [name, plugin] of this.plugins.entries()) {
@@ -4299,6 +4630,28 @@ export class Features {
         return { allowed: true, remainingMs: 0 };
     }
     
+    /**
+     * 重置命令频率限制与冷却状态
+     * 主要供离线测试框架在连续发送命令时使用
+     * @param userId 用户ID，未指定时重置所有用户
+     */
+    resetCommandLimits(userId?: number): void {
+        if (userId === undefined) {
+            this.userCommandHistory.clear();
+            this.suspiciousUsers.clear();
+            this.suspiciousTriggerCount.clear();
+            this.tempBannedUsers.clear();
+            this.commandCooldowns.clear();
+            return;
+        }
+
+        this.userCommandHistory.delete(userId);
+        this.suspiciousUsers.delete(userId);
+        this.suspiciousTriggerCount.delete(userId);
+        this.tempBannedUsers.delete(userId);
+        this.commandCooldowns.delete(userId);
+    }
+
     /**
      * 将用户标记为可疑用户
      * 跟踪连续触发频率限制的用户，并在必要时实施临时封禁
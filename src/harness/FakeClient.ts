@@ -0,0 +1,374 @@
+import type { TelegramClient } from '@mtcute/bun';
+import type { MessageContext, CallbackQueryContext } from '@mtcute/dispatcher';
+
+/**
+ * 离线测试用的伪造 Telegram 客户端与上下文
+ * 不建立任何网络连接，所有对客户端和上下文的调用都会被记录下来供断言使用
+ */
+
+// 伪造用户信息
+export interface FakeUser {
+    id: number;
+    firstName: string;
+    lastName?: string;
+    username?: string;
+    displayName: string;
+    isBot: boolean;
+}
+
+// 伪造聊天信息
+export interface FakeChat {
+    id: number;
+    type: 'user' | 'group' | 'supergroup' | 'channel';
+    title?: string;
+    displayName: string;
+}
+
+// 已发送（伪造）消息
+export interface FakeSentMessage {
+    id: number;
+    chat: FakeChat;
+    text: string;
+    date: Date;
+}
+
+// 记录下来的一次调用
+export interface RecordedCall {
+    // 调用的方法名，例如 sendText、replyText、editMessage
+    method: string;
+    // 调用来源：客户端、消息上下文或回调查询上下文
+    source: 'client' | 'message' | 'callback';
+    // 原始参数
+    args: unknown[];
+    // 调用的目标聊天（能识别时）
+    chatId?: number;
+    // 调用携带的文本（能识别时），html/md 模板会被还原为纯文本
+    text?: string;
+    // 调用时间戳
+    timestamp: number;
+}
+
+/**
+ * 从字符串或 html/md 模板结果中提取纯文本
+ * @param input 文本输入
+ * @returns 纯文本，无法识别时返回undefined
+ */
+export function textOf(input: unknown): string | undefined {
+    if (typeof input === 'string') return input;
+    if (input && typeof input === 'object' && 'text' in input) {
+        const text = (input as { text: unknown }).text;
+        if (typeof text === 'string') return text;
+    }
+    return undefined;
+}
+
+/**
+ * 根据ID创建伪造用户
+ * @param id 用户ID
+ * @param overrides 覆盖的字段
+ */
+export function createFakeUser(id: number, overrides: Partial<FakeUser> = {}): FakeUser {
+    const firstName = overrides.firstName ?? `User${id}`;
+    return {
+        id,
+        firstName,
+        username: `user${id}`,
+        displayName: overrides.displayName ?? [firstName, overrides.lastName].filter(Boolean).join(' '),
+        isBot: false,
+        ...overrides
+    };
+}
+
+/**
+ * 根据ID创建伪造聊天，负数ID视为超级群组，正数ID视为私聊
+ * @param id 聊天ID
+ * @param overrides 覆盖的字段
+ */
+export function createFakeChat(id: number, overrides: Partial<FakeChat> = {}): FakeChat {
+    const title = overrides.title ?? (id < 0 ? `Group${id}` : undefined);
+    return {
+        id,
+        type: id < 0 ? 'supergroup' : 'user',
+        title,
+        displayName: title ?? `User${id}`,
+        ...overrides
+    };
+}
+
+/**
+ * 伪造的 Telegram 客户端
+ *
+ * 实现插件常用的客户端方法（sendText、editMessage、deleteMessagesById 等），
+ * 其余未实现的方法通过 Proxy 统一记录并返回 undefined。
+ * 可以通过 stub() 为任意方法指定返回值。
+ */
+export class FakeTelegramClient {
+    /** 所有记录下来的调用（包括消息和回调上下文上的调用） */
+    readonly calls: RecordedCall[] = [];
+    /** 机器人自身信息 */
+    readonly me: FakeUser;
+    /** 已知用户，getUser 会优先从这里查找 */
+    readonly users = new Map<number, FakeUser>();
+
+    // mtcute Dispatcher 绑定客户端时需要的更新事件源
+    readonly onUpdate = createFakeEmitter();
+    readonly onRawUpdate = createFakeEmitter();
+
+    private nextMessageId = 1000;
+    private stubs = new Map<string, (...args: any[]) => unknown>();
+    private proxy?: TelegramClient;
+
+    constructor(me: Partial<FakeUser> = {}) {
+        this.me = createFakeUser(me.id ?? 1, { firstName: 'NatsukiMiyu', username: 'natsuki_bot', isBot: true, ...me });
+    }
+
+    /**
+     * 为指定方法设置自定义实现，调用仍会被记录
+     * @param method 方法名
+     * @param impl 自定义实现
+     */
+    stub(method: string, impl: (...args: any[]) => unknown): this {
+        this.stubs.set(method, impl);
+        return this;
+    }
+
+    /**
+     * 记录一次调用
+     * @internal 由伪造上下文共用
+     */
+    record(call: Omit<RecordedCall, 'timestamp'>): void {
+        this.calls.push({ ...call, timestamp: Date.now() });
+    }
+
+    /**
+     * 生成新的（伪造）消息
+     * @internal 由伪造上下文共用
+     */
+    createSentMessage(chatId: number, text: unknown): FakeSentMessage {
+        return {
+            id: this.nextMessageId++,
+            chat: createFakeChat(chatId),
+            text: textOf(text) ?? '',
+            date: new Date()
+        };
+    }
+
+    /**
+     * 清空调用记录
+     */
+    clearCalls(): void {
+        this.calls.length = 0;
+    }
+
+    /**
+     * 转换为 TelegramClient 类型，供 Features 使用
+     * 返回的 Proxy 会记录所有未显式实现的方法调用
+     */
+    asClient(): TelegramClient {
+        if (this.proxy) return this.proxy;
+
+        this.proxy = new Proxy(this, {
+            get: (target, prop, receiver) => {
+                if (typeof prop !== 'string') {
+                    return Reflect.get(target, prop, receiver);
+                }
+
+                const stub = target.stubs.get(prop);
+                if (stub) {
+                    return async (...args: unknown[]) => {
+                        target.record({ method: prop, source: 'client', args, ...describeArgs(args) });
+                        return stub(...args);
+                    };
+                }
+
+                if (prop in target) {
+                    return Reflect.get(target, prop, receiver);
+                }
+
+                // 未实现的方法：记录调用后返回undefined
+                return async (...args: unknown[]) => {
+                    target.record({ method: prop, source: 'client', args, ...describeArgs(args) });
+                    return undefined;
+                };
+            },
+            set: (target, prop, value) => Reflect.set(target, prop, value)
+        }) as unknown as TelegramClient;
+
+        return this.proxy;
+    }
+
+    async getMe(): Promise<FakeUser> {
+        return this.me;
+    }
+
+    async getUser(id: number): Promise<FakeUser> {
+        this.record({ method: 'getUser', source: 'client', args: [id] });
+        return this.users.get(id) ?? createFakeUser(id);
+    }
+
+    async sendText(chatId: number, text: unknown, params?: unknown): Promise<FakeSentMessage> {
+        this.record({ method: 'sendText', source: 'client', args: [chatId, text, params], chatId, text: textOf(text) });
+        return this.createSentMessage(chatId, text);
+    }
+
+    async sendMedia(chatId: number, media: unknown, params?: { caption?: unknown }): Promise<FakeSentMessage> {
+        this.record({ method: 'sendMedia', source: 'client', args: [chatId, media, params], chatId, text: textOf(params?.caption) });
+        return this.createSentMessage(chatId, params?.caption);
+    }
+
+    async editMessage(params: { chatId: number; message: number; text?: unknown }): Promise<FakeSentMessage> {
+        this.record({ method: 'editMessage', source: 'client', args: [params], chatId: params.chatId, text: textOf(params.text) });
+        return { ...this.createSentMessage(params.chatId, params.text), id: params.message };
+    }
+
+    async deleteMessagesById(chatId: number, ids: number[]): Promise<void> {
+        this.record({ method: 'deleteMessagesById', source: 'client', args: [chatId, ids], chatId });
+    }
+
+    async deleteMessages(messages: { chat: { id: number } }[]): Promise<void> {
+        this.record({ method: 'deleteMessages', source: 'client', args: [messages], chatId: messages[0]?.chat.id });
+    }
+}
+
+// 伪造消息的可选参数
+export interface FakeMessageOptions {
+    chatId: number;
+    userId: number;
+    // 覆盖发送者信息
+    sender?: Partial<FakeUser>;
+    // 覆盖聊天信息
+    chat?: Partial<FakeChat>;
+    // 回复的消息
+    replyToMessage?: { id: number; text?: string; sender?: FakeUser };
+    // 消息ID，不指定时自动分配
+    messageId?: number;
+}
+
+/**
+ * 创建伪造的消息上下文
+ * replyText、answerText、edit、delete 等方法的调用会记录到客户端
+ * @param client 伪造客户端
+ * @param text 消息文本
+ * @param options 消息参数
+ */
+export function createFakeMessage(client: FakeTelegramClient, text: string, options: FakeMessageOptions): MessageContext {
+    const chat = createFakeChat(options.chatId, options.chat);
+    const sender = client.users.get(options.userId) ?? createFakeUser(options.userId, options.sender);
+    const id = options.messageId ?? client.createSentMessage(options.chatId, text).id;
+
+    const recordReply = (method: string) => async (replyText: unknown, params?: unknown) => {
+        client.record({ method, source: 'message', args: [replyText, params], chatId: chat.id, text: textOf(replyText) });
+        return client.createSentMessage(chat.id, replyText);
+    };
+
+    const message = {
+        id,
+        text,
+        chat,
+        sender,
+        date: new Date(),
+        editDate: null,
+        isOutgoing: false,
+        media: null,
+        entities: [],
+        replyToMessage: options.replyToMessage ?? null,
+        client: client.asClient(),
+        replyText: recordReply('replyText'),
+        answerText: recordReply('answerText'),
+        quoteWithText: recordReply('quoteWithText'),
+        async replyMedia(media: unknown, params?: { caption?: unknown }) {
+            client.record({ method: 'replyMedia', source: 'message', args: [media, params], chatId: chat.id, text: textOf(params?.caption) });
+            return client.createSentMessage(chat.id, params?.caption);
+        },
+        async answerMedia(media: unknown, params?: { caption?: unknown }) {
+            client.record({ method: 'answerMedia', source: 'message', args: [media, params], chatId: chat.id, text: textOf(params?.caption) });
+            return client.createSentMessage(chat.id, params?.caption);
+        },
+        async edit(params: { text?: unknown }) {
+            client.record({ method: 'edit', source: 'message', args: [params], chatId: chat.id, text: textOf(params.text) });
+            return message;
+        },
+        async delete() {
+            client.record({ method: 'delete', source: 'message', args: [], chatId: chat.id });
+        },
+        async getReplyTo() {
+            return options.replyToMessage ?? null;
+        }
+    };
+
+    return message as unknown as MessageContext;
+}
+
+// 伪造回调查询的可选参数
+export interface FakeCallbackOptions {
+    chatId: number;
+    userId: number;
+    // 按钮所在消息的ID
+    messageId: number;
+    // 覆盖点击者信息
+    user?: Partial<FakeUser>;
+}
+
+/**
+ * 创建伪造的回调查询上下文
+ * answer、editMessage 等方法的调用会记录到客户端
+ * @param client 伪造客户端
+ * @param data 回调数据
+ * @param options 回调参数
+ */
+export function createFakeCallbackQuery(client: FakeTelegramClient, data: string, options: FakeCallbackOptions): CallbackQueryContext {
+    const chat = createFakeChat(options.chatId);
+    const user = client.users.get(options.userId) ?? createFakeUser(options.userId, options.user);
+
+    const query = {
+        id: `${Date.now()}${Math.floor(Math.random() * 1000)}`,
+        dataStr: data,
+        chat,
+        user,
+        messageId: options.messageId,
+        client: client.asClient(),
+        async answer(params: { text?: string; alert?: boolean } = {}) {
+            client.record({ method: 'answer', source: 'callback', args: [params], chatId: chat.id, text: params.text });
+        },
+        async editMessage(params: { text?: unknown }) {
+            client.record({ method: 'editMessage', source: 'callback', args: [params], chatId: chat.id, text: textOf(params.text) });
+            return { ...client.createSentMessage(chat.id, params.text), id: options.messageId };
+        },
+        async getMessage() {
+            return null;
+        }
+    };
+
+    return query as unknown as CallbackQueryContext;
+}
+
+/**
+ * 创建满足 mtcute Dispatcher 绑定需求的最小事件源
+ */
+function createFakeEmitter() {
+    const listeners = new Set<(...args: any[]) => void>();
+    return {
+        add: (fn: (...args: any[]) => void) => { listeners.add(fn); },
+        remove: (fn: (...args: any[]) => void) => { listeners.delete(fn); },
+        emit: (...args: any[]) => { for (const fn of listeners) fn(...args); },
+        clear: () => listeners.clear()
+    };
+}
+
+/**
+ * 从常见的客户端方法参数中识别聊天ID和文本
+ */
+function describeArgs(args: unknown[]): Pick<RecordedCall, 'chatId' | 'text'> {
+    const [first, second] = args;
+    if (typeof first === 'number') {
+        return { chatId: first, text: textOf(second) };
+    }
+    if (first && typeof first === 'object') {
+        const params = first as { chatId?: unknown; text?: unknown };
+        return {
+            chatId: typeof params.chatId === 'number' ? params.chatId : undefined,
+            text: textOf(params.text)
+        };
+    }
+    return {};
+}
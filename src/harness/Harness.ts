@@ -0,0 +1,190 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Features } from '../features';
+import { enableChats, managerIds } from '../env';
+import {
+    FakeTelegramClient,
+    createFakeCallbackQuery,
+    createFakeMessage,
+    type FakeMessageOptions,
+    type FakeUser,
+    type RecordedCall
+} from './FakeClient';
+
+// 测试框架选项
+export interface HarnessOptions {
+    // 要加载的插件名（与 /plugins 中显示的名称一致，例如 'system'、'chess/chess'）
+    plugins: string[];
+    // 管理员ID列表，默认 [1000]
+    managerIds?: number[];
+    // 允许的聊天ID列表，默认 [-1000]
+    enableChats?: number[];
+    // 配置目录，默认为临时目录，dispose 时删除
+    configDir?: string;
+    // 机器人自身信息
+    me?: Partial<FakeUser>;
+}
+
+// 单次发送时可覆盖的参数
+export type SendOptions = Partial<FakeMessageOptions>;
+
+// 单次点击按钮时可覆盖的参数
+export interface ClickOptions {
+    chatId?: number;
+    userId?: number;
+    messageId?: number;
+}
+
+/**
+ * 离线测试框架
+ *
+ * 使用伪造的客户端驱动 Features，无需机器人令牌和网络连接。
+ * 消息、命令和回调查询会走与线上相同的处理流程（聊天过滤、命令解析、权限、冷却、事件分发），
+ * 每一步产生的 replyText/editMessage/deleteMessages 等调用都会被记录下来用于断言。
+ *
+ * @example
+ * const harness = await BotHarness.create({ plugins: ['system'] });
+ * const calls = await harness.send('/help');
+ * expect(calls[0]?.text).toContain('命令帮助中心');
+ * await harness.dispose();
+ */
+export class BotHarness {
+    /** 默认的管理员ID */
+    static readonly DEFAULT_MANAGER_ID = 1000;
+    /** 默认的群组ID */
+    static readonly DEFAULT_CHAT_ID = -1000;
+
+    private constructor(
+        readonly fake: FakeTelegramClient,
+        readonly features: Features,
+        private readonly configDir: string,
+        private readonly ownsConfigDir: boolean,
+        private readonly savedEnv: { enableChats: number[]; managerIds: number[] }
+    ) { }
+
+    /**
+     * 创建并初始化测试框架
+     * @param options 框架选项
+     */
+    static async create(options: HarnessOptions): Promise<BotHarness> {
+        // 保存并替换环境配置，dispose 时恢复
+        const savedEnv = { enableChats: [...enableChats], managerIds: [...managerIds] };
+        enableChats.splice(0, enableChats.length, ...(options.enableChats ?? [BotHarness.DEFAULT_CHAT_ID]));
+        managerIds.splice(0, managerIds.length, ...(options.managerIds ?? [BotHarness.DEFAULT_MANAGER_ID]));
+
+        const ownsConfigDir = !options.configDir;
+        const configDir = options.configDir ?? await fs.mkdtemp(path.join(os.tmpdir(), 'natsuki-harness-'));
+
+        const fake = new FakeTelegramClient(options.me);
+        const client = fake.asClient();
+        const features = new Features(client, undefined, configDir);
+        // 与 app.ts 一致，在 init() 之前挂载 features，使插件 onLoad 可以访问
+        client.features = features;
+
+        const harness = new BotHarness(fake, features, configDir, ownsConfigDir, savedEnv);
+
+        if (!await features.init(options.plugins)) {
+            await harness.dispose();
+            throw new Error('测试框架初始化失败');
+        }
+
+        return harness;
+    }
+
+    /** 所有记录下来的调用 */
+    get calls(): RecordedCall[] {
+        return this.fake.calls;
+    }
+
+    /** 所有记录下来的文本（回复、发送、编辑） */
+    get texts(): string[] {
+        return this.fake.calls
+            .filter(call => call.text !== undefined)
+            .map(call => call.text!);
+    }
+
+    /**
+     * 发送一条消息（以 / 开头时按命令处理）
+     * @param text 消息文本
+     * @param options 发送者、聊天等参数，默认由管理员在默认群组发送
+     * @returns 本次发送产生的调用
+     */
+    async send(text: string, options: SendOptions = {}): Promise<RecordedCall[]> {
+        const message = createFakeMessage(this.fake, text, {
+            chatId: BotHarness.DEFAULT_CHAT_ID,
+            userId: managerIds[0] ?? BotHarness.DEFAULT_MANAGER_ID,
+            ...options
+        });
+
+        return this.capture(() => this.features.handleNewMessage(message));
+    }
+
+    /**
+     * 点击一个内联按钮
+     * @param data 回调数据
+     * @param options 点击者、聊天、按钮所在消息等参数
+     * @returns 本次点击产生的调用
+     */
+    async click(data: string, options: ClickOptions = {}): Promise<RecordedCall[]> {
+        const query = createFakeCallbackQuery(this.fake, data, {
+            chatId: options.chatId ?? BotHarness.DEFAULT_CHAT_ID,
+            userId: options.userId ?? managerIds[0] ?? BotHarness.DEFAULT_MANAGER_ID,
+            messageId: options.messageId ?? 1
+        });
+
+        return this.capture(() => this.features.handleCallbackQuery(query));
+    }
+
+    /**
+     * 查找最近一次调用
+     * @param method 方法名（可选）
+     */
+    lastCall(method?: string): RecordedCall | undefined {
+        for (let i = this.fake.calls.length - 1; i >= 0; i--) {
+            const call = this.fake.calls[i];
+            if (call && (!method || call.method === method)) {
+                return call;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * 清空调用记录
+     */
+    reset(): void {
+        this.fake.clearCalls();
+    }
+
+    /**
+     * 重置命令频率限制和冷却时间，便于连续发送命令
+     * @param userId 用户ID，未指定时重置所有用户
+     */
+    resetLimits(userId?: number): void {
+        this.features.resetCommandLimits(userId);
+    }
+
+    /**
+     * 释放资源：禁用插件、停止定时器、恢复环境配置并删除临时配置目录
+     */
+    async dispose(): Promise<void> {
+        await this.features.dispose();
+
+        enableChats.splice(0, enableChats.length, ...this.savedEnv.enableChats);
+        managerIds.splice(0, managerIds.length, ...this.savedEnv.managerIds);
+
+        if (this.ownsConfigDir) {
+            await fs.rm(this.configDir, { recursive: true, force: true });
+        }
+    }
+
+    /**
+     * 执行操作并返回期间新增的调用
+     */
+    private async capture(action: () => Promise<void>): Promise<RecordedCall[]> {
+        const start = this.fake.calls.length;
+        await action();
+        return this.fake.calls.slice(start);
+    }
+}
@@ -2,7 +2,7 @@ import fs from 'fs/promises';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { log } from './log';
-import { managerIds } from './app';
+import { managerIds } from './env';
 
 // 文件路径处理
 const __filename = fileURLToPath(import.meta.url);
@@ -1,6 +1,9 @@
-import { html, TelegramClient } from '@mtcute/bun';
-import { getHighQualityAI, getFastAI } from '../ai/AiManager';
-import type { BotPlugin, CommandContext, EventContext, MessageEventContext } from '../features';
+import { html, TelegramClient, type FileLocation, type MessageMedia } from '@mtcute/bun';
+import { getAI, getFastAI, getPersona, getVisionAI, isAIDegraded, renderPrompt } from '../ai/AiManager';
+import { ChatArchive, type ChatArchiveOptions } from '../ai/ChatArchive';
+import { ANSWER_LENGTHS, PERSONA_ROLES, PersonaManager, type AnswerLength, type Persona, type PromptContext } from '../ai/Persona';
+import { DEFAULT_PROVIDER_CONFIG, ProviderRegistry, type EndpointConfig, type ProviderRegistryConfig } from '../ai/ProviderRegistry';
+import type { BotPlugin, CommandContext, EventContext, Features, MessageEventContext } from '../features';
 import {
     search,
     OrganicResult,
@@ -9,21 +12,26 @@ import {
     TimeResult,
     CurrencyResult
 } from 'google-sr';
-import { slowModeState } from '../ai/provider/BaseProvider';
-import DynamicMap from '../utils/DynamicMap';
+import type { Message, ToolCall } from '../ai/provider/BaseProvider';
+import { ToolRegistry, type AIToolContext } from '../ai/ToolRegistry';
+import { CitationList, type CiteSource } from '../ai/CitationList';
+import { PageReader, type PageReadingOptions } from '../ai/PageReader';
 import { Cron } from 'croner';
 import { cleanHTML } from '../utils/HtmlHelper';
+import { ConfigStore } from '../utils/ConfigStore';
 
 /**
  * AI插件 - 模块化结构设计
  * 
  * 主要类:
  * - AIPlugin: 插件主体，处理命令和事件
- * - UserManager: 用户管理，包括权限和使用次数
+ * - UserManager: 用户管理，包括权限和持久化的使用次数
  * - SearchService: 搜索功能封装
  * - KeywordGenerator: 关键词生成
  * - ResponseFormatter: 响应格式化
  * - MessageManager: 消息管理
+ * - ConversationManager: 多轮对话管理
+ * - ImageLoader: 下载消息中的图片
  */
 
 // 状态消息图标
@@ -38,39 +46,219 @@ const STATUS_EMOJIS = {
     cached: '⚡'
 };
 
+// 对话无人追问后的过期时间（毫秒）
+const CONVERSATION_EXPIRY = 30 * 60 * 1000;
+// 传给AI的对话历史的估算token上限，超出时从最早的一轮开始丢弃
+const CONVERSATION_TOKEN_BUDGET = 6000;
+// 交给AI识别的图片大小上限（字节）
+const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+
+// 使用次数策略（ai.json 中的 quota 为默认策略，chatQuotas 按聊天ID覆盖其中的字段，
+// /aiquota set 设置的策略保存在 ai-chat-quotas.json，再覆盖 ai.json 中的字段）
+interface QuotaPolicy {
+    daily: number;      // 每次重置后的次数
+    cap: number;        // 通过发言最多累积到的次数
+    earn: {
+        base: number;        // 每条有效消息增加的次数
+        bonus: number;       // 按消息长度额外增加的最大次数
+        minLength: number;   // 不超过该字数的消息不增加次数
+        bonusLength: number; // 超出 minLength 多少字时获得全部额外次数
+    };
+    resetCron: string;  // 重置次数的时间（cron 表达式）
+}
+
+// 插件配置（配置目录下的 ai.json）
+interface AIPluginConfig {
+    providers: Partial<ProviderRegistryConfig>; // 各用途的候选AI服务，按顺序自动切换
+    endpoints: EndpointConfig;                   // 自建的 OpenAI 兼容服务（llama.cpp、vLLM、Ollama 等）
+    tools: {
+        enabled: boolean;  // 是否让模型通过工具调用自行搜索和查询
+        maxSteps: number;  // 每次回答最多调用工具的轮数
+    };
+    quota: QuotaPolicy;
+    chatQuotas: Record<string, Partial<QuotaPolicy>>;
+    persona: Partial<Persona>;  // 所有聊天的默认人设，聊天的人设用 /ai persona 修改
+    pageReading: PageReadingOptions;
+    archive: ChatArchiveOptions & {
+        maxResults: number;   // /ai recall 每次检索的消息数量
+        withSearch: boolean;  // /ai recall 是否同时联网搜索
+    };
+}
+
+const DEFAULT_CONFIG: AIPluginConfig = {
+    providers: DEFAULT_PROVIDER_CONFIG,
+    endpoints: {},
+    tools: {
+        enabled: true,
+        maxSteps: 4
+    },
+    quota: {
+        daily: 8,
+        cap: 16,
+        earn: {
+            base: 0.35,
+            bonus: 0.6,
+            minLength: 5,
+            bonusLength: 300
+        },
+        resetCron: '0 0 * * *'
+    },
+    chatQuotas: {},
+    persona: {},
+    pageReading: {
+        enabled: true,
+        maxPages: 3,
+        maxPassages: 6,
+        passageLength: 400,
+        maxBytes: 2 * 1024 * 1024,
+        timeout: 5000,
+        domainTimeouts: {}
+    },
+    archive: {
+        maxMessages: 5000,
+        maxTextLength: 1000,
+        maxResults: 12,
+        withSearch: false
+    }
+};
+
+let aiConfig: AIPluginConfig = DEFAULT_CONFIG;
+
+// 使用次数变动类型
+type QuotaEventType = 'use' | 'earn' | 'reset' | 'grant';
+
+// 使用次数变动记录
+interface QuotaEvent {
+    time: number;
+    type: QuotaEventType;
+    change: number;
+    balance: number;    // 变动后的次数
+    operator?: number;  // 管理员调整时的操作人
+}
+
+// 用户在某个聊天中的使用次数
+interface QuotaRecord {
+    credits: number;
+    lastResetAt: number;
+    history: QuotaEvent[]; // 最近的变动记录，最新的在后
+}
+
+// 持久化文件内容
+interface QuotaStoreData {
+    users: Record<string, QuotaRecord>; // "聊天ID:用户ID" -> 使用次数
+}
+
+// 用命令设置的聊天策略的持久化文件内容
+interface QuotaPolicyStoreData {
+    chats: Record<string, Partial<QuotaPolicy>>; // 聊天ID -> 覆盖的策略字段
+}
+
+// 每个用户保留的变动记录数量
+const QUOTA_HISTORY_LIMIT = 20;
+// 发言增加次数后延迟保存（毫秒），合并频繁的写入
+const QUOTA_SAVE_DELAY = 10 * 1000;
+
+const QUOTA_EVENT_LABELS: Record<QuotaEventType, string> = {
+    use: '使用AI',
+    earn: '群聊发言',
+    reset: '定时重置',
+    grant: '管理员调整'
+};
+
+// 格式化使用次数变动和消息的时间
+function formatShortTime(time: number): string {
+    return new Date(time).toLocaleString('zh-CN', {
+        month: '2-digit', day: '2-digit',
+        hour: '2-digit', minute: '2-digit', hour12: false
+    });
+}
+
 /**
  * 用户管理类 - 处理用户权限和使用限制
+ * 使用次数按聊天分别计算，保存到配置目录下的 ai-quotas.json；
+ * 到达策略的重置时间后，在下次读取时重置为每日次数。
+ * 用 /aiquota set 设置的聊天策略单独保存到 ai-chat-quotas.json，不改动 ai.json
  */
 class UserManager {
-    private userCount: DynamicMap;
+    static readonly CONFIG_NAME = 'ai-quotas';
+    static readonly POLICY_CONFIG_NAME = 'ai-chat-quotas';
 
-    constructor(defaultUserLimit: number = 8) {
-        this.userCount = new DynamicMap(defaultUserLimit);
+    private data: QuotaStoreData = { users: {} };
+    private policies: QuotaPolicyStoreData = { chats: {} };
+    private cronCache = new Map<string, Cron | null>();
+    private readonly store = new ConfigStore();
+
+    /**
+     * 读取保存的使用次数
+     */
+    async load(features: Features): Promise<void> {
+        this.store.attach(features);
+        this.cronCache.clear();
+        const data = await this.store.load<QuotaStoreData>(UserManager.CONFIG_NAME, { users: {} });
+        this.data = {
+            users: data.users && typeof data.users === 'object' ? { ...data.users } : {}
+        };
+        const policies = await this.store.load<QuotaPolicyStoreData>(UserManager.POLICY_CONFIG_NAME, { chats: {} });
+        this.policies = {
+            chats: policies.chats && typeof policies.chats === 'object' ? { ...policies.chats } : {}
+        };
     }
 
     /**
-     * 重置所有用户的每日AI使用次数
+     * 获取聊天的使用次数策略
      */
-    checkAndResetDailyLimits(): void {
-        plugin.logger?.info('开始重置所有用户的AI使用次数');
+    getPolicy(chatId: number): QuotaPolicy {
+        const configured = aiConfig.chatQuotas?.[String(chatId)] ?? {};
+        const override = this.policies.chats[String(chatId)] ?? {};
+        return {
+            ...aiConfig.quota,
+            ...configured,
+            ...override,
+            earn: { ...aiConfig.quota.earn, ...configured.earn, ...override.earn }
+        };
+    }
 
-        // 获取所有用户ID
-        const userIds = Array.from(this.userCount.keys());
+    /**
+     * 获取用命令设置的聊天策略，没有设置时返回 undefined
+     */
+    getChatPolicy(chatId: number): Partial<QuotaPolicy> | undefined {
+        return this.policies.chats[String(chatId)];
+    }
 
-        // 重置每个用户的使用次数为默认值
-        for (const userId of userIds) {
-            this.userCount.set(userId, this.userCount.getDefaultData());
+    /**
+     * 设置聊天策略，传入 undefined 时恢复 ai.json 中的策略
+     * @returns 是否保存成功
+     */
+    async setChatPolicy(chatId: number, policy: Partial<QuotaPolicy> | undefined): Promise<boolean> {
+        if (policy) {
+            this.policies.chats[String(chatId)] = policy;
+        } else {
+            delete this.policies.chats[String(chatId)];
         }
+        return this.store.save(UserManager.POLICY_CONFIG_NAME, this.policies);
+    }
 
-        plugin.logger?.info(`已重置${userIds.length}个用户的AI使用次数`);
+    /**
+     * 获取策略的下次重置时间
+     * @param after 从该时间之后计算，默认为当前时间
+     */
+    getNextReset(policy: QuotaPolicy, after: number = Date.now()): Date | null {
+        return this.getCron(policy.resetCron)?.nextRun(new Date(after)) ?? null;
     }
 
     /**
      * 获取用户当前剩余的AI使用次数
      */
-    async getRemainingCount(userId: number): Promise<number> {
-        const count = await this.userCount.get(userId);
-        return Math.max(0, Math.floor(count * 10) / 10); // 保留一位小数
+    getRemainingCount(chatId: number, userId: number): number {
+        const record = this.getRecord(chatId, userId);
+        return Math.max(0, Math.floor(record.credits * 10) / 10); // 保留一位小数
+    }
+
+    /**
+     * 获取用户最近的使用次数变动，最新的在前
+     */
+    getHistory(chatId: number, userId: number, limit: number = 5): QuotaEvent[] {
+        return this.getRecord(chatId, userId).history.slice(-limit).reverse();
     }
 
     async hasUnlimitedAccess(ctx: CommandContext): Promise<boolean> {
@@ -85,8 +273,8 @@ class UserManager {
             return { canUse: true };
         }
 
-        const count = await this.userCount.get(userId);
-        if (count < 1) {
+        const record = this.getRecord(ctx.chatId, userId);
+        if (record.credits < 1) {
             return {
                 canUse: false,
                 message: `${STATUS_EMOJIS.warning} <b>AI使用次数已耗尽</b><br><br>💡: 在群里保持活跃，每次有效消息能增加AI使用次数`
@@ -94,39 +282,121 @@ class UserManager {
         }
 
         // 减少使用次数
-        this.userCount.set(userId, count - 1);
+        this.applyChange(record, 'use', -1);
+        this.save();
         return { canUse: true };
     }
 
-    incrementUsage(userId: number, messageLength?: number): void {
-        // 不适用于无限制用户
-        this.userCount.get(userId).then(count => {
-            // 确保count是数字
-            const numericCount = typeof count === 'number' ? count : 0;
+    /**
+     * 根据消息长度增加使用次数，最多累积到策略的上限
+     */
+    incrementUsage(chatId: number, userId: number, messageLength: number): void {
+        const { cap, earn } = this.getPolicy(chatId);
+        if (messageLength <= earn.minLength) {
+            return;
+        }
+
+        const record = this.getRecord(chatId, userId);
+        if (record.credits >= cap) {
+            return;
+        }
+
+        // 基础增长值，加上按消息长度线性增加的额外值
+        const lengthFactor = earn.bonusLength > 0 ? Math.min(1, (messageLength - earn.minLength) / earn.bonusLength) : 1;
+        const increment = earn.base + earn.bonus * lengthFactor;
+        this.applyChange(record, 'earn', Math.min(cap, record.credits + increment) - record.credits);
+        this.scheduleSave();
+    }
+
+    /**
+     * 管理员增加或扣除使用次数，不受累积上限限制，扣除后最少为 0
+     * @returns 调整后的次数
+     */
+    adjust(chatId: number, userId: number, amount: number, operator: number): number {
+        const record = this.getRecord(chatId, userId);
+        this.applyChange(record, 'grant', Math.max(0, record.credits + amount) - record.credits, operator);
+        this.save();
+        return record.credits;
+    }
 
-            // 计算基于消息长度的增长值
-            let increment = 0.35; // 基础增长值
+    /**
+     * 立即保存尚未写入的变动
+     */
+    flush(): Promise<void> {
+        return this.store.flush();
+    }
 
-            // 如果提供了消息长度，根据消息长度线性增加
-            if (messageLength && messageLength > 5) {
-                // 计算额外增加值（最多额外增加0.6，使总和达到0.95）
-                const lengthFactor = Math.min(1, (messageLength - 5) / 300); // 300字为最大增长因子
-                const additionalIncrement = 0.6 * lengthFactor;
-                increment += additionalIncrement;
-            }
+    /**
+     * 获取用户的使用次数记录，不存在时按每日次数创建，到达重置时间时重置
+     */
+    private getRecord(chatId: number, userId: number): QuotaRecord {
+        const key = `${chatId}:${userId}`;
+        const policy = this.getPolicy(chatId);
+        const now = Date.now();
 
-            // 设置新值，限制最大值为默认次数的两倍
-            this.userCount.set(userId, Math.min(this.userCount.getDefaultData() * 2, numericCount + increment));
-        }).catch(err => {
-            plugin.logger?.error(`增加用户[${userId}]使用次数失败: ${err}`);
-        });
+        let record = this.data.users[key];
+        if (!record) {
+            record = { credits: policy.daily, lastResetAt: now, history: [] };
+            this.data.users[key] = record;
+            return record;
+        }
+
+        const nextReset = this.getNextReset(policy, record.lastResetAt);
+        if (nextReset && nextReset.getTime() <= now) {
+            this.applyChange(record, 'reset', policy.daily - record.credits);
+            record.lastResetAt = now;
+            this.scheduleSave();
+        }
+        return record;
+    }
+
+    /**
+     * 修改次数并记录变动，连续的发言增加合并为一条记录
+     */
+    private applyChange(record: QuotaRecord, type: QuotaEventType, change: number, operator?: number): void {
+        record.credits = Math.round((record.credits + change) * 1000) / 1000;
+        change = Math.round(change * 1000) / 1000;
+        const last = record.history[record.history.length - 1];
+        if (type === 'earn' && last?.type === 'earn') {
+            last.time = Date.now();
+            last.change = Math.round((last.change + change) * 1000) / 1000;
+            last.balance = record.credits;
+            return;
+        }
+
+        record.history.push({ time: Date.now(), type, change, balance: record.credits, ...(operator ? { operator } : {}) });
+        if (record.history.length > QUOTA_HISTORY_LIMIT) {
+            record.history.splice(0, record.history.length - QUOTA_HISTORY_LIMIT);
+        }
+    }
+
+    /**
+     * 解析重置时间的 cron 表达式，无效时使用默认策略的表达式
+     */
+    private getCron(pattern: string): Cron | null {
+        if (!this.cronCache.has(pattern)) {
+            try {
+                this.cronCache.set(pattern, new Cron(pattern));
+            } catch (err) {
+                const error = err instanceof Error ? err : new Error(String(err));
+                plugin.logger?.warn(`AI使用次数重置时间 ${pattern} 无效: ${error.message}`);
+                this.cronCache.set(pattern, pattern === DEFAULT_CONFIG.quota.resetCron ? null : this.getCron(DEFAULT_CONFIG.quota.resetCron));
+            }
+        }
+        return this.cronCache.get(pattern) ?? null;
     }
 
     /**
-     * 获取默认的AI使用次数限制
+     * 延迟保存，合并短时间内的多次变动
      */
-    getDefaultData(): number {
-        return this.userCount.getDefaultData();
+    private scheduleSave(): void {
+        this.store.schedule(() => this.save(), QUOTA_SAVE_DELAY);
+    }
+
+    private async save(): Promise<void> {
+        if (!await this.store.save(UserManager.CONFIG_NAME, this.data)) {
+            plugin.logger?.warn('保存AI使用次数失败');
+        }
     }
 }
 
@@ -262,6 +532,146 @@ class MessageManager {
     }
 }
 
+/**
+ * 一段对话，对应某条AI回答以及截至这条回答的历史
+ */
+interface Conversation {
+    threadId: string;     // 对话ID，同一对话的各条回答相同
+    chatId: number;
+    ownerId: number;      // 发起对话的用户
+    messages: Message[];  // 按顺序的问题和回答（不含搜索结果提示词）
+    expiresAt: number;
+}
+
+/**
+ * 对话管理类 - 以AI的回答消息为键保存多轮对话
+ * 回复某条回答即从该回答处继续；回复较早的回答会从那里分出新的分支
+ */
+class ConversationManager {
+    // 回答消息（聊天ID:消息ID） -> 对话
+    private conversations = new Map<string, Conversation>();
+
+    constructor(
+        private readonly expiry: number = CONVERSATION_EXPIRY,
+        private readonly tokenBudget: number = CONVERSATION_TOKEN_BUDGET
+    ) { }
+
+    /**
+     * 获取回答消息所属的对话，已过期时返回 undefined
+     */
+    get(chatId: number, messageId: number): Conversation | undefined {
+        const key = `${chatId}:${messageId}`;
+        const conversation = this.conversations.get(key);
+        if (conversation && conversation.expiresAt <= Date.now()) {
+            this.conversations.delete(key);
+            return undefined;
+        }
+        return conversation;
+    }
+
+    /**
+     * 记录一轮问答，之后回复这条回答即可继续对话
+     * @param parent 追问时所回复的对话，新对话时为 undefined
+     */
+    record(chatId: number, messageId: number, userId: number, question: string, answer: string, parent?: Conversation): void {
+        this.prune();
+
+        const messages = this.trim([
+            ...(parent?.messages ?? []),
+            { role: 'user', content: question },
+            { role: 'assistant', content: answer }
+        ]);
+
+        this.conversations.set(`${chatId}:${messageId}`, {
+            threadId: parent?.threadId ?? `${chatId}:${messageId}`,
+            chatId,
+            ownerId: parent?.ownerId ?? userId,
+            messages,
+            expiresAt: Date.now() + this.expiry
+        });
+
+        // 继续对话会延长整个对话的有效期
+        if (parent) {
+            this.forEachInThread(parent.threadId, conversation => {
+                conversation.expiresAt = Date.now() + this.expiry;
+            });
+        }
+    }
+
+    /**
+     * 获取传给AI的历史消息副本
+     */
+    getHistory(conversation: Conversation): Message[] {
+        return conversation.messages.map(message => ({ ...message }));
+    }
+
+    /**
+     * 结束对话
+     * @param messageId 指定时结束这条回答所属的整段对话，否则结束用户在本聊天发起的所有对话
+     * @returns 结束的对话数量
+     */
+    reset(chatId: number, userId: number, messageId?: number): number {
+        const threadIds = new Set<string>();
+        if (messageId !== undefined) {
+            const conversation = this.get(chatId, messageId);
+            if (conversation) threadIds.add(conversation.threadId);
+        } else {
+            for (const conversation of this.conversations.values()) {
+                if (conversation.chatId === chatId && conversation.ownerId === userId) {
+                    threadIds.add(conversation.threadId);
+                }
+            }
+        }
+
+        for (const [key, conversation] of this.conversations) {
+            if (threadIds.has(conversation.threadId)) {
+                this.conversations.delete(key);
+            }
+        }
+        return threadIds.size;
+    }
+
+    /**
+     * 估算文本的token数：中日韩字符按每字1个，其余按每4个字符1个
+     */
+    static estimateTokens(text: string): number {
+        const cjk = text.match(/[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af\uf900-\ufaff]/g)?.length ?? 0;
+        return cjk + Math.ceil((text.length - cjk) / 4);
+    }
+
+    /**
+     * 从最早的一轮问答开始丢弃，直到历史不超过token预算；最新的一轮总是保留
+     */
+    private trim(messages: Message[]): Message[] {
+        let total = messages.reduce((sum, message) => sum + ConversationManager.estimateTokens(message.content), 0);
+        let start = 0;
+        while (total > this.tokenBudget && messages.length - start > 2) {
+            total -= ConversationManager.estimateTokens(messages[start]!.content);
+            total -= ConversationManager.estimateTokens(messages[start + 1]!.content);
+            start += 2;
+        }
+        return messages.slice(start);
+    }
+
+    private forEachInThread(threadId: string, callback: (conversation: Conversation) => void): void {
+        for (const conversation of this.conversations.values()) {
+            if (conversation.threadId === threadId) callback(conversation);
+        }
+    }
+
+    /**
+     * 清理过期的对话
+     */
+    private prune(): void {
+        const now = Date.now();
+        for (const [key, conversation] of this.conversations) {
+            if (conversation.expiresAt <= now) {
+                this.conversations.delete(key);
+            }
+        }
+    }
+}
+
 /**
  * 关键词生成类 - 处理搜索关键词的生成
  */
@@ -393,6 +803,18 @@ class KeywordGenerator {
         }
     }
 
+    /**
+     * 格式化工具调用参数的预览，显示第一个文本参数
+     */
+    static formatToolArguments(args: string): string {
+        try {
+            const value = Object.values(JSON.parse(args || '{}')).find(item => typeof item === 'string');
+            return typeof value === 'string' ? this.truncateText(value, 30, 27) : '';
+        } catch {
+            return '';
+        }
+    }
+
     /**
      * 文本截断辅助方法
      */
@@ -676,8 +1098,9 @@ class ResponseFormatter {
 
     /**
      * 格式化AI响应
+     * @param citations 回答可以引用的来源，提供时把 [编号] 替换为来源链接并在末尾列出来源
      */
-    static formatAIResponse(content: string, thinking: string): string {
+    static formatAIResponse(content: string, thinking: string, citations?: CitationList): string {
         let displayText = "";
 
         // 添加思考过程（如果有）
@@ -710,18 +1133,24 @@ class ResponseFormatter {
         // 添加正文内容
         try {
             const formatContent = this.markdownToHtml(content).replace(/\n/g, ''); // 去除所有换行
+            const linkedContent = citations ? citations.link(formatContent) : formatContent;
 
             // 根据内容长度决定显示格式
             if (formatContent.length > 500 && !formatContent.includes('blockquote>')) {
-                displayText += `✏️ 回答内容(共${formatContent.length}字，已自动收缩):<br><blockquote collapsible>${formatContent}</blockquote>`;
+                displayText += `✏️ 回答内容(共${formatContent.length}字，已自动收缩):<br><blockquote collapsible>${linkedContent}</blockquote>`;
             } else {
-                displayText += `✏️ 回答内容(共${formatContent.length}字):<br>${formatContent}`;
+                displayText += `✏️ 回答内容(共${formatContent.length}字):<br>${linkedContent}`;
             }
         } catch (e) {
             plugin.logger?.error(`转换Markdown内容时出错: ${e}`);
             displayText += content; // 回退到原始内容
         }
 
+        // 列出回答引用的来源
+        if (citations) {
+            displayText += citations.format(content);
+        }
+
         // 在最终输出前进行一次性清理，避免多次清理操作
         return cleanHTML(displayText);
     }
@@ -924,8 +1353,9 @@ class ResponseFormatter {
 class SearchResultFormatter {
     /**
      * 格式化搜索结果
+     * @param cite 登记回答可以引用的来源，结果使用返回的编号；不提供时按顺序编号
      */
-    static formatSearchResults(searchResultsArray: any[]): string {
+    static formatSearchResults(searchResultsArray: any[], cite?: CiteSource): string {
         // 校验输入
         if (!searchResultsArray?.length) return '';
 
@@ -964,37 +1394,12 @@ class SearchResultFormatter {
                 specialOutput += specialText + '\n\n';
             }
 
-            // 处理搜索结果
-            if (Array.isArray(results)) {
-                // 收集有效结果并计算质量分数
-                for (const result of results) {
-                    if (result && (result.title || result.snippet || result.link)) {
-                        allSearchResults.push({
-                            result,
-                            quality: ResponseFormatter.getResultQualityScore(result)
-                        });
-                    }
-                }
-            } else if (results?.organic && Array.isArray(results.organic)) {
-                // 兼容旧格式：结果在 organic 数组中
-                for (const organicResult of results.organic) {
-                    if (organicResult && (organicResult.title || organicResult.snippet || organicResult.link)) {
-                        allSearchResults.push({
-                            result: organicResult,
-                            quality: ResponseFormatter.getResultQualityScore(organicResult)
-                        });
-                    }
-                }
-            } else if (results?.json?.organic && Array.isArray(results.json.organic)) {
-                // 兼容另一种格式：结果在 json.organic 中
-                for (const organicResult of results.json.organic) {
-                    if (organicResult && (organicResult.title || organicResult.snippet || organicResult.link)) {
-                        allSearchResults.push({
-                            result: organicResult,
-                            quality: ResponseFormatter.getResultQualityScore(organicResult)
-                        });
-                    }
-                }
+            // 收集有效结果并计算质量分数
+            for (const result of this.getOrganicResults(results)) {
+                allSearchResults.push({
+                    result,
+                    quality: ResponseFormatter.getResultQualityScore(result)
+                });
             }
         }
 
@@ -1017,7 +1422,7 @@ class SearchResultFormatter {
         // 第三步：如果没有找到有效结果，创建备用结果
         if (!uniqueResults.length && !specialOutput) {
             plugin.logger?.warn(`没有有效结果和特殊结果，尝试创建备用结果`);
-            return this.createBackupResults(searchResultsArray, 5) || '';
+            return this.createBackupResults(searchResultsArray, 5, cite) || '';
         }
 
         // 第四步：构建输出内容
@@ -1053,12 +1458,12 @@ class SearchResultFormatter {
                 // 格式化现有结果
                 let resultIndex = 1;
                 selectedResults.forEach((item) => {
-                    output += `[结果 ${resultIndex++}] `;
+                    output += `[结果 ${this.numberResult(item.result, resultIndex++, cite)}] `;
                     output += this.formatSearchResultItem(item.result);
                 });
 
-                // 补充备用结果
-                const backupOutput = this.createBackupResults(searchResultsArray, 5 - selectedResults.length);
+                // 补充备用结果，编号接着现有结果
+                const backupOutput = this.createBackupResults(searchResultsArray, 5 - selectedResults.length, cite, resultIndex);
                 if (backupOutput) {
                     output += backupOutput;
                 }
@@ -1068,7 +1473,7 @@ class SearchResultFormatter {
 
                 // 格式化结果
                 selectedResults.forEach((item, index) => {
-                    output += `[结果 ${index + 1}] -----\n`;
+                    output += `[结果 ${this.numberResult(item.result, index + 1, cite)}] -----\n`;
                     output += this.formatSearchResultItem(item.result);
                 });
 
@@ -1090,6 +1495,47 @@ class SearchResultFormatter {
         return output;
     }
 
+    /**
+     * 取出一次搜索中的网页结果
+     */
+    private static getOrganicResults(results: any): any[] {
+        // 兼容旧格式：结果在 organic 或 json.organic 数组中
+        const list = Array.isArray(results) ? results
+            : Array.isArray(results?.organic) ? results.organic
+                : Array.isArray(results?.json?.organic) ? results.json.organic
+                    : [];
+        return list.filter((result: any) => result && (result.title || result.snippet || result.link));
+    }
+
+    /**
+     * 按质量排序后取出前几个有链接的网页结果，用于读取网页正文
+     */
+    static getTopResults(searchResultsArray: any[], count: number): { title: string; link: string }[] {
+        const pages = new Map<string, { title: string; link: string; quality: number }>();
+        for (const item of searchResultsArray ?? []) {
+            for (const result of this.getOrganicResults(item?.results)) {
+                const link = result.link || result.url;
+                if (typeof link !== 'string' || !/^https?:\/\//i.test(link) || pages.has(link)) continue;
+                pages.set(link, {
+                    title: result.title || result.name || '(无标题)',
+                    link,
+                    quality: ResponseFormatter.getResultQualityScore(result)
+                });
+            }
+        }
+        return [...pages.values()]
+            .sort((a, b) => b.quality - a.quality)
+            .slice(0, count)
+            .map(({ title, link }) => ({ title, link }));
+    }
+
+    /**
+     * 搜索结果的编号，提供 cite 时登记为回答可以引用的来源
+     */
+    private static numberResult(result: any, fallback: number, cite?: CiteSource): number {
+        return cite ? cite(result.title || result.name || '(无标题)', result.link || result.url || undefined) : fallback;
+    }
+
     /**
      * 处理特殊结果类型（字典、翻译、时间等）
      */
@@ -1288,8 +1734,9 @@ class SearchResultFormatter {
 
     /**
      * 创建备用搜索结果
+     * @param startIndex 不登记来源时第一个结果的编号
      */
-    private static createBackupResults(searchResultsArray: any[], requiredCount: number = 5): string {
+    private static createBackupResults(searchResultsArray: any[], requiredCount: number = 5, cite?: CiteSource, startIndex: number = 1): string {
         if (!searchResultsArray?.length) return "";
 
         // 收集所有可能有用的结果和特殊结果
@@ -1344,7 +1791,7 @@ class SearchResultFormatter {
 
         // 格式化结果
         selectedResults.forEach((result, index) => {
-            backupOutput += `[结果 ${index + 1}] -----\n`;
+            backupOutput += `[结果 ${this.numberResult(result, startIndex + index, cite)}] -----\n`;
             backupOutput += this.formatSearchResultItem(result);
         });
 
@@ -1426,45 +1873,76 @@ class SearchResultFormatter {
 }
 
 /**
- * AI提示词生成类 - 处理AI提示词的生成
+ * 图片下载类 - 把消息中的图片转换为发送给AI的 data URL
+ * 支持图片、贴纸（动态贴纸使用预览图）和图片文件
  */
-class AIPromptGenerator {
+class ImageLoader {
     /**
-     * 生成综合AI提示词
+     * 消息媒体中是否有可识别的图片
      */
-    static generateComprehensivePrompt(userQuestion: string, searchResults: string): string {
-        // 获取当前时间
-        const currentDateTime = new Date().toLocaleString('zh-CN', {
-            year: 'numeric', month: '2-digit', day: '2-digit',
-            hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: false
-        });
-
-        // 安全处理输入
-        const safeSearchResults = typeof searchResults === 'string' ? searchResults : '';
-        const safeUserQuestion = typeof userQuestion === 'string' ? userQuestion : '请回答用户问题';
-
-        // 检查搜索结果是否有效
-        const hasResults = safeSearchResults && safeSearchResults.trim().length > 5;
-
-        // 构建搜索结果部分
-        let searchResultsSection = hasResults
-            ? `系统自动搜索结果:\n\`\`\`\n${safeSearchResults}\n\`\`\`\n\n这些搜索结果由系统自动获取，不一定可靠。`
-            : `系统自动搜索结果:\n\`\`\`\n未能获取到相关搜索结果。请基于您的知识库回答问题。\n\`\`\``;
+    static hasImage(media: MessageMedia): boolean {
+        return ImageLoader.getLocation(media) !== null;
+    }
 
-        // 返回完整提示词
-        return `问题：${safeUserQuestion}
+    /**
+     * 下载图片
+     * @returns data URL，文件内容不是支持的图片格式时返回 null
+     * @throws 图片超过大小上限时抛出错误
+     */
+    static async load(client: TelegramClient, media: MessageMedia): Promise<string | null> {
+        const location = ImageLoader.getLocation(media);
+        if (!location) {
+            return null;
+        }
+        if (location.fileSize && location.fileSize > MAX_IMAGE_SIZE) {
+            throw new Error(`图片过大，最多支持 ${MAX_IMAGE_SIZE / 1024 / 1024}MB`);
+        }
 
-当前时间：${currentDateTime}
+        const data = await client.downloadAsBuffer(location);
+        const mimeType = ImageLoader.detectMimeType(data);
+        if (!mimeType) {
+            plugin.logger?.warn('消息中的文件不是支持的图片格式，已忽略');
+            return null;
+        }
+        return `data:${mimeType};base64,${Buffer.from(data).toString('base64')}`;
+    }
 
-请根据这些实际搜索结果和你的知识，提供一个全面、准确且直击问题核心的回答。
+    private static getLocation(media: MessageMedia): FileLocation | null {
+        switch (media?.type) {
+            case 'photo':
+                return media;
+            case 'sticker':
+                if (media.sourceType === 'static') {
+                    return media;
+                }
+                // 动态和视频贴纸使用最大的静态预览图
+                return media.thumbnails
+                    .filter(thumb => !thumb.isVideo)
+                    .sort((a, b) => b.width - a.width)[0] ?? null;
+            case 'document':
+                return media.mimeType.startsWith('image/') ? media : null;
+            default:
+                return null;
+        }
+    }
 
-分析指南：
-1. 将不同来源的信息进行对比和综合，形成全面的回答
-2. 特别注意信息的时效性，优先使用最新的信息
-3. 如果搜索结果中包含矛盾的信息，请指出这些矛盾并分析可能的原因
-4. 确保内容的权威性，对官方来源的信息给予更高权重
+    // 根据文件头判断图片格式
+    private static detectMimeType(data: Uint8Array): string | null {
+        const header = Buffer.from(data.subarray(0, 12));
+        if (header[0] === 0xff && header[1] === 0xd8) return 'image/jpeg';
+        if (header.subarray(0, 4).toString('hex') === '89504e47') return 'image/png';
+        if (header.subarray(0, 4).toString('ascii') === 'GIF8') return 'image/gif';
+        if (header.subarray(0, 4).toString('ascii') === 'RIFF' && header.subarray(8, 12).toString('ascii') === 'WEBP') return 'image/webp';
+        return null;
+    }
+}
 
-回答格式要求（使用HTML标签）：
+/**
+ * AI提示词生成类 - 处理AI提示词的生成
+ */
+class AIPromptGenerator {
+    // 回答格式要求，Telegram 只支持部分HTML标签
+    private static readonly FORMAT_GUIDE = `回答格式要求（使用HTML标签）：
 1. 给予明确、有条理的回答，重点突出，避免冗余
 2. 使用<b>加粗</b>、<i>斜体</i>、<u>下划线</u>、<s>删除线</s>和<code>代码</code>标签
 3. 使用<br>标签表示换行，<br><br>表示段落分隔
@@ -1479,59 +1957,251 @@ class AIPromptGenerator {
 - 不要使用HTML标题标签（如<h1>、<h2>等），使用<b>加粗文本</b>代替
 - 支持嵌套标签但确保正确嵌套，如<b>粗体<i>斜体粗体</i></b>
 - 必须使用<br>标签表示换行，不要使用句号来分隔句子代替换行，比如应该使用<br>来替换\\n
-- 段落之间必须用<br><br>分隔，不要只依赖句号作为段落分隔
+- 段落之间必须用<br><br>分隔，不要只依赖句号作为段落分隔`;
 
-${searchResultsSection}
+    // 以下模板可以在聊天人设中按名称覆盖（/ai persona set prompt 名称 模板）
+    private static readonly TOOL_ANSWER_PROMPT = `问题：{{question}}
 
-若搜索结果不足以全面回答问题，请基于你的知识补充必要信息，但请明确区分哪些是基于搜索结果的信息，哪些是你的知识补充。如果问题涉及最新发展或变化，请说明现有信息可能已过时。`;
-    }
-}
+当前时间：{{datetime}}
 
-/**
- * 帮助信息
- */
-const HELP = `<b>🤖 AI助手</b><br>
-<br>
-<b>使用方法:</b><br>
-1. 直接使用 /ai 问题内容<br>
-2. 回复一条消息并使用 /ai 可以让AI分析该消息<br>
-<br>
-<b>示例:</b><br>
-/ai 简要介绍一下人工智能的发展历程<br>
-/ai 能帮我解释一下这段代码吗？(作为回复消息)<br>
-<br>
-<b>功能特点:</b><br>
-- 🔍 智能联网搜索，获取最新信息和多方观点<br>
-- 💡 结合搜索结果与AI知识库，提供全面分析<br>
-- 🔒 普通用户每天限制使用8次<br>
-- ⚡ 拥有无限制权限的用户可无限使用`;
+你可以调用提供的工具获取信息。问题涉及最新动态、具体事实或数据时，先调用合适的工具查询，可以多次调用不同的工具或换用不同的关键词；凭已有知识就能可靠回答的问题不必调用工具。
+工具返回的结果不一定可靠，请对比不同来源，优先使用最新、权威的信息，并明确区分哪些来自工具结果、哪些是你的知识补充。
+使用带编号的搜索结果（[结果 1]）时，在相应句子末尾用方括号标注编号，例如 [1] 或 [1][3]，只能使用搜索结果中出现过的编号。
 
-/**
- * AI插件类 - 主要插件类，整合所有功能
- */
-class AIPlugin {
-    private userManager: UserManager;
-    private searchService: SearchService;
-    private keywordGenerator: KeywordGenerator;
-    private responseFormatter: ResponseFormatter;
-    private messageManager: MessageManager;
+{{formatGuide}}`;
 
-    constructor() {
-        this.userManager = new UserManager();
-        this.searchService = new SearchService();
-        this.keywordGenerator = new KeywordGenerator();
-        this.responseFormatter = new ResponseFormatter();
-        this.messageManager = new MessageManager();
-    }
+    private static readonly IMAGE_ANSWER_PROMPT = `问题：{{question}}
 
-    /**
-     * 检查并重置用户AI使用次数的公共方法
-     */
-    checkAndResetUserLimits(): void {
-        this.userManager.checkAndResetDailyLimits();
-    }
+当前时间：{{datetime}}
 
-    /**
+请仔细观察附带的图片，结合图片内容回答问题。图片中有文字时先准确识别文字；无法从图片确定的内容请如实说明，不要猜测。
+
+{{formatGuide}}`;
+
+    private static readonly DIRECT_ANSWER_PROMPT = `问题：{{question}}
+
+当前时间：{{datetime}}
+
+请基于你的知识回答问题。如果问题涉及最新发展或变化，请说明你的信息可能已过时。
+
+{{formatGuide}}`;
+
+    private static readonly SEARCH_ANSWER_PROMPT = `问题：{{question}}
+
+当前时间：{{datetime}}
+
+请根据这些实际搜索结果和你的知识，提供一个全面、准确且直击问题核心的回答。
+
+分析指南：
+1. 将不同来源的信息进行对比和综合，形成全面的回答
+2. 特别注意信息的时效性，优先使用最新的信息
+3. 如果搜索结果中包含矛盾的信息，请指出这些矛盾并分析可能的原因
+4. 确保内容的权威性，对官方来源的信息给予更高权重
+5. 使用某条搜索结果（[结果 1]）中的信息时，在相应句子末尾用方括号标注编号，例如 [1] 或 [1][3]，只能使用搜索结果中出现过的编号，不要标注你自己的知识
+
+{{formatGuide}}
+
+{{searchResults}}
+
+若搜索结果不足以全面回答问题，请基于你的知识补充必要信息，但请明确区分哪些是基于搜索结果的信息，哪些是你的知识补充。如果问题涉及最新发展或变化，请说明现有信息可能已过时。`;
+
+    private static readonly RECALL_ANSWER_PROMPT = `问题：{{question}}
+
+当前时间：{{datetime}}
+
+下面是从本群过去的聊天记录中检索到的相关消息，按时间顺序排列，每条消息前的编号用于引用：
+\`\`\`
+{{chatHistory}}
+\`\`\`
+{{searchResults}}
+请根据这些聊天记录回答问题，例如群里讨论过什么、做出了什么决定、由谁提出。
+1. 引用某条消息或搜索结果的内容时，在句末标注它的编号，例如 [2]，只能使用上面出现过的编号
+2. 注意消息的时间，后来的消息可能推翻了之前的结论
+3. 聊天记录中没有相关内容时如实说明，不要编造群成员的发言
+
+{{formatGuide}}`;
+
+    /**
+     * 生成工具调用模式的提示词，由模型自行决定是否调用工具
+     */
+    static generateToolPrompt(userQuestion: string, context: PromptContext): string {
+        return renderPrompt('tool_answer', this.TOOL_ANSWER_PROMPT, {
+            ...context,
+            question: userQuestion,
+            formatGuide: this.FORMAT_GUIDE
+        });
+    }
+
+    /**
+     * 生成识别图片的提示词
+     */
+    static generateImagePrompt(userQuestion: string, context: PromptContext): string {
+        return renderPrompt('image_answer', this.IMAGE_ANSWER_PROMPT, {
+            ...context,
+            question: userQuestion,
+            formatGuide: this.FORMAT_GUIDE
+        });
+    }
+
+    /**
+     * 生成不联网搜索、直接回答的提示词
+     */
+    static generateDirectPrompt(userQuestion: string, context: PromptContext): string {
+        return renderPrompt('direct_answer', this.DIRECT_ANSWER_PROMPT, {
+            ...context,
+            question: userQuestion,
+            formatGuide: this.FORMAT_GUIDE
+        });
+    }
+
+    /**
+     * 生成综合AI提示词
+     * @param pagePassages 从搜索结果网页正文中挑选的段落
+     */
+    static generateComprehensivePrompt(userQuestion: string, searchResults: string, context: PromptContext, pagePassages: string = ''): string {
+        // 安全处理输入
+        const safeSearchResults = typeof searchResults === 'string' ? searchResults : '';
+        const safeUserQuestion = typeof userQuestion === 'string' ? userQuestion : '请回答用户问题';
+
+        // 检查搜索结果是否有效
+        const hasResults = safeSearchResults && safeSearchResults.trim().length > 5;
+
+        // 构建搜索结果部分
+        let searchResultsSection = hasResults
+            ? `系统自动搜索结果:\n\`\`\`\n${safeSearchResults}\n\`\`\`\n\n这些搜索结果由系统自动获取，不一定可靠。`
+            : `系统自动搜索结果:\n\`\`\`\n未能获取到相关搜索结果。请基于您的知识库回答问题。\n\`\`\``;
+
+        // 网页正文比摘要详细，编号与对应的搜索结果相同
+        if (pagePassages.trim()) {
+            searchResultsSection += `\n\n网页正文中与问题最相关的段落:\n\`\`\`\n${pagePassages}\n\`\`\``;
+        }
+
+        return renderPrompt('search_answer', this.SEARCH_ANSWER_PROMPT, {
+            ...context,
+            question: safeUserQuestion,
+            formatGuide: this.FORMAT_GUIDE,
+            searchResults: searchResultsSection
+        });
+    }
+
+    /**
+     * 生成根据聊天记录回答问题的提示词
+     * @param chatHistory 编号后的相关消息
+     * @param searchResults 同时联网搜索时的搜索结果
+     */
+    static generateRecallPrompt(userQuestion: string, chatHistory: string, searchResults: string, context: PromptContext): string {
+        return renderPrompt('recall_answer', this.RECALL_ANSWER_PROMPT, {
+            ...context,
+            question: userQuestion,
+            chatHistory,
+            searchResults: searchResults.trim()
+                ? `\n系统自动搜索结果（不一定可靠，仅作补充）:\n\`\`\`\n${searchResults}\n\`\`\`\n`
+                : '',
+            formatGuide: this.FORMAT_GUIDE
+        });
+    }
+}
+
+/**
+ * 帮助信息
+ */
+const HELP = `<b>🤖 AI助手</b><br>
+<br>
+<b>使用方法:</b><br>
+1. 直接使用 /ai 问题内容<br>
+2. 回复一条消息并使用 /ai 可以让AI分析该消息，支持图片和贴纸<br>
+3. 回复AI的回答并使用 /ai 追问，AI会记住之前的对话（30分钟无人追问后结束）<br>
+4. /ai reset 结束对话，重新开始<br>
+5. /ai persona 查看本聊天的AI人设<br>
+6. /ai recall 问题 从本群过去的聊天记录中查找答案（需管理员用 /ai recall on 开启存档）<br>
+<br>
+<b>示例:</b><br>
+/ai 简要介绍一下人工智能的发展历程<br>
+/ai 能帮我解释一下这段代码吗？(作为回复消息)<br>
+<br>
+<b>功能特点:</b><br>
+- 🔍 智能联网搜索，获取最新信息和多方观点<br>
+- 💡 结合搜索结果与AI知识库，提供全面分析<br>
+- 🧰 AI可自行查询维基百科、地震信息、新闻等插件提供的工具<br>
+- 🔒 普通用户每天限制使用次数，/aiusage 查看剩余次数<br>
+- ⚡ 拥有无限制权限的用户可无限使用`;
+
+/**
+ * 人设命令帮助
+ */
+const PERSONA_HELP = `<b>人设命令（管理员）:</b><br>
+/ai persona show - 查看本聊天的人设<br>
+/ai persona set system 提示词 - 设置系统提示词，可使用 {{chatTitle}}、{{userName}}、{{date}}、{{time}} 等变量<br>
+/ai persona set language 语言 - 设置回答语言<br>
+/ai persona set length short|normal|detailed - 设置回答长度<br>
+/ai persona set search on|off - 是否联网搜索<br>
+/ai persona set role fast|highQuality - 回答使用的模型<br>
+/ai persona set prompt 名称 模板 - 覆盖提示词模板<br>
+/ai persona reset [prompt 名称] - 恢复默认`;
+
+/**
+ * 聊天记录存档命令帮助
+ */
+const RECALL_HELP = `<b>存档命令:</b><br>
+/ai recall 问题 - 从存档的聊天记录中查找答案<br>
+/ai recall on|off - 开启或关闭存档，关闭时删除已保存的消息（管理员）`;
+
+// 可以在人设中覆盖的提示词模板名称
+const PROMPT_NAMES = ['tool_answer', 'search_answer', 'direct_answer', 'image_answer', 'recall_answer', 'translation', 'news_summary', 'news_comment', 'summary_chunk', 'summary_digest'];
+
+/**
+ * AI插件类 - 主要插件类，整合所有功能
+ */
+class AIPlugin {
+    private userManager: UserManager;
+    private searchService: SearchService;
+    private pageReader: PageReader;
+    private keywordGenerator: KeywordGenerator;
+    private responseFormatter: ResponseFormatter;
+    private messageManager: MessageManager;
+    private conversationManager: ConversationManager;
+    private chatArchive: ChatArchive;
+
+    constructor() {
+        this.userManager = new UserManager();
+        this.searchService = new SearchService();
+        this.pageReader = new PageReader();
+        this.keywordGenerator = new KeywordGenerator();
+        this.responseFormatter = new ResponseFormatter();
+        this.messageManager = new MessageManager();
+        this.conversationManager = new ConversationManager();
+        this.chatArchive = new ChatArchive(DEFAULT_CONFIG.archive);
+    }
+
+    /**
+     * 读取保存的使用次数
+     */
+    async loadQuotas(features: Features): Promise<void> {
+        await this.userManager.load(features);
+    }
+
+    /**
+     * 保存尚未写入的使用次数
+     */
+    async flushQuotas(): Promise<void> {
+        await this.userManager.flush();
+    }
+
+    /**
+     * 读取开启聊天记录存档的聊天
+     */
+    async loadArchive(features: Features): Promise<void> {
+        await this.chatArchive.load(features, aiConfig.archive);
+    }
+
+    /**
+     * 保存尚未写入的聊天记录
+     */
+    async flushArchive(): Promise<void> {
+        await this.chatArchive.flush();
+    }
+
+    /**
      * 处理查询剩余次数命令
      */
     async handleCheckUsageCommand(ctx: CommandContext): Promise<void> {
@@ -1543,20 +2213,30 @@ class AIPlugin {
             return;
         }
 
-        const remainingCount = await this.userManager.getRemainingCount(userId);
-        const maxCount = this.userManager.getDefaultData();
-
-        // 格式化剩余次数（保留一位小数）
-        const formattedCount = Math.floor(remainingCount * 10) / 10;
+        const formattedCount = this.userManager.getRemainingCount(ctx.chatId, userId);
+        const policy = this.userManager.getPolicy(ctx.chatId);
+        const nextReset = this.userManager.getNextReset(policy);
 
         // 构建响应消息
         let message = `${STATUS_EMOJIS.done} <b>AI使用次数状态</b><br><br>`;
-        message += `• 剩余次数：${formattedCount}/${maxCount * 2}次<br>`;
-        message += `• 基础每日免费：${maxCount}次<br>`;
+        message += `• 剩余次数：${formattedCount}/${policy.cap}次<br>`;
+        message += `• 每次重置为：${policy.daily}次<br>`;
+        if (nextReset) {
+            message += `• 下次重置：${formatShortTime(nextReset.getTime())}<br>`;
+        }
         message += `• 参与群聊可获得额外次数<br>`;
 
+        const history = this.userManager.getHistory(ctx.chatId, userId);
+        if (history.length > 0) {
+            message += `<br><b>最近记录:</b><br>`;
+            for (const event of history) {
+                const change = `${event.change >= 0 ? '+' : ''}${Math.round(event.change * 10) / 10}`;
+                message += `• ${formatShortTime(event.time)} ${QUOTA_EVENT_LABELS[event.type]} ${change}（剩余 ${Math.floor(event.balance * 10) / 10}）<br>`;
+            }
+        }
+
         if (formattedCount < 1) {
-            message += `<br>⚠️ <b>您的使用次数不足</b><br>发送更多消息（5字以上）可获得额外次数，消息越长获得的次数越多！`;
+            message += `<br>⚠️ <b>您的使用次数不足</b><br>发送更多消息（${policy.earn.minLength}字以上）可获得额外次数，消息越长获得的次数越多！`;
         } else if (formattedCount < 2) {
             message += `<br>⚠️ <b>您的使用次数较少</b><br>继续保持活跃以获取更多使用次数。`;
         }
@@ -1565,31 +2245,327 @@ class AIPlugin {
     }
 
     /**
-     * 处理AI命令
+     * 处理管理使用次数命令
+     * /aiquota [用户ID] <+数量|-数量> 调整用户次数（可回复用户的消息代替用户ID）
+     * /aiquota set <daily|cap|cron> <值> 设置本聊天的策略，/aiquota clear 恢复默认策略
+     * 不带参数时显示本聊天的策略
      */
-    async handleAICommand(ctx: CommandContext): Promise<void> {
-        // 检查是否有无限制权限
+    async handleQuotaCommand(ctx: CommandContext): Promise<void> {
+        const subCommand = ctx.args[0]?.toLowerCase() || '';
+
+        if (subCommand === 'set') {
+            await this.handleQuotaPolicyCommand(ctx);
+            return;
+        }
+
+        if (subCommand === 'clear') {
+            const success = await this.userManager.setChatPolicy(ctx.chatId, undefined);
+            if (!success) {
+                await ctx.message.replyText(`${STATUS_EMOJIS.error} 保存AI使用次数策略失败`);
+                return;
+            }
+            // ai.json 中为本聊天配置的策略不能通过命令清除，清除后仍然生效
+            if (aiConfig.chatQuotas?.[String(ctx.chatId)]) {
+                const policy = this.userManager.getPolicy(ctx.chatId);
+                await ctx.message.replyText(`${STATUS_EMOJIS.done} 已清除本聊天通过命令设置的AI使用次数策略，ai.json 中为本聊天配置的策略仍然生效：每次重置为${policy.daily}次，累积上限${policy.cap}次，重置时间 ${policy.resetCron}`);
+            } else {
+                await ctx.message.replyText(`${STATUS_EMOJIS.done} 本聊天已恢复默认的AI使用次数策略`);
+            }
+            return;
+        }
+
+        if (ctx.args.length === 0) {
+            const policy = this.userManager.getPolicy(ctx.chatId);
+            const nextReset = this.userManager.getNextReset(policy);
+            const custom = !!this.userManager.getChatPolicy(ctx.chatId) || !!aiConfig.chatQuotas?.[String(ctx.chatId)];
+            await ctx.message.replyText(html(`<b>📊 本聊天的AI使用次数策略${custom ? '' : '（默认）'}</b><br><br>` +
+                `• 每次重置为：${policy.daily}次<br>` +
+                `• 发言累积上限：${policy.cap}次<br>` +
+                `• 每条消息增加：${policy.earn.base}~${policy.earn.base + policy.earn.bonus}次（超过${policy.earn.minLength}字，超出${policy.earn.bonusLength}字时最多）<br>` +
+                `• 重置时间：<code>${policy.resetCron}</code>${nextReset ? `（下次 ${formatShortTime(nextReset.getTime())}）` : ''}<br><br>` +
+                `调整用户次数：回复用户的消息发送 /aiquota +5 或 /aiquota -5，也可以使用 /aiquota 用户ID +5<br>` +
+                `设置策略：/aiquota set daily|cap|cron 值，/aiquota clear 清除命令设置的策略`));
+            return;
+        }
+
+        // 确定目标用户：参数中的用户ID，或被回复消息的发送者
+        let targetUserId: number | undefined;
+        let targetName = '';
+        let amountText = ctx.args[0]!;
+        if (ctx.args.length >= 2) {
+            targetUserId = Number(ctx.args[0]);
+            targetName = String(targetUserId);
+            amountText = ctx.args[1]!;
+        } else if (ctx.message.replyToMessage) {
+            const replyMsg = await ctx.client.getReplyTo(ctx.message);
+            if (replyMsg?.sender) {
+                targetUserId = replyMsg.sender.id;
+                targetName = replyMsg.sender.displayName;
+            }
+        }
+
+        const amount = Number(amountText);
+        if (!targetUserId || !Number.isInteger(targetUserId) || !/^[+-]?\d+(\.\d+)?$/.test(amountText) || amount === 0) {
+            await ctx.message.replyText('用法: 回复用户的消息发送 /aiquota +数量 或 /aiquota -数量，或使用 /aiquota 用户ID +数量');
+            return;
+        }
+
+        const balance = this.userManager.adjust(ctx.chatId, targetUserId, amount, ctx.message.sender.id);
+        plugin.logger?.info(`用户 ${ctx.message.sender.id} 调整了用户 ${targetUserId} 在聊天 ${ctx.chatId} 的AI使用次数: ${amount}`);
+        await ctx.message.replyText(`${STATUS_EMOJIS.done} 已为 ${targetName} ${amount > 0 ? '增加' : '扣除'} ${Math.abs(amount)} 次，当前剩余 ${Math.floor(balance * 10) / 10} 次`);
+    }
+
+    /**
+     * 设置本聊天的使用次数策略，保存到 ai-chat-quotas.json
+     */
+    private async handleQuotaPolicyCommand(ctx: CommandContext): Promise<void> {
+        const field = ctx.args[1]?.toLowerCase();
+        const value = ctx.args.slice(2).join(' ').trim();
+        const override: Partial<QuotaPolicy> = { ...this.userManager.getChatPolicy(ctx.chatId) };
+
+        if (field === 'daily' || field === 'cap') {
+            const count = Number(value);
+            if (!value || !Number.isFinite(count) || count < 0) {
+                await ctx.message.replyText(`${STATUS_EMOJIS.warning} 次数应为非负数`);
+                return;
+            }
+            override[field] = count;
+        } else if (field === 'cron') {
+            try {
+                new Cron(value).stop();
+            } catch (err) {
+                const error = err instanceof Error ? err : new Error(String(err));
+                await ctx.message.replyText(`${STATUS_EMOJIS.warning} 无效的 cron 表达式: ${error.message}`);
+                return;
+            }
+            override.resetCron = value;
+        } else {
+            await ctx.message.replyText('用法: /aiquota set daily 次数 | /aiquota set cap 次数 | /aiquota set cron 表达式');
+            return;
+        }
+
+        const success = await this.userManager.setChatPolicy(ctx.chatId, override);
+        await ctx.message.replyText(success
+            ? `${STATUS_EMOJIS.done} 已更新本聊天的AI使用次数策略`
+            : `${STATUS_EMOJIS.error} 保存AI使用次数策略失败`);
+    }
+
+    /**
+     * 处理重置对话命令
+     * 回复AI的回答时结束该对话，否则结束用户在本聊天发起的所有对话
+     */
+    async handleResetCommand(ctx: CommandContext): Promise<void> {
         const userId = ctx.message.sender.id;
-        const hasUnlimitedAccess = await this.userManager.hasUnlimitedAccess(ctx);
+        const count = this.conversationManager.reset(ctx.chatId, userId, ctx.message.replyToMessage?.id ?? undefined);
 
-        // 检查用户使用次数（仅对非无限用户）
-        if (!hasUnlimitedAccess) {
-            const limitCheck = await this.userManager.checkUserLimit(ctx);
-            if (!limitCheck.canUse) {
-                await ctx.message.replyText(html(limitCheck.message!!) || '使用次数已耗尽');
+        await ctx.message.replyText(count > 0
+            ? `${STATUS_EMOJIS.done} 已结束对话，下次提问将开始新的对话`
+            : '当前没有进行中的对话');
+    }
+
+    /**
+     * 处理人设命令
+     * /ai persona show 查看本聊天的人设
+     * /ai persona set <system|language|length|search|role> <值> 修改人设
+     * /ai persona set prompt <名称> <模板> 覆盖插件的提示词模板
+     * /ai persona reset [prompt <名称>] 恢复默认人设或取消模板覆盖
+     */
+    async handlePersonaCommand(ctx: CommandContext): Promise<void> {
+        const action = ctx.args[1]?.toLowerCase() || 'show';
+
+        if (action === 'show') {
+            await ctx.message.replyText(html(this.formatPersona(ctx.chatId)));
+            return;
+        }
+
+        if (!ctx.hasPermission('ai.persona')) {
+            await ctx.message.replyText(`${STATUS_EMOJIS.warning} 需要管理员权限`);
+            return;
+        }
+
+        if (action === 'reset') {
+            if (ctx.args[2]?.toLowerCase() === 'prompt' && ctx.args[3]) {
+                const success = await PersonaManager.resetPrompt(ctx.chatId, ctx.args[3]);
+                await ctx.message.replyText(success
+                    ? `${STATUS_EMOJIS.done} 已恢复提示词模板 ${ctx.args[3]} 的默认内容`
+                    : `本聊天没有覆盖提示词模板 ${ctx.args[3]}`);
                 return;
             }
+            const success = await PersonaManager.reset(ctx.chatId);
+            await ctx.message.replyText(success
+                ? `${STATUS_EMOJIS.done} 本聊天已恢复默认人设`
+                : `${STATUS_EMOJIS.error} 保存人设失败`);
+            return;
+        }
+
+        const field = ctx.args[2]?.toLowerCase();
+        if (action !== 'set' || !field) {
+            await ctx.message.replyText(html(PERSONA_HELP));
+            return;
         }
 
+        // 提示词可能包含换行，从原始文本中取值
+        const changes: Partial<Persona> = {};
+        const value = AIPlugin.getRawArgument(ctx.rawText, 4);
+        switch (field) {
+            case 'system':
+                changes.systemPrompt = value;
+                break;
+            case 'language':
+                if (!value) {
+                    await ctx.message.replyText('用法: /ai persona set language 语言，例如 简体中文、English');
+                    return;
+                }
+                changes.language = value;
+                break;
+            case 'length':
+                if (!ANSWER_LENGTHS.includes(value as AnswerLength)) {
+                    await ctx.message.replyText(`用法: /ai persona set length ${ANSWER_LENGTHS.join('|')}`);
+                    return;
+                }
+                changes.answerLength = value as AnswerLength;
+                break;
+            case 'search':
+                if (value !== 'on' && value !== 'off') {
+                    await ctx.message.replyText('用法: /ai persona set search on|off');
+                    return;
+                }
+                changes.search = value === 'on';
+                break;
+            case 'role':
+                if (!PERSONA_ROLES.includes(value as Persona['role'])) {
+                    await ctx.message.replyText(`用法: /ai persona set role ${PERSONA_ROLES.join('|')}`);
+                    return;
+                }
+                changes.role = value as Persona['role'];
+                break;
+            case 'prompt': {
+                const name = ctx.args[3];
+                const template = AIPlugin.getRawArgument(ctx.rawText, 5);
+                if (!name || !template) {
+                    await ctx.message.replyText(`用法: /ai persona set prompt 名称 模板，可用的名称: ${PROMPT_NAMES.join(', ')}`);
+                    return;
+                }
+                changes.prompts = { [name]: template };
+                break;
+            }
+            default:
+                await ctx.message.replyText(html(PERSONA_HELP));
+                return;
+        }
+
+        const success = await PersonaManager.set(ctx.chatId, changes);
+        await ctx.message.replyText(success
+            ? `${STATUS_EMOJIS.done} 已更新本聊天的人设`
+            : `${STATUS_EMOJIS.error} 保存人设失败`);
+    }
+
+    /**
+     * 格式化聊天的人设
+     */
+    private formatPersona(chatId: number): string {
+        const persona = getPersona(chatId);
+        const prompts = Object.keys(persona.prompts);
+        const escape = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+        return `<b>🎭 本聊天的AI人设${PersonaManager.isCustom(chatId) ? '' : '（默认）'}</b><br><br>` +
+            `• 系统提示词：${persona.systemPrompt ? `<blockquote collapsible>${escape(persona.systemPrompt)}</blockquote>` : '未设置<br>'}` +
+            `• 回答语言：${escape(persona.language)}<br>` +
+            `• 回答长度：${persona.answerLength}<br>` +
+            `• 联网搜索：${persona.search ? '开启' : '关闭'}<br>` +
+            `• 回答模型：${persona.role}<br>` +
+            `• 覆盖的提示词模板：${prompts.length > 0 ? prompts.join(', ') : '无'}<br><br>` +
+            PERSONA_HELP;
+    }
+
+    /**
+     * 取出原始命令文本中第 index 个参数（从命令本身算起）及之后的全部内容，保留换行
+     */
+    private static getRawArgument(rawText: string, index: number): string {
+        return rawText.replace(new RegExp(`^\\s*(?:\\S+(?:\\s+|$)){${index}}`), '').trim();
+    }
+
+    /**
+     * 处理聊天记录存档命令
+     * /ai recall [status] 查看本聊天的存档状态
+     * /ai recall on|off 开启或关闭存档，关闭时删除已保存的消息
+     */
+    async handleRecallCommand(ctx: CommandContext): Promise<void> {
+        const action = ctx.args[1]?.toLowerCase() || 'status';
+
+        if (action === 'status') {
+            const enabled = this.chatArchive.isEnabled(ctx.chatId);
+            await ctx.message.replyText(html(enabled
+                ? `<b>🗂 聊天记录存档已开启</b><br>已保存 ${await this.chatArchive.count(ctx.chatId)} 条消息，最多保留 ${aiConfig.archive.maxMessages} 条<br><br>${RECALL_HELP}`
+                : `<b>🗂 聊天记录存档未开启</b><br>开启后会保存本聊天之后的文字消息，用于检索过去的讨论<br><br>${RECALL_HELP}`));
+            return;
+        }
+
+        if (!ctx.hasPermission('ai.archive')) {
+            await ctx.message.replyText(`${STATUS_EMOJIS.warning} 需要管理员权限`);
+            return;
+        }
+
+        if (action === 'on') {
+            const success = await this.chatArchive.enable(ctx.chatId);
+            await ctx.message.replyText(success
+                ? `${STATUS_EMOJIS.done} 已开启聊天记录存档，之后的消息可以通过 /ai recall 问题 检索`
+                : `${STATUS_EMOJIS.error} 保存存档设置失败`);
+        } else {
+            const success = await this.chatArchive.disable(ctx.chatId);
+            await ctx.message.replyText(success
+                ? `${STATUS_EMOJIS.done} 已关闭聊天记录存档并删除保存的消息`
+                : `${STATUS_EMOJIS.error} 保存存档设置失败`);
+        }
+    }
+
+    /**
+     * 处理AI命令
+     */
+    async handleAICommand(ctx: CommandContext): Promise<void> {
+        if (ctx.args.length === 1 && ctx.args[0]?.toLowerCase() === 'reset') {
+            await this.handleResetCommand(ctx);
+            return;
+        }
+        if (ctx.args[0]?.toLowerCase() === 'persona') {
+            await this.handlePersonaCommand(ctx);
+            return;
+        }
+        // /ai recall 问题：从本聊天的存档中检索消息回答
+        const recall = ctx.args[0]?.toLowerCase() === 'recall';
+        if (recall && (ctx.args.length === 1 || ['on', 'off', 'status'].includes(ctx.args[1]!.toLowerCase()))) {
+            await this.handleRecallCommand(ctx);
+            return;
+        }
+        if (recall && !this.chatArchive.isEnabled(ctx.chatId)) {
+            await ctx.message.replyText(`${STATUS_EMOJIS.warning} 本聊天尚未开启聊天记录存档，管理员可以使用 /ai recall on 开启`);
+            return;
+        }
+
+        // 检查是否有无限制权限
+        const userId = ctx.message.sender.id;
+        const hasUnlimitedAccess = await this.userManager.hasUnlimitedAccess(ctx);
+
         // 处理输入内容
-        const slowModeTip = slowModeState.isSlowMode ? "(慢速模式已启用，响应可能需要更长时间)" : "";
-        let question = ctx.content;
+        const persona = getPersona(ctx.chatId);
+        const slowModeTip = isAIDegraded(persona.role) ? "(首选AI服务暂时不可用，已切换到备用服务，响应可能需要更长时间)" : "";
+        let question = recall ? ctx.args.slice(1).join(' ') : ctx.content;
+        // 命令消息和被回复消息中的图片
+        const imageMedia: MessageMedia[] = ImageLoader.hasImage(ctx.message.media) ? [ctx.message.media] : [];
+
+        // 回复AI的回答时继续该对话
+        const replyToId = ctx.message.replyToMessage?.id;
+        const conversation = replyToId ? this.conversationManager.get(ctx.chatId, replyToId) : undefined;
 
         // 如果是回复其他消息，将回复内容加入问题
-        if (ctx.message.replyToMessage?.id) {
+        if (replyToId && !conversation) {
             try {
                 const repliedMsg = await ctx.client.getReplyTo(ctx.message);
 
+                if (repliedMsg && ImageLoader.hasImage(repliedMsg.media)) {
+                    imageMedia.push(repliedMsg.media);
+                }
+
                 if (repliedMsg?.text) {
                     if (question) {
                         question = `${repliedMsg.text}\n\n${question}`;
@@ -1604,10 +2580,28 @@ class AIPlugin {
 
         // 如果没有内容，显示帮助信息
         if (!question || question.trim().length === 0) {
-            await ctx.message.replyText(html(HELP));
+            if (imageMedia.length === 0) {
+                await ctx.message.replyText(html(HELP));
+                return;
+            }
+            question = '请描述这张图片的内容';
+        }
+
+        // 没有支持图片的模型时直接提示，不扣除使用次数
+        if (!recall && imageMedia.length > 0 && !getVisionAI().supportsImages) {
+            await ctx.message.replyText(`${STATUS_EMOJIS.error} 当前配置的AI模型不支持识别图片，请联系管理员在 ai.json 的 providers.vision 中配置支持图片的模型`);
             return;
         }
 
+        // 检查用户使用次数（仅对非无限用户）
+        if (!hasUnlimitedAccess) {
+            const limitCheck = await this.userManager.checkUserLimit(ctx);
+            if (!limitCheck.canUse) {
+                await ctx.message.replyText(html(limitCheck.message!!) || '使用次数已耗尽');
+                return;
+            }
+        }
+
         // 开始处理请求
         const waitMsg = await ctx.message.replyText(`${STATUS_EMOJIS.analyzing} 正在分析您的问题...${slowModeTip}`);
         if (!waitMsg?.id) {
@@ -1616,138 +2610,23 @@ class AIPlugin {
         }
 
         try {
-            // 提取搜索关键词
-            const fastAI = getFastAI();
-            const keywords = await KeywordGenerator.generateKeywords(fastAI, question);
-
-            // 检查是否有关键词且不为空
-            if (!keywords.trim()) {
-                // 关键词提取失败，给出错误信息
-                await this.messageManager.updateMessageStatus(ctx, waitMsg.id, 'error', "无法识别您的问题，请尝试重新表述或提供更多信息");
-                return;
-            }
-
-            // 记录关键词数量
-            const keywordCount = keywords.split('\n').filter(k => k.trim()).length;
-            plugin.logger?.info(`已提取${keywordCount}个搜索关键词，将进行精准搜索`);
-
-            // 进行搜索
-            const searchPreview = KeywordGenerator.formatSearchPreview(keywords);
-
-            await this.messageManager.updateMessageStatus(ctx, waitMsg.id, 'searching', `${searchPreview} ${slowModeTip}`);
-
-            // 执行搜索
-            const searchResults = await this.searchService.performBatchSearch(keywords);
-
-            // 格式化搜索结果
-            await this.messageManager.updateMessageStatus(ctx, waitMsg.id, 'processing', `正在分析搜索结果中... ${slowModeTip}`);
-
-            // 将搜索结果转化为提示词的一部分
-            const searchResultText = SearchResultFormatter.formatSearchResults(searchResults);
-
-            // 判断是否有任何形式的搜索结果
-            const hasAnySearchResults = searchResultText &&
-                searchResultText.trim().length > 0 &&
-                searchResultText !== "未找到相关搜索结果" &&
-                searchResultText !== "未能获取到相关搜索结果，但AI将尝试使用自身知识回答问题";
-
-            // 检查搜索结果的质量
-            const hasHighQualityResults = hasAnySearchResults &&
-                !searchResultText.includes("可能与问题相关性不高") &&
-                !searchResultText.includes("质量不高") &&
-                !searchResultText.includes("仅供参考");
-
-            if (!hasAnySearchResults) {
-                // 完全没有搜索结果
-                plugin.logger?.warn(`未获取到任何搜索结果，将使用AI自身知识回答问题: "${question}"`);
-                await this.messageManager.updateMessageStatus(ctx, waitMsg.id, 'warning', `未找到相关搜索结果，将使用AI自身知识回答问题... ${slowModeTip}`);
-            } else if (!hasHighQualityResults) {
-                // 有结果但质量可能不高
-                plugin.logger?.info(`获取到一些搜索结果，但质量可能不高，AI将参考这些结果回答问题`);
-
-                // 检查特殊结果类型
-                if (searchResultText.includes("字典解释") || searchResultText.includes("翻译结果") ||
-                    searchResultText.includes("时间信息") || searchResultText.includes("货币转换")) {
-                    await this.messageManager.updateMessageStatus(ctx, waitMsg.id, 'thinking', `已找到相关特殊信息，正在分析并思考中... ${slowModeTip}`);
-                } else {
-                    await this.messageManager.updateMessageStatus(ctx, waitMsg.id, 'thinking', `找到一些相关内容，可能不够全面，AI将结合这些内容进行回答... ${slowModeTip}`);
-                }
+            // 检索聊天记录时根据存档的消息回答；有图片时由识图模型直接回答；人设关闭搜索时直接回答；
+            // 模型支持工具调用时由模型自行决定搜索和查询，否则使用关键词搜索
+            let answer: string;
+            if (recall) {
+                answer = await this.answerWithRecall(ctx, waitMsg.id, question, conversation, slowModeTip);
+            } else if (imageMedia.length > 0) {
+                answer = await this.answerWithImages(ctx, waitMsg.id, question, imageMedia, conversation);
+            } else if (!persona.search) {
+                answer = await this.answerDirectly(ctx, waitMsg.id, question, conversation, slowModeTip);
             } else {
-                // 有高质量结果
-                plugin.logger?.info(`获取到高质量搜索结果，长度: ${searchResultText.length} 字符`);
-                // 显示搜索结果摘要给用户
-                const resultSummary = SearchResultFormatter.summarizeSearchResults(searchResults);
-                await this.messageManager.updateMessageStatus(ctx, waitMsg.id, 'thinking', `已找到${resultSummary}，正在分析并思考中... ${slowModeTip}`);
+                answer = await this.answerWithTools(ctx, waitMsg.id, question, conversation, slowModeTip)
+                    ?? await this.answerWithSearch(ctx, waitMsg.id, question, conversation, slowModeTip);
             }
 
-            // 无论如何都将所有搜索结果传递给AI，让AI自行判断有用内容
-            const prompt = AIPromptGenerator.generateComprehensivePrompt(question, searchResultText);
-
-            // 使用高质量AI回答问题
-            const ai = getHighQualityAI();
-
-            // 初始化变量跟踪最新内容
-            let latestContent = '';
-            let latestThinking = '';
-
-            try {
-                await ai.stream(
-                    (content: string, done: boolean, thinking?: string) => {
-                        // 确保内容始终是字符串
-                        const safeContent = (content || '').toString();
-
-                        // 确保thinking是字符串或undefined
-                        const safeThinking = thinking ? thinking.toString() : undefined;
-
-                        // 更新最新内容
-                        latestContent = safeContent;
-                        if (safeThinking) latestThinking = safeThinking;
-
-                        // 如果流结束，进行最终更新不受节流限制
-                        if (done) {
-                            try {
-                                // 最终更新直接发送，不使用节流机制
-                                const finalDisplayText = ResponseFormatter.formatAIResponse(safeContent, safeThinking || '');
-                                // 使用新方法清理最终输出中的HTML
-                                const cleanFinalText = cleanHTML(finalDisplayText);
-                                const key = `${ctx.chatId}:${waitMsg.id}`;
-
-                                // 检查内容是否与上次相同
-                                if (this.messageManager['isContentUnchanged'](key, cleanFinalText)) {
-                                    // 内容相同，跳过更新
-                                    plugin.logger?.debug(`跳过最终更新，内容未变化`);
-                                    return;
-                                }
-
-                                // 更新最终消息
-                                ctx.client.editMessage({
-                                    chatId: ctx.chatId,
-                                    message: waitMsg.id,
-                                    text: html(cleanFinalText)
-                                }).then(() => {
-                                    // 更新成功后记录内容
-                                    this.messageManager['lastMessageContents'].set(key, cleanFinalText);
-                                }).catch(e => plugin.logger?.error(`最终更新消息失败: ${e}`));
-                            } catch (e) {
-                                plugin.logger?.error(`创建最终消息时出错: ${e}`);
-                            }
-                        } else {
-                            try {
-                                // 使用节流机制更新中间消息
-                                const displayText = ResponseFormatter.formatAIResponse(safeContent, safeThinking || '');
-                                // 使用新方法清理中间输出的HTML
-                                const cleanText = cleanHTML(displayText);
-                                this.messageManager.throttledEditMessage(ctx, ctx.chatId, waitMsg.id, cleanText);
-                            } catch (e) {
-                                plugin.logger?.error(`创建中间消息时出错: ${e}`);
-                            }
-                        }
-                    },
-                    prompt,
-                    true
-                );
-            } catch (error) {
-                throw error; // 重新抛出错误以便外层 catch 捕获
+            // 记录本轮问答，回复这条回答即可继续追问
+            if (answer.trim()) {
+                this.conversationManager.record(ctx.chatId, waitMsg.id, userId, question, answer, conversation);
             }
         } catch (error) {
             plugin.logger?.error('AI processing error:', error);
@@ -1774,12 +2653,391 @@ class AIPlugin {
         }
     }
 
+    /**
+     * 使用工具调用回答问题，由模型自行决定是否搜索或查询其他插件提供的信息
+     * @returns 回答内容；未启用工具调用、没有可用工具或服务，或者在输出回答前失败时返回 null
+     */
+    private async answerWithTools(
+        ctx: CommandContext,
+        waitMsgId: number,
+        question: string,
+        conversation: Conversation | undefined,
+        slowModeTip: string
+    ): Promise<string | null> {
+        if (!aiConfig.tools.enabled) {
+            return null;
+        }
+
+        const registry = new ToolRegistry(ctx.client.features.getAITools(ctx.chatId));
+        const ai = getAI(getPersona(ctx.chatId).role, this.getHistory(ctx, conversation));
+        if (registry.size === 0 || !ai.supportsTools) {
+            return null;
+        }
+
+        // 工具返回的搜索结果登记为来源，回答中的引用编号在所有工具调用之间统一
+        const citations = new CitationList();
+        const toolContext: AIToolContext = {
+            chatId: ctx.chatId,
+            userId: ctx.message.sender.id,
+            cite: (title, link) => citations.add(title, link)
+        };
+        const executeTool = async (call: ToolCall): Promise<string> => {
+            const title = registry.get(call.function.name)?.title ?? call.function.name;
+            plugin.logger?.info(`AI调用工具 ${call.function.name}: ${call.function.arguments}`);
+            await this.messageManager.updateMessageStatus(ctx, waitMsgId, 'searching', `${title} ${KeywordGenerator.formatToolArguments(call.function.arguments)} ${slowModeTip}`);
+            return registry.execute(call, toolContext);
+        };
+
+        await this.messageManager.updateMessageStatus(ctx, waitMsgId, 'thinking', slowModeTip);
+
+        let started = false;
+        try {
+            return await this.streamAnswer(ctx, waitMsgId, output => ai.streamWithTools(
+                (content, done, thinking) => {
+                    started ||= content.length > 0;
+                    output(content, done, thinking);
+                },
+                AIPromptGenerator.generateToolPrompt(question, this.getPromptContext(ctx)),
+                registry.getDefinitions(),
+                executeTool,
+                aiConfig.tools.maxSteps
+            ), citations);
+        } catch (error) {
+            if (started) {
+                throw error;
+            }
+            plugin.logger?.warn(`工具调用回答失败，改用关键词搜索: ${error instanceof Error ? error.message : String(error)}`);
+            return null;
+        }
+    }
+
+    /**
+     * 识别图片后回答问题，只使用配置了支持图片的模型（调用前已确认有这样的模型）
+     * @returns 回答内容，无法读取图片时为空字符串
+     */
+    private async answerWithImages(
+        ctx: CommandContext,
+        waitMsgId: number,
+        question: string,
+        imageMedia: MessageMedia[],
+        conversation: Conversation | undefined
+    ): Promise<string> {
+        const ai = getVisionAI(this.getHistory(ctx, conversation));
+
+        await this.messageManager.updateMessageStatus(ctx, waitMsgId, 'processing', '正在读取图片...');
+        const images: string[] = [];
+        for (const media of imageMedia) {
+            const image = await ImageLoader.load(ctx.client, media);
+            if (image) {
+                images.push(image);
+            }
+        }
+        if (images.length === 0) {
+            await this.messageManager.updateMessageStatus(ctx, waitMsgId, 'error', '无法读取图片，请发送 JPG、PNG、WEBP 或 GIF 格式的图片');
+            return '';
+        }
+
+        const slowModeTip = isAIDegraded('vision') ? "(首选AI服务暂时不可用，已切换到备用服务，响应可能需要更长时间)" : "";
+        await this.messageManager.updateMessageStatus(ctx, waitMsgId, 'thinking', `正在识别图片... ${slowModeTip}`);
+        const prompt = AIPromptGenerator.generateImagePrompt(question, this.getPromptContext(ctx));
+        return this.streamAnswer(ctx, waitMsgId, output => ai.stream(output, prompt, true, images));
+    }
+
+    /**
+     * 不联网搜索，直接使用AI的知识回答问题
+     */
+    private async answerDirectly(
+        ctx: CommandContext,
+        waitMsgId: number,
+        question: string,
+        conversation: Conversation | undefined,
+        slowModeTip: string
+    ): Promise<string> {
+        await this.messageManager.updateMessageStatus(ctx, waitMsgId, 'thinking', slowModeTip);
+        const ai = getAI(getPersona(ctx.chatId).role, this.getHistory(ctx, conversation));
+        const prompt = AIPromptGenerator.generateDirectPrompt(question, this.getPromptContext(ctx));
+        return this.streamAnswer(ctx, waitMsgId, output => ai.stream(output, prompt, true));
+    }
+
+    /**
+     * 从本聊天的存档中检索相关消息后回答问题，回答末尾附上引用的消息链接
+     * @returns 回答内容，没有找到相关消息时为空字符串
+     */
+    private async answerWithRecall(
+        ctx: CommandContext,
+        waitMsgId: number,
+        question: string,
+        conversation: Conversation | undefined,
+        slowModeTip: string
+    ): Promise<string> {
+        await this.messageManager.updateMessageStatus(ctx, waitMsgId, 'searching', `本群聊天记录 ${slowModeTip}`);
+
+        // 追问时带上上一个问题以补全省略的主语
+        const previousQuestion = conversation?.messages.filter(message => message.role === 'user').at(-1)?.content;
+        const query = previousQuestion ? `${previousQuestion}\n${question}` : question;
+        const results = (await this.chatArchive.search(ctx.chatId, query, aiConfig.archive.maxResults))
+            .sort((a, b) => a.message.date - b.message.date);
+        if (results.length === 0) {
+            await this.messageManager.updateMessageStatus(ctx, waitMsgId, 'error', '存档的聊天记录中没有找到相关消息，请尝试换一种问法');
+            return '';
+        }
+        plugin.logger?.info(`从聊天记录中检索到${results.length}条相关消息`);
+
+        // 消息和联网搜索的结果统一编号
+        const citations = new CitationList('相关消息');
+        const chatHistory = results.map(result => {
+            const number = citations.add(`${result.message.name} ${formatShortTime(result.message.date)}`, result.link);
+            return `[${number}] ${formatShortTime(result.message.date)} ${result.message.name}: ${result.message.text}`;
+        }).join('\n');
+
+        // 按配置同时联网搜索，作为聊天记录的补充
+        let searchResults = '';
+        if (aiConfig.archive.withSearch && getPersona(ctx.chatId).search) {
+            const keywords = await KeywordGenerator.generateKeywords(getFastAI(), question);
+            if (keywords.trim()) {
+                await this.messageManager.updateMessageStatus(ctx, waitMsgId, 'searching', `${KeywordGenerator.formatSearchPreview(keywords)} ${slowModeTip}`);
+                searchResults = SearchResultFormatter.formatSearchResults(await this.searchService.performBatchSearch(keywords),
+                    (title, link) => citations.add(title, link));
+            }
+        }
+
+        await this.messageManager.updateMessageStatus(ctx, waitMsgId, 'thinking', `已找到${results.length}条相关消息，正在分析并思考中... ${slowModeTip}`);
+        const prompt = AIPromptGenerator.generateRecallPrompt(question, chatHistory, searchResults, this.getPromptContext(ctx));
+
+        const ai = getAI(getPersona(ctx.chatId).role, this.getHistory(ctx, conversation));
+        return this.streamAnswer(ctx, waitMsgId, output => ai.stream(output, prompt, true), citations);
+    }
+
+    /**
+     * 渲染提示词模板时使用的聊天信息
+     */
+    private getPromptContext(ctx: CommandContext): PromptContext {
+        return {
+            chatId: ctx.chatId,
+            chatTitle: ctx.message.chat.displayName,
+            userName: ctx.message.sender.displayName
+        };
+    }
+
+    /**
+     * 传给AI的对话历史：人设的系统提示词和之前的对话
+     */
+    private getHistory(ctx: CommandContext, conversation: Conversation | undefined): Message[] {
+        const history = conversation ? this.conversationManager.getHistory(conversation) : [];
+        return PersonaManager.withSystemPrompt(history, this.getPromptContext(ctx));
+    }
+
+    /**
+     * 提取关键词搜索后回答问题
+     * @returns 回答内容，无法提取关键词时为空字符串
+     */
+    private async answerWithSearch(
+        ctx: CommandContext,
+        waitMsgId: number,
+        question: string,
+        conversation: Conversation | undefined,
+        slowModeTip: string
+    ): Promise<string> {
+        // 提取搜索关键词，追问时带上上一个问题以补全省略的主语
+        const fastAI = getFastAI();
+        const previousQuestion = conversation?.messages.filter(message => message.role === 'user').at(-1)?.content;
+        const keywordQuestion = previousQuestion ? `${previousQuestion}\n${question}` : question;
+        const keywords = await KeywordGenerator.generateKeywords(fastAI, keywordQuestion);
+
+        // 检查是否有关键词且不为空
+        if (!keywords.trim()) {
+            // 关键词提取失败，给出错误信息
+            await this.messageManager.updateMessageStatus(ctx, waitMsgId, 'error', "无法识别您的问题，请尝试重新表述或提供更多信息");
+            return '';
+        }
+
+        // 记录关键词数量
+        const keywordCount = keywords.split('\n').filter(k => k.trim()).length;
+        plugin.logger?.info(`已提取${keywordCount}个搜索关键词，将进行精准搜索`);
+
+        // 进行搜索
+        const searchPreview = KeywordGenerator.formatSearchPreview(keywords);
+
+        await this.messageManager.updateMessageStatus(ctx, waitMsgId, 'searching', `${searchPreview} ${slowModeTip}`);
+
+        // 执行搜索
+        const searchResults = await this.searchService.performBatchSearch(keywords);
+
+        // 格式化搜索结果
+        await this.messageManager.updateMessageStatus(ctx, waitMsgId, 'processing', `正在分析搜索结果中... ${slowModeTip}`);
+
+        // 将搜索结果转化为提示词的一部分，结果登记为回答可以引用的来源
+        const citations = new CitationList();
+        const searchResultText = SearchResultFormatter.formatSearchResults(searchResults, (title, link) => citations.add(title, link));
+
+        // 读取排名靠前的网页正文，补充摘要中没有的细节
+        let pagePassages = '';
+        const pages = aiConfig.pageReading.enabled
+            ? SearchResultFormatter.getTopResults(searchResults, aiConfig.pageReading.maxPages)
+            : [];
+        if (pages.length > 0) {
+            await this.messageManager.updateMessageStatus(ctx, waitMsgId, 'processing', `正在阅读${pages.length}个网页... ${slowModeTip}`);
+            pagePassages = await this.pageReader.read(question, pages, aiConfig.pageReading, (title, link) => citations.add(title, link));
+        }
+
+        // 判断是否有任何形式的搜索结果
+        const hasAnySearchResults = searchResultText &&
+            searchResultText.trim().length > 0 &&
+            searchResultText !== "未找到相关搜索结果" &&
+            searchResultText !== "未能获取到相关搜索结果，但AI将尝试使用自身知识回答问题";
+
+        // 检查搜索结果的质量
+        const hasHighQualityResults = hasAnySearchResults &&
+            !searchResultText.includes("可能与问题相关性不高") &&
+            !searchResultText.includes("质量不高") &&
+            !searchResultText.includes("仅供参考");
+
+        if (!hasAnySearchResults) {
+            // 完全没有搜索结果
+            plugin.logger?.warn(`未获取到任何搜索结果，将使用AI自身知识回答问题: "${question}"`);
+            await this.messageManager.updateMessageStatus(ctx, waitMsgId, 'warning', `未找到相关搜索结果，将使用AI自身知识回答问题... ${slowModeTip}`);
+        } else if (!hasHighQualityResults) {
+            // 有结果但质量可能不高
+            plugin.logger?.info(`获取到一些搜索结果，但质量可能不高，AI将参考这些结果回答问题`);
+
+            // 检查特殊结果类型
+            if (searchResultText.includes("字典解释") || searchResultText.includes("翻译结果") ||
+                searchResultText.includes("时间信息") || searchResultText.includes("货币转换")) {
+                await this.messageManager.updateMessageStatus(ctx, waitMsgId, 'thinking', `已找到相关特殊信息，正在分析并思考中... ${slowModeTip}`);
+            } else {
+                await this.messageManager.updateMessageStatus(ctx, waitMsgId, 'thinking', `找到一些相关内容，可能不够全面，AI将结合这些内容进行回答... ${slowModeTip}`);
+            }
+        } else {
+            // 有高质量结果
+            plugin.logger?.info(`获取到高质量搜索结果，长度: ${searchResultText.length} 字符`);
+            // 显示搜索结果摘要给用户
+            const resultSummary = SearchResultFormatter.summarizeSearchResults(searchResults);
+            await this.messageManager.updateMessageStatus(ctx, waitMsgId, 'thinking', `已找到${resultSummary}，正在分析并思考中... ${slowModeTip}`);
+        }
+
+        // 无论如何都将所有搜索结果传递给AI，让AI自行判断有用内容
+        const prompt = AIPromptGenerator.generateComprehensivePrompt(question, searchResultText, this.getPromptContext(ctx), pagePassages);
+
+        // 使用人设指定的AI回答问题，追问时传入之前的对话
+        const ai = getAI(getPersona(ctx.chatId).role, this.getHistory(ctx, conversation));
+        return this.streamAnswer(ctx, waitMsgId, output => ai.stream(output, prompt, true), citations);
+    }
+
+    /**
+     * 流式输出回答，中间内容节流更新，结束时立即更新
+     * @param run 发起请求，把输出回调交给AI
+     * @param citations 回答可以引用的来源
+     * @returns 最终的回答内容
+     */
+    private async streamAnswer(
+        ctx: CommandContext,
+        waitMsgId: number,
+        run: (output: (content: string, done: boolean, thinking?: string) => void) => Promise<void>,
+        citations?: CitationList
+    ): Promise<string> {
+        // 初始化变量跟踪最新内容
+        let latestContent = '';
+        let latestThinking = '';
+
+        try {
+            await run(
+                (content: string, done: boolean, thinking?: string) => {
+                    // 确保内容始终是字符串
+                    const safeContent = (content || '').toString();
+
+                    // 确保thinking是字符串或undefined
+                    const safeThinking = thinking ? thinking.toString() : undefined;
+
+                    // 更新最新内容
+                    latestContent = safeContent;
+                    if (safeThinking) latestThinking = safeThinking;
+
+                    // 如果流结束，进行最终更新不受节流限制
+                    if (done) {
+                        try {
+                            // 最终更新直接发送，不使用节流机制
+                            const finalDisplayText = ResponseFormatter.formatAIResponse(safeContent, safeThinking || '', citations);
+                            // 使用新方法清理最终输出中的HTML
+                            const cleanFinalText = cleanHTML(finalDisplayText);
+                            const key = `${ctx.chatId}:${waitMsgId}`;
+
+                            // 检查内容是否与上次相同
+                            if (this.messageManager['isContentUnchanged'](key, cleanFinalText)) {
+                                // 内容相同，跳过更新
+                                plugin.logger?.debug(`跳过最终更新，内容未变化`);
+                                return;
+                            }
+
+                            // 更新最终消息
+                            ctx.client.editMessage({
+                                chatId: ctx.chatId,
+                                message: waitMsgId,
+                                text: html(cleanFinalText)
+                            }).then(() => {
+                                // 更新成功后记录内容
+                                this.messageManager['lastMessageContents'].set(key, cleanFinalText);
+                            }).catch(e => plugin.logger?.error(`最终更新消息失败: ${e}`));
+                        } catch (e) {
+                            plugin.logger?.error(`创建最终消息时出错: ${e}`);
+                        }
+                    } else {
+                        try {
+                            // 使用节流机制更新中间消息
+                            const displayText = ResponseFormatter.formatAIResponse(safeContent, safeThinking || '', citations);
+                            // 使用新方法清理中间输出的HTML
+                            const cleanText = cleanHTML(displayText);
+                            this.messageManager.throttledEditMessage(ctx, ctx.chatId, waitMsgId, cleanText);
+                        } catch (e) {
+                            plugin.logger?.error(`创建中间消息时出错: ${e}`);
+                        }
+                    }
+                }
+            );
+        } catch (error) {
+            throw error; // 重新抛出错误以便外层 catch 捕获
+        }
+
+        return latestContent;
+    }
+
+    /**
+     * 网络搜索工具：搜索关键词并格式化结果，附上排名靠前的网页中与关键词最相关的段落
+     * @param cite 登记回答可以引用的来源
+     */
+    async searchWeb(query: string, cite?: CiteSource): Promise<string> {
+        const results = await this.searchService.performBatchSearch(query);
+        const text = SearchResultFormatter.formatSearchResults(results, cite);
+        const pages = aiConfig.pageReading.enabled
+            ? SearchResultFormatter.getTopResults(results, aiConfig.pageReading.maxPages)
+            : [];
+        const passages = pages.length > 0 ? await this.pageReader.read(query, pages, aiConfig.pageReading, cite) : '';
+        // 工具结果有长度限制，正文段落放在前面
+        return passages ? `网页正文中的相关段落:\n${passages}\n\n搜索结果:\n${text}` : text;
+    }
+
     /**
      * 处理普通消息事件
      */
     async handleMessageEvent(ctx: MessageEventContext): Promise<void> {
         const userId = ctx.message.sender.id;
 
+        // 开启存档的聊天保存消息，供 /ai recall 检索
+        if (this.chatArchive.isEnabled(ctx.chatId)) {
+            const chat = ctx.message.chat;
+            try {
+                await this.chatArchive.add(ctx.chatId, {
+                    id: ctx.message.id,
+                    userId,
+                    name: ctx.message.sender.displayName,
+                    text: ctx.message.text,
+                    date: ctx.message.date.getTime()
+                }, chat.type === 'chat' ? chat.username : undefined);
+            } catch (err) {
+                const error = err instanceof Error ? err : new Error(String(err));
+                plugin.logger?.error(`存档消息失败: ${error.message}`);
+            }
+        }
+
         // 检查是否有无限使用权限，如果有则不需要增加次数
         const hasUnlimitedAccess = await ctx.hasPermission('ai.unlimited');
         if (hasUnlimitedAccess) {
@@ -1788,14 +3046,12 @@ class AIPlugin {
 
         // 获取消息长度并传递给incrementUsage方法
         const messageLength = ctx.message.text?.trim().length || 0;
-        this.userManager.incrementUsage(userId, messageLength);
+        this.userManager.incrementUsage(ctx.chatId, userId, messageLength);
     }
 }
 
 // 创建插件实例
 const aiPluginInstance = new AIPlugin();
-// 用户次数刷新计划任务
-let userLimitResetCron: Cron | null = null;
 
 /**
  * 导出插件定义
@@ -1813,6 +3069,27 @@ const plugin: BotPlugin = {
             parent: 'admin',
             isSystem: false,
             allowedUsers: []
+        },
+        {
+            name: 'ai.persona',
+            description: '修改本聊天的AI人设和提示词模板',
+            parent: 'admin',
+            isSystem: false,
+            allowedUsers: []
+        },
+        {
+            name: 'ai.archive',
+            description: '开启或关闭本聊天的聊天记录存档',
+            parent: 'admin',
+            isSystem: false,
+            allowedUsers: []
+        },
+        {
+            name: 'ai.quota',
+            description: '调整用户的AI使用次数和本聊天的次数策略',
+            parent: 'admin',
+            isSystem: false,
+            allowedUsers: []
         }
     ],
 
@@ -1834,17 +3111,39 @@ const plugin: BotPlugin = {
             handler: async (ctx: CommandContext) => {
                 await aiPluginInstance.handleCheckUsageCommand(ctx);
             }
+        },
+        {
+            name: 'aiquota',
+            description: '管理AI助手使用次数',
+            requiredPermission: 'ai.quota',
+            handler: async (ctx: CommandContext) => {
+                await aiPluginInstance.handleQuotaCommand(ctx);
+            }
+        }
+    ],
+
+    // 提供给AI调用的工具
+    tools: [
+        {
+            name: 'search_web',
+            title: '网络搜索',
+            description: '使用Google搜索网页，获取最新资讯、事实、数据等信息。返回搜索结果的标题、链接和摘要。',
+            parameters: {
+                query: { type: 'string', description: '搜索关键词，简洁明确，多个关键词用空格分隔' }
+            },
+            required: ['query'],
+            execute: async (args, context) => aiPluginInstance.searchWeb(String(args.query), context.cite)
         }
     ],
 
-    // 消息事件，用于恢复使用次数
+    // 消息事件，用于恢复使用次数和存档聊天记录
     events: [
         {
             type: 'message',
             filter: (ctx: EventContext) => {
+                // 消息长度由聊天的使用次数策略判断
                 return ctx.type === 'message' &&
-                    !!ctx.message.text &&
-                    ctx.message.text.trim().length > 5 &&
+                    !!ctx.message.text?.trim() &&
                     !ctx.message.text.startsWith('/');
             },
             handler: async (ctx: MessageEventContext) => {
@@ -1854,19 +3153,39 @@ const plugin: BotPlugin = {
     ],
 
     async onLoad(client: TelegramClient) {
-        // 创建Cron任务，每天凌晨0点执行一次用户次数重置
-        userLimitResetCron = new Cron("0 0 * * *", () => {
-            plugin.logger?.info('执行定时任务：重置所有用户的AI使用次数');
-            aiPluginInstance.checkAndResetUserLimits();
-        });
+        // 加载AI服务配置，未配置的用途使用默认服务
+        const config = await client.features.getPluginConfig<AIPluginConfig>('ai', DEFAULT_CONFIG);
+        aiConfig = {
+            ...config,
+            tools: { ...DEFAULT_CONFIG.tools, ...config.tools },
+            quota: {
+                ...DEFAULT_CONFIG.quota,
+                ...config.quota,
+                earn: { ...DEFAULT_CONFIG.quota.earn, ...config.quota?.earn }
+            },
+            chatQuotas: config.chatQuotas && typeof config.chatQuotas === 'object' ? config.chatQuotas : {},
+            archive: { ...DEFAULT_CONFIG.archive, ...config.archive },
+            pageReading: {
+                ...DEFAULT_CONFIG.pageReading,
+                ...config.pageReading,
+                domainTimeouts: { ...config.pageReading?.domainTimeouts }
+            }
+        };
+        ProviderRegistry.configure(aiConfig.providers ?? {}, aiConfig.endpoints ?? {});
+
+        // 读取保存的使用次数，到达重置时间的用户在下次使用时重置
+        await aiPluginInstance.loadQuotas(client.features);
+        // 读取各聊天的人设，其他使用AI的插件也通过人设获取提示词
+        await PersonaManager.load(client.features, aiConfig.persona ?? {});
+        // 读取开启存档的聊天，各聊天的消息在首次使用时加载
+        await aiPluginInstance.loadArchive(client.features);
     },
 
     async onUnload() {
-        // 停止Cron任务
-        if (userLimitResetCron) {
-            userLimitResetCron.stop();
-            plugin.logger?.info('AI插件已卸载：用户次数刷新计划任务已停止');
-        }
+        await aiPluginInstance.flushQuotas();
+        await aiPluginInstance.flushArchive();
+        await PersonaManager.flush();
+        plugin.logger?.info('AI插件已卸载：使用次数、人设和聊天记录已保存');
     }
 };
 
@@ -1,5 +1,5 @@
 import type { BotPlugin, CommandContext } from '../features';
-import { managerIds } from '../app';
+import { managerIds } from '../env';
 import { execSync, spawn } from 'child_process';
 import { fileURLToPath } from 'url';
 import path from 'path';
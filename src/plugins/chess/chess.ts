@@ -1,17 +1,31 @@
-import type { BotPlugin, CommandContext, CallbackEventContext } from '../../features';
-import { html } from '@mtcute/bun';
+import type { BotPlugin, CommandContext, CallbackEventContext, EventContext, MessageEventContext, PluginEvent } from '../../features';
+import { html, type TelegramClient } from '@mtcute/bun';
+import { Cron } from 'croner';
 import { BotKeyboard } from '@mtcute/bun';
 
 // 导入类型和类
-import { GameStatus, PieceColor } from './models/ChessTypes';
+import { GameEndReason, GameStatus, PieceColor } from './models/ChessTypes';
+import type { IPuzzle, ITimeControl } from './models/ChessTypes';
 import { Game } from './models/Game';
 import { GameManager } from './utils/GameManager';
+import { GameStore } from './utils/GameStore';
+import { GameClock } from './utils/GameClock';
+import { RatingStore, type RatingLadder } from './utils/RatingStore';
+import { PuzzleManager } from './utils/PuzzleManager';
+import { PuzzleSet } from './utils/PuzzleSet';
+import { GameRecord, type RecordFormat } from './utils/GameRecord';
+import { ApngEncoder } from './utils/ApngEncoder';
 import { ChessAI } from './utils/ChessAI';
+import { ChessEngine } from './utils/ChessEngine';
+import { OpeningBook, type OpeningBookData } from './utils/OpeningBook';
 import { BoardRenderer } from './utils/BoardRenderer';
 import {
     AIDifficultyCB,
     GameControlCB,
-    MenuCB
+    MenuCB,
+    ReplayCB,
+    ReviewCB,
+    UndoCB
 } from './utils/CallbackManager';
 
 /**
@@ -22,6 +36,64 @@ import {
 // 游戏管理器
 const gameManager = GameManager.getInstance();
 
+// 插件设置，保存在配置目录下的 chess.json
+interface ChessSettings {
+    cloudLibrary: boolean;   // 困难AI是否查询云库，离线部署时应关闭
+    openingBook: boolean;    // AI是否使用本地开局库
+    openingBookPath: string; // 自定义开局库文件（scripts/build-opening-book.ts 生成），为空时使用内置开局库
+}
+
+const DEFAULT_SETTINGS: ChessSettings = {
+    cloudLibrary: true,
+    openingBook: true,
+    openingBookPath: ''
+};
+
+let settings: ChessSettings = DEFAULT_SETTINGS;
+// AI使用的开局库，关闭时为 null
+let openingBook: OpeningBook | null = null;
+
+// 超时游戏检查定时器
+let timeoutCheckTimer: ReturnType<typeof setInterval> | null = null;
+// 计时对局超时检查定时器
+let clockCheckTimer: ReturnType<typeof setInterval> | null = null;
+
+// 等级分记录，插件加载后可用
+let ratingStore: RatingStore | null = null;
+
+// 谜题管理器，插件加载后可用
+let puzzleManager: PuzzleManager | null = null;
+// 每日谜题推送任务
+let dailyPuzzleJob: Cron | null = null;
+
+// 进行中的AI搜索: 游戏ID -> 取消控制器，认输后取消搜索
+const aiSearches = new Map<string, AbortController>();
+
+// 局面分析的默认和最长用时（秒）
+const ANALYZE_DEFAULT_SECONDS = 5;
+const ANALYZE_MAX_SECONDS = 30;
+// 正在等待分析结果的玩家，避免重复排队
+const analyzingPlayers = new Set<number>();
+
+// 邀请未指定时限时，接受按钮提供的时限选项
+const TIME_CONTROL_PRESETS = ['10+5', '15', '5b30'];
+
+// 等待对方确认的悔棋请求: 游戏ID -> 请求信息
+const pendingUndoRequests = new Map<string, {
+    token: string;     // 按钮中使用的短标识
+    requester: number;
+    opponent: number;  // 需要确认的一方
+    plies: number;     // 需要撤销的步数
+    moveCount: number; // 发起请求时的总步数，之后有人走棋则请求失效
+}>();
+
+// 复盘动画最多包含的帧数（起始局面加每一步）
+const MAX_REPLAY_FRAMES = 301;
+// 复盘动画每帧的显示时长（毫秒）
+const REPLAY_FRAME_DELAY = 1000;
+// 正在生成动画的对局
+const renderingReplays = new Set<string>();
+
 // AI难度
 const AI_DIFFICULTY_LEVELS = {
     easy: 3,   // 简单 (5步思考)
@@ -37,19 +109,92 @@ const plugin: BotPlugin = {
     description: '中国象棋游戏，支持玩家对战和AI对战',
     version: '1.0.0',
 
+    permissions: [
+        {
+            name: 'chess.puzzle.manage',
+            description: '为聊天开启或关闭每日象棋谜题',
+            parent: 'admin',
+            isSystem: false,
+            allowedUsers: []
+        }
+    ],
+
     // 添加onLoad钩子，初始化BoardRenderer的logger
     async onLoad(client) {
         // 初始化BoardRenderer的logger
         BoardRenderer.setLogger(this.logger);
 
+        settings = await client.features.getPluginConfig<ChessSettings>('chess', DEFAULT_SETTINGS);
+        openingBook = await loadOpeningBook(settings, this.logger);
+
+        // 恢复重启前保存的对局，并在原聊天中重新发送棋盘
+        const restoredGames = await gameManager.attachStore(new GameStore(client.features, this.logger), this.logger);
+        if (restoredGames.length > 0) {
+            this.logger?.info(`已恢复 ${restoredGames.length} 局象棋对局`);
+        }
+        for (const game of restoredGames) {
+            await announceRestoredGame(client, game);
+        }
+
+        // 加载等级分，之后结束的对局都会计分
+        ratingStore = new RatingStore(client.features, this.logger);
+        await ratingStore.load();
+        gameManager.attachRatings(ratingStore);
+
+        // 加载谜题，每天早上9点向订阅的聊天推送每日谜题
+        puzzleManager = new PuzzleManager(client.features, this.logger);
+        await puzzleManager.load();
+        dailyPuzzleJob = new Cron('0 9 * * *', async () => {
+            try {
+                await postDailyPuzzles(client, this.logger);
+            } catch (error) {
+                this.logger?.error('推送每日谜题时出错:', error);
+            }
+        });
+
         // 创建检查超时游戏的定时器
-        setInterval(async () => {
+        timeoutCheckTimer = setInterval(async () => {
             try {
                 await checkTimeoutGames(client, this.logger);
             } catch (error) {
                 this.logger?.error('检查超时游戏时出错:', error);
             }
         }, 60 * 60 * 1000); // 每小时检查一次
+
+        // 计时对局需要及时判负，即使双方都没有发送消息
+        clockCheckTimer = setInterval(async () => {
+            try {
+                await checkClockFlags(client, this.logger);
+            } catch (error) {
+                this.logger?.error('检查对局时钟时出错:', error);
+            }
+        }, 5 * 1000);
+    },
+
+    async onUnload() {
+        // 停止超时游戏检查
+        if (timeoutCheckTimer) {
+            clearInterval(timeoutCheckTimer);
+            timeoutCheckTimer = null;
+        }
+        if (clockCheckTimer) {
+            clearInterval(clockCheckTimer);
+            clockCheckTimer = null;
+        }
+        if (dailyPuzzleJob) {
+            dailyPuzzleJob.stop();
+            dailyPuzzleJob = null;
+        }
+        await puzzleManager?.flush();
+        puzzleManager = null;
+
+        // 终止引擎 Worker，进行中的AI搜索会以错误结束
+        aiSearches.clear();
+        ChessEngine.shutdown();
+
+        // 停止持久化，等待写入完成，已保存的对局会在下次加载时恢复
+        await gameManager.detachStore();
+        ratingStore = null;
     },
 
     commands: [
@@ -76,7 +221,17 @@ const plugin: BotPlugin = {
                     decline: declineChallenge,
                     move: moveCommand,
                     resign: resignGame,
-                    status: showGameStatus
+                    status: showGameStatus,
+                    undo: requestUndo,
+                    fen: exportFen,
+                    load: loadPosition,
+                    pgn: exportGameRecord,
+                    import: importGameRecord,
+                    review: showReview,
+                    rank: showRanking,
+                    stats: showStats,
+                    puzzle: puzzleCommand,
+                    analyze: analyzePosition
                 };
 
                 const handler = handlers[subCommand];
@@ -127,7 +282,46 @@ const plugin: BotPlugin = {
             async handler(ctx: CallbackEventContext) {
                 await handleMenuCallback(ctx);
             }
-        }
+        },
+        {
+            type: 'callback',
+            name: 'undo',
+            filter: UndoCB.filter(),
+            async handler(ctx: CallbackEventContext) {
+                await handleUndoCallback(ctx);
+            }
+        },
+        {
+            type: 'callback',
+            name: 'review',
+            filter: ReviewCB.filter(),
+            async handler(ctx: CallbackEventContext) {
+                await handleReviewCallback(ctx);
+            }
+        },
+        {
+            type: 'callback',
+            name: 'replay',
+            filter: ReplayCB.filter(),
+            async handler(ctx: CallbackEventContext) {
+                await handleReplayCallback(ctx);
+            }
+        },
+        {
+            // 回复谜题棋盘消息作答
+            type: 'message',
+            filter: (ctx: EventContext) => {
+                if (ctx.type !== 'message' || !puzzleManager) return false;
+
+                const text = ctx.message.text?.trim();
+                const replyToId = ctx.message.replyToMessage?.id;
+                return !!text && !text.startsWith('/') && text.length <= 12 &&
+                    !!replyToId && puzzleManager.isPuzzleMessage(ctx.chatId, replyToId);
+            },
+            async handler(ctx: MessageEventContext) {
+                await handlePuzzleAnswer(ctx, ctx.message.text.trim());
+            }
+        } as PluginEvent<MessageEventContext>
     ]
 };
 
@@ -146,6 +340,26 @@ async function showHelp(ctx: CommandContext) {
 • /chess decline - 拒绝挑战<br>
 • /chess resign - 认输并结束当前游戏<br>
 • /chess status - 显示当前游戏状态<br>
+• /chess undo - 悔棋（玩家对局需对方同意）<br>
+• /chess analyze [秒数] - 引擎分析AI对局或最近一局结束时的局面，给出最佳着法、评分和搜索深度（默认${ANALYZE_DEFAULT_SECONDS}秒，最多${ANALYZE_MAX_SECONDS}秒）<br>
+<br>
+<b>棋谱命令:</b><br>
+• /chess fen - 导出当前局面的FEN<br>
+• /chess load &lt;FEN&gt; [ai 难度|@用户名] - 从指定局面开始对局<br>
+• /chess pgn [iccs|wxf] - 导出当前或最近一局的棋谱<br>
+• /chess import &lt;棋谱&gt; - 导入棋谱复盘（也可回复棋谱消息）<br>
+• /chess review - 逐步复盘当前或最近一局，可生成动画<br>
+<br>
+<b>积分命令:</b><br>
+• /chess rank [easy|normal|hard] - 本群玩家对战积分榜，指定难度时显示对战该难度AI的积分榜<br>
+• /chess stats [@用户名] - 查看等级分、胜负和局数及最近的对局<br>
+<br>
+<b>谜题命令:</b><br>
+• /chess puzzle - 查看本群当前谜题，没有时随机出一道<br>
+• /chess puzzle new|daily - 换一道随机谜题 / 今日谜题<br>
+• /chess puzzle &lt;走法&gt; - 作答，也可以直接回复谜题棋盘<br>
+• /chess puzzle hint - 提示下一步要走的棋子<br>
+• /chess puzzle on|off - 开启或关闭本群每日谜题推送（需要管理权限）<br>
 <br>
 <b>行棋命令:</b><br>
 • /chess move <走法> 或者 /m [走法] - 移动棋子，如"炮二平五"或"马3进4"<br>
@@ -159,8 +373,9 @@ async function showHelp(ctx: CommandContext) {
 <br>
 <b>对局使用:</b><br>
 • AI人机对局: /chess ai [难度] - 与AI对战（难度可选：easy, normal, hard） 例如: /chess ai hard<br>
-• 玩家对战: /chess challenge @用户名 - 挑战其他玩家 例如: /chess challenge @user<br>
-( 接受挑战: /chess accept - 接受挑战 )<br>
+• 玩家对战: /chess challenge @用户名 [时限] - 挑战其他玩家 例如: /chess challenge @user 10+5<br>
+( 接受挑战: /chess accept [时限] - 接受挑战，邀请未指定时限时可由接受方选择 )<br>
+• 时限格式: 10+5 (10分钟，每步加5秒)、15 (15分钟包干)、5b30 (5分钟后每步读秒30秒)，用完时间即判负<br>
 <br>
 <b>重要说明:</b><br>
 • 游戏结束后可以点击"开始新游戏"按钮，然后选择进行AI对战或玩家对战<br>
@@ -170,14 +385,24 @@ async function showHelp(ctx: CommandContext) {
 
 /**
  * 挑战其他玩家
+ * @param startFen 从指定局面开始时的FEN
  */
-async function challengePlayer(ctx: CommandContext) {
+async function challengePlayer(ctx: CommandContext, startFen?: string) {
     const targetUsername = ctx.args[1];
     if (!targetUsername) {
-        await ctx.message.replyText('请指定要挑战的玩家，例如：/chess challenge @用户名');
+        await ctx.message.replyText('请指定要挑战的玩家，例如：/chess challenge @用户名 [时限]');
         return;
     }
 
+    let timeControl: ITimeControl | undefined;
+    if (ctx.args[2]) {
+        timeControl = GameClock.parse(ctx.args[2]) ?? undefined;
+        if (!timeControl) {
+            await ctx.message.replyText('无效的时限，例如：10+5（10分钟每步加5秒）、15（15分钟包干）、5b30（5分钟后读秒30秒）');
+            return;
+        }
+    }
+
     // 检查发起挑战者自己是否已经在一个游戏中
     const senderId = ctx.message.sender.id;
     if (gameManager.getPlayerActiveGame(senderId)) {
@@ -232,12 +457,12 @@ async function challengePlayer(ctx: CommandContext) {
         }
 
         // 创建邀请并获取ID
-        const inviteId = gameManager.addInvite(targetUserId, ctx.message.sender.id);
+        const inviteId = gameManager.addInvite(targetUserId, ctx.message.sender.id, { startFen, timeControl });
 
-        // 创建接受/拒绝按钮
+        // 创建接受/拒绝按钮，未指定时限时由对方选择
         const keyboard = BotKeyboard.inline([
             [
-                BotKeyboard.callback('✅ 接受挑战', GameControlCB.build({
+                BotKeyboard.callback(timeControl ? '✅ 接受挑战' : '✅ 接受（不计时）', GameControlCB.build({
                     gameId: inviteId,
                     action: 'accept',
                     userId: targetUserId
@@ -247,12 +472,20 @@ async function challengePlayer(ctx: CommandContext) {
                     action: 'decline',
                     userId: targetUserId
                 }))
-            ]
+            ],
+            ...(timeControl ? [] : [TIME_CONTROL_PRESETS.map(preset => BotKeyboard.callback(
+                `⏱ ${GameClock.describe(GameClock.parse(preset)!)}`,
+                GameControlCB.build({
+                    gameId: inviteId,
+                    action: `accept_${preset}`,
+                    userId: targetUserId
+                })
+            ))])
         ]);
 
         // 发送带有按钮的邀请消息
         await ctx.message.replyText(
-            html`<a href="tg://user?id=${ctx.message.sender.id}">${ctx.message.sender.displayName || '玩家'}</a> 邀请 <a href="tg://user?id=${targetUserId}">${targetDisplayName}</a> 下象棋！\n您可以点击下方按钮接受或拒绝，也可以使用命令 /chess accept 接受挑战，或 /chess decline 拒绝挑战。`,
+            html`<a href="tg://user?id=${ctx.message.sender.id}">${ctx.message.sender.displayName || '玩家'}</a> 邀请 <a href="tg://user?id=${targetUserId}">${targetDisplayName}</a> 下象棋${startFen ? '（从指定局面开始）' : ''}${timeControl ? `（时限：${GameClock.describe(timeControl)}）` : ''}！\n您可以点击下方按钮接受或拒绝，也可以使用命令 /chess accept 接受挑战，或 /chess decline 拒绝挑战。`,
             { replyMarkup: keyboard }
         );
     }
@@ -260,8 +493,9 @@ async function challengePlayer(ctx: CommandContext) {
 
 /**
  * 开始与AI的游戏 命令版
+ * @param startFen 从指定局面开始时的FEN，玩家执红
  */
-async function startAiGame(ctx: CommandContext) {
+async function startAiGame(ctx: CommandContext, startFen?: string) {
     const userId = ctx.message.sender.id;
 
     if (gameManager.getPlayerActiveGame(userId)) {
@@ -286,15 +520,22 @@ async function startAiGame(ctx: CommandContext) {
         plugin.logger?.info(`用户${userId}未指定难度，使用默认难度(${aiDifficulty})`);
     }
 
-    const game = gameManager.createGame(userId, 'AI', ctx.message.chat.id);
+    const game = gameManager.createGame(userId, 'AI', ctx.message.chat.id, { startFen });
     if (!game) {
         await ctx.message.replyText('创建游戏失败，您可能已经在另一个游戏中');
         return;
     }
 
-    (game as any).aiDifficulty = aiDifficulty;
+    game.aiDifficulty = aiDifficulty;
     plugin.logger?.info(`成功创建AI游戏，ID: ${game.id}，难度: ${getDifficultyText(aiDifficulty)}(${aiDifficulty})`);
 
+    // 指定局面由黑方先行时，AI先走
+    if (game.currentTurn === PieceColor.BLACK) {
+        await renderAndSendBoard(game, ctx, `第 1 回合 - 红方（您）VS ${getDifficultyText(aiDifficulty)}AI<br>黑方先行，AI正在思考...`);
+        await processAIMove(game, ctx);
+        return;
+    }
+
     await renderAndSendBoard(game, ctx, `第 1 回合 - 红方（您）VS ${getDifficultyText(aiDifficulty)}AI<br>请输入您的走法，例如：/m 炮二平五`);
 }
 
@@ -338,7 +579,20 @@ async function acceptChallenge(ctx: CommandContext) {
             return;
         }
 
-        const game = gameManager.createGame(invite.inviter, targetUserId, ctx.message.chat.id);
+        // 邀请已指定时限时以邀请为准，否则使用接受方选择的时限
+        let timeControl = invite.timeControl;
+        if (!timeControl && ctx.args[1]) {
+            timeControl = GameClock.parse(ctx.args[1]) ?? undefined;
+            if (!timeControl) {
+                await ctx.message.replyText('无效的时限，例如：10+5（10分钟每步加5秒）、15（15分钟包干）、5b30（5分钟后读秒30秒）');
+                return;
+            }
+        }
+
+        const game = gameManager.createGame(invite.inviter, targetUserId, ctx.message.chat.id, {
+            startFen: invite.startFen,
+            timeControl
+        });
         if (!game) {
             gameManager.removeInvite(targetUserId);
             await ctx.message.replyText('创建游戏失败，可能有玩家已经在其他游戏中');
@@ -347,7 +601,7 @@ async function acceptChallenge(ctx: CommandContext) {
 
         gameManager.removeInvite(targetUserId);
 
-        await renderAndSendBoard(game, ctx, `第 1 回合 - 游戏开始！红方先行，请输入您的走法，例如：/m 炮二平五`);
+        await renderAndSendBoard(game, ctx, `第 1 回合 - 游戏开始！${game.currentTurn === PieceColor.RED ? '红方' : '黑方'}先行，请输入您的走法，例如：/m 炮二平五`);
     } catch (error) {
         await ctx.message.replyText('接受挑战时出错，请稍后再试').catch(() => { });
     }
@@ -388,18 +642,27 @@ async function moveCommand(ctx: CommandContext) {
             return;
         }
 
-        const moveResult = game.moveByNotation(moveText);
+        // 时间已用完时不再走棋，直接按超时判负
+        if (!game.checkFlag()) {
+            const moveResult = game.moveByNotation(moveText);
 
-        if (!moveResult.success) {
-            await ctx.message.replyText(`走法无效: ${moveResult.message}`);
-            return;
+            if (!moveResult.success) {
+                await ctx.message.replyText(`走法无效: ${moveResult.message}`);
+                return;
+            }
+
+            // 确保成功移动后，更新游戏的最后活动时间
+            game.lastActiveTime = Date.now();
         }
 
-        // 确保成功移动后，更新游戏的最后活动时间
-        game.lastActiveTime = Date.now();
+        // 每步走完立即保存，避免重启丢失对局
+        await gameManager.persist();
+
+        // 走棋后之前的悔棋请求失效
+        pendingUndoRequests.delete(game.id);
 
         if (game.status === GameStatus.FINISHED) {
-            const winner = game.winner === PieceColor.RED ? '红方' : '黑方';
+            const winner = game.getResultText();
 
             // 创建重新开始游戏按钮
             const keyboard = BotKeyboard.inline([
@@ -408,16 +671,17 @@ async function moveCommand(ctx: CommandContext) {
                         gameId: '0', // 新游戏不需要关联旧游戏ID
                         action: 'restart',
                         userId: userId
-                    }))
+                    })),
+                    BotKeyboard.callback('📽 复盘', ReviewCB.build({ gameId: game.id, ply: 0 }))
                 ]
             ]);
 
-            await renderAndSendBoard(game, ctx, `游戏结束！${winner}获胜！`, keyboard);
+            await renderAndSendBoard(game, ctx, `游戏结束！${winner}`, keyboard);
 
             // 确保游戏资源被释放
             const gameId = game.id;
             if (gameManager.endGame(gameId)) {
-                plugin.logger?.info(`游戏 ${gameId} 已结束，${winner}获胜`);
+                plugin.logger?.info(`游戏 ${gameId} 已结束，${winner}`);
             }
             return;
         }
@@ -437,12 +701,14 @@ async function moveCommand(ctx: CommandContext) {
  * 渲染并发送棋盘
  */
 async function renderAndSendBoard(game: Game, ctx: CommandContext | CallbackEventContext, caption: string, replyMarkup?: any) {
+    caption = withClockText(game, caption);
     try {
         const boardBuffer = await BoardRenderer.drawBoardImage(game);
+        let sentMessage: { id: number } | undefined;
 
         // 区分不同类型的上下文
         if (ctx.type === 'command') {
-            await ctx.message.replyMedia(
+            sentMessage = await ctx.message.replyMedia(
                 {
                     type: 'photo',
                     file: boardBuffer,
@@ -452,244 +718,1167 @@ async function renderAndSendBoard(game: Game, ctx: CommandContext | CallbackEven
             );
         } else {
             // 回调上下文 - 始终发送新消息而不是编辑
-            await ctx.client.sendMedia(ctx.chatId, {
+            sentMessage = await ctx.client.sendMedia(ctx.chatId, {
                 type: 'photo',
                 file: boardBuffer,
                 fileName: `chess_${game.id}.png`
             }, { caption: html(caption), replyMarkup });
         }
+
+        // 记录最新的棋盘消息，重启恢复时回复到这条消息
+        await rememberBoardMessage(game, sentMessage);
     } catch (error) {
         // 图片渲染失败，尝试使用HTML作为回退方案
         try {
             const boardHtml = BoardRenderer.renderBoardHTML(game);
             const fullContent = boardHtml + '<br>' + caption;
 
-            if (ctx.type === 'command') {
-                await ctx.message.replyText(html(fullContent), { replyMarkup });
-            } else {
+            const sentMessage = ctx.type === 'command'
+                ? await ctx.message.replyText(html(fullContent), { replyMarkup })
                 // 回调上下文 - 始终发送新消息而不是编辑
-                await ctx.client.sendText(ctx.chatId, html(fullContent), { replyMarkup });
-            }
+                : await ctx.client.sendText(ctx.chatId, html(fullContent), { replyMarkup });
+
+            await rememberBoardMessage(game, sentMessage);
         } catch (fallbackError) {
             // 即使HTML渲染也失败，发送简单的错误消息
             const errorMessage = '无法显示棋盘，请使用 /chess status 重试';
 
-            if (ctx.type === 'command') {
-                await ctx.message.replyText(errorMessage, { replyMarkup }).catch(() => { });
-            } else {
-                await ctx.client.sendText(ctx.chatId, errorMessage, { replyMarkup }).catch(() => { });
-            }
+            if (ctx.type === 'command') {
+                await ctx.message.replyText(errorMessage, { replyMarkup }).catch(() => { });
+            } else {
+                await ctx.client.sendText(ctx.chatId, errorMessage, { replyMarkup }).catch(() => { });
+            }
+        }
+    }
+}
+
+/**
+ * 记录对局最新的棋盘消息并保存对局
+ */
+async function rememberBoardMessage(game: Game, message?: { id: number }) {
+    if (message?.id) {
+        game.boardMessageId = message.id;
+    }
+    await gameManager.persist();
+}
+
+/**
+ * 在原聊天中重新发送恢复的对局
+ * 优先回复到重启前最后一条棋盘消息，原消息不可用时直接发送
+ */
+async function announceRestoredGame(client: TelegramClient, game: Game) {
+    const aiPending = game.blackPlayer === 'AI' && game.currentTurn === PieceColor.BLACK;
+    const caption = withClockText(game, `♻️ 对局已恢复 - 第 ${Math.floor(game.history.length / 2) + 1} 回合 - ${game.getStatusText()}`
+        + (aiPending ? '<br>AI尚未走棋，请使用 /chess status 继续' : '<br>请继续使用 /m 走棋'));
+
+    try {
+        const boardBuffer = await BoardRenderer.drawBoardImage(game);
+        const media = { type: 'photo' as const, file: boardBuffer, fileName: `chess_${game.id}.png` };
+
+        const sentMessage = await client.sendMedia(game.chatId, media, {
+            caption: html(caption),
+            replyTo: game.boardMessageId
+        }).catch(() => client.sendMedia(game.chatId, media, { caption: html(caption) }));
+
+        await rememberBoardMessage(game, sentMessage);
+    } catch (error) {
+        plugin.logger?.error(`发送恢复的对局 ${game.id} 失败:`, error);
+    }
+}
+
+/**
+ * 在说明文字后附加双方剩余时间，仅对进行中的计时对局生效
+ */
+function withClockText(game: Game, caption: string): string {
+    if (!game.clock || game.status !== GameStatus.PLAYING) {
+        return caption;
+    }
+    return `${caption}<br>⏱ ${game.clock.getText(game.currentTurn)}`;
+}
+
+/**
+ * 更新游戏棋盘消息
+ */
+async function updateGameBoard(game: Game, ctx: CommandContext) {
+    if (game.currentTurn === PieceColor.BLACK && game.blackPlayer === 'AI') {
+        return;
+    }
+
+    let currentPlayer: string;
+    if (game.currentTurn === PieceColor.RED) {
+        currentPlayer = `<a href="tg://user?id=${game.redPlayer}">红方玩家</a>`;
+    } else {
+        currentPlayer = game.blackPlayer === 'AI'
+            ? 'AI'
+            : `<a href="tg://user?id=${game.blackPlayer}">黑方玩家</a>`;
+    }
+
+    const caption = `第 ${Math.floor(game.history.length / 2) + 1} 回合 - ${game.inCheck ? '<b>将军！</b>' : ''}轮到${currentPlayer}行动${game.lastMove ? ` | 上一步：${game.lastMove}` : ''}`;
+    await renderAndSendBoard(game, ctx, caption);
+}
+
+/**
+ * 处理AI走棋
+ */
+async function processAIMove(game: Game, ctx: CommandContext) {
+    const aiDifficulty = game.aiDifficulty || AI_DIFFICULTY_LEVELS.normal;
+    const difficultyText = getDifficultyText(aiDifficulty);
+
+    const thinkingMessage = await ctx.message.replyText(`${difficultyText}级AI正在思考中...`);
+    let thinkingMessageId: number | undefined = thinkingMessage?.id;
+
+    const search = new AbortController();
+    aiSearches.set(game.id, search);
+
+    try {
+        const useCloudLibrary = settings.cloudLibrary && aiDifficulty === AI_DIFFICULTY_LEVELS.hard;
+        // 创建AI实例时传入logger
+        const chessAI = new ChessAI(aiDifficulty, useCloudLibrary, 60000, plugin.logger, openingBook);
+        const aiMove = await chessAI.getMove(game, search.signal);
+
+        // 确保无论如何都尝试删除思考中消息
+        if (thinkingMessageId) {
+            try {
+                await ctx.client.deleteMessagesById(ctx.chatId, [thinkingMessageId]);
+            } catch (deleteError) {
+                plugin.logger?.error('删除AI思考消息失败:', deleteError);
+            } finally {
+                thinkingMessageId = undefined;
+            }
+        }
+
+        // 思考期间玩家已认输
+        if (search.signal.aborted) {
+            return;
+        }
+
+        if (!aiMove) {
+            game.status = GameStatus.FINISHED;
+            game.winner = PieceColor.RED;
+
+            // 创建重新开始按钮
+            const keyboard = BotKeyboard.inline([
+                [
+                    BotKeyboard.callback('🔄 开始新游戏', GameControlCB.build({
+                        gameId: '0',
+                        action: 'restart',
+                        userId: game.redPlayer
+                    })),
+                    BotKeyboard.callback('📽 复盘', ReviewCB.build({ gameId: game.id, ply: 0 }))
+                ]
+            ]);
+
+            await renderAndSendBoard(game, ctx, `AI无法行动，您获胜了！`, keyboard);
+
+            // 结束游戏并释放资源
+            if (gameManager.endGame(game.id)) {
+                plugin.logger?.info(`游戏 ${game.id} 因AI无法行动而结束`);
+            }
+            return;
+        }
+
+        const moveResult = game.move(aiMove.from, aiMove.to);
+        if (!moveResult.success) {
+            plugin.logger?.warn(`AI走法无效: ${moveResult.message}`);
+            game.status = GameStatus.FINISHED;
+            game.winner = PieceColor.RED;
+
+            // 创建重新开始按钮
+            const keyboard = BotKeyboard.inline([
+                [
+                    BotKeyboard.callback('🔄 开始新游戏', GameControlCB.build({
+                        gameId: '0',
+                        action: 'restart',
+                        userId: game.redPlayer
+                    })),
+                    BotKeyboard.callback('📽 复盘', ReviewCB.build({ gameId: game.id, ply: 0 }))
+                ]
+            ]);
+
+            await renderAndSendBoard(game, ctx, `AI走法无效，您获胜了！`, keyboard);
+
+            // 结束游戏并释放资源
+            if (gameManager.endGame(game.id)) {
+                plugin.logger?.info(`游戏 ${game.id} 因AI走法无效而结束`);
+            }
+            return;
+        }
+
+        // 更新AI移动后的最后活动时间
+        game.lastActiveTime = Date.now();
+
+        let statusMessage: string;
+        let shouldEndGame = false;
+        let keyboard;
+
+        if (game.status === GameStatus.FINISHED) {
+            if (game.endReason === GameEndReason.CHECKMATE || game.endReason === GameEndReason.STALEMATE) {
+                statusMessage = `${game.endReason === GameEndReason.STALEMATE ? '您被困毙了，' : '绝杀！'}${difficultyText}级AI获胜了！`;
+            } else {
+                statusMessage = game.getResultText();
+            }
+            shouldEndGame = true;
+
+            // 游戏结束时添加重新开始按钮
+            keyboard = BotKeyboard.inline([
+                [
+                    BotKeyboard.callback('🔄 开始新游戏', GameControlCB.build({
+                        gameId: '0',
+                        action: 'restart',
+                        userId: game.redPlayer
+                    })),
+                    BotKeyboard.callback('📽 复盘', ReviewCB.build({ gameId: game.id, ply: 0 }))
+                ]
+            ]);
+        } else {
+            statusMessage = game.inCheck ? '<b>将军！</b>轮到您应将' : '轮到您行动';
+        }
+
+        const caption = `第 ${Math.floor(game.history.length / 2) + 1} 回合 - ${statusMessage}${game.lastMove ? ` | AI走法：${game.lastMove}` : ''}`;
+        await renderAndSendBoard(game, ctx, caption, keyboard);
+
+        // 如果游戏结束，释放资源
+        if (shouldEndGame && gameManager.endGame(game.id)) {
+            plugin.logger?.info(`游戏 ${game.id} 已结束，${game.getResultText()}`);
+        }
+    } catch (error) {
+        // 确保删除思考中消息
+        if (thinkingMessageId) {
+            try {
+                await ctx.client.deleteMessagesById(ctx.chatId, [thinkingMessageId]);
+            } catch (deleteError) {
+                plugin.logger?.error('删除AI思考消息失败:', deleteError);
+            }
+        }
+        if (search.signal.aborted) {
+            plugin.logger?.info(`游戏 ${game.id} 的AI搜索已取消`);
+            return;
+        }
+        // 记录错误
+        plugin.logger?.error('AI走棋处理错误:', error);
+        // 给用户友好提示
+        await ctx.message.replyText('AI处理走棋时出错，请使用 /chess status 查看游戏状态，或者 /chess resign 结束当前游戏').catch(() => { });
+    } finally {
+        if (aiSearches.get(game.id) === search) {
+            aiSearches.delete(game.id);
+        }
+    }
+}
+
+/**
+ * 加载AI使用的开局库
+ * 自定义开局库无法读取时退回内置开局库
+ */
+async function loadOpeningBook(settings: ChessSettings, logger?: any): Promise<OpeningBook | null> {
+    if (!settings.openingBook) {
+        logger?.info('开局库已关闭');
+        return null;
+    }
+
+    if (settings.openingBookPath) {
+        try {
+            const book = OpeningBook.fromJSON(await Bun.file(settings.openingBookPath).json() as OpeningBookData);
+            logger?.info(`已加载开局库 ${settings.openingBookPath}，共 ${book.size} 个局面`);
+            return book;
+        } catch (err) {
+            const error = err instanceof Error ? err : new Error(String(err));
+            logger?.warn(`加载开局库 ${settings.openingBookPath} 失败，使用内置开局库: ${error.message}`);
+        }
+    }
+
+    return OpeningBook.getDefault();
+}
+
+/**
+ * 取消对局中正在进行的AI搜索
+ */
+function cancelAISearch(gameId: string) {
+    aiSearches.get(gameId)?.abort();
+    aiSearches.delete(gameId);
+}
+
+/**
+ * 获取难度文本描述
+ */
+function getDifficultyText(difficulty: number): string {
+    const difficultyMap: Record<number, string> = {
+        [AI_DIFFICULTY_LEVELS.easy]: '简单',
+        [AI_DIFFICULTY_LEVELS.normal]: '普通',
+        [AI_DIFFICULTY_LEVELS.hard]: '困难'
+    };
+    return difficultyMap[difficulty] || '简单';
+}
+
+/**
+ * 认输
+ */
+async function resignGame(ctx: CommandContext) {
+    const userId = ctx.message.sender.id;
+    const game = gameManager.getPlayerActiveGame(userId);
+
+    if (!game) {
+        await ctx.message.replyText('您当前没有进行中的游戏');
+        return;
+    }
+
+    if (!game.resign(userId)) {
+        await ctx.message.replyText('无法认输，可能游戏已经结束');
+        return;
+    }
+    cancelAISearch(game.id);
+
+    let winner: string;
+    if (game.winner === PieceColor.RED) {
+        winner = typeof game.redPlayer === 'string' && game.redPlayer === 'AI'
+            ? 'AI'
+            : `<a href="tg://user?id=${game.redPlayer}">红方玩家</a>`;
+    } else {
+        winner = typeof game.blackPlayer === 'string' && game.blackPlayer === 'AI'
+            ? 'AI'
+            : `<a href="tg://user?id=${game.blackPlayer}">黑方玩家</a>`;
+    }
+
+    // 创建重新开始按钮
+    const keyboard = BotKeyboard.inline([
+        [
+            BotKeyboard.callback('🔄 开始新游戏', GameControlCB.build({
+                gameId: '0',
+                action: 'restart',
+                userId: userId
+            })),
+            BotKeyboard.callback('📽 复盘', ReviewCB.build({ gameId: game.id, ply: 0 }))
+        ]
+    ]);
+
+    // 先发送游戏结束消息
+    await renderAndSendBoard(game, ctx, `第 ${Math.floor(game.history.length / 2) + 1} 回合 - 游戏结束，${winner}获胜！`, keyboard);
+
+    // 结束游戏，确保释放资源
+    const gameId = game.id;
+    if (!gameManager.endGame(gameId)) {
+        plugin.logger?.warn(`无法结束游戏 ${gameId}，可能已经被删除`);
+    } else {
+        plugin.logger?.info(`游戏 ${gameId} 已通过认输结束`);
+    }
+}
+
+/**
+ * 请求悔棋
+ * 轮到对方时撤销自己的上一步，轮到自己时连同对方的回应一起撤销
+ * AI对局直接撤销玩家和AI各一步，玩家对局需要对方通过按钮同意
+ */
+async function requestUndo(ctx: CommandContext) {
+    const userId = ctx.message.sender.id;
+    const game = gameManager.getPlayerActiveGame(userId);
+
+    if (!game) {
+        await ctx.message.replyText('您当前没有进行中的游戏');
+        return;
+    }
+
+    const color = game.getPlayerColor(userId);
+    const plies = game.currentTurn === color ? 2 : 1;
+
+    if (game.blackPlayer === 'AI') {
+        if (game.currentTurn !== PieceColor.RED) {
+            await ctx.message.replyText('请等待AI走完后再悔棋');
+            return;
+        }
+        if (game.moveStack.length < 2) {
+            await ctx.message.replyText('还没有可以悔的棋');
+            return;
+        }
+
+        await applyUndo(game, ctx, 2);
+        return;
+    }
+
+    if (game.moveStack.length < plies) {
+        await ctx.message.replyText('还没有可以悔的棋');
+        return;
+    }
+
+    if (pendingUndoRequests.has(game.id)) {
+        await ctx.message.replyText('已有悔棋请求正在等待对方确认');
+        return;
+    }
+
+    const opponentId = color === PieceColor.RED ? game.blackPlayer as number : game.redPlayer;
+    // 以字母开头，避免回调参数被解析为数字
+    const token = `u${Math.random().toString(36).slice(2, 10)}`;
+    pendingUndoRequests.set(game.id, { token, requester: userId, opponent: opponentId, plies, moveCount: game.moveStack.length });
+
+    const keyboard = BotKeyboard.inline([
+        [
+            BotKeyboard.callback('✅ 同意', UndoCB.build({ token, action: 'accept' })),
+            BotKeyboard.callback('❌ 拒绝', UndoCB.build({ token, action: 'decline' }))
+        ]
+    ]);
+
+    await ctx.message.replyText(
+        html`<a href="tg://user?id=${userId}">${ctx.message.sender.displayName}</a> 请求悔棋（撤销 ${plies} 步），<a href="tg://user?id=${opponentId}">对方</a>是否同意？`,
+        { replyMarkup: keyboard }
+    );
+}
+
+/**
+ * 处理悔棋确认回调，只有被请求的一方可以操作
+ */
+async function handleUndoCallback(ctx: CallbackEventContext) {
+    const data = UndoCB.parse(ctx.data);
+    const token = String(data?.token ?? '');
+    const entry = [...pendingUndoRequests.entries()].find(([, request]) => request.token === token);
+    const game = entry ? gameManager.getGameById(entry[0]) : undefined;
+    const request = entry?.[1];
+
+    if (!game || !request || request.moveCount !== game.moveStack.length || game.status !== GameStatus.PLAYING) {
+        if (entry) pendingUndoRequests.delete(entry[0]);
+        await ctx.query.answer({
+            text: '悔棋请求已失效',
+            alert: true
+        });
+        return;
+    }
+
+    if (ctx.query.user.id !== request.opponent) {
+        const userNickname = ctx.query.user.firstName || '用户';
+        await ctx.query.answer({
+            text: `${userNickname}，请使用自己的菜单进行操作`,
+            alert: true
+        });
+        return;
+    }
+
+    if (data?.action === 'decline') {
+        pendingUndoRequests.delete(game.id);
+        await ctx.query.answer({ text: '您拒绝了悔棋请求' });
+        await ctx.query.editMessage({
+            text: html`❌ <a href="tg://user?id=${request.requester}">对方</a>的悔棋请求被拒绝`
+        }).catch(() => { });
+        return;
+    }
+
+    await ctx.query.answer({ text: '您同意了悔棋请求' });
+    await ctx.query.editMessage({
+        text: html`✅ <a href="tg://user?id=${request.requester}">对方</a>的悔棋请求已被同意`
+    }).catch(() => { });
+    await applyUndo(game, ctx, request.plies);
+}
+
+/**
+ * 撤销指定步数并发送新的棋盘
+ */
+async function applyUndo(game: Game, ctx: CommandContext | CallbackEventContext, plies: number) {
+    const undone: string[] = [];
+    for (let i = 0; i < plies; i++) {
+        const record = game.undo();
+        if (!record) break;
+        undone.unshift(record.notation);
+    }
+
+    pendingUndoRequests.delete(game.id);
+    await gameManager.persist();
+    plugin.logger?.info(`游戏 ${game.id} 悔棋 ${undone.length} 步: ${undone.join(', ')}`);
+
+    await renderAndSendBoard(game, ctx, `↩️ 已悔棋，撤销了 ${undone.join('、')}<br>第 ${Math.floor(game.history.length / 2) + 1} 回合 - ${game.getStatusText()}`);
+}
+
+/**
+ * 导出当前局面的FEN
+ */
+async function exportFen(ctx: CommandContext) {
+    const game = gameManager.getPlayerLatestGame(ctx.message.sender.id);
+
+    if (!game) {
+        await ctx.message.replyText('您当前没有进行中的游戏');
+        return;
+    }
+
+    const fen = GameRecord.toFEN(game.getBoardObject(), game.currentTurn, {
+        halfmove: game.pliesSinceCapture,
+        fullmove: Math.floor(game.history.length / 2) + 1
+    });
+
+    await ctx.message.replyText(html`当前局面 FEN：<br><code>${fen}</code><br>可以使用 /chess load &lt;FEN&gt; 从该局面开始新的对局`);
+}
+
+/**
+ * 从指定局面开始新的对局
+ * 用法：/chess load <FEN> [ai [难度] | @用户名]，未指定对手时与AI对战
+ */
+async function loadPosition(ctx: CommandContext) {
+    const args = ctx.args.slice(1);
+    const aiIndex = args.findIndex(arg => arg.toLowerCase() === 'ai');
+    const opponentIndex = args.findIndex(arg => arg.startsWith('@') || /^\d{5,}$/.test(arg));
+    const fenEnd = [aiIndex, opponentIndex].filter(index => index >= 0).sort((a, b) => a - b)[0] ?? args.length;
+    const fen = args.slice(0, fenEnd).join(' ');
+
+    if (!fen) {
+        await ctx.message.replyText('请提供局面的FEN，例如：/chess load 4k4/9/9/9/9/9/9/9/4A4/3AK4 w ai easy\n也可以在FEN后加 @用户名 [时限] 与好友对战');
+        return;
+    }
+
+    // 先校验局面，避免对方接受邀请时才发现局面无效
+    try {
+        Game.fromFEN(fen, 0, 0, ctx.message.chat.id);
+    } catch (error) {
+        await ctx.message.replyText(`无法加载局面：${error instanceof Error ? error.message : String(error)}`);
+        return;
+    }
+
+    if (opponentIndex >= 0 && opponentIndex === fenEnd) {
+        await challengePlayer({ ...ctx, args: ['challenge', ...args.slice(opponentIndex, opponentIndex + 2)] }, fen);
+        return;
+    }
+
+    if (gameManager.getPlayerActiveGame(ctx.message.sender.id)) {
+        await ctx.message.replyText('您已经在进行一场游戏了，请先完成当前游戏');
+        return;
+    }
+
+    const difficulty = aiIndex >= 0 ? args[aiIndex + 1] : undefined;
+    await startAiGame({ ...ctx, args: difficulty ? ['ai', difficulty] : ['ai'] }, fen);
+}
+
+/**
+ * 获取玩家在棋谱中显示的名称
+ */
+async function getPlayerName(ctx: CommandContext, player: number | 'AI', aiDifficulty?: number): Promise<string> {
+    if (player === 'AI') {
+        return `${getDifficultyText(aiDifficulty || AI_DIFFICULTY_LEVELS.normal)}AI`;
+    }
+
+    try {
+        const user = await ctx.client.getUser(player);
+        return user.displayName || String(player);
+    } catch (error) {
+        return String(player);
+    }
+}
+
+/**
+ * 导出当前或最近一局的棋谱
+ * 用法：/chess pgn [iccs|wxf]
+ */
+async function exportGameRecord(ctx: CommandContext) {
+    const game = gameManager.getPlayerLatestGame(ctx.message.sender.id);
+
+    if (!game) {
+        await ctx.message.replyText('您还没有可以导出的对局');
+        return;
+    }
+
+    const formatArg = (ctx.args[1] || 'iccs').toLowerCase();
+    if (formatArg !== 'iccs' && formatArg !== 'wxf') {
+        await ctx.message.replyText('无效的棋谱格式。有效的选项: iccs, wxf');
+        return;
+    }
+
+    const record = GameRecord.exportRecord(game, {
+        red: await getPlayerName(ctx, game.redPlayer),
+        black: await getPlayerName(ctx, game.blackPlayer, game.aiDifficulty),
+        format: formatArg as RecordFormat,
+        event: ctx.message.chat.type === 'user' ? undefined : ctx.message.chat.title
+    });
+
+    await ctx.message.replyText(html`📜 棋谱（${formatArg.toUpperCase()}，共 ${game.moveStack.length} 步）：<br><pre>${record}</pre>回复此消息发送 /chess import 即可导入复盘`);
+}
+
+/**
+ * 导入棋谱并显示最终局面
+ * 棋谱可以跟在命令后面，也可以回复包含棋谱的消息
+ */
+async function importGameRecord(ctx: CommandContext) {
+    let text = ctx.rawText.replace(/^\/\S+\s+import\b/i, '').trim();
+    if (!text) {
+        const replyMsg = await ctx.client.getReplyTo(ctx.message);
+        text = replyMsg?.text?.trim() ?? '';
+    }
+
+    if (!text) {
+        await ctx.message.replyText('请在命令后附上棋谱，或回复包含棋谱的消息发送 /chess import');
+        return;
+    }
+
+    let game: Game;
+    try {
+        game = Game.fromRecord(text, ctx.message.chat.id);
+    } catch (error) {
+        await ctx.message.replyText(`棋谱导入失败：${error instanceof Error ? error.message : String(error)}`);
+        return;
+    }
+
+    // 归档后可以通过复盘按钮逐步查看
+    gameManager.archiveGame(game);
+
+    const { headers } = GameRecord.parseRecord(text);
+    const players = headers.Red || headers.Black ? `红方 ${headers.Red || '?'} VS 黑方 ${headers.Black || '?'}<br>` : '';
+    const date = headers.Date ? `日期：${headers.Date}<br>` : '';
+
+    await sendReview(ctx, game, game.moveStack.length, `📜 棋谱已导入<br>${players}${date}`);
+}
+
+/**
+ * 显示本群积分榜
+ * 用法：/chess rank [easy|normal|hard]，未指定难度时显示玩家对战积分榜
+ */
+async function showRanking(ctx: CommandContext) {
+    if (!ratingStore) {
+        await ctx.message.replyText('积分功能尚未就绪，请稍后再试');
+        return;
+    }
+
+    const difficultyArg = ctx.args[1]?.toLowerCase();
+    let ladder: RatingLadder = 'pvp';
+    if (difficultyArg) {
+        if (!Object.keys(AI_DIFFICULTY_LEVELS).includes(difficultyArg)) {
+            await ctx.message.replyText(`无效的难度等级。有效的选项: ${Object.keys(AI_DIFFICULTY_LEVELS).join(', ')}`);
+            return;
+        }
+        ladder = AI_DIFFICULTY_LEVELS[difficultyArg as keyof typeof AI_DIFFICULTY_LEVELS];
+    }
+
+    const chatId = ctx.message.chat.id;
+    const title = ladder === 'pvp'
+        ? '🏆 本群象棋积分榜（玩家对战）'
+        : `🏆 本群象棋积分榜（对战${getDifficultyText(ladder)}AI，AI等级分 ${RatingStore.getAiRating(ladder)}）`;
+    const standings = ratingStore.getLeaderboard(chatId, ladder, Infinity);
+
+    if (standings.length === 0) {
+        await ctx.message.replyText(html`<b>${title}</b><br>还没有计分的对局，快去下一局吧！`);
+        return;
+    }
+
+    const lines = await Promise.all(standings.slice(0, 10).map(async (entry, index) => {
+        const name = await getPlayerName(ctx, entry.userId);
+        return `${index + 1}. ${name} — ${entry.rating}（${entry.wins}胜 ${entry.losses}负 ${entry.draws}和）`;
+    }));
+
+    // 发起者不在前十名时单独显示其排名
+    const senderRank = standings.findIndex(entry => entry.userId === ctx.message.sender.id);
+    if (senderRank >= 10) {
+        lines.push('……', `您的排名：第 ${senderRank + 1} 名，等级分 ${standings[senderRank]!.rating}`);
+    }
+
+    await ctx.message.replyText(html(`<b>${title}</b><br>${lines.map(line => html.escape(line)).join('<br>')}`));
+}
+
+/**
+ * 显示玩家在本群的等级分和战绩
+ * 用法：/chess stats [@用户名|用户ID]，未指定时查看自己
+ */
+async function showStats(ctx: CommandContext) {
+    if (!ratingStore) {
+        await ctx.message.replyText('积分功能尚未就绪，请稍后再试');
+        return;
+    }
+
+    let userId = ctx.message.sender.id;
+    const target = ctx.args[1];
+    if (target) {
+        try {
+            if (target.startsWith('@')) {
+                userId = (await ctx.client.getUser(target.substring(1))).id;
+            } else if (/^\d+$/.test(target)) {
+                userId = Number(target);
+            } else {
+                await ctx.message.replyText('请使用有效的@用户名或用户ID');
+                return;
+            }
+        } catch (error) {
+            await ctx.message.replyText(`找不到用户 ${target}`);
+            return;
+        }
+    }
+
+    const chatId = ctx.message.chat.id;
+    const name = await getPlayerName(ctx, userId);
+    const ladders: { label: string; ladder: RatingLadder }[] = [
+        { label: '玩家对战', ladder: 'pvp' },
+        ...Object.values(AI_DIFFICULTY_LEVELS).map(level => ({ label: `对战${getDifficultyText(level)}AI`, ladder: level }))
+    ];
+
+    const lines: string[] = [];
+    for (const { label, ladder } of ladders) {
+        const rating = ratingStore.getPlayerRating(chatId, userId, ladder);
+        if (!rating || rating.games === 0) continue;
+
+        const winRate = Math.round(rating.wins / rating.games * 100);
+        lines.push(`${label}：${rating.rating}（最高 ${rating.peak}） | ${rating.games}局 ${rating.wins}胜 ${rating.losses}负 ${rating.draws}和 胜率${winRate}%`);
+    }
+
+    if (lines.length === 0) {
+        await ctx.message.replyText(html`${name} 在本群还没有计分的对局`);
+        return;
+    }
+
+    const recent = ratingStore.getRecentResults(chatId, userId);
+    if (recent.length > 0) {
+        lines.push('', '最近对局：');
+        for (const result of recent) {
+            const isRed = result.redPlayer === userId;
+            const outcome = result.result === '1/2-1/2'
+                ? '和'
+                : (result.result === '1-0') === isRed ? '胜' : '负';
+            const opponent = await getPlayerName(ctx, isRed ? result.blackPlayer : result.redPlayer, result.aiDifficulty);
+            const change = result.ratingChanges[userId] ?? 0;
+            const date = new Date(result.endTime);
+            const dateText = `${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+            lines.push(`• ${dateText} ${outcome} vs ${opponent}（${isRed ? '执红' : '执黑'}，${change >= 0 ? '+' : ''}${change}）`);
+        }
+    }
+
+    await ctx.message.replyText(html(`<b>📊 ${html.escape(name)} 的象棋战绩</b><br>${lines.map(line => html.escape(line)).join('<br>')}`));
+}
+
+/**
+ * 象棋谜题
+ * 用法：/chess puzzle [new|daily|hint|on|off|走法]
+ */
+async function puzzleCommand(ctx: CommandContext) {
+    if (!puzzleManager) {
+        await ctx.message.replyText('谜题功能尚未就绪，请稍后再试');
+        return;
+    }
+
+    const chatId = ctx.message.chat.id;
+    const option = ctx.args[1]?.toLowerCase();
+    const session = puzzleManager.getSession(chatId);
+
+    switch (option) {
+        case undefined:
+            if (session) {
+                const game = puzzleManager.getPlayerGame(session, ctx.message.sender.id);
+                await sendPuzzleBoard(ctx, game, getPuzzleIntro(session.puzzle, session.daily));
+            } else {
+                await startPuzzle(ctx, PuzzleSet.getRandom(), false);
+            }
+            return;
+
+        case 'new':
+            await startPuzzle(ctx, PuzzleSet.getRandom(session?.puzzle.id), false);
+            return;
+
+        case 'daily': {
+            const daily = PuzzleSet.getDaily();
+            if (session?.daily && session.puzzle.id === daily.id) {
+                const game = puzzleManager.getPlayerGame(session, ctx.message.sender.id);
+                await sendPuzzleBoard(ctx, game, getPuzzleIntro(daily, true));
+            } else {
+                await startPuzzle(ctx, daily, true);
+            }
+            return;
+        }
+
+        case 'hint': {
+            const piece = puzzleManager.getHint(chatId, ctx.message.sender.id);
+            await ctx.message.replyText(piece
+                ? `💡 提示：下一步请动用「${piece}」`
+                : '当前没有需要提示的谜题，使用 /chess puzzle 开始一道谜题');
+            return;
+        }
+
+        case 'on':
+        case 'off': {
+            if (!ctx.hasPermission('chess.puzzle.manage')) {
+                await ctx.message.replyText('您没有管理每日谜题的权限');
+                return;
+            }
+
+            puzzleManager.setSubscribed(chatId, option === 'on');
+            await ctx.message.replyText(option === 'on'
+                ? '✅ 已开启每日谜题，每天早上9点推送'
+                : '已关闭本群的每日谜题推送');
+            return;
+        }
+
+        default:
+            await handlePuzzleAnswer(ctx, ctx.args.slice(1).join(''));
+    }
+}
+
+/**
+ * 在聊天中开始一道谜题
+ */
+async function startPuzzle(ctx: CommandContext, puzzle: IPuzzle, daily: boolean) {
+    const session = puzzleManager!.startPuzzle(ctx.message.chat.id, puzzle, daily);
+    const game = puzzleManager!.getPlayerGame(session, ctx.message.sender.id);
+    await sendPuzzleBoard(ctx, game, getPuzzleIntro(puzzle, daily));
+}
+
+/**
+ * 谜题的说明文字
+ */
+function getPuzzleIntro(puzzle: IPuzzle, daily: boolean): string {
+    return `🧩 ${daily ? '每日谜题' : '象棋谜题'} #${puzzle.id}「${puzzle.title}」<br>`
+        + `红先，${PuzzleSet.getMateIn(puzzle)}步连将杀<br>`
+        + '回复此消息作答，或使用 /chess puzzle 走法，例如：/chess puzzle 车二进一';
+}
+
+/**
+ * 处理谜题作答
+ */
+async function handlePuzzleAnswer(ctx: CommandContext | MessageEventContext, text: string) {
+    if (!puzzleManager) return;
+
+    const chatId = ctx.message.chat.id;
+    const sender = ctx.message.sender;
+    const session = puzzleManager.getSession(chatId);
+    const result = puzzleManager.attempt(chatId, sender.id, text);
+
+    if (!session || !result) {
+        await ctx.message.replyText('本群当前没有谜题，使用 /chess puzzle 开始一道谜题');
+        return;
+    }
+
+    switch (result.status) {
+        case 'invalid':
+            await ctx.message.replyText(`走法无效: ${result.message}`);
+            return;
+
+        case 'wrong':
+            await ctx.message.replyText(`❌ 这步棋不能在${PuzzleSet.getMateIn(session.puzzle) - Math.ceil(result.game.moveStack.length / 2)}步内杀棋，再想想吧（/chess puzzle hint 查看提示）`);
+            return;
+
+        case 'done':
+            await ctx.message.replyText(`您已经解出这道谜题了（第 ${result.rank} 位）`);
+            return;
+
+        case 'correct': {
+            const remaining = PuzzleSet.getMateIn(session.puzzle) - Math.ceil(result.game.moveStack.length / 2);
+            await sendPuzzleBoard(ctx, result.game, `✅ 正确！黑方应着：${result.reply}<br>请继续，还需${remaining}步`);
+            return;
+        }
+
+        case 'solved': {
+            const player = `<a href="tg://user?id=${sender.id}">${html.escape(sender.displayName || '玩家')}</a>`;
+            const duration = GameClock.formatDuration(Date.now() - session.startedAt);
+            const caption = result.rank === 1
+                ? `🎉 ${player} 第一个解出了谜题「${session.puzzle.title}」！用时 ${duration}`
+                : `✅ ${player} 也解出了谜题「${session.puzzle.title}」（第 ${result.rank} 位）`;
+            await sendPuzzleBoard(ctx, result.game, `${caption}<br>杀着：${result.game.lastMove}`);
+            return;
+        }
+    }
+}
+
+/**
+ * 发送谜题棋盘，并记录消息以便回复作答
+ */
+async function sendPuzzleBoard(ctx: CommandContext | MessageEventContext, game: Game, caption: string) {
+    try {
+        const boardBuffer = await BoardRenderer.drawBoardImage(game);
+        const sentMessage = await ctx.message.replyMedia(
+            { type: 'photo', file: boardBuffer, fileName: `chess_puzzle_${game.id}.png` },
+            { caption: html(caption) }
+        );
+        puzzleManager?.rememberMessage(ctx.message.chat.id, sentMessage.id);
+    } catch (error) {
+        plugin.logger?.error('发送谜题棋盘失败:', error);
+        await ctx.message.replyText(html(`${BoardRenderer.renderBoardHTML(game)}<br>${caption}`)).catch(() => { });
+    }
+}
+
+/**
+ * 向订阅的聊天推送每日谜题
+ */
+async function postDailyPuzzles(client: TelegramClient, logger: any): Promise<void> {
+    if (!puzzleManager) return;
+
+    // 只推送到仍在允许列表中且启用了本插件的聊天
+    const enabledChats = new Set(client.features.getChatsWithPlugin('chess'));
+    const puzzle = PuzzleSet.getDaily();
+    for (const chatId of puzzleManager.getSubscribedChats().filter(chatId => enabledChats.has(chatId))) {
+        try {
+            const session = puzzleManager.startPuzzle(chatId, puzzle, true);
+            const game = Game.fromFEN(puzzle.fen, 0, 'AI', chatId);
+            const boardBuffer = await BoardRenderer.drawBoardImage(game);
+            const sentMessage = await client.sendMedia(chatId, {
+                type: 'photo',
+                file: boardBuffer,
+                fileName: `chess_puzzle_${puzzle.id}.png`
+            }, { caption: html(getPuzzleIntro(session.puzzle, true)) });
+            puzzleManager.rememberMessage(chatId, sentMessage.id);
+        } catch (error) {
+            logger?.error(`向聊天 ${chatId} 推送每日谜题失败:`, error);
         }
     }
 }
 
 /**
- * 更新游戏棋盘消息
+ * 复盘当前或最近一局，也可以指定对局ID
+ * 用法：/chess review [对局ID]
  */
-async function updateGameBoard(game: Game, ctx: CommandContext) {
-    if (game.currentTurn === PieceColor.BLACK && game.blackPlayer === 'AI') {
-        return;
-    }
+async function showReview(ctx: CommandContext) {
+    const gameId = ctx.args[1];
+    const game = gameId
+        ? gameManager.findGame(gameId)
+        : gameManager.getPlayerLatestGame(ctx.message.sender.id);
 
-    let currentPlayer: string;
-    if (game.currentTurn === PieceColor.RED) {
-        currentPlayer = `<a href="tg://user?id=${game.redPlayer}">红方玩家</a>`;
-    } else {
-        currentPlayer = game.blackPlayer === 'AI'
-            ? 'AI'
-            : `<a href="tg://user?id=${game.blackPlayer}">黑方玩家</a>`;
+    if (!game) {
+        await ctx.message.replyText(gameId ? '找不到该对局，可能已被清理' : '您还没有可以复盘的对局');
+        return;
     }
 
-    const caption = `第 ${Math.floor(game.history.length / 2) + 1} 回合 - 轮到${currentPlayer}行动${game.lastMove ? ` | 上一步：${game.lastMove}` : ''}`;
-    await renderAndSendBoard(game, ctx, caption);
+    await sendReview(ctx, game, 0);
 }
 
 /**
- * 处理AI走棋
+ * 生成复盘界面的说明文字和翻页按钮
  */
-async function processAIMove(game: Game, ctx: CommandContext) {
-    const aiDifficulty = (game as any).aiDifficulty || AI_DIFFICULTY_LEVELS.normal;
-    const difficultyText = getDifficultyText(aiDifficulty);
+function buildReviewView(game: Game, ply: number) {
+    const total = game.moveStack.length;
+    const record = game.moveStack[ply - 1];
+
+    let caption = `📽 复盘 - 第 ${ply}/${total} 步 - `;
+    caption += record
+        ? `${record.piece.color === PieceColor.RED ? '红方' : '黑方'}：${record.notation}`
+        : '起始局面';
+    if (ply === total) {
+        caption += game.status === GameStatus.FINISHED ? `<br>${game.getResultText()}` : '<br>对局尚未结束';
+    }
 
-    const thinkingMessage = await ctx.message.replyText(`${difficultyText}级AI正在思考中...`);
-    let thinkingMessageId: number | undefined = thinkingMessage?.id;
+    // 已经到头的按钮使用 -1，避免重复编辑相同的内容
+    const target = (value: number, enabled: boolean) => ReviewCB.build({ gameId: game.id, ply: enabled ? value : -1 });
+    const keyboard = BotKeyboard.inline([
+        [
+            BotKeyboard.callback('⏮', target(0, ply > 0)),
+            BotKeyboard.callback('◀', target(ply - 1, ply > 0)),
+            BotKeyboard.callback('▶', target(ply + 1, ply < total)),
+            BotKeyboard.callback('⏭', target(total, ply < total))
+        ],
+        [
+            BotKeyboard.callback('🎞 生成动画', ReplayCB.build({ gameId: game.id }))
+        ]
+    ]);
 
-    try {
-        const useCloudLibrary = aiDifficulty === AI_DIFFICULTY_LEVELS.hard;
-        // 创建AI实例时传入logger
-        const chessAI = new ChessAI(aiDifficulty, useCloudLibrary, 60000, plugin.logger);
-        const aiMove = await chessAI.getMove(game);
+    return { caption, keyboard };
+}
 
-        // 确保无论如何都尝试删除思考中消息
-        if (thinkingMessageId) {
-            try {
-                await ctx.client.deleteMessagesById(ctx.chatId, [thinkingMessageId]);
-            } catch (deleteError) {
-                plugin.logger?.error('删除AI思考消息失败:', deleteError);
-            } finally {
-                thinkingMessageId = undefined;
-            }
-        }
+/**
+ * 发送复盘界面
+ * @param ply 初始显示的步数
+ * @param prefix 说明文字前缀
+ */
+async function sendReview(ctx: CommandContext, game: Game, ply: number, prefix: string = '') {
+    const { caption, keyboard } = buildReviewView(game, ply);
 
-        if (!aiMove) {
-            game.status = GameStatus.FINISHED;
-            game.winner = PieceColor.RED;
+    try {
+        const image = await BoardRenderer.drawBoardImage(game.createReplay(ply));
+        await ctx.message.replyMedia(
+            { type: 'photo', file: image, fileName: `chess_review_${game.id}.png` },
+            { caption: html(prefix + caption), replyMarkup: keyboard }
+        );
+    } catch (error) {
+        plugin.logger?.error(`发送复盘 ${game.id} 失败:`, error);
+        await ctx.message.replyText('无法显示复盘棋盘，请稍后再试').catch(() => { });
+    }
+}
 
-            // 创建重新开始按钮
-            const keyboard = BotKeyboard.inline([
-                [
-                    BotKeyboard.callback('🔄 开始新游戏', GameControlCB.build({
-                        gameId: '0',
-                        action: 'restart',
-                        userId: game.redPlayer
-                    }))
-                ]
-            ]);
+/**
+ * 处理复盘翻页回调
+ */
+async function handleReviewCallback(ctx: CallbackEventContext) {
+    const gameId = ctx.match?._param0 as string;
+    const ply = Number(ctx.match?._param1);
 
-            await renderAndSendBoard(game, ctx, `AI无法行动，您获胜了！`, keyboard);
+    if (ply < 0) {
+        await ctx.query.answer({ text: '已经到头了' });
+        return;
+    }
 
-            // 结束游戏并释放资源
-            if (gameManager.endGame(game.id)) {
-                plugin.logger?.info(`游戏 ${game.id} 因AI无法行动而结束`);
-            }
-            return;
-        }
+    const game = gameId ? gameManager.findGame(gameId) : undefined;
+    if (!game) {
+        await ctx.query.answer({
+            text: '找不到该对局，可能已被清理',
+            alert: true
+        });
+        return;
+    }
 
-        const moveResult = game.move(aiMove.from, aiMove.to);
-        if (!moveResult.success) {
-            plugin.logger?.warn(`AI走法无效: ${moveResult.message}`);
-            game.status = GameStatus.FINISHED;
-            game.winner = PieceColor.RED;
+    const step = Math.min(Number.isInteger(ply) ? ply : 0, game.moveStack.length);
+    const { caption, keyboard } = buildReviewView(game, step);
 
-            // 创建重新开始按钮
-            const keyboard = BotKeyboard.inline([
-                [
-                    BotKeyboard.callback('🔄 开始新游戏', GameControlCB.build({
-                        gameId: '0',
-                        action: 'restart',
-                        userId: game.redPlayer
-                    }))
-                ]
-            ]);
+    try {
+        const image = await BoardRenderer.drawBoardImage(game.createReplay(step));
+        await ctx.query.editMessage({
+            media: {
+                type: 'photo',
+                file: image,
+                fileName: `chess_review_${game.id}.png`,
+                caption: html(caption)
+            },
+            replyMarkup: keyboard
+        });
+        await ctx.query.answer({});
+    } catch (error) {
+        plugin.logger?.error(`更新复盘 ${game.id} 失败:`, error);
+        await ctx.query.answer({
+            text: '更新复盘棋盘失败，请稍后再试',
+            alert: true
+        }).catch(() => { });
+    }
+}
 
-            await renderAndSendBoard(game, ctx, `AI走法无效，您获胜了！`, keyboard);
+/**
+ * 处理复盘动画回调
+ * 逐步绘制每个局面并合成 APNG，作为文件发送以保留动画
+ */
+async function handleReplayCallback(ctx: CallbackEventContext) {
+    const gameId = ctx.match?._param0 as string;
+    const game = gameId ? gameManager.findGame(gameId) : undefined;
 
-            // 结束游戏并释放资源
-            if (gameManager.endGame(game.id)) {
-                plugin.logger?.info(`游戏 ${game.id} 因AI走法无效而结束`);
-            }
-            return;
-        }
+    if (!game) {
+        await ctx.query.answer({
+            text: '找不到该对局，可能已被清理',
+            alert: true
+        });
+        return;
+    }
 
-        // 更新AI移动后的最后活动时间
-        game.lastActiveTime = Date.now();
+    if (game.moveStack.length + 1 > MAX_REPLAY_FRAMES) {
+        await ctx.query.answer({
+            text: `对局超过 ${MAX_REPLAY_FRAMES - 1} 步，无法生成动画`,
+            alert: true
+        });
+        return;
+    }
 
-        let statusMessage: string;
-        let shouldEndGame = false;
-        let keyboard;
+    if (renderingReplays.has(game.id)) {
+        await ctx.query.answer({ text: '动画正在生成中，请稍候' });
+        return;
+    }
 
-        if (game.status === GameStatus.FINISHED) {
-            statusMessage = `${difficultyText}级AI获胜了！`;
-            shouldEndGame = true;
+    renderingReplays.add(game.id);
+    try {
+        await ctx.query.answer({ text: '正在生成动画，请稍候...' });
 
-            // 游戏结束时添加重新开始按钮
-            keyboard = BotKeyboard.inline([
-                [
-                    BotKeyboard.callback('🔄 开始新游戏', GameControlCB.build({
-                        gameId: '0',
-                        action: 'restart',
-                        userId: game.redPlayer
-                    }))
-                ]
-            ]);
-        } else {
-            statusMessage = '轮到您行动';
+        const replay = game.createReplay(0);
+        const frames = [await BoardRenderer.drawBoardImage(replay)];
+        for (const record of game.moveStack) {
+            replay.move(record.from, record.to);
+            frames.push(await BoardRenderer.drawBoardImage(replay));
         }
 
-        const caption = `第 ${Math.floor(game.history.length / 2) + 1} 回合 - ${statusMessage}${game.lastMove ? ` | AI走法：${game.lastMove}` : ''}`;
-        await renderAndSendBoard(game, ctx, caption, keyboard);
+        const animation = ApngEncoder.encode(frames, {
+            delayMs: REPLAY_FRAME_DELAY,
+            lastFrameDelayMs: REPLAY_FRAME_DELAY * 3
+        });
 
-        // 如果游戏结束，释放资源
-        if (shouldEndGame && gameManager.endGame(game.id)) {
-            plugin.logger?.info(`游戏 ${game.id} 已结束，AI获胜`);
-        }
+        const result = game.status === GameStatus.FINISHED ? ` - ${game.getResultText()}` : '';
+        await ctx.client.sendMedia(ctx.chatId, {
+            type: 'document',
+            file: animation,
+            fileName: `chess_replay_${game.id}.png`,
+            fileMime: 'image/apng'
+        }, {
+            caption: html(`🎞 对局动画（APNG，共 ${game.moveStack.length} 步）${result}`)
+        });
     } catch (error) {
-        // 确保删除思考中消息
-        if (thinkingMessageId) {
-            try {
-                await ctx.client.deleteMessagesById(ctx.chatId, [thinkingMessageId]);
-            } catch (deleteError) {
-                plugin.logger?.error('删除AI思考消息失败:', deleteError);
-            }
-        }
-        // 记录错误
-        plugin.logger?.error('AI走棋处理错误:', error);
-        // 给用户友好提示
-        await ctx.message.replyText('AI处理走棋时出错，请使用 /chess status 查看游戏状态，或者 /chess resign 结束当前游戏').catch(() => { });
+        plugin.logger?.error(`生成对局 ${game.id} 的动画失败:`, error);
+        await ctx.client.sendText(ctx.chatId, '生成对局动画失败，请稍后再试').catch(() => { });
+    } finally {
+        renderingReplays.delete(game.id);
     }
 }
 
 /**
- * 获取难度文本描述
- */
-function getDifficultyText(difficulty: number): string {
-    const difficultyMap: Record<number, string> = {
-        [AI_DIFFICULTY_LEVELS.easy]: '简单',
-        [AI_DIFFICULTY_LEVELS.normal]: '普通',
-        [AI_DIFFICULTY_LEVELS.hard]: '困难'
-    };
-    return difficultyMap[difficulty] || '简单';
-}
-
-/**
- * 认输
+ * 用引擎分析局面，只给出最佳着法、评分和深度，不会走棋
+ * 进行中的对局只能分析AI对局；与玩家的对局进行中时拒绝分析，避免借助引擎对弈
+ * 用法：/chess analyze [秒数]
  */
-async function resignGame(ctx: CommandContext) {
+async function analyzePosition(ctx: CommandContext) {
     const userId = ctx.message.sender.id;
-    const game = gameManager.getPlayerActiveGame(userId);
-
+    const game = gameManager.getPlayerLatestGame(userId);
     if (!game) {
-        await ctx.message.replyText('您当前没有进行中的游戏');
+        await ctx.message.replyText('您还没有可以分析的对局');
+        return;
+    }
+    if (game.status !== GameStatus.FINISHED && game.blackPlayer !== 'AI') {
+        await ctx.message.replyText('与玩家的对局进行中不能使用引擎分析，对局结束后可以分析终局局面或使用 /chess review 复盘');
         return;
     }
 
-    if (!game.resign(userId)) {
-        await ctx.message.replyText('无法认输，可能游戏已经结束');
+    const seconds = ctx.args[1] ? Number(ctx.args[1]) : ANALYZE_DEFAULT_SECONDS;
+    if (!Number.isInteger(seconds) || seconds < 1 || seconds > ANALYZE_MAX_SECONDS) {
+        await ctx.message.replyText(`分析时间应为 1-${ANALYZE_MAX_SECONDS} 秒`);
         return;
     }
 
-    let winner: string;
-    if (game.winner === PieceColor.RED) {
-        winner = typeof game.redPlayer === 'string' && game.redPlayer === 'AI'
-            ? 'AI'
-            : `<a href="tg://user?id=${game.redPlayer}">红方玩家</a>`;
-    } else {
-        winner = typeof game.blackPlayer === 'string' && game.blackPlayer === 'AI'
-            ? 'AI'
-            : `<a href="tg://user?id=${game.blackPlayer}">黑方玩家</a>`;
+    if (analyzingPlayers.has(userId)) {
+        await ctx.message.replyText('上一次分析还没有完成，请稍候');
+        return;
     }
 
-    // 创建重新开始按钮
-    const keyboard = BotKeyboard.inline([
-        [
-            BotKeyboard.callback('🔄 开始新游戏', GameControlCB.build({
-                gameId: '0',
-                action: 'restart',
-                userId: userId
-            }))
-        ]
-    ]);
+    // 分析期间对局可能继续进行，记录发起分析时的局面
+    const turn = game.currentTurn;
+    const fen = GameRecord.toFEN(game.getBoardObject(), turn);
+    const round = Math.floor(game.history.length / 2) + 1;
 
-    // 先发送游戏结束消息
-    await renderAndSendBoard(game, ctx, `第 ${Math.floor(game.history.length / 2) + 1} 回合 - 游戏结束，${winner}获胜！`, keyboard);
+    analyzingPlayers.add(userId);
+    const startTime = Date.now();
+    try {
+        const result = await ChessEngine.search({
+            fen,
+            difficulty: AI_DIFFICULTY_LEVELS.hard,
+            maxTime: seconds * 1000,
+            useStrategies: false
+        }, { background: true });
+        const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+        const turnText = turn === PieceColor.RED ? '红方' : '黑方';
+
+        if (!result.move) {
+            await ctx.message.replyText(`${turnText}已无子可走`);
+            return;
+        }
+        if (result.depth === 0) {
+            await ctx.message.replyText(`${seconds}秒内未能完成搜索，请增加分析时间，例如 /chess analyze ${Math.min(seconds * 2, ANALYZE_MAX_SECONDS)}`);
+            return;
+        }
 
-    // 结束游戏，确保释放资源
-    const gameId = game.id;
-    if (!gameManager.endGame(gameId)) {
-        plugin.logger?.warn(`无法结束游戏 ${gameId}，可能已经被删除`);
-    } else {
-        plugin.logger?.info(`游戏 ${gameId} 已通过认输结束`);
+        // 在局面副本上依次走出主要变例，得到中文记谱
+        const replay = Game.fromFEN(fen, game.redPlayer, game.blackPlayer, game.chatId);
+        const line: string[] = [];
+        for (const move of result.pv) {
+            if (!replay.move(move.from, move.to).success || !replay.lastMove) break;
+            line.push(replay.lastMove);
+        }
+
+        const lines = [
+            `评分：${formatEngineScore(turn === PieceColor.RED ? result.score : -result.score)}`,
+            `深度：${result.depth} 层 | 节点 ${result.nodes} | 用时 ${elapsed} 秒`,
+            `最佳着法：${line[0] ?? GameRecord.toICCS(result.move.from, result.move.to)}`
+        ];
+        if (line.length > 1) {
+            lines.push(`主要变例：${line.join(' ')}`);
+        }
+
+        await ctx.message.replyText(html(`<b>🔍 局面分析（第 ${round} 回合，${turnText}走棋）</b><br>${lines.map(text => html.escape(text)).join('<br>')}`));
+    } catch (error) {
+        plugin.logger?.error('分析局面失败:', error);
+        await ctx.message.replyText('分析局面失败，请稍后再试');
+    } finally {
+        analyzingPlayers.delete(userId);
+    }
+}
+
+/**
+ * 将红方视角的引擎评分转换为文字，例如 "+235（红方优势）"
+ */
+function formatEngineScore(score: number): string {
+    const side = score > 0 ? '红方' : '黑方';
+    const magnitude = Math.abs(score);
+
+    if (magnitude >= 9000) {
+        return `${side}有杀棋`;
+    }
+
+    const rounded = Math.round(score);
+    const scoreText = `${rounded > 0 ? '+' : ''}${rounded}`;
+    if (magnitude < 50) {
+        return `${scoreText}（均势）`;
     }
+    return `${scoreText}（${side}${magnitude >= 300 ? '优势' : '稍好'}）`;
 }
 
 /**
@@ -704,6 +1893,12 @@ async function showGameStatus(ctx: CommandContext) {
         return;
     }
 
+    // 重启前AI还没来得及走棋时，继续让AI走棋
+    if (game.blackPlayer === 'AI' && game.currentTurn === PieceColor.BLACK) {
+        await processAIMove(game, ctx);
+        return;
+    }
+
     await renderAndSendBoard(game, ctx, `第 ${Math.floor(game.history.length / 2) + 1} 回合 - ${game.getStatusText()}`);
 }
 
@@ -922,7 +2117,7 @@ async function handleAIDifficultyCallback(ctx: CallbackEventContext) {
             return;
         }
 
-        (game as any).aiDifficulty = aiDifficulty;
+        game.aiDifficulty = aiDifficulty;
 
         plugin.logger?.info(`用户${currentUserId}创建了${getDifficultyText(aiDifficulty)}难度的AI游戏${game.id}`);
 
@@ -977,7 +2172,7 @@ async function handleGameControlCallback(ctx: CallbackEventContext) {
         }
 
         // 处理接受挑战按钮
-        if (action === 'accept') {
+        if (action === 'accept' || action.startsWith('accept_')) {
             // 检查用户ID是否匹配
             if (ctx.query.user.id !== userId) {
                 await ctx.query.answer({
@@ -1041,7 +2236,12 @@ async function handleGameControlCallback(ctx: CallbackEventContext) {
             }
 
             // 创建游戏
-            const game = gameManager.createGame(invite.inviter, userId, ctx.chatId);
+            // 按钮上的时限只在邀请未指定时限时生效
+            const timeControl = invite.timeControl ?? GameClock.parse(action.slice('accept_'.length)) ?? undefined;
+            const game = gameManager.createGame(invite.inviter, userId, ctx.chatId, {
+                startFen: invite.startFen,
+                timeControl
+            });
             if (!game) {
                 gameManager.removeInvite(userId);
                 await ctx.query.answer({
@@ -1060,7 +2260,7 @@ async function handleGameControlCallback(ctx: CallbackEventContext) {
             });
 
             // 发送游戏开始消息和棋盘
-            await renderAndSendBoard(game, ctx, `第 1 回合 - 游戏开始！红方先行，请输入您的走法，例如：/m 炮二平五`);
+            await renderAndSendBoard(game, ctx, `第 1 回合 - 游戏开始！${game.currentTurn === PieceColor.RED ? '红方' : '黑方'}先行，请输入您的走法，例如：/m 炮二平五`);
             return;
         }
 
@@ -1128,10 +2328,10 @@ async function handleGameControlCallback(ctx: CallbackEventContext) {
 <br>
 <b>基本规则：</b><br>
 • 红方先行，黑方后行，轮流移动<br>
-• 将帅不能直接对面<br>
-• 长将/长捉判负<br>
-• 困毙(无子可走)判负<br>
-• 将/帅被吃判负<br>
+• 将帅不能直接对面，不能送将，被将军时必须应将<br>
+• 被将死(绝杀)或困毙(无子可走)判负<br>
+• 同一局面出现三次时，单方长将/长捉判负，否则判和<br>
+• 60回合未吃子判和<br>
 <br>
 使用 <code>/chess</code> 命令可以开始新游戏。<br>
 输入走法时使用中文(简体或繁体)表示，例如"炮二平五"、"马3进5"等。<br>
@@ -1178,6 +2378,14 @@ async function handleGameControlCallback(ctx: CallbackEventContext) {
 <b>游戏控制：</b><br>
 • /chess status - 查看当前游戏状态<br>
 • /chess resign - 认输当前游戏<br>
+• /chess undo - 悔棋<br>
+• /chess analyze - 引擎分析AI对局局面<br>
+• /chess fen - 导出当前局面<br>
+• /chess pgn - 导出棋谱<br>
+• /chess review - 复盘对局<br>
+• /chess rank - 本群积分榜<br>
+• /chess stats - 查看战绩<br>
+• /chess puzzle - 象棋谜题<br>
 <br>
 <b>挑战命令：</b><br>
 • /chess challenge @用户名 - 向指定用户发起挑战<br>
@@ -1287,6 +2495,7 @@ async function handleGameControlCallback(ctx: CallbackEventContext) {
                     await ctx.client.sendText(ctx.chatId, '无法认输，可能游戏已经结束');
                     return;
                 }
+                cancelAISearch(game.id);
 
                 let winner: string;
                 if (game.winner === PieceColor.RED) {
@@ -1536,4 +2745,43 @@ async function checkTimeoutGames(client: any, logger: any): Promise<void> {
     }
 }
 
+/**
+ * 检查计时对局的时钟，宣布超时判负的对局
+ * @param client Telegram客户端
+ * @param logger 日志记录器
+ */
+async function checkClockFlags(client: TelegramClient, logger: any): Promise<void> {
+    for (const game of gameManager.checkClockFlags()) {
+        const loser = game.winner === PieceColor.RED ? game.blackPlayer : game.redPlayer;
+        const caption = `⏰ 游戏结束！${game.getResultText()}`;
+        const keyboard = BotKeyboard.inline([
+            [
+                BotKeyboard.callback('🔄 开始新游戏', GameControlCB.build({
+                    gameId: '0',
+                    action: 'restart',
+                    userId: typeof loser === 'number' ? loser : game.redPlayer
+                })),
+                BotKeyboard.callback('📽 复盘', ReviewCB.build({ gameId: game.id, ply: 0 }))
+            ]
+        ]);
+
+        try {
+            const boardBuffer = await BoardRenderer.drawBoardImage(game);
+            const media = { type: 'photo' as const, file: boardBuffer, fileName: `chess_${game.id}.png` };
+
+            await client.sendMedia(game.chatId, media, {
+                caption: html(caption),
+                replyMarkup: keyboard,
+                replyTo: game.boardMessageId
+            }).catch(() => client.sendMedia(game.chatId, media, { caption: html(caption), replyMarkup: keyboard }));
+        } catch (error) {
+            logger?.error(`发送对局 ${game.id} 的超时结果失败:`, error);
+        } finally {
+            pendingUndoRequests.delete(game.id);
+            gameManager.endGame(game.id);
+            logger?.info(`游戏 ${game.id} 已结束，${game.getResultText()}`);
+        }
+    }
+}
+
 export default plugin;
\ No newline at end of file
@@ -9,6 +9,40 @@ export enum GameStatus {
     FINISHED = 'finished' // 游戏已结束
 }
 
+// 游戏结束原因枚举
+export enum GameEndReason {
+    CHECKMATE = 'checkmate', // 绝杀
+    STALEMATE = 'stalemate', // 困毙（无子可走）
+    RESIGN = 'resign',       // 认输
+    PERPETUAL_CHECK = 'perpetual_check', // 长将不变作负
+    PERPETUAL_CHASE = 'perpetual_chase', // 长捉不变作负
+    REPETITION = 'repetition', // 重复局面和棋
+    MOVE_LIMIT = 'move_limit', // 60回合未吃子和棋
+    TIMEOUT = 'timeout'        // 超时
+}
+
+// 计时方式枚举
+export enum TimeControlType {
+    FISCHER = 'fischer',           // 加秒制
+    SUDDEN_DEATH = 'sudden_death', // 包干制
+    BYOYOMI = 'byoyomi'            // 读秒制
+}
+
+// 时限设置（单位：秒）
+export interface ITimeControl {
+    type: TimeControlType;
+    initial: number;   // 基本用时
+    increment: number; // 每步加时（加秒制）
+    byoyomi: number;   // 每步读秒时间（读秒制）
+}
+
+// 持久化保存的时钟状态
+export interface ISerializedClock {
+    control: ITimeControl;
+    remaining: Record<PieceColor, number>; // 剩余基本用时（毫秒）
+    turnStartedAt: number; // 当前行动方开始计时的时间
+}
+
 // 棋子类型枚举
 export enum PieceType {
     GENERAL = 'general',   // 将/帅
@@ -50,7 +84,8 @@ export interface IGame {
     history: string[]; // 历史走法
     startTime: number; // 游戏开始时间
     lastActiveTime: number; // 最后活动时间 用于超时注销
-    winner?: PieceColor; // 获胜方
+    winner?: PieceColor; // 获胜方，和棋时为空
+    endReason?: GameEndReason; // 结束原因
 }
 
 // 走法结果接口
@@ -60,6 +95,40 @@ export interface IMoveResult {
     from?: Position;
     to?: Position;
     capturedPiece?: IPiece | null;
+    isCheck?: boolean; // 是否将军
+    isCheckmate?: boolean; // 是否绝杀
+    isStalemate?: boolean; // 是否困毙
+}
+
+// 走法栈中的一步，用于悔棋、重复局面判定和持久化
+export interface IMoveRecord {
+    from: Position;
+    to: Position;
+    piece: IPiece; // 移动的棋子（走子前的快照）
+    captured: IPiece | null; // 被吃掉的棋子
+    notation: string; // 中文记谱
+    hash: bigint; // 走完后的局面哈希
+    isCheck: boolean; // 是否将军
+    isChase: boolean; // 是否捉子
+    pliesSinceCapture: number; // 走子前的未吃子步数
+}
+
+// 持久化保存的对局数据
+export interface ISerializedGame {
+    id: string;
+    redPlayer: number;
+    blackPlayer: number | 'AI';
+    chatId: number;
+    startTime: number;
+    lastActiveTime: number;
+    moves: { from: Position, to: Position }[]; // 按顺序的坐标走法，恢复时从开局重放
+    aiDifficulty?: number; // AI难度
+    boardMessageId?: number; // 最近一次发送的棋盘消息ID
+    startFen?: string; // 起始局面，标准开局时为空
+    status?: GameStatus; // 对局状态，已归档的对局会保存结果
+    winner?: PieceColor; // 获胜方
+    endReason?: GameEndReason; // 结束原因（认输等无法通过重放得出的结果）
+    clock?: ISerializedClock; // 时钟状态
 }
 
 // 邀请信息接口
@@ -67,4 +136,56 @@ export interface IInvite {
     inviter: number;
     gameId: string;
     expires: number;
-} 
\ No newline at end of file
+    startFen?: string; // 从指定局面开始时的FEN
+    timeControl?: ITimeControl; // 发起方选择的时限
+} 
+// 玩家在一个积分榜中的等级分和战绩
+export interface IPlayerRating {
+    rating: number; // 当前等级分
+    peak: number;   // 历史最高等级分
+    games: number;
+    wins: number;
+    losses: number;
+    draws: number;
+}
+
+// 计入等级分的对局结果
+export interface IGameResult {
+    gameId: string;
+    chatId: number;
+    redPlayer: number;
+    blackPlayer: number | 'AI';
+    aiDifficulty?: number; // AI难度，仅人机对局
+    result: '1-0' | '0-1' | '1/2-1/2'; // 红方视角的比分
+    endReason?: GameEndReason;
+    endTime: number;
+    ratingChanges: Record<string, number>; // 玩家ID -> 等级分变化
+}
+
+// 象棋谜题
+export interface IPuzzle {
+    id: string;
+    title: string;
+    fen: string;        // 起始局面，红方先走
+    solution: string[]; // 解法（ICCS，红黑交替），最后一步为杀棋
+}
+
+// 持久化保存的谜题进度
+export interface ISerializedPuzzleSession {
+    chatId: number;
+    puzzleId: string;
+    daily: boolean;      // 是否为每日谜题
+    startedAt: number;
+    messageIds: number[]; // 谜题相关的棋盘消息，回复这些消息即可作答
+    solvers: { userId: number; solvedAt: number }[]; // 按解出顺序排列
+}
+
+// 引擎搜索结果
+export interface ISearchResult {
+    move: { from: Position, to: Position } | null; // 最佳走法，无子可走时为 null
+    score: number;  // 行棋方视角的评分
+    depth: number;  // 完整搜索的深度，0 表示未完成任何一层（使用了策略走法或备选走法）
+    pv: { from: Position, to: Position }[]; // 主要变例，从最佳走法开始
+    nodes: number;  // 搜索的节点数
+    timedOut: boolean; // 是否因达到时间限制而停止
+}
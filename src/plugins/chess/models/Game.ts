@@ -1,8 +1,17 @@
-import { GameStatus, PieceColor, PieceType } from './ChessTypes';
-import type { IGame, IPiece, Position, IMoveResult } from './ChessTypes';
+import { GameEndReason, GameStatus, PieceColor } from './ChessTypes';
+import type { IGame, IPiece, Position, IMoveResult, IMoveRecord, ISerializedGame } from './ChessTypes';
 import { Board } from './Board';
+import { Piece } from './Piece';
 import { MoveValidator } from '../utils/MoveValidator.js';
 import { MoveNotation } from '../utils/MoveNotation.js';
+import { ZobristHash } from '../utils/ZobristHash.js';
+import { GameRecord } from '../utils/GameRecord.js';
+import { GameClock } from '../utils/GameClock.js';
+
+// 同一局面出现多少次时进行判定
+const REPETITION_LIMIT = 3;
+// 多少回合未吃子判和
+const NO_CAPTURE_MOVE_LIMIT = 60;
 
 /**
  * 象棋游戏类
@@ -21,10 +30,28 @@ export class Game implements IGame {
     startTime: number;
     lastActiveTime: number;
     winner?: PieceColor;
+    endReason?: GameEndReason;
+    // 当前行动方是否被将军
+    inCheck: boolean = false;
+    // 自上次吃子以来的步数（每方走一步计一步）
+    pliesSinceCapture: number = 0;
+    // 走法栈，按顺序记录每一步
+    moveStack: IMoveRecord[] = [];
+    // AI难度（仅AI对局）
+    aiDifficulty?: number;
+    // 最近一次发送的棋盘消息ID
+    boardMessageId?: number;
+    // 起始局面（FEN），从标准开局开始时为空
+    startFen?: string;
+    // 对局时钟，未设置时限时为空
+    clock?: GameClock;
 
     private boardObj: Board;
     private moveValidator: MoveValidator;
     private moveNotation: MoveNotation;
+    private zobristHash: ZobristHash;
+    // 开局局面的哈希
+    private initialHash: bigint;
 
     /**
      * 创建新游戏
@@ -49,6 +76,10 @@ export class Game implements IGame {
         // 创建走法验证器和记号解析器
         this.moveValidator = new MoveValidator();
         this.moveNotation = new MoveNotation();
+
+        // 记录开局局面
+        this.zobristHash = new ZobristHash();
+        this.initialHash = this.zobristHash.calculateHash(this.boardObj, this.currentTurn);
     }
 
     /**
@@ -63,6 +94,14 @@ export class Game implements IGame {
             };
         }
 
+        // 超时的一方不能再走棋
+        if (this.checkFlag()) {
+            return {
+                success: false,
+                message: '时间已用完，对局结束'
+            };
+        }
+
         // 获取起始位置的棋子
         const piece = this.boardObj.getPiece(from);
         if (!piece) {
@@ -91,8 +130,10 @@ export class Game implements IGame {
         // 如果合法，执行移动
         const capturedPiece = this.boardObj.movePiece(from, to);
 
-        // 检查走法执行后将帅是否面对面
-        if (this.boardObj.areGeneralsFacing()) {
+        // 检查走法执行后己方是否被将军（包括将帅面对面）
+        if (this.moveValidator.isInCheck(this.boardObj, piece.color)) {
+            const generalsFacing = this.boardObj.areGeneralsFacing();
+
             // 撤销移动
             this.boardObj.movePiece(to, from);
             if (capturedPiece) {
@@ -100,12 +141,15 @@ export class Game implements IGame {
             }
             return {
                 success: false,
-                message: '该走法会导致将帅面对面，不合法'
+                message: generalsFacing
+                    ? '该走法会导致将帅面对面，不合法'
+                    : this.inCheck ? '您正被将军，必须先应将' : '该走法会让己方将帅被将军，不合法'
             };
         }
 
         // 生成走法记号
         const moveNotation = this.moveNotation.generateMoveNotation(piece, from, to, this.boardObj);
+        const pieceBefore: IPiece = { type: piece.type, color: piece.color, position: [...from], name: piece.name };
 
         // 更新游戏状态
         this.lastMove = moveNotation;
@@ -115,22 +159,182 @@ export class Game implements IGame {
         this.lastActiveTime = Date.now(); // 更新最后活动时间
 
         // 切换回合
-        this.currentTurn = this.currentTurn === PieceColor.RED ? PieceColor.BLACK : PieceColor.RED;
+        const opponentColor = this.currentTurn === PieceColor.RED ? PieceColor.BLACK : PieceColor.RED;
+        this.currentTurn = opponentColor;
 
-        // 检查游戏是否结束
-        if (capturedPiece && capturedPiece.type === PieceType.GENERAL) {
+        // 检查对方是否被将军，以及是否还有合法走法
+        this.inCheck = this.moveValidator.isInCheck(this.boardObj, opponentColor);
+        const hasLegalMove = this.moveValidator.hasLegalMove(this.boardObj, opponentColor);
+
+        // 记录到走法栈，包括局面哈希和本步是否将军、捉子
+        this.moveStack.push({
+            from: [...from],
+            to: [...to],
+            piece: pieceBefore,
+            captured: capturedPiece
+                ? { type: capturedPiece.type, color: capturedPiece.color, position: [...to], name: capturedPiece.name }
+                : null,
+            notation: moveNotation,
+            hash: this.zobristHash.calculateHash(this.boardObj, this.currentTurn),
+            isCheck: this.inCheck,
+            isChase: this.moveValidator.getChasedPieces(this.boardObj, to).length > 0,
+            pliesSinceCapture: this.pliesSinceCapture
+        });
+        this.pliesSinceCapture = capturedPiece ? 0 : this.pliesSinceCapture + 1;
+        this.clock?.punch(piece.color);
+
+        // 无子可走即告负：被将军为绝杀，未被将军为困毙
+        if (!hasLegalMove) {
             this.status = GameStatus.FINISHED;
             this.winner = piece.color;
+            this.endReason = this.inCheck ? GameEndReason.CHECKMATE : GameEndReason.STALEMATE;
+        } else {
+            this.adjudicateRepetition();
         }
 
         return {
             success: true,
             from,
             to,
-            capturedPiece
+            capturedPiece,
+            isCheck: this.inCheck,
+            isCheckmate: this.endReason === GameEndReason.CHECKMATE,
+            isStalemate: this.endReason === GameEndReason.STALEMATE
         };
     }
 
+    /**
+     * 判定重复局面和自然限着
+     * 同一局面第三次出现时：单方长将或长捉者判负，双方均长将、均长捉或均无违例则判和
+     * 60回合未吃子判和
+     */
+    private adjudicateRepetition(): void {
+        const positions = this.getPositionHistory();
+        const currentHash = positions[positions.length - 1];
+        const occurrences = positions
+            .map((hash, index) => hash === currentHash ? index : -1)
+            .filter(index => index >= 0);
+
+        if (occurrences.length >= REPETITION_LIMIT) {
+            // 从第一次出现该局面起的所有走法
+            const cycle = this.moveStack.slice(occurrences[0]);
+            const isPerpetual = (color: PieceColor, key: 'isCheck' | 'isChase') => {
+                const moves = cycle.filter(record => record.piece.color === color);
+                return moves.length > 0 && moves.every(record => record[key]);
+            };
+
+            const redCheck = isPerpetual(PieceColor.RED, 'isCheck');
+            const blackCheck = isPerpetual(PieceColor.BLACK, 'isCheck');
+            const redChase = isPerpetual(PieceColor.RED, 'isChase');
+            const blackChase = isPerpetual(PieceColor.BLACK, 'isChase');
+
+            this.status = GameStatus.FINISHED;
+            if (redCheck !== blackCheck) {
+                // 单方长将，长将方判负
+                this.winner = redCheck ? PieceColor.BLACK : PieceColor.RED;
+                this.endReason = GameEndReason.PERPETUAL_CHECK;
+            } else if (!redCheck && redChase !== blackChase) {
+                // 单方长捉，长捉方判负
+                this.winner = redChase ? PieceColor.BLACK : PieceColor.RED;
+                this.endReason = GameEndReason.PERPETUAL_CHASE;
+            } else {
+                this.winner = undefined;
+                this.endReason = GameEndReason.REPETITION;
+            }
+            return;
+        }
+
+        if (this.pliesSinceCapture >= NO_CAPTURE_MOVE_LIMIT * 2) {
+            this.status = GameStatus.FINISHED;
+            this.winner = undefined;
+            this.endReason = GameEndReason.MOVE_LIMIT;
+        }
+    }
+
+    /**
+     * 检查当前行动方是否超时，超时则判负并结束对局
+     * @returns 是否超时
+     */
+    checkFlag(now: number = Date.now()): boolean {
+        if (this.status !== GameStatus.PLAYING || !this.clock?.isFlagged(this.currentTurn, now)) {
+            return false;
+        }
+
+        this.status = GameStatus.FINISHED;
+        this.winner = this.currentTurn === PieceColor.RED ? PieceColor.BLACK : PieceColor.RED;
+        this.endReason = GameEndReason.TIMEOUT;
+        return true;
+    }
+
+    /**
+     * 获取当前局面已经出现的次数（包括当前）
+     */
+    getRepetitionCount(): number {
+        const positions = this.getPositionHistory();
+        const currentHash = positions[positions.length - 1];
+        return positions.filter(hash => hash === currentHash).length;
+    }
+
+    /**
+     * 获取局面哈希历史，第0项为开局局面
+     */
+    private getPositionHistory(): bigint[] {
+        return [this.initialHash, ...this.moveStack.map(record => record.hash)];
+    }
+
+    /**
+     * 悔棋，撤销最后一步
+     * 对局会回到该步之前的状态（包括回合、将军状态和未吃子步数），已结束的对局会恢复为进行中
+     * @returns 被撤销的走法，没有可撤销的走法时返回null
+     */
+    undo(): IMoveRecord | null {
+        const record = this.moveStack.pop();
+        if (!record) {
+            return null;
+        }
+
+        // 棋子退回原位，被吃的棋子放回
+        this.boardObj.movePiece(record.to, record.from);
+        if (record.captured) {
+            const { type, color, name } = record.captured;
+            this.boardObj.placePiece(new Piece(type, color, [...record.to], name));
+        }
+
+        // 恢复对局状态，时钟从现在起为悔棋方计时，已用时间不退还
+        const previous = this.moveStack[this.moveStack.length - 1];
+        this.clock?.restartTurn(this.currentTurn);
+        this.history.pop();
+        this.currentTurn = record.piece.color;
+        this.pliesSinceCapture = record.pliesSinceCapture;
+        this.inCheck = previous?.isCheck ?? false;
+        this.lastMove = previous?.notation;
+        this.lastMovePositions = previous ? { from: [...previous.from], to: [...previous.to] } : undefined;
+        this.status = GameStatus.PLAYING;
+        this.winner = undefined;
+        this.endReason = undefined;
+        this.board = this.boardObj.getBoardData();
+        this.lastActiveTime = Date.now();
+
+        return record;
+    }
+
+    /**
+     * 根据棋谱中的走法执行移动，支持 ICCS（H2-E2）、WXF（C2.5）和中文记谱
+     */
+    moveByRecord(text: string): IMoveResult {
+        const iccs = GameRecord.parseICCS(text);
+        if (iccs) {
+            return this.move(iccs.from, iccs.to);
+        }
+
+        const wxf = GameRecord.findWXFMove(this.boardObj, this.currentTurn, text);
+        if (wxf) {
+            return this.move(wxf.from, wxf.to);
+        }
+
+        return this.moveByNotation(text);
+    }
+
     /**
      * 根据中文走法表示执行移动
      */
@@ -160,11 +364,46 @@ export class Game implements IGame {
      */
     getStatusText(): string {
         if (this.status === GameStatus.FINISHED) {
-            const winnerText = this.winner === PieceColor.RED ? '红方' : '黑方';
-            return `游戏已结束，${winnerText}获胜！`;
+            return `游戏已结束，${this.getResultText()}`;
         } else {
             const turnText = this.currentTurn === PieceColor.RED ? '红方' : '黑方';
-            return `游戏进行中，轮到${turnText}行动`;
+            let text = `${this.inCheck ? '将军！' : ''}游戏进行中，轮到${turnText}行动`;
+            if (this.getRepetitionCount() >= REPETITION_LIMIT - 1) {
+                text += '（局面重复，再次重复将判定长将/长捉或和棋）';
+            }
+            if (this.pliesSinceCapture >= (NO_CAPTURE_MOVE_LIMIT - 10) * 2) {
+                text += `（已 ${Math.floor(this.pliesSinceCapture / 2)} 回合未吃子，${NO_CAPTURE_MOVE_LIMIT} 回合判和）`;
+            }
+            return text;
+        }
+    }
+
+    /**
+     * 获取对局结果的文本描述，例如 "绝杀！红方获胜！"
+     */
+    getResultText(): string {
+        const winnerText = this.winner === PieceColor.RED ? '红方' : '黑方';
+        const loserText = this.winner === PieceColor.RED ? '黑方' : '红方';
+
+        switch (this.endReason) {
+            case GameEndReason.CHECKMATE:
+                return `绝杀！${winnerText}获胜！`;
+            case GameEndReason.STALEMATE:
+                return `${loserText}被困毙，${winnerText}获胜！`;
+            case GameEndReason.RESIGN:
+                return `${loserText}认输，${winnerText}获胜！`;
+            case GameEndReason.PERPETUAL_CHECK:
+                return `${loserText}长将不变作负，${winnerText}获胜！`;
+            case GameEndReason.PERPETUAL_CHASE:
+                return `${loserText}长捉不变作负，${winnerText}获胜！`;
+            case GameEndReason.REPETITION:
+                return '局面三次重复，双方不变作和！';
+            case GameEndReason.MOVE_LIMIT:
+                return `${NO_CAPTURE_MOVE_LIMIT} 回合未吃子，和棋！`;
+            case GameEndReason.TIMEOUT:
+                return `${loserText}超时，${winnerText}获胜！`;
+            default:
+                return this.winner ? `${winnerText}获胜！` : '和棋！';
         }
     }
 
@@ -183,6 +422,7 @@ export class Game implements IGame {
 
         // 设置游戏结束
         this.status = GameStatus.FINISHED;
+        this.endReason = GameEndReason.RESIGN;
 
         // 设置对方为获胜者
         if (playerId === this.redPlayer) {
@@ -194,6 +434,141 @@ export class Game implements IGame {
         return true;
     }
 
+    /**
+     * 序列化对局，用于持久化保存
+     */
+    toJSON(): ISerializedGame {
+        return {
+            id: this.id,
+            redPlayer: this.redPlayer,
+            blackPlayer: this.blackPlayer,
+            chatId: this.chatId,
+            startTime: this.startTime,
+            lastActiveTime: this.lastActiveTime,
+            moves: this.moveStack.map(record => ({ from: [...record.from], to: [...record.to] })),
+            aiDifficulty: this.aiDifficulty,
+            boardMessageId: this.boardMessageId,
+            startFen: this.startFen,
+            status: this.status,
+            winner: this.winner,
+            endReason: this.endReason,
+            clock: this.clock?.toJSON()
+        };
+    }
+
+    /**
+     * 从持久化数据恢复对局
+     * 从开局重放所有走法，棋盘、记谱、局面历史等状态都会被重建
+     * 认输、超时等无法通过重放得出的结果从保存的数据中恢复
+     * @throws 走法无法重放时抛出错误
+     */
+    static fromJSON(data: ISerializedGame): Game {
+        const game = data.startFen
+            ? Game.fromFEN(data.startFen, data.redPlayer, data.blackPlayer, data.chatId)
+            : new Game(data.redPlayer, data.blackPlayer, data.chatId);
+
+        for (const [index, move] of data.moves.entries()) {
+            const result = game.move(move.from, move.to);
+            if (!result.success) {
+                throw new Error(`对局 ${data.id} 第 ${index + 1} 步无法重放: ${result.message}`);
+            }
+        }
+
+        if (data.status === GameStatus.FINISHED && game.status === GameStatus.PLAYING) {
+            game.status = GameStatus.FINISHED;
+            game.winner = data.winner;
+            game.endReason = data.endReason;
+        }
+
+        // 时钟在重放之后恢复，重放的走法不计时
+        if (data.clock) {
+            game.clock = GameClock.fromJSON(data.clock);
+        }
+
+        game.id = data.id;
+        game.startTime = data.startTime;
+        game.lastActiveTime = data.lastActiveTime;
+        game.aiDifficulty = data.aiDifficulty;
+        game.boardMessageId = data.boardMessageId;
+        return game;
+    }
+
+    /**
+     * 从 FEN 局面创建对局，用于残局练习
+     * @throws FEN 无效、非行动方正被将军或行动方已无子可走时抛出错误
+     */
+    static fromFEN(fen: string, redPlayer: number, blackPlayer: number | 'AI', chatId: number): Game {
+        const { board, turn, halfmove } = GameRecord.parseFEN(fen);
+        const game = new Game(redPlayer, blackPlayer, chatId);
+        const opponentColor = turn === PieceColor.RED ? PieceColor.BLACK : PieceColor.RED;
+
+        if (game.moveValidator.isInCheck(board, opponentColor)) {
+            throw new Error(`${opponentColor === PieceColor.RED ? '红方' : '黑方'}不在行动却正被将军，局面不合法`);
+        }
+        if (!game.moveValidator.hasLegalMove(board, turn)) {
+            throw new Error(`${turn === PieceColor.RED ? '红方' : '黑方'}已无子可走，无法从该局面开始`);
+        }
+
+        game.boardObj = board;
+        game.board = board.getBoardData();
+        game.currentTurn = turn;
+        game.pliesSinceCapture = halfmove;
+        game.inCheck = game.moveValidator.isInCheck(board, turn);
+        game.initialHash = game.zobristHash.calculateHash(board, turn);
+        game.startFen = GameRecord.toFEN(board, turn, { halfmove, fullmove: 1 });
+        return game;
+    }
+
+    /**
+     * 从 PGN 棋谱重建对局，用于复盘
+     * 重放得出的结果（绝杀、长将等）优先，否则按棋谱头信息中的结果结束对局
+     * @throws 棋谱无效或走法无法重放时抛出错误
+     */
+    static fromRecord(text: string, chatId: number): Game {
+        const record = GameRecord.parseRecord(text);
+        if (record.moves.length === 0 && !record.fen) {
+            throw new Error('棋谱中没有找到任何走法');
+        }
+
+        const game = record.fen ? Game.fromFEN(record.fen, 0, 0, chatId) : new Game(0, 0, chatId);
+
+        for (const [index, move] of record.moves.entries()) {
+            const result = game.moveByRecord(move);
+            if (!result.success) {
+                throw new Error(`第 ${index + 1} 步 ${move} 无法执行: ${result.message}`);
+            }
+        }
+
+        const result = record.headers.Result;
+        if (game.status === GameStatus.PLAYING && result && result !== '*') {
+            game.status = GameStatus.FINISHED;
+            game.winner = result === '1-0' ? PieceColor.RED : result === '0-1' ? PieceColor.BLACK : undefined;
+            game.endReason = GameRecord.parseEndReason(record.headers.Termination);
+        }
+
+        return game;
+    }
+
+    /**
+     * 创建复盘用的对局副本，从起始局面重放前 ply 步
+     * 副本的 lastMovePositions 指向第 ply 步，绘制时会高亮该步
+     * @param ply 重放的步数，超出范围时自动截断
+     */
+    createReplay(ply: number = 0): Game {
+        const replay = this.startFen
+            ? Game.fromFEN(this.startFen, this.redPlayer, this.blackPlayer, this.chatId)
+            : new Game(this.redPlayer, this.blackPlayer, this.chatId);
+
+        const count = Math.max(0, Math.min(ply, this.moveStack.length));
+        for (const record of this.moveStack.slice(0, count)) {
+            replay.move(record.from, record.to);
+        }
+
+        replay.id = this.id;
+        replay.startTime = this.startTime;
+        return replay;
+    }
+
     /**
      * 获取指定玩家的颜色
      */
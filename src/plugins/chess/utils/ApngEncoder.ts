@@ -0,0 +1,153 @@
+// PNG 文件签名
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// CRC32 查找表
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+// PNG 数据块
+interface PngChunk {
+    type: string;
+    data: Buffer;
+}
+
+// 动画选项
+export interface ApngOptions {
+    delayMs: number; // 每帧显示时长
+    lastFrameDelayMs?: number; // 最后一帧显示时长，默认与其他帧相同
+    loops?: number; // 播放次数，0 为无限循环
+}
+
+/**
+ * APNG 编码器
+ * 将多张尺寸相同的 PNG 图片合成为 APNG 动画，直接复用各帧已压缩的图像数据，无需重新编码
+ */
+export class ApngEncoder {
+    /**
+     * 合成 APNG
+     * @param frames 按顺序的 PNG 图片，尺寸和颜色格式必须相同
+     * @param options 动画选项
+     * @throws 图片不是有效的 PNG 或尺寸不一致时抛出错误
+     */
+    static encode(frames: Buffer[], options: ApngOptions): Buffer {
+        if (frames.length === 0) {
+            throw new Error('至少需要一帧图片');
+        }
+
+        const parsedFrames = frames.map(frame => ApngEncoder.readChunks(frame));
+        const header = parsedFrames[0]!.find(chunk => chunk.type === 'IHDR');
+        if (!header) {
+            throw new Error('PNG 缺少 IHDR 数据块');
+        }
+
+        const width = header.data.readUInt32BE(0);
+        const height = header.data.readUInt32BE(4);
+        const output: Buffer[] = [PNG_SIGNATURE, ApngEncoder.writeChunk('IHDR', header.data)];
+
+        const animationControl = Buffer.alloc(8);
+        animationControl.writeUInt32BE(frames.length, 0);
+        animationControl.writeUInt32BE(options.loops ?? 0, 4);
+        output.push(ApngEncoder.writeChunk('acTL', animationControl));
+
+        // 第一帧的辅助数据块（色彩空间、分辨率等）原样保留
+        for (const chunk of parsedFrames[0]!) {
+            if (!['IHDR', 'IDAT', 'IEND'].includes(chunk.type)) {
+                output.push(ApngEncoder.writeChunk(chunk.type, chunk.data));
+            }
+        }
+
+        // 帧控制和帧数据共用一个递增序号
+        let sequence = 0;
+        for (const [index, chunks] of parsedFrames.entries()) {
+            const frameHeader = chunks.find(chunk => chunk.type === 'IHDR');
+            if (!frameHeader || frameHeader.data.readUInt32BE(0) !== width || frameHeader.data.readUInt32BE(4) !== height) {
+                throw new Error(`第 ${index + 1} 帧的尺寸与第一帧不一致`);
+            }
+
+            const isLast = index === parsedFrames.length - 1;
+            const delay = Math.min(isLast ? options.lastFrameDelayMs ?? options.delayMs : options.delayMs, 0xffff);
+
+            const frameControl = Buffer.alloc(26);
+            frameControl.writeUInt32BE(sequence++, 0);
+            frameControl.writeUInt32BE(width, 4);
+            frameControl.writeUInt32BE(height, 8);
+            frameControl.writeUInt32BE(0, 12); // x 偏移
+            frameControl.writeUInt32BE(0, 16); // y 偏移
+            frameControl.writeUInt16BE(delay, 20);
+            frameControl.writeUInt16BE(1000, 22); // 延时单位为毫秒
+            frameControl.writeUInt8(0, 24); // 不清除画布
+            frameControl.writeUInt8(0, 25); // 直接覆盖
+            output.push(ApngEncoder.writeChunk('fcTL', frameControl));
+
+            for (const chunk of chunks) {
+                if (chunk.type !== 'IDAT') continue;
+
+                if (index === 0) {
+                    // 第一帧同时作为静态图片显示，使用 IDAT
+                    output.push(ApngEncoder.writeChunk('IDAT', chunk.data));
+                } else {
+                    const sequenceBuffer = Buffer.alloc(4);
+                    sequenceBuffer.writeUInt32BE(sequence++, 0);
+                    output.push(ApngEncoder.writeChunk('fdAT', Buffer.concat([sequenceBuffer, chunk.data])));
+                }
+            }
+        }
+
+        output.push(ApngEncoder.writeChunk('IEND', Buffer.alloc(0)));
+        return Buffer.concat(output);
+    }
+
+    /**
+     * 读取 PNG 的所有数据块
+     */
+    private static readChunks(png: Buffer): PngChunk[] {
+        if (png.length < PNG_SIGNATURE.length || !png.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)) {
+            throw new Error('无效的 PNG 图片');
+        }
+
+        const chunks: PngChunk[] = [];
+        let offset = PNG_SIGNATURE.length;
+        while (offset + 8 <= png.length) {
+            const length = png.readUInt32BE(offset);
+            const type = png.toString('ascii', offset + 4, offset + 8);
+            chunks.push({ type, data: png.subarray(offset + 8, offset + 8 + length) });
+            offset += length + 12;
+
+            if (type === 'IEND') break;
+        }
+
+        return chunks;
+    }
+
+    /**
+     * 生成带 CRC 校验的数据块
+     */
+    private static writeChunk(type: string, data: Buffer): Buffer {
+        const chunk = Buffer.alloc(data.length + 12);
+        chunk.writeUInt32BE(data.length, 0);
+        chunk.write(type, 4, 'ascii');
+        data.copy(chunk, 8);
+        chunk.writeUInt32BE(ApngEncoder.crc32(chunk.subarray(4, data.length + 8)), data.length + 8);
+        return chunk;
+    }
+
+    /**
+     * 计算 CRC32
+     */
+    private static crc32(data: Buffer): number {
+        let crc = 0xffffffff;
+        for (const byte of data) {
+            crc = CRC_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+        }
+        return (crc ^ 0xffffffff) >>> 0;
+    }
+}
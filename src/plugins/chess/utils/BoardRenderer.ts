@@ -1,7 +1,7 @@
 import { Board } from '../models/Board';
-import { PieceColor } from '../models/ChessTypes';
+import { GameStatus, PieceColor } from '../models/ChessTypes';
 import { Game } from '../models/Game';
-import { createCanvas, GlobalFonts } from '@napi-rs/canvas'; // Removed registerFont, CanvasRenderingContext2D, added GlobalFonts
+import { createCanvas, GlobalFonts, type Canvas } from '@napi-rs/canvas'; // Removed registerFont, CanvasRenderingContext2D, added GlobalFonts
 import { join } from 'path';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
@@ -668,8 +668,11 @@ export class BoardRenderer {
             ctx.stroke();
         }
 
-        // ===== 中间：当前方显示 =====
-        const currentTurnText = game.currentTurn === PieceColor.RED ? '红方' : '黑方';
+        // ===== 中间：当前方显示（对局结束后显示结果） =====
+        const isFinished = game.status === GameStatus.FINISHED;
+        const currentTurnText = isFinished
+            ? (game.winner === PieceColor.RED ? '红胜' : game.winner === PieceColor.BLACK ? '黑胜' : '和棋')
+            : game.currentTurn === PieceColor.RED ? '红方' : '黑方';
         const playerBadgeX = playerElementX;
         const playerBadgeY = panelCenterY;
         const playerBadgeWidth = 70;
@@ -680,7 +683,7 @@ export class BoardRenderer {
         ctx.font = `bold 13px ${fontFamily}`;
         ctx.textAlign = 'right';
         ctx.textBaseline = 'middle';
-        ctx.fillText('当前', playerBadgeX - 8, playerBadgeY); // 从-12改为-8更靠右
+        ctx.fillText(isFinished ? '结果' : '当前', playerBadgeX - 8, playerBadgeY); // 从-12改为-8更靠右
 
         // 绘制当前方徽章背景
         ctx.save();
@@ -783,15 +786,63 @@ export class BoardRenderer {
         // 恢复绘图状态
         ctx.restore();
 
+        // 计时对局在棋盘上方加一栏双方剩余时间
+        const output = game.clock ? this.drawClockBar(canvas, game, fontFamily) : canvas;
+
         try {
             // 将画布转换为Buffer
-            return canvas.toBuffer('image/png');
+            return output.toBuffer('image/png');
         } catch (error) {
             this.logger?.error('创建图片缓冲区失败:', error);
             throw error;
         }
     }
 
+    /**
+     * 在棋盘上方绘制时钟栏，显示双方剩余时间，进行中时高亮当前行动方
+     * @returns 包含时钟栏的新画布
+     */
+    private static drawClockBar(board: Canvas, game: Game, fontFamily: string): Canvas {
+        const barHeight = 40;
+        const canvas = createCanvas(board.width, board.height + barHeight);
+        const ctx = canvas.getContext('2d');
+
+        ctx.fillStyle = this.BOARD_BORDER_COLOR;
+        ctx.fillRect(0, 0, canvas.width, barHeight);
+        ctx.drawImage(board, 0, barHeight);
+
+        const clock = game.clock!;
+        const now = Date.now();
+        const pillWidth = 170;
+        const pillHeight = 28;
+        const pillY = (barHeight - pillHeight) / 2 + 4;
+
+        ctx.font = `bold 15px ${fontFamily}`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+
+        for (const color of [PieceColor.RED, PieceColor.BLACK]) {
+            const isRed = color === PieceColor.RED;
+            const isActive = game.status === GameStatus.PLAYING && game.currentTurn === color;
+            const pillX = isRed ? this.BORDER_WIDTH : canvas.width - this.BORDER_WIDTH - pillWidth;
+
+            ctx.globalAlpha = isActive ? 1 : 0.7;
+            ctx.fillStyle = isActive ? this.INFO_PANEL_BG_START : this.BOARD_BG_COLOR;
+            this.roundRect(ctx, pillX, pillY, pillWidth, pillHeight, 14);
+            ctx.fill();
+
+            ctx.fillStyle = isRed ? this.RED_PIECE_COLOR : this.BLACK_PIECE_COLOR;
+            ctx.fillText(
+                `${isRed ? '红' : '黑'} ${clock.getSideText(color, game.currentTurn, now)}`,
+                pillX + pillWidth / 2,
+                pillY + pillHeight / 2
+            );
+        }
+        ctx.globalAlpha = 1;
+
+        return canvas;
+    }
+
     /**
      * 生成简单的文本表示的棋盘（兼容旧版本）
      * @param game 当前游戏实例
@@ -876,6 +927,9 @@ export class BoardRenderer {
         if (game.lastMove) {
             result += `上一步：${game.lastMove}<br>`;
         }
+        if (game.status === GameStatus.FINISHED) {
+            result += `<b>${game.getResultText()}</b><br>`;
+        }
         result += `</div>`;
 
         result += '</div>'; // 关闭最外层div
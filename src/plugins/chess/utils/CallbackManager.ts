@@ -13,11 +13,28 @@ export const AIDifficultyCB = new CallbackDataBuilder<{
 // 创建游戏控制回调构建器 (认输、和棋请求等)
 export const GameControlCB = new CallbackDataBuilder<{
     gameId: string;
-    action: string;   // 'resign', 'draw', 'review', 'help', 'commands', 'status', 'accept', 'decline', 'restart', 'start_ai_game', 'start_player_game'
+    action: string;   // 'resign', 'draw', 'help', 'commands', 'status', 'accept', 'decline', 'restart', 'start_ai_game', 'start_player_game'
     userId: number;   // 仅当操作需要用户身份验证时才检查此字段
 }>('chess', 'control', ['gameId', 'action', 'userId']);
 
 // 创建菜单回调构建器 (用于返回主菜单等操作)
 export const MenuCB = new CallbackDataBuilder<{
     action: string;  // 特殊操作类型，通常是0
-}>('chess', 'menu', ['action']); 
\ No newline at end of file
+}>('chess', 'menu', ['action']);
+
+// 创建复盘翻页回调构建器 - 任何人都可以点击
+export const ReviewCB = new CallbackDataBuilder<{
+    gameId: string;
+    ply: number;      // 要显示的步数，0为起始局面，-1表示已到头的按钮
+}>('chess', 'review', ['gameId', 'ply']);
+
+// 创建复盘动画回调构建器
+export const ReplayCB = new CallbackDataBuilder<{
+    gameId: string;
+}>('chess', 'replay', ['gameId']);
+
+// 创建悔棋确认回调构建器 - 对局ID和用户ID会超出回调数据的64字节限制，只放请求的短标识
+export const UndoCB = new CallbackDataBuilder<{
+    token: string;
+    action: string;   // 'accept', 'decline'
+}>('chess', 'undo', ['token', 'action']);
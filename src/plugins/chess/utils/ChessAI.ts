@@ -1,10 +1,13 @@
 import { Board } from '../models/Board';
 import { Piece } from '../models/Piece';
 import { PieceColor, PieceType } from '../models/ChessTypes';
-import type { Position } from '../models/ChessTypes';
+import type { ISearchResult, Position } from '../models/ChessTypes';
 import { MoveValidator } from './MoveValidator';
 import { Game } from '../models/Game';
 import { ZobristHash } from './ZobristHash';
+import { GameRecord } from './GameRecord';
+import { ChessEngine } from './ChessEngine';
+import type { OpeningBook } from './OpeningBook';
 
 // 置换表节点类型
 enum NodeType {
@@ -32,6 +35,12 @@ interface TimeControl {
     timeoutReached: boolean;// 是否达到时间限制
 }
 
+// 每搜索多少个节点检查一次时间
+const TIME_CHECK_INTERVAL = 100;
+
+// Worker 不可用时在主线程搜索的时间上限（毫秒）
+const FALLBACK_SEARCH_TIME = 2000;
+
 // 云库API地址
 const CLOUD_API_URL = 'http://www.chessdb.cn/chessdb.php';
 
@@ -73,6 +82,9 @@ export class ChessAI {
     private historyTable: number[][][][] = [];
     private killerMoves: Array<Array<{ from: Position, to: Position } | null>> = [];
     private logger: any;
+    private openingBook: OpeningBook | null;
+    // 是否已经记录过 Worker 不可用，所有实例共享，避免每步棋都记录一次
+    private static engineFailureLogged = false;
 
     /**
      * 创建象棋AI实例
@@ -80,8 +92,10 @@ export class ChessAI {
      * @param useCloudLibrary 是否使用云库API (仅对最高难度有效)
      * @param maxThinkingTime 最大思考时间（毫秒），默认1分钟
      * @param logger 日志记录器
+     * @param openingBook 开局库，局面在库中时直接使用库中的走法
      */
-    constructor(difficultyLevel: number = 3, useCloudLibrary: boolean = true, maxThinkingTime: number = 60000, logger?: any) {
+    constructor(difficultyLevel: number = 3, useCloudLibrary: boolean = true, maxThinkingTime: number = 60000, logger?: any,
+        openingBook: OpeningBook | null = null) {
         this.moveValidator = new MoveValidator();
         this.difficultyLevel = Math.min(Math.max(difficultyLevel, 3), 6);
         this.useCloudLibrary = useCloudLibrary && this.difficultyLevel >= 6; // 仅最高难度时使用云库
@@ -89,12 +103,13 @@ export class ChessAI {
         this.transpositionTable = new Array(this.TT_SIZE);
         this.maxThinkingTime = maxThinkingTime;
         this.logger = logger;
+        this.openingBook = openingBook;
 
         // 初始化时间控制
         this.timeControl = {
             startTime: 0,
             maxTime: this.maxThinkingTime,
-            checkInterval: 1000, // 每1000个节点检查一次时间
+            checkInterval: TIME_CHECK_INTERVAL,
             nodesSearched: 0,
             timeoutReached: false
         };
@@ -126,21 +141,27 @@ export class ChessAI {
 
     /**
      * 获取AI行动
+     * 本地搜索在引擎 Worker 中进行，不会阻塞主线程；Worker 出错时退回主线程做短时搜索
      * @param game 当前游戏实例
+     * @param signal 取消搜索，取消后抛出错误
      * @returns 移动的起始和目标位置
      */
-    async getMove(game: Game): Promise<{ from: Position, to: Position } | null> {
-        // 增加搜索年龄
-        this.searchAge++;
-
+    async getMove(game: Game, signal?: AbortSignal): Promise<{ from: Position, to: Position } | null> {
         const board = game.getBoardObject();
         const aiColor = PieceColor.BLACK; // AI总是使用黑方
 
+        // 优先使用本地开局库
+        const bookMove = this.openingBook?.pickMove(board, aiColor);
+        if (bookMove) {
+            this.logger?.info(`使用开局库走法: ${GameRecord.toICCS(bookMove.from, bookMove.to)}`);
+            return bookMove;
+        }
+
         // 困难难度且启用云库时，优先使用云库API
         if (this.useCloudLibrary && this.difficultyLevel >= 6) {
             try {
                 const cloudMove = await this.getCloudLibraryMove(game);
-                if (cloudMove) {
+                if (cloudMove && this.moveValidator.isLegalMove(board, cloudMove.from, cloudMove.to)) {
                     return cloudMove;
                 }
             } catch (error) {
@@ -149,11 +170,46 @@ export class ChessAI {
             }
         }
 
+        try {
+            const result = await ChessEngine.search({
+                fen: GameRecord.toFEN(board, aiColor),
+                difficulty: this.difficultyLevel,
+                maxTime: this.maxThinkingTime,
+                useStrategies: true
+            }, { signal });
+            ChessAI.engineFailureLogged = false;
+            return result.move;
+        } catch (error) {
+            if (signal?.aborted) {
+                throw error;
+            }
+            if (!ChessAI.engineFailureLogged) {
+                ChessAI.engineFailureLogged = true;
+                this.logger?.error(`引擎Worker不可用，AI将在主线程搜索，每步限时 ${FALLBACK_SEARCH_TIME / 1000} 秒`, error);
+            } else {
+                this.logger?.debug('引擎Worker搜索失败，改为在主线程搜索', error);
+            }
+            return this.search(board, aiColor, { maxTime: Math.min(this.maxThinkingTime, FALLBACK_SEARCH_TIME) }).move;
+        }
+    }
+
+    /**
+     * 在当前线程中同步搜索局面（引擎 Worker 使用）
+     * 超过时间预算后停止加深，返回最后一层完整搜索的结果
+     * @param board 局面
+     * @param color 行棋方
+     * @param options.maxTime 时间预算（毫秒），默认为创建实例时的最大思考时间
+     * @param options.useStrategies 是否优先使用开局/残局策略走法，分析局面时应关闭
+     */
+    search(board: Board, color: PieceColor, options: { maxTime?: number; useStrategies?: boolean } = {}): ISearchResult {
+        // 增加搜索年龄
+        this.searchAge++;
+
         // 重置时间控制
         this.timeControl = {
             startTime: Date.now(),
-            maxTime: this.maxThinkingTime,
-            checkInterval: 1000,
+            maxTime: options.maxTime ?? this.maxThinkingTime,
+            checkInterval: TIME_CHECK_INTERVAL,
             nodesSearched: 0,
             timeoutReached: false
         };
@@ -162,7 +218,7 @@ export class ChessAI {
         this.killerMoves = Array(50).fill(0).map(() => [null, null]);
 
         // 使用迭代深化搜索
-        return this.iterativeDeepeningSearch(board, aiColor);
+        return this.iterativeDeepeningSearch(board, color, options.useStrategies ?? true);
     }
 
     /**
@@ -224,156 +280,53 @@ export class ChessAI {
     /**
      * 将棋盘转换为FEN格式
      * FEN格式: rnbakabnr/9/1c5c1/p1p1p1p1p/9/9/P1P1P1P1P/1C5C1/9/RNBAKABNR w
+     * 云库中w代表红方，b代表黑方
      */
     private convertBoardToFEN(game: Game): string | null {
-        const board = game.getBoardObject();
-        let fen = '';
-
-        // 生成棋盘部分
-        for (let row = 0; row < Board.ROWS; row++) {
-            let emptyCount = 0;
-
-            for (let col = 0; col < Board.COLS; col++) {
-                const piece = board.getPiece([row, col]);
-
-                if (piece) {
-                    // 如果前面有空格，先加上空格数
-                    if (emptyCount > 0) {
-                        fen += emptyCount;
-                        emptyCount = 0;
-                    }
-
-                    // 添加棋子字符
-                    fen += this.getPieceFENChar(piece);
-                } else {
-                    emptyCount++;
-                }
-            }
-
-            // 处理每行末尾的空格
-            if (emptyCount > 0) {
-                fen += emptyCount;
-            }
-
-            // 除了最后一行，每行加上 '/'
-            if (row < Board.ROWS - 1) {
-                fen += '/';
-            }
-        }
-
-        // 添加当前行动方
-        // 云库中w代表红方，b代表黑方，与我们的实现相反
-        fen += game.currentTurn === PieceColor.RED ? ' w' : ' b';
-
-        return fen;
-    }
-
-    /**
-     * 获取棋子的FEN字符表示
-     */
-    private getPieceFENChar(piece: Piece): string {
-        let char = '';
-
-        // 根据棋子类型确定基本字符
-        switch (piece.type) {
-            case PieceType.GENERAL:
-                char = 'k'; // 将/帅
-                break;
-            case PieceType.ADVISOR:
-                char = 'a'; // 士/仕
-                break;
-            case PieceType.ELEPHANT:
-                char = 'b'; // 象/相
-                break;
-            case PieceType.HORSE:
-                char = 'n'; // 马
-                break;
-            case PieceType.CHARIOT:
-                char = 'r'; // 车
-                break;
-            case PieceType.CANNON:
-                char = 'c'; // 炮
-                break;
-            case PieceType.SOLDIER:
-                char = 'p'; // 兵/卒
-                break;
-            default:
-                return '.'; // 未知棋子
-        }
-
-        // 根据颜色确定大小写（红方大写，黑方小写）
-        // 注意：这里的逻辑需要与云库的FEN表示保持一致
-        return piece.color === PieceColor.RED ? char.toUpperCase() : char;
+        return GameRecord.toFEN(game.getBoardObject(), game.currentTurn);
     }
 
     /**
      * 将云库返回的着法转换为位置坐标
-     * @param moveText 着法文本，格式如 "h0g2"
+     * @param moveText 着法文本，ICCS格式，如 "h0g2"
      * @returns 起始和目标位置
      */
     private convertCloudMoveToPositions(moveText: string): { from: Position, to: Position } | null {
-        try {
-            if (moveText.length < 4) return null;
-
-            // 云库使用的是a0-i9格式，需要转换为我们的坐标系
-            // 横坐标：a-i 对应 0-8
-            // 纵坐标：0-9 (0在上方，9在下方)
-            const fromColChar = moveText.charAt(0);
-            const fromRowChar = moveText.charAt(1);
-            const toColChar = moveText.charAt(2);
-            const toRowChar = moveText.charAt(3);
-
-            // 列：a-i -> 0-8
-            const fromCol = fromColChar.charCodeAt(0) - 'a'.charCodeAt(0);
-            const toCol = toColChar.charCodeAt(0) - 'a'.charCodeAt(0);
-
-            // 行：0-9，但FEN表示中是下面为0
-            const fromRow = parseInt(fromRowChar);
-            if (isNaN(fromRow) || fromRow < 0 || fromRow > 9) {
-                this.logger?.error('无效的行坐标:', fromRowChar);
-                return null;
-            }
-
-            const toRow = parseInt(toRowChar);
-            if (isNaN(toRow) || toRow < 0 || toRow > 9) {
-                this.logger?.error('无效的行坐标:', toRowChar);
-                return null;
-            }
-
-            // 注意：云库使用FEN坐标系，上下颠倒，需要转换
-            // 使用数组形式创建Position
-            const from: Position = [9 - fromRow, fromCol]; // [row, col]
-            const to: Position = [9 - toRow, toCol]; // [row, col]
-
-            return { from, to };
-        } catch (e) {
-            this.logger?.error('解析着法时出错:', moveText, e);
-            return null;
+        const positions = GameRecord.parseICCS(moveText.slice(0, 4));
+        if (!positions) {
+            this.logger?.error('无效的云库着法坐标:', moveText);
         }
+        return positions;
     }
 
     /**
      * 迭代深化搜索
      * 从低深度逐渐增加搜索深度，确保在时间限制内返回最佳结果
      */
-    private iterativeDeepeningSearch(board: Board, aiColor: PieceColor): { from: Position, to: Position } | null {
-        const possibleMoves = this.getAllPossibleMoves(board, aiColor);
+    private iterativeDeepeningSearch(board: Board, aiColor: PieceColor, useStrategies: boolean): ISearchResult {
+        const result: ISearchResult = { move: null, score: 0, depth: 0, pv: [], nodes: 0, timedOut: false };
+
+        // 根节点只考虑不会让己方被将军的走法
+        const possibleMoves = this.moveValidator.getLegalMoves(board, aiColor);
 
         if (possibleMoves.length === 0) {
-            return null;
+            result.score = -10000;
+            return result;
         }
 
         // 先检查困难策略
-        const strategicMove = this.applyAdvancedStrategies(board, aiColor, possibleMoves);
+        const strategicMove = useStrategies ? this.applyAdvancedStrategies(board, aiColor, possibleMoves) : null;
         if (strategicMove) {
-            return strategicMove;
+            result.move = strategicMove;
+            result.pv = [strategicMove];
+            return result;
         }
 
         // 保存当前最佳走法
         let bestMove: { from: Position, to: Position } | null = null;
 
-        // 初始深度（确保至少有一个结果）
-        const initialDepth = Math.min(3, this.maxDepth);
+        // 从第1层开始加深，时间预算很短时也能得到完整搜索的结果
+        const initialDepth = 1;
 
         // 获取一个随机走法作为备选（避免时间用尽时没有走法可用）
         const randomIndex = Math.floor(Math.random() * possibleMoves.length);
@@ -389,11 +342,14 @@ export class ChessAI {
             }
 
             // 对根节点进行Alpha-Beta搜索
-            const result = this.rootAlphaBeta(board, depth, aiColor);
+            const rootResult = this.rootAlphaBeta(board, depth, aiColor);
 
             // 如果不是因为超时而返回的有效结果，更新最佳走法
-            if (result && !this.timeControl.timeoutReached) {
-                bestMove = result;
+            if (rootResult.move && !this.timeControl.timeoutReached) {
+                bestMove = rootResult.move;
+                result.score = rootResult.score;
+                result.depth = depth;
+                result.pv = this.extractPrincipalVariation(board, bestMove, aiColor, depth);
                 this.logger?.info(`深度${depth}搜索完成，找到最佳走法: ${JSON.stringify(bestMove.from)} -> ${JSON.stringify(bestMove.to)}`);
             } else if (this.timeControl.timeoutReached) {
                 // 超时了，使用上一层深度的结果
@@ -402,20 +358,58 @@ export class ChessAI {
             }
         }
 
-        return bestMove;
+        result.move = bestMove;
+        if (result.pv.length === 0 && bestMove) {
+            result.pv = [bestMove];
+        }
+        result.nodes = this.timeControl.nodesSearched;
+        result.timedOut = this.timeControl.timeoutReached;
+        return result;
+    }
+
+    /**
+     * 沿置换表中记录的最佳走法还原主要变例
+     * 置换表条目可能已被覆盖，每一步都重新校验合法性，遇到不合法或重复局面即停止
+     */
+    private extractPrincipalVariation(board: Board, firstMove: { from: Position, to: Position },
+        aiColor: PieceColor, maxLength: number): { from: Position, to: Position }[] {
+        const pv = [firstMove];
+        const current = board.clone();
+        current.movePiece(firstMove.from, firstMove.to);
+
+        const visited = new Set<bigint>();
+        let color = aiColor === PieceColor.RED ? PieceColor.BLACK : PieceColor.RED;
+
+        while (pv.length < maxLength) {
+            const hash = this.zobristHash.calculateHash(current);
+            if (visited.has(hash)) break;
+            visited.add(hash);
+
+            const move = this.probeTranspositionTable(hash)?.bestMove;
+            if (!move || current.getPiece(move.from)?.color !== color
+                || !this.moveValidator.isLegalMove(current, move.from, move.to)) {
+                break;
+            }
+
+            pv.push(move);
+            current.movePiece(move.from, move.to);
+            color = color === PieceColor.RED ? PieceColor.BLACK : PieceColor.RED;
+        }
+
+        return pv;
     }
 
     /**
      * 根节点Alpha-Beta搜索
-     * 针对根节点的特殊处理，返回最佳走法
+     * 针对根节点的特殊处理，返回最佳走法及其评分
      */
-    private rootAlphaBeta(board: Board, depth: number, aiColor: PieceColor): { from: Position, to: Position } | null {
+    private rootAlphaBeta(board: Board, depth: number, aiColor: PieceColor): { move: { from: Position, to: Position } | null, score: number } {
         let alpha = -Infinity;
         let beta = Infinity;
         let bestMove: { from: Position, to: Position } | null = null;
 
-        // 获取所有可能的走法
-        const moves = this.getAllPossibleMoves(board, aiColor);
+        // 获取所有合法走法
+        const moves = this.moveValidator.getLegalMoves(board, aiColor);
 
         // 对走法进行启发式排序
         this.sortMovesByHeuristic(moves, board, depth);
@@ -429,7 +423,7 @@ export class ChessAI {
         for (const move of movesToSearch) {
             // 检查是否超时
             if (this.timeControl.timeoutReached) {
-                return bestMove;
+                return { move: bestMove, score: alpha };
             }
 
             // 模拟走棋
@@ -446,7 +440,7 @@ export class ChessAI {
             }
         }
 
-        return bestMove;
+        return { move: bestMove, score: alpha };
     }
 
     /**
@@ -609,22 +603,7 @@ export class ChessAI {
      * 检查是否被将军
      */
     private isInCheck(board: Board, color: PieceColor): boolean {
-        // 找到将/帅
-        const generals = board.getPiecesByTypeAndColor(PieceType.GENERAL, color);
-        if (generals.length === 0 || !generals[0]) return false;
-
-        const generalPos = generals[0].position;
-        const opponentColor = color === PieceColor.RED ? PieceColor.BLACK : PieceColor.RED;
-
-        // 检查是否有对方棋子可以吃到将/帅
-        const opponentPieces = board.getPiecesByColor(opponentColor);
-        for (const piece of opponentPieces) {
-            if (this.moveValidator.isValidMove(board, piece.position, generalPos)) {
-                return true;
-            }
-        }
-
-        return false;
+        return this.moveValidator.isInCheck(board, color);
     }
 
     /**
@@ -0,0 +1,197 @@
+import type { ISearchResult } from '../models/ChessTypes';
+
+// 搜索请求
+export interface EngineRequest {
+    fen: string;           // 待搜索的局面，行棋方由FEN决定
+    difficulty: number;    // 难度等级，决定最大搜索深度
+    maxTime: number;       // 时间预算（毫秒）
+    useStrategies: boolean; // 是否使用开局/残局策略走法
+}
+
+// Worker 返回的消息
+export interface EngineResponse {
+    id: number;
+    result?: ISearchResult;
+    error?: string;
+}
+
+// 搜索选项
+export interface EngineSearchOptions {
+    signal?: AbortSignal;  // 取消搜索，取消后 Promise 以错误结束
+    background?: boolean;  // 后台搜索（局面分析），排在对局走棋之后，且不占用最后一个空闲 Worker
+}
+
+// 等待空闲 Worker 的搜索
+interface QueuedSearch {
+    request: EngineRequest;
+    options: EngineSearchOptions;
+    resolve: (result: ISearchResult) => void;
+    reject: (error: Error) => void;
+}
+
+// 超出时间预算多久仍未返回时强制终止 Worker（毫秒）
+const DEADLINE_GRACE = 3000;
+// 同时进行搜索的 Worker 数量，至少为 2，保证分析局面时对局仍然可以走棋
+const POOL_SIZE = Math.min(4, Math.max(2, (navigator.hardwareConcurrency ?? 2) - 1));
+// 编译后的二进制中 Worker 入口相对 src 目录的路径（build.js 以 src 为根目录嵌入）
+const EMBEDDED_WORKER_PATH = './plugins/chess/utils/EngineWorker.ts';
+// 编译后的二进制中嵌入文件所在的虚拟目录（Windows 下为 B:/~BUN/）
+const EMBEDDED_ROOT_PATTERN = /\/\$bunfs\/|\/~BUN\//;
+
+/**
+ * 象棋引擎 Worker 客户端
+ * 搜索在后台 Worker 池中执行，主线程只负责收发消息，一个聊天中的长时间搜索不会阻塞其他聊天的AI走棋；
+ * Worker 都在忙时搜索排队等待，对局走棋优先于局面分析。
+ * 搜索被取消或超出时间预算未返回时直接终止该 Worker，需要时重新创建
+ */
+export class ChessEngine {
+    private static idleWorkers: Worker[] = [];
+    private static busyCount = 0;
+    private static nextId = 0;
+    private static waiting: QueuedSearch[] = [];
+    // 正在执行的搜索，关闭引擎时需要通知
+    private static running = new Set<(error: Error) => void>();
+
+    /**
+     * 搜索局面
+     * @param request 搜索请求
+     * @param options 取消信号和优先级
+     */
+    static search(request: EngineRequest, options: EngineSearchOptions = {}): Promise<ISearchResult> {
+        return new Promise((resolve, reject) => {
+            if (options.signal?.aborted) {
+                reject(new Error('搜索已取消'));
+                return;
+            }
+
+            const queued: QueuedSearch = { request, options, resolve, reject };
+            // 对局走棋排在所有后台搜索之前
+            const index = options.background
+                ? this.waiting.length
+                : this.waiting.findIndex(item => item.options.background);
+            this.waiting.splice(index < 0 ? this.waiting.length : index, 0, queued);
+
+            // 排队期间取消时直接移出队列
+            options.signal?.addEventListener('abort', () => {
+                const position = this.waiting.indexOf(queued);
+                if (position >= 0) {
+                    this.waiting.splice(position, 1);
+                    reject(new Error('搜索已取消'));
+                }
+            }, { once: true });
+
+            this.dispatch();
+        });
+    }
+
+    /**
+     * 终止所有 Worker 并结束正在执行和排队中的搜索（插件卸载时调用）
+     */
+    static shutdown(): void {
+        const error = new Error('象棋引擎已关闭');
+        for (const queued of this.waiting.splice(0)) {
+            queued.reject(error);
+        }
+        for (const fail of [...this.running]) {
+            fail(error);
+        }
+        for (const worker of this.idleWorkers.splice(0)) {
+            worker.terminate();
+        }
+    }
+
+    /**
+     * 在有空闲名额时开始排队的搜索
+     */
+    private static dispatch(): void {
+        while (this.waiting.length > 0) {
+            const next = this.waiting[0]!;
+            // 后台搜索至少留出一个 Worker 给对局走棋
+            const limit = next.options.background ? POOL_SIZE - 1 : POOL_SIZE;
+            if (this.busyCount >= limit) return;
+
+            this.waiting.shift();
+            this.busyCount++;
+            this.run(next.request, next.options.signal)
+                .then(next.resolve, next.reject)
+                .finally(() => {
+                    this.busyCount--;
+                    this.dispatch();
+                });
+        }
+    }
+
+    private static run(request: EngineRequest, signal?: AbortSignal): Promise<ISearchResult> {
+        return new Promise((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(new Error('搜索已取消'));
+                return;
+            }
+
+            let worker: Worker;
+            try {
+                worker = this.idleWorkers.pop() ?? this.createWorker();
+            } catch (err) {
+                reject(err instanceof Error ? err : new Error(String(err)));
+                return;
+            }
+
+            const id = ++this.nextId;
+
+            const cleanup = () => {
+                clearTimeout(timer);
+                worker.removeEventListener('message', onMessage);
+                worker.removeEventListener('error', onError);
+                signal?.removeEventListener('abort', onAbort);
+                this.running.delete(fail);
+            };
+
+            // 搜索无法正常结束时终止 Worker，其中的搜索状态已不可用
+            const fail = (error: Error) => {
+                cleanup();
+                worker.terminate();
+                reject(error);
+            };
+
+            const onMessage = (event: MessageEvent<EngineResponse>) => {
+                if (event.data.id !== id) return;
+                cleanup();
+                this.idleWorkers.push(worker);
+                if (event.data.result) {
+                    resolve(event.data.result);
+                } else {
+                    reject(new Error(event.data.error || '引擎未返回结果'));
+                }
+            };
+            const onError = (event: ErrorEvent) => fail(new Error(`引擎Worker出错: ${event.message}`));
+            const onAbort = () => fail(new Error('搜索已取消'));
+
+            // 引擎在时间预算内会自行停止，超出宽限时间仍未返回说明已卡住
+            const timer = setTimeout(() => fail(new Error('引擎搜索超时')), request.maxTime + DEADLINE_GRACE);
+
+            worker.addEventListener('message', onMessage);
+            worker.addEventListener('error', onError);
+            signal?.addEventListener('abort', onAbort);
+            this.running.add(fail);
+
+            worker.postMessage({ id, ...request });
+        });
+    }
+
+    private static createWorker(): Worker {
+        const worker = new Worker(this.getWorkerUrl());
+        // 空闲的 Worker 不阻止进程退出
+        worker.unref();
+        return worker;
+    }
+
+    /**
+     * Worker 脚本的位置
+     * 编译后所有模块被打包进入口文件，import.meta.url 指向入口，需要按嵌入路径查找 Worker 入口
+     */
+    private static getWorkerUrl(): URL {
+        return EMBEDDED_ROOT_PATTERN.test(decodeURIComponent(import.meta.url))
+            ? new URL(EMBEDDED_WORKER_PATH, import.meta.url)
+            : new URL('./EngineWorker.ts', import.meta.url);
+    }
+}
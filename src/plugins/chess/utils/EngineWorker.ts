@@ -0,0 +1,25 @@
+import { ChessAI } from './ChessAI';
+import { GameRecord } from './GameRecord';
+import type { EngineRequest, EngineResponse } from './ChessEngine';
+
+/**
+ * 象棋引擎 Worker 入口
+ * 在独立线程中执行同步的迭代深化搜索，由 ChessEngine 负责创建、超时和取消
+ */
+declare const self: Worker;
+
+self.onmessage = (event: MessageEvent<EngineRequest & { id: number }>) => {
+    const { id, fen, difficulty, maxTime, useStrategies } = event.data;
+
+    let response: EngineResponse;
+    try {
+        const { board, turn } = GameRecord.parseFEN(fen);
+        const ai = new ChessAI(difficulty, false, maxTime);
+        response = { id, result: ai.search(board, turn, { maxTime, useStrategies }) };
+    } catch (err) {
+        const error = err instanceof Error ? err : new Error(String(err));
+        response = { id, error: error.message };
+    }
+
+    self.postMessage(response);
+};
@@ -0,0 +1,181 @@
+import { PieceColor, TimeControlType } from '../models/ChessTypes';
+import type { ISerializedClock, ITimeControl } from '../models/ChessTypes';
+
+/**
+ * 对局时钟
+ * 支持加秒制（每走一步加时）、包干制（用完即负）和读秒制（基本用时用完后每步限时）
+ * 只在走棋时结算用时，当前行动方的剩余时间按 turnStartedAt 实时计算
+ */
+export class GameClock {
+    // 各方剩余的基本用时（毫秒）
+    private remaining: Record<PieceColor, number>;
+    // 当前行动方开始计时的时间
+    private turnStartedAt: number;
+
+    constructor(readonly control: ITimeControl, now: number = Date.now()) {
+        this.remaining = {
+            [PieceColor.RED]: control.initial * 1000,
+            [PieceColor.BLACK]: control.initial * 1000
+        };
+        this.turnStartedAt = now;
+    }
+
+    /**
+     * 解析时限设置
+     * - 10+5：10分钟，每步加5秒（加秒制）
+     * - 15：15分钟包干
+     * - 5b30：5分钟基本用时，用完后每步30秒读秒；b30 表示每步30秒
+     * @returns 无法解析时返回 null
+     */
+    static parse(text: string): ITimeControl | null {
+        const spec = text.trim().toLowerCase();
+
+        let match = spec.match(/^(\d{1,3})\+(\d{1,3})$/);
+        if (match) {
+            const initial = Number(match[1]) * 60;
+            return initial > 0 ? { type: TimeControlType.FISCHER, initial, increment: Number(match[2]), byoyomi: 0 } : null;
+        }
+
+        match = spec.match(/^(\d{1,3})$/);
+        if (match) {
+            const initial = Number(match[1]) * 60;
+            return initial > 0 ? { type: TimeControlType.SUDDEN_DEATH, initial, increment: 0, byoyomi: 0 } : null;
+        }
+
+        match = spec.match(/^(\d{0,3})b(\d{1,3})$/);
+        if (match) {
+            const byoyomi = Number(match[2]);
+            return byoyomi > 0 ? { type: TimeControlType.BYOYOMI, initial: Number(match[1] || 0) * 60, increment: 0, byoyomi } : null;
+        }
+
+        return null;
+    }
+
+    /**
+     * 获取时限设置的文字描述
+     */
+    static describe(control: ITimeControl): string {
+        const minutes = Math.round(control.initial / 60);
+        switch (control.type) {
+            case TimeControlType.FISCHER:
+                return `${minutes}分钟 每步加${control.increment}秒`;
+            case TimeControlType.SUDDEN_DEATH:
+                return `${minutes}分钟包干`;
+            case TimeControlType.BYOYOMI:
+                return minutes > 0 ? `${minutes}分钟 读秒每步${control.byoyomi}秒` : `每步${control.byoyomi}秒`;
+        }
+    }
+
+    /**
+     * 格式化时长，例如 09:05
+     */
+    static formatDuration(ms: number): string {
+        const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+        const minutes = Math.floor(totalSeconds / 60);
+        const seconds = totalSeconds % 60;
+        return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+    }
+
+    /**
+     * 获取剩余的基本用时
+     * @param color 一方颜色
+     * @param turn 当前行动方，该方的剩余时间会扣除本步已用时间
+     */
+    getRemaining(color: PieceColor, turn: PieceColor, now: number = Date.now()): number {
+        const elapsed = color === turn ? now - this.turnStartedAt : 0;
+        return Math.max(0, this.remaining[color] - elapsed);
+    }
+
+    /**
+     * 是否已进入读秒
+     */
+    isInByoyomi(color: PieceColor, turn: PieceColor, now: number = Date.now()): boolean {
+        return this.control.type === TimeControlType.BYOYOMI && this.getRemaining(color, turn, now) === 0;
+    }
+
+    /**
+     * 获取当前行动方超时的时间点
+     */
+    getDeadline(turn: PieceColor): number {
+        return this.turnStartedAt + this.remaining[turn] + this.control.byoyomi * 1000;
+    }
+
+    /**
+     * 当前行动方是否已超时
+     */
+    isFlagged(turn: PieceColor, now: number = Date.now()): boolean {
+        return now > this.getDeadline(turn);
+    }
+
+    /**
+     * 走完一步后结算用时，并开始为对方计时
+     * @param color 走棋方
+     * @returns 走棋方是否在时限内完成
+     */
+    punch(color: PieceColor, now: number = Date.now()): boolean {
+        if (this.isFlagged(color, now)) {
+            return false;
+        }
+
+        const elapsed = now - this.turnStartedAt;
+        // 读秒制超出基本用时的部分由读秒承担，基本用时归零
+        this.remaining[color] = Math.max(0, this.remaining[color] - elapsed) + this.control.increment * 1000;
+        this.turnStartedAt = now;
+        return true;
+    }
+
+    /**
+     * 重新开始为当前行动方计时（悔棋后使用），已用时间不退还
+     */
+    restartTurn(color: PieceColor, now: number = Date.now()): void {
+        this.remaining[color] = this.getRemaining(color, color, now);
+        this.turnStartedAt = now;
+    }
+
+    /**
+     * 从当前时间重新开始本步计时，本步已用时间不计入（重启恢复对局时使用）
+     */
+    resume(now: number = Date.now()): void {
+        this.turnStartedAt = now;
+    }
+
+    /**
+     * 获取时钟的文字描述，例如 "红 09:45 | 黑 读秒 00:30"
+     */
+    getText(turn: PieceColor, now: number = Date.now()): string {
+        return [PieceColor.RED, PieceColor.BLACK]
+            .map(color => `${color === PieceColor.RED ? '红' : '黑'} ${this.getSideText(color, turn, now)}`)
+            .join(' | ');
+    }
+
+    /**
+     * 获取一方剩余时间的文字描述
+     */
+    getSideText(color: PieceColor, turn: PieceColor, now: number = Date.now()): string {
+        if (this.isInByoyomi(color, turn, now)) {
+            const periodLeft = color === turn ? this.getDeadline(turn) - now : this.control.byoyomi * 1000;
+            return `读秒 ${GameClock.formatDuration(periodLeft)}`;
+        }
+        return GameClock.formatDuration(this.getRemaining(color, turn, now));
+    }
+
+    /**
+     * 序列化时钟状态
+     */
+    toJSON(): ISerializedClock {
+        return {
+            control: this.control,
+            remaining: { ...this.remaining },
+            turnStartedAt: this.turnStartedAt
+        };
+    }
+
+    /**
+     * 从序列化数据恢复时钟
+     */
+    static fromJSON(data: ISerializedClock): GameClock {
+        const clock = new GameClock(data.control, data.turnStartedAt);
+        clock.remaining = { ...data.remaining };
+        return clock;
+    }
+}
@@ -1,7 +1,12 @@
 import { Game } from '../models/Game';
-import { PieceColor } from '../models/ChessTypes';
-import type { IInvite } from '../models/ChessTypes';
-import { GameStatus } from '../models/ChessTypes';
+import { GameEndReason, GameStatus, PieceColor } from '../models/ChessTypes';
+import type { IInvite, ITimeControl } from '../models/ChessTypes';
+import type { GameStore } from './GameStore';
+import type { RatingStore } from './RatingStore';
+import { GameClock } from './GameClock';
+
+// 最多保留的归档对局数量
+const MAX_ARCHIVED_GAMES = 50;
 
 /**
  * 游戏管理器，负责管理所有游戏和邀请
@@ -16,9 +21,18 @@ export class GameManager {
     // 等待中的邀请
     private pendingInvites: Map<number, IInvite> = new Map();
 
+    // 已结束或导入的对局，按归档顺序排列，用于导出棋谱和复盘
+    private archivedGames: Map<string, Game> = new Map();
+
     // 锁定状态，避免并发问题
     private operationLock: boolean = false;
 
+    // 持久化存储，未设置时只保存在内存中
+    private store: GameStore | null = null;
+
+    // 等级分记录，未设置时结束的对局不计分
+    private ratings: RatingStore | null = null;
+
     // 私有构造函数，确保只能通过 getInstance 创建实例
     private constructor() { }
 
@@ -32,6 +46,90 @@ export class GameManager {
         return GameManager.instance;
     }
 
+    /**
+     * 设置持久化存储并恢复保存的对局和邀请
+     * 已在内存中的对局不会被覆盖，无法重放的对局会被丢弃
+     * @param store 对局存储
+     * @param logger 日志记录器
+     * @returns 新恢复的对局列表
+     */
+    async attachStore(store: GameStore, logger?: any): Promise<Game[]> {
+        const data = await store.load();
+        const restored: Game[] = [];
+
+        for (const saved of data.games) {
+            if (this.activeGames.has(saved.id)) continue;
+
+            try {
+                const game = Game.fromJSON(saved);
+                if (game.status !== GameStatus.PLAYING) continue;
+
+                // 停机期间不计时
+                game.clock?.resume();
+                this.activeGames.set(game.id, game);
+                restored.push(game);
+            } catch (error) {
+                logger?.warn(`恢复象棋对局 ${saved.id} 失败:`, error);
+            }
+        }
+
+        for (const saved of data.archived) {
+            if (this.archivedGames.has(saved.id)) continue;
+
+            try {
+                this.archivedGames.set(saved.id, Game.fromJSON(saved));
+            } catch (error) {
+                logger?.warn(`恢复归档的象棋对局 ${saved.id} 失败:`, error);
+            }
+        }
+
+        const now = Date.now();
+        for (const { targetUserId, invite } of data.invites) {
+            if (invite.expires > now && !this.pendingInvites.has(targetUserId)) {
+                this.pendingInvites.set(targetUserId, invite);
+            }
+        }
+
+        this.store = store;
+
+        // 丢弃无法恢复的数据
+        await this.persist();
+        return restored;
+    }
+
+    /**
+     * 设置等级分记录，之后结束的对局会更新双方等级分
+     */
+    attachRatings(ratings: RatingStore): void {
+        this.ratings = ratings;
+    }
+
+    /**
+     * 断开持久化存储和等级分记录，并等待已开始的写入完成
+     */
+    async detachStore(): Promise<void> {
+        const store = this.store;
+        const ratings = this.ratings;
+        this.store = null;
+        this.ratings = null;
+        await Promise.all([store?.flush(), ratings?.flush()]);
+    }
+
+    /**
+     * 将所有进行中的对局、未过期的邀请和归档对局写入存储
+     * 对局状态（走棋、棋盘消息等）变化后调用
+     */
+    async persist(): Promise<void> {
+        if (!this.store) return;
+
+        await this.store.save({
+            games: this.getAllActiveGames().map(game => game.toJSON()),
+            invites: Array.from(this.pendingInvites.entries())
+                .map(([targetUserId, invite]) => ({ targetUserId, invite })),
+            archived: Array.from(this.archivedGames.values()).map(game => game.toJSON())
+        });
+    }
+
     /**
      * 获取锁，避免并发操作冲突
      * @returns 是否成功获取锁
@@ -54,9 +152,17 @@ export class GameManager {
     /**
      * 创建新游戏
      * 在创建游戏前检查双方是否已经在其他游戏中
+     * @param options.startFen 起始局面，为空时从标准开局开始
+     * @param options.timeControl 时限，为空时不计时
      * @returns 如果任一玩家已在游戏中，返回null；否则返回新游戏实例
+     * @throws 起始局面无效时抛出错误
      */
-    createGame(redPlayer: number, blackPlayer: number | 'AI', chatId: number): Game | null {
+    createGame(
+        redPlayer: number,
+        blackPlayer: number | 'AI',
+        chatId: number,
+        options: { startFen?: string; timeControl?: ITimeControl } = {}
+    ): Game | null {
         // 尝试获取锁
         if (!this.acquireLock()) {
             return null; // 无法获取锁，放弃操作
@@ -74,8 +180,14 @@ export class GameManager {
             }
 
             // 如果两者都不在游戏中，创建新游戏
-            const game = new Game(redPlayer, blackPlayer, chatId);
+            const game = options.startFen
+                ? Game.fromFEN(options.startFen, redPlayer, blackPlayer, chatId)
+                : new Game(redPlayer, blackPlayer, chatId);
+            if (options.timeControl) {
+                game.clock = new GameClock(options.timeControl);
+            }
             this.activeGames.set(game.id, game);
+            void this.persist();
             return game;
         } finally {
             // 确保锁一定会被释放
@@ -153,6 +265,8 @@ export class GameManager {
 
             // 从活跃游戏列表中移除
             this.activeGames.delete(gameId);
+            this.archiveGame(game);
+            this.ratings?.recordGame(game);
             return true;
         } finally {
             // 确保锁一定会被释放
@@ -160,17 +274,57 @@ export class GameManager {
         }
     }
 
+    /**
+     * 归档对局，超出数量上限时丢弃最早的对局
+     */
+    archiveGame(game: Game): void {
+        // 重新插入，保证按归档顺序排列
+        this.archivedGames.delete(game.id);
+        this.archivedGames.set(game.id, game);
+
+        for (const gameId of this.archivedGames.keys()) {
+            if (this.archivedGames.size <= MAX_ARCHIVED_GAMES) break;
+            this.archivedGames.delete(gameId);
+        }
+
+        void this.persist();
+    }
+
+    /**
+     * 根据ID获取进行中或已归档的对局
+     */
+    findGame(gameId: string): Game | undefined {
+        return this.activeGames.get(gameId) ?? this.archivedGames.get(gameId);
+    }
+
+    /**
+     * 获取玩家正在进行的游戏，没有时返回最近归档的一局
+     */
+    getPlayerLatestGame(playerId: number): Game | undefined {
+        const activeGame = this.getPlayerActiveGame(playerId);
+        if (activeGame) {
+            return activeGame;
+        }
+
+        const archived = Array.from(this.archivedGames.values()).reverse();
+        return archived.find(game => game.redPlayer === playerId || game.blackPlayer === playerId);
+    }
+
     /**
      * 添加邀请
+     * @param options.startFen 从指定局面开始时的FEN
+     * @param options.timeControl 发起方选择的时限
      */
-    addInvite(targetUserId: number, inviterId: number): string {
+    addInvite(targetUserId: number, inviterId: number, options: Pick<IInvite, 'startFen' | 'timeControl'> = {}): string {
         const gameId = `invite_${Date.now()}_${Math.floor(Math.random() * 1000)}`;
 
         this.pendingInvites.set(targetUserId, {
             inviter: inviterId,
             gameId,
-            expires: Date.now() + 5 * 60 * 1000 // 5分钟有效期
+            expires: Date.now() + 5 * 60 * 1000, // 5分钟有效期
+            ...options
         });
+        void this.persist();
 
         return gameId;
     }
@@ -194,7 +348,11 @@ export class GameManager {
      * 移除邀请
      */
     removeInvite(userId: number): boolean {
-        return this.pendingInvites.delete(userId);
+        const removed = this.pendingInvites.delete(userId);
+        if (removed) {
+            void this.persist();
+        }
+        return removed;
     }
 
     /**
@@ -251,10 +409,20 @@ export class GameManager {
                 game.status = GameStatus.FINISHED;
                 // 根据当前回合确定获胜方（超时方判负）
                 game.winner = game.currentTurn === PieceColor.RED ? PieceColor.BLACK : PieceColor.RED;
+                game.endReason = GameEndReason.TIMEOUT;
                 timeoutGames.push(game);
             }
         }
 
         return timeoutGames;
     }
-} 
\ No newline at end of file
+
+    /**
+     * 检查计时对局是否有一方超时
+     * @returns 超时并已判负的对局列表（尚未从活跃列表中移除）
+     */
+    checkClockFlags(): Game[] {
+        const now = Date.now();
+        return Array.from(this.activeGames.values()).filter(game => game.checkFlag(now));
+    }
+}
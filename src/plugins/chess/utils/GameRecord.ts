@@ -0,0 +1,424 @@
+import { Board } from '../models/Board';
+import { Piece } from '../models/Piece';
+import { GameEndReason, GameStatus, PieceColor, PieceType } from '../models/ChessTypes';
+import type { IGameResult, Position } from '../models/ChessTypes';
+import type { Game } from '../models/Game';
+import { MoveValidator } from './MoveValidator';
+
+// 标准开局局面
+export const START_FEN = 'rnbakabnr/9/1c5c1/p1p1p1p1p/9/9/P1P1P1P1P/1C5C1/9/RNBAKABNR w - - 0 1';
+
+// 棋谱中的走法格式
+export type RecordFormat = 'iccs' | 'wxf';
+
+// 解析后的棋谱
+export interface ParsedRecord {
+    headers: Record<string, string>; // 头信息，例如 Red、Black、Date、Result
+    fen?: string; // 起始局面，标准开局时为空
+    moves: string[]; // 按顺序的走法文本（ICCS、WXF 或中文记谱）
+}
+
+// 导出棋谱时的选项
+export interface ExportOptions {
+    red: string; // 红方名称
+    black: string; // 黑方名称
+    format?: RecordFormat; // 走法格式，默认 ICCS
+    event?: string; // 赛事名称
+}
+
+// FEN 字符到棋子类型，兼容 e/h 这类别名
+const FEN_TO_TYPE: Record<string, PieceType> = {
+    k: PieceType.GENERAL,
+    a: PieceType.ADVISOR,
+    b: PieceType.ELEPHANT,
+    e: PieceType.ELEPHANT,
+    n: PieceType.HORSE,
+    h: PieceType.HORSE,
+    r: PieceType.CHARIOT,
+    c: PieceType.CANNON,
+    p: PieceType.SOLDIER
+};
+
+// 棋子类型到 FEN / WXF 字符（大写）
+const TYPE_TO_CHAR: Record<PieceType, string> = {
+    [PieceType.GENERAL]: 'K',
+    [PieceType.ADVISOR]: 'A',
+    [PieceType.ELEPHANT]: 'B',
+    [PieceType.HORSE]: 'N',
+    [PieceType.CHARIOT]: 'R',
+    [PieceType.CANNON]: 'C',
+    [PieceType.SOLDIER]: 'P'
+};
+
+// 每方各类棋子的最大数量
+const PIECE_LIMITS: Record<PieceType, number> = {
+    [PieceType.GENERAL]: 1,
+    [PieceType.ADVISOR]: 2,
+    [PieceType.ELEPHANT]: 2,
+    [PieceType.HORSE]: 2,
+    [PieceType.CHARIOT]: 2,
+    [PieceType.CANNON]: 2,
+    [PieceType.SOLDIER]: 5
+};
+
+// 棋谱结果标记
+const RESULT_RED_WIN = '1-0';
+const RESULT_BLACK_WIN = '0-1';
+const RESULT_DRAW = '1/2-1/2';
+const RESULT_UNFINISHED = '*';
+
+/**
+ * 棋谱工具
+ * 负责 FEN 局面的导入导出，以及 ICCS / WXF 格式的 PGN 棋谱生成和解析
+ *
+ * 坐标约定：
+ * - 棋盘内部的第0列是红方的一路（红方右侧），与标准 FEN / ICCS 左右相反，导入导出时需要翻转
+ * - ICCS：列 a-i 从红方左侧起，行 0-9 从红方底线起，例如 H2-E2
+ * - WXF：路数从各自右侧起，例如 C2.5（炮二平五）、N8+7（马8进7）
+ */
+export class GameRecord {
+    private static moveValidator = new MoveValidator();
+
+    /**
+     * 将棋盘转换为 FEN
+     * @param board 棋盘
+     * @param turn 行动方
+     * @param counters 未吃子步数和回合数，为空时只输出局面和行动方（云库查询使用）
+     */
+    static toFEN(board: Board, turn: PieceColor, counters?: { halfmove: number, fullmove: number }): string {
+        const rows: string[] = [];
+
+        for (let row = 0; row < Board.ROWS; row++) {
+            let text = '';
+            let emptyCount = 0;
+
+            for (let col = Board.COLS - 1; col >= 0; col--) {
+                const piece = board.getPiece([row, col]);
+                if (!piece) {
+                    emptyCount++;
+                    continue;
+                }
+
+                if (emptyCount > 0) {
+                    text += emptyCount;
+                    emptyCount = 0;
+                }
+
+                // 红方大写，黑方小写
+                const char = TYPE_TO_CHAR[piece.type];
+                text += piece.color === PieceColor.RED ? char : char.toLowerCase();
+            }
+
+            if (emptyCount > 0) {
+                text += emptyCount;
+            }
+            rows.push(text);
+        }
+
+        let fen = `${rows.join('/')} ${turn === PieceColor.RED ? 'w' : 'b'}`;
+        if (counters) {
+            fen += ` - - ${counters.halfmove} ${counters.fullmove}`;
+        }
+        return fen;
+    }
+
+    /**
+     * 解析 FEN
+     * 会检查棋子数量和位置是否符合规则（将帅在九宫内、士象在各自的点位上、兵卒不能后退）
+     * @throws FEN 无效时抛出错误
+     */
+    static parseFEN(fen: string): { board: Board, turn: PieceColor, halfmove: number } {
+        const [placement, turnText = 'w', , , halfmoveText] = fen.trim().split(/\s+/);
+        if (!placement) {
+            throw new Error('FEN 不能为空');
+        }
+
+        const rows = placement.split('/');
+        if (rows.length !== Board.ROWS) {
+            throw new Error(`FEN 应有 ${Board.ROWS} 行，实际为 ${rows.length} 行`);
+        }
+
+        const board = new Board();
+        const counts = new Map<string, number>();
+
+        for (const [row, rowText] of rows.entries()) {
+            let col = 0;
+
+            for (const char of rowText) {
+                if (/[1-9]/.test(char)) {
+                    col += Number(char);
+                    continue;
+                }
+
+                const type = FEN_TO_TYPE[char.toLowerCase()];
+                if (!type) {
+                    throw new Error(`FEN 中包含无效字符: ${char}`);
+                }
+                if (col >= Board.COLS) {
+                    throw new Error(`FEN 第 ${row + 1} 行超过 ${Board.COLS} 列`);
+                }
+
+                const color = char === char.toUpperCase() ? PieceColor.RED : PieceColor.BLACK;
+                const position: Position = [row, Board.COLS - 1 - col];
+                // 位置检查左右对称，不受翻转影响
+                if (!GameRecord.isValidPlacement(type, color, position)) {
+                    throw new Error(`FEN 第 ${row + 1} 行第 ${col + 1} 列的 ${char} 位置不合法`);
+                }
+
+                const key = `${color}:${type}`;
+                const count = (counts.get(key) ?? 0) + 1;
+                if (count > PIECE_LIMITS[type]) {
+                    throw new Error(`FEN 中 ${char} 的数量超过 ${PIECE_LIMITS[type]} 个`);
+                }
+                counts.set(key, count);
+
+                board.placePiece(new Piece(type, color, position));
+                col++;
+            }
+
+            if (col !== Board.COLS) {
+                throw new Error(`FEN 第 ${row + 1} 行应有 ${Board.COLS} 列，实际为 ${col} 列`);
+            }
+        }
+
+        for (const color of [PieceColor.RED, PieceColor.BLACK]) {
+            if (!counts.get(`${color}:${PieceType.GENERAL}`)) {
+                throw new Error(`FEN 中缺少${color === PieceColor.RED ? '红帅' : '黑将'}`);
+            }
+        }
+
+        let turn: PieceColor;
+        if (turnText === 'w' || turnText === 'r') {
+            turn = PieceColor.RED;
+        } else if (turnText === 'b') {
+            turn = PieceColor.BLACK;
+        } else {
+            throw new Error(`无效的行动方: ${turnText}，应为 w（红方）或 b（黑方）`);
+        }
+
+        const halfmove = Number(halfmoveText);
+        return { board, turn, halfmove: Number.isInteger(halfmove) && halfmove > 0 ? halfmove : 0 };
+    }
+
+    /**
+     * 检查棋子能否出现在指定位置
+     */
+    private static isValidPlacement(type: PieceType, color: PieceColor, [row, col]: Position): boolean {
+        // 以红方视角计算，黑方上下翻转
+        const r = color === PieceColor.RED ? row : Board.ROWS - 1 - row;
+
+        switch (type) {
+            case PieceType.GENERAL:
+                return r >= 7 && col >= 3 && col <= 5;
+            case PieceType.ADVISOR:
+                return (r === 8 && col === 4) || ((r === 7 || r === 9) && (col === 3 || col === 5));
+            case PieceType.ELEPHANT:
+                return ((r === 5 || r === 9) && (col === 2 || col === 6)) ||
+                    (r === 7 && (col === 0 || col === 4 || col === 8));
+            case PieceType.SOLDIER:
+                // 未过河的兵只能在原来的路上
+                return r <= 4 || ((r === 5 || r === 6) && col % 2 === 0);
+            default:
+                return true;
+        }
+    }
+
+    /**
+     * 生成 ICCS 走法，例如 H2-E2
+     */
+    static toICCS(from: Position, to: Position): string {
+        const square = ([row, col]: Position) => `${String.fromCharCode(65 + Board.COLS - 1 - col)}${Board.ROWS - 1 - row}`;
+        return `${square(from)}-${square(to)}`;
+    }
+
+    /**
+     * 解析 ICCS 走法，兼容小写和省略连字符的写法（h2e2）
+     * @returns 无法解析时返回 null
+     */
+    static parseICCS(text: string): { from: Position, to: Position } | null {
+        const match = text.trim().toLowerCase().match(/^([a-i])(\d)-?([a-i])(\d)$/);
+        if (!match) {
+            return null;
+        }
+
+        const [, fromCol, fromRank, toCol, toRank] = match;
+        return {
+            from: [Board.ROWS - 1 - Number(fromRank), Board.COLS - 1 - (fromCol!.charCodeAt(0) - 97)],
+            to: [Board.ROWS - 1 - Number(toRank), Board.COLS - 1 - (toCol!.charCodeAt(0) - 97)]
+        };
+    }
+
+    /**
+     * 生成 WXF 走法
+     * 同一路上有两个同类棋子时，用 +（前）和 -（后）代替路数，例如 C+.5
+     * @param board 走子前的棋盘
+     */
+    static toWXF(board: Board, from: Position, to: Position): string {
+        const piece = board.getPiece(from);
+        if (!piece) {
+            return '';
+        }
+
+        const isRed = piece.color === PieceColor.RED;
+        const fileOf = (col: number) => isRed ? col + 1 : Board.COLS - col;
+        // 向前的行数（正数为进，负数为退）
+        const forward = isRed ? from[0] - to[0] : to[0] - from[0];
+
+        // 同一路上的同类棋子，按从前到后排序
+        const tandem = board.getPiecesByTypeAndColor(piece.type, piece.color)
+            .filter(other => other.position[1] === from[1])
+            .sort((a, b) => isRed ? a.position[0] - b.position[0] : b.position[0] - a.position[0]);
+
+        let file = String(fileOf(from[1]));
+        if (tandem.length > 1) {
+            const index = tandem.findIndex(other => other.position[0] === from[0]);
+            if (index === 0) {
+                file = '+';
+            } else if (index === tandem.length - 1) {
+                file = '-';
+            }
+        }
+
+        let action: string;
+        let target: number;
+        if (forward === 0) {
+            action = '.';
+            target = fileOf(to[1]);
+        } else {
+            action = forward > 0 ? '+' : '-';
+            // 马、象、士斜走，记录到达的路数；其余棋子直走，记录步数
+            const diagonal = [PieceType.HORSE, PieceType.ELEPHANT, PieceType.ADVISOR].includes(piece.type);
+            target = diagonal ? fileOf(to[1]) : Math.abs(forward);
+        }
+
+        return `${TYPE_TO_CHAR[piece.type]}${file}${action}${target}`;
+    }
+
+    /**
+     * 根据 WXF 走法在当前局面中查找对应的走法
+     * 兼容 E/H 代表象/马，以及 +C.5 这种把前后标记写在前面的写法
+     * @returns 找不到或无法确定唯一走法时返回 null
+     */
+    static findWXFMove(board: Board, turn: PieceColor, text: string): { from: Position, to: Position } | null {
+        let wxf = text.trim().toUpperCase().replace(/^([+-])([A-Z])/, '$2$1');
+        wxf = wxf.replace(/^E/, 'B').replace(/^H/, 'N');
+        if (!/^[KABNRCP][1-9+-][+.-][1-9]$/.test(wxf)) {
+            return null;
+        }
+
+        const matches: { from: Position, to: Position }[] = [];
+        for (const piece of board.getPiecesByColor(turn)) {
+            if (TYPE_TO_CHAR[piece.type] !== wxf[0]) continue;
+
+            for (let row = 0; row < Board.ROWS; row++) {
+                for (let col = 0; col < Board.COLS; col++) {
+                    const to: Position = [row, col];
+                    if (GameRecord.moveValidator.isValidMove(board, piece.position, to) &&
+                        GameRecord.toWXF(board, piece.position, to) === wxf) {
+                        matches.push({ from: [...piece.position], to });
+                    }
+                }
+            }
+        }
+
+        return matches.length === 1 ? matches[0]! : null;
+    }
+
+    /**
+     * 获取对局的结果标记
+     */
+    static getResultTag(game: Game): IGameResult['result'] | '*' {
+        if (game.status !== GameStatus.FINISHED) {
+            return RESULT_UNFINISHED;
+        }
+        if (!game.winner) {
+            return RESULT_DRAW;
+        }
+        return game.winner === PieceColor.RED ? RESULT_RED_WIN : RESULT_BLACK_WIN;
+    }
+
+    /**
+     * 导出 PGN 棋谱
+     * 从起始局面重放走法栈，按指定格式输出每一步
+     */
+    static exportRecord(game: Game, options: ExportOptions): string {
+        const format = options.format ?? 'iccs';
+        const start = GameRecord.parseFEN(game.startFen ?? START_FEN);
+        const board = start.board;
+        const date = new Date(game.startTime);
+        const pad = (value: number) => String(value).padStart(2, '0');
+
+        const headers: Record<string, string> = {
+            Game: 'Chinese Chess',
+            Event: options.event ?? '',
+            Date: `${date.getFullYear()}.${pad(date.getMonth() + 1)}.${pad(date.getDate())}`,
+            Red: options.red,
+            Black: options.black,
+            Result: GameRecord.getResultTag(game),
+            Format: format.toUpperCase()
+        };
+        if (game.startFen) {
+            headers.FEN = game.startFen;
+        }
+        if (game.endReason) {
+            headers.Termination = game.endReason;
+        }
+
+        const lines = Object.entries(headers).map(([key, value]) => `[${key} "${value.replace(/"/g, '\'')}"]`);
+        lines.push('');
+
+        // 黑方先行的局面，第一回合红方位置用 ... 占位
+        let round = 1;
+        let line = start.turn === PieceColor.BLACK ? `${round}. ...` : '';
+        for (const record of game.moveStack) {
+            const text = format === 'wxf'
+                ? GameRecord.toWXF(board, record.from, record.to)
+                : GameRecord.toICCS(record.from, record.to);
+            board.movePiece(record.from, record.to);
+
+            if (record.piece.color === PieceColor.RED) {
+                line = `${round}. ${text}`;
+            } else {
+                lines.push(line ? `${line} ${text}` : `${round}. ... ${text}`);
+                line = '';
+                round++;
+            }
+        }
+        if (line) {
+            lines.push(line);
+        }
+
+        lines.push(headers.Result!);
+        return lines.join('\n');
+    }
+
+    /**
+     * 解析 PGN 棋谱
+     * 支持头信息、回合编号、注释（{...} 和 ;）以及 ICCS、WXF、中文记谱的走法
+     * 也可以直接传入不带头信息的走法列表
+     */
+    static parseRecord(text: string): ParsedRecord {
+        const headers: Record<string, string> = {};
+        const body = text
+            .replace(/^\s*\[(\w+)\s+"([^"]*)"\]\s*$/gm, (_, key: string, value: string) => {
+                headers[key] = value;
+                return '';
+            })
+            .replace(/\{[^}]*\}/g, ' ')
+            .replace(/;.*$/gm, ' ');
+
+        const moves = body
+            .split(/\s+/)
+            .map(token => token.replace(/^\d+\.+/, ''))
+            .filter(token => token && !/^(\.+|1-0|0-1|1\/2-1\/2|\*)$/.test(token));
+
+        return { headers, fen: headers.FEN || undefined, moves };
+    }
+
+    /**
+     * 解析 Termination 头信息中的结束原因，用于导入时还原无法通过重放得出的结果（例如认输）
+     */
+    static parseEndReason(value?: string): GameEndReason | undefined {
+        return Object.values(GameEndReason).find(reason => reason === value);
+    }
+}
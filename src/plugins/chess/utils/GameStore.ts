@@ -0,0 +1,58 @@
+import type { Features } from '../../../features';
+import { ConfigStore } from '../../../utils/ConfigStore';
+import type { IInvite, ISerializedGame } from '../models/ChessTypes';
+
+// 持久化文件内容
+export interface ChessStoreData {
+    games: ISerializedGame[];
+    invites: { targetUserId: number; invite: IInvite }[];
+    archived: ISerializedGame[]; // 已结束或导入的对局，用于复盘
+}
+
+/**
+ * 象棋对局存储
+ * 将对局和邀请保存到配置目录下的 chess-games.json
+ */
+export class GameStore {
+    static readonly CONFIG_NAME = 'chess-games';
+
+    private readonly store: ConfigStore;
+
+    constructor(features: Features, private readonly logger?: any) {
+        this.store = new ConfigStore(features);
+    }
+
+    /**
+     * 读取保存的对局和邀请
+     */
+    async load(): Promise<ChessStoreData> {
+        const data = await this.store.load<ChessStoreData>(GameStore.CONFIG_NAME, {
+            games: [],
+            invites: [],
+            archived: []
+        });
+
+        return {
+            games: Array.isArray(data.games) ? data.games : [],
+            invites: Array.isArray(data.invites) ? data.invites : [],
+            archived: Array.isArray(data.archived) ? data.archived : []
+        };
+    }
+
+    /**
+     * 保存对局和邀请
+     * @param data 要保存的数据
+     */
+    async save(data: ChessStoreData): Promise<void> {
+        if (!await this.store.save(GameStore.CONFIG_NAME, data)) {
+            this.logger?.warn('保存象棋对局失败');
+        }
+    }
+
+    /**
+     * 等待所有写入完成
+     */
+    flush(): Promise<void> {
+        return this.store.flush();
+    }
+}
@@ -1,5 +1,5 @@
 import { Board } from '../models/Board';
-import { PieceType } from '../models/ChessTypes';
+import { PieceColor, PieceType } from '../models/ChessTypes';
 import type { Position } from '../models/ChessTypes';
 import { Piece } from '../models/Piece';
 
@@ -52,6 +52,143 @@ export class MoveValidator {
         }
     }
     
+    /**
+     * 检查指定颜色的将/帅是否被将军
+     * 对方任意棋子能吃到将/帅，或将帅面对面，都视为被将军
+     */
+    isInCheck(board: Board, color: PieceColor): boolean {
+        // 找到将/帅
+        const generals = board.getPiecesByTypeAndColor(PieceType.GENERAL, color);
+        if (generals.length === 0 || !generals[0]) return false;
+
+        // 将帅照面相当于被对方将/帅直接攻击
+        if (board.areGeneralsFacing()) {
+            return true;
+        }
+
+        const generalPos = generals[0].position;
+        const opponentColor = color === PieceColor.RED ? PieceColor.BLACK : PieceColor.RED;
+
+        // 检查是否有对方棋子可以吃到将/帅
+        const opponentPieces = board.getPiecesByColor(opponentColor);
+        for (const piece of opponentPieces) {
+            if (this.isValidMove(board, piece.position, generalPos)) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * 检查走法是否完全合法
+     * 在符合棋子走法规则的基础上，走完后己方将/帅不能处于被将军状态
+     */
+    isLegalMove(board: Board, from: Position, to: Position): boolean {
+        if (!this.isValidMove(board, from, to)) {
+            return false;
+        }
+
+        const piece = board.getPiece(from);
+        if (!piece) {
+            return false;
+        }
+
+        // 在副本上模拟走棋
+        const boardCopy = board.clone();
+        boardCopy.movePiece(from, to);
+        return !this.isInCheck(boardCopy, piece.color);
+    }
+
+    /**
+     * 获取指定颜色的所有完全合法走法
+     */
+    getLegalMoves(board: Board, color: PieceColor): { from: Position, to: Position }[] {
+        const legalMoves: { from: Position, to: Position }[] = [];
+
+        for (const piece of board.getPiecesByColor(color)) {
+            for (let toRow = 0; toRow < Board.ROWS; toRow++) {
+                for (let toCol = 0; toCol < Board.COLS; toCol++) {
+                    const to: Position = [toRow, toCol];
+                    if (this.isLegalMove(board, piece.position, to)) {
+                        legalMoves.push({ from: [...piece.position], to });
+                    }
+                }
+            }
+        }
+
+        return legalMoves;
+    }
+
+    /**
+     * 检查指定颜色是否还有合法走法
+     * 没有合法走法时，被将军为绝杀，未被将军为困毙
+     */
+    hasLegalMove(board: Board, color: PieceColor): boolean {
+        for (const piece of board.getPiecesByColor(color)) {
+            for (let toRow = 0; toRow < Board.ROWS; toRow++) {
+                for (let toCol = 0; toCol < Board.COLS; toCol++) {
+                    if (this.isLegalMove(board, piece.position, [toRow, toCol])) {
+                        return true;
+                    }
+                }
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * 检查指定位置的棋子是否有己方棋子保护
+     * 即对方在该位置吃子后，己方能否合法地吃回
+     */
+    isProtected(board: Board, position: Position): boolean {
+        const piece = board.getPiece(position);
+        if (!piece) {
+            return false;
+        }
+
+        // 换成对方棋子，看己方是否有棋子能合法地吃到该位置
+        const boardCopy = board.clone();
+        const opponentColor = piece.color === PieceColor.RED ? PieceColor.BLACK : PieceColor.RED;
+        boardCopy.placePiece(new Piece(PieceType.SOLDIER, opponentColor, [...position]));
+
+        for (const defender of boardCopy.getPiecesByColor(piece.color)) {
+            if (this.isLegalMove(boardCopy, defender.position, position)) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * 获取指定位置棋子正在"捉"的对方棋子
+     * 捉：能合法吃掉对方无根子，或以马、炮等子力攻击对方的车
+     * 将/帅和兵/卒的攻击不算捉，攻击将/帅属于将军，也不算捉
+     */
+    getChasedPieces(board: Board, position: Position): Piece[] {
+        const attacker = board.getPiece(position);
+        if (!attacker || attacker.type === PieceType.GENERAL || attacker.type === PieceType.SOLDIER) {
+            return [];
+        }
+
+        const opponentColor = attacker.color === PieceColor.RED ? PieceColor.BLACK : PieceColor.RED;
+        const chased: Piece[] = [];
+
+        for (const target of board.getPiecesByColor(opponentColor)) {
+            if (target.type === PieceType.GENERAL) continue;
+            if (!this.isLegalMove(board, attacker.position, target.position)) continue;
+
+            const attacksChariot = target.type === PieceType.CHARIOT && attacker.type !== PieceType.CHARIOT;
+            if (attacksChariot || !this.isProtected(board, target.position)) {
+                chased.push(target);
+            }
+        }
+
+        return chased;
+    }
+
     /**
      * 验证将/帅的走法
      * 将/帅只能在九宫格内移动，每次只能走一格（上下左右）
@@ -0,0 +1,190 @@
+import { Board } from '../models/Board';
+import { Game } from '../models/Game';
+import { PieceColor } from '../models/ChessTypes';
+import type { Position } from '../models/ChessTypes';
+import { GameRecord } from './GameRecord';
+import { MoveValidator } from './MoveValidator';
+import { ZobristHash } from './ZobristHash';
+import bundledBook from '../data/opening-book.json' with { type: 'json' };
+
+// 开局库文件格式版本，局面哈希的计算方式变化时需要递增
+export const OPENING_BOOK_VERSION = 1;
+
+// 开局库文件内容
+export interface OpeningBookData {
+    version: number;
+    maxPly: number; // 收录的最大步数
+    games: number;  // 生成时使用的棋谱数量
+    positions: Record<string, [string, number][]>; // 局面哈希（十六进制，含行棋方） -> [ICCS 走法, 权重]
+}
+
+// 开局库中的候选走法
+export interface OpeningBookMove {
+    from: Position;
+    to: Position;
+    weight: number;
+}
+
+// 生成开局库的选项
+export interface OpeningBookBuildOptions {
+    maxPly?: number;    // 每局收录的最大步数，默认 20
+    minWeight?: number; // 权重低于该值的走法不收录，默认 1
+}
+
+// 棋谱结果对走棋方的权重：胜 2，和或未知 1，负 0
+const RESULT_WEIGHTS: Record<string, { red: number, black: number }> = {
+    '1-0': { red: 2, black: 0 },
+    '0-1': { red: 0, black: 2 },
+    '1/2-1/2': { red: 1, black: 1 }
+};
+
+/**
+ * 象棋开局库
+ * 以 Zobrist 局面哈希为索引，每个局面记录若干带权重的候选走法，按权重随机选择。
+ * 随插件打包 data/opening-book.json，可以用 scripts/build-opening-book.ts 从导出的棋谱重新生成
+ */
+export class OpeningBook {
+    private static defaultBook: OpeningBook | null = null;
+
+    private readonly zobristHash = new ZobristHash();
+    private readonly moveValidator = new MoveValidator();
+
+    private constructor(private readonly data: OpeningBookData) { }
+
+    /**
+     * 获取随插件打包的开局库
+     */
+    static getDefault(): OpeningBook {
+        if (!OpeningBook.defaultBook) {
+            OpeningBook.defaultBook = OpeningBook.fromJSON(bundledBook as unknown as OpeningBookData);
+        }
+        return OpeningBook.defaultBook;
+    }
+
+    /**
+     * 从开局库文件内容创建开局库
+     * @throws 文件格式或版本不匹配时抛出错误
+     */
+    static fromJSON(data: OpeningBookData): OpeningBook {
+        if (!data || typeof data.positions !== 'object') {
+            throw new Error('开局库格式无效');
+        }
+        if (data.version !== OPENING_BOOK_VERSION) {
+            throw new Error(`开局库版本 ${data.version} 与当前版本 ${OPENING_BOOK_VERSION} 不一致，请重新生成`);
+        }
+        return new OpeningBook(data);
+    }
+
+    /**
+     * 从多局棋谱生成开局库
+     * 每局从起始局面重放前 maxPly 步，同一局面下的走法按棋谱结果累计权重
+     * @param records 导出格式的 PGN 棋谱，每项一局
+     * @returns 开局库文件内容和无法重放的棋谱说明
+     */
+    static build(records: string[], options: OpeningBookBuildOptions = {}): { data: OpeningBookData, errors: string[] } {
+        const maxPly = options.maxPly ?? 20;
+        const minWeight = options.minWeight ?? 1;
+        const zobristHash = new ZobristHash();
+        const weights = new Map<string, Map<string, number>>();
+        const errors: string[] = [];
+        let games = 0;
+
+        for (const [index, text] of records.entries()) {
+            let game: Game;
+            try {
+                game = Game.fromRecord(text, 0);
+            } catch (err) {
+                const error = err instanceof Error ? err : new Error(String(err));
+                errors.push(`第 ${index + 1} 局: ${error.message}`);
+                continue;
+            }
+
+            const result = RESULT_WEIGHTS[GameRecord.parseRecord(text).headers.Result ?? ''];
+            const replay = game.createReplay(0);
+            for (const record of game.moveStack.slice(0, maxPly)) {
+                const turn = replay.currentTurn;
+                const key = zobristHash.calculateHash(replay.getBoardObject(), turn).toString(16);
+                const move = GameRecord.toICCS(record.from, record.to);
+                const weight = result ? (turn === PieceColor.RED ? result.red : result.black) : 1;
+
+                const moves = weights.get(key) ?? new Map<string, number>();
+                moves.set(move, (moves.get(move) ?? 0) + weight);
+                weights.set(key, moves);
+
+                replay.move(record.from, record.to);
+            }
+            games++;
+        }
+
+        const positions: OpeningBookData['positions'] = {};
+        for (const [key, moves] of weights) {
+            const entries = Array.from(moves.entries())
+                .filter(([, weight]) => weight >= minWeight)
+                .sort((a, b) => b[1] - a[1]);
+            if (entries.length > 0) {
+                positions[key] = entries;
+            }
+        }
+
+        return { data: { version: OPENING_BOOK_VERSION, maxPly, games, positions }, errors };
+    }
+
+    /**
+     * 将文本拆分为多局棋谱，每局以导出格式的 [Game ...] 头信息开始
+     * 没有头信息时整段文本视为一局
+     */
+    static splitRecords(text: string): string[] {
+        return text
+            .split(/^(?=\[Game\s)/m)
+            .map(chunk => chunk.trim())
+            .filter(chunk => chunk.length > 0);
+    }
+
+    /**
+     * 开局库收录的局面数量
+     */
+    get size(): number {
+        return Object.keys(this.data.positions).length;
+    }
+
+    /**
+     * 查询局面的候选走法，只返回当前局面下合法的走法
+     */
+    probe(board: Board, turn: PieceColor): OpeningBookMove[] {
+        const key = this.zobristHash.calculateHash(board, turn).toString(16);
+        const entries = this.data.positions[key] ?? [];
+
+        const moves: OpeningBookMove[] = [];
+        for (const [text, weight] of entries) {
+            const move = GameRecord.parseICCS(text);
+            if (!move || weight <= 0) continue;
+            if (board.getPiece(move.from)?.color !== turn || !this.moveValidator.isLegalMove(board, move.from, move.to)) {
+                continue;
+            }
+            moves.push({ ...move, weight });
+        }
+        return moves;
+    }
+
+    /**
+     * 按权重随机选择一个候选走法
+     * @returns 局面不在开局库中时返回 null
+     */
+    pickMove(board: Board, turn: PieceColor, random: () => number = Math.random): { from: Position, to: Position } | null {
+        const moves = this.probe(board, turn);
+        const total = moves.reduce((sum, move) => sum + move.weight, 0);
+        if (total <= 0) {
+            return null;
+        }
+
+        let target = random() * total;
+        for (const move of moves) {
+            target -= move.weight;
+            if (target < 0) {
+                return { from: move.from, to: move.to };
+            }
+        }
+        const last = moves[moves.length - 1]!;
+        return { from: last.from, to: last.to };
+    }
+}
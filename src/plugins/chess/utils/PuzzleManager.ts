@@ -0,0 +1,275 @@
+import type { Features } from '../../../features';
+import { ConfigStore } from '../../../utils/ConfigStore';
+import { Game } from '../models/Game';
+import { GameStatus, PieceColor } from '../models/ChessTypes';
+import type { IPuzzle, ISerializedPuzzleSession } from '../models/ChessTypes';
+import { GameRecord } from './GameRecord';
+import { PuzzleSet } from './PuzzleSet';
+import { PuzzleSolver, type PuzzleMove } from './PuzzleSolver';
+
+// 持久化文件内容
+export interface PuzzleStoreData {
+    subscribedChats: number[]; // 订阅每日谜题的聊天
+    sessions: ISerializedPuzzleSession[];
+}
+
+// 聊天中正在进行的谜题
+export interface PuzzleSession extends Omit<ISerializedPuzzleSession, 'puzzleId' | 'messageIds'> {
+    puzzle: IPuzzle;
+    messageIds: Set<number>;
+    // 每位玩家各自的解题进度，重启后从头开始
+    progress: Map<number, Game>;
+}
+
+// 作答结果
+export type PuzzleAttemptResult =
+    | { status: 'invalid'; message: string }            // 走法无法识别或不合法
+    | { status: 'wrong'; game: Game }                   // 走法合法但无法在限定步数内取胜
+    | { status: 'correct'; game: Game; reply: string }  // 正确，防守方已应着
+    | { status: 'solved'; game: Game; rank: number }    // 完成杀棋，rank 为第几位解出
+    | { status: 'done'; rank: number };                 // 之前已经解出
+
+/**
+ * 象棋谜题管理器
+ * 每个聊天同时只有一道谜题，玩家各自从起始局面开始作答，互不影响；
+ * 订阅和谜题进度保存到配置目录下的 chess-puzzles.json
+ */
+export class PuzzleManager {
+    static readonly CONFIG_NAME = 'chess-puzzles';
+
+    private readonly solver = new PuzzleSolver();
+    private sessions: Map<number, PuzzleSession> = new Map();
+    private subscribedChats: Set<number> = new Set();
+    private readonly store: ConfigStore;
+
+    constructor(features: Features, private readonly logger?: any) {
+        this.store = new ConfigStore(features);
+    }
+
+    /**
+     * 读取订阅和进行中的谜题，谜题库中已不存在的谜题会被丢弃
+     */
+    async load(): Promise<void> {
+        const data = await this.store.load<PuzzleStoreData>(PuzzleManager.CONFIG_NAME, {
+            subscribedChats: [],
+            sessions: []
+        });
+
+        this.subscribedChats = new Set(Array.isArray(data.subscribedChats) ? data.subscribedChats : []);
+        this.sessions.clear();
+        for (const saved of Array.isArray(data.sessions) ? data.sessions : []) {
+            const puzzle = PuzzleSet.getById(saved.puzzleId);
+            if (!puzzle) {
+                this.logger?.warn(`谜题 ${saved.puzzleId} 已不存在，丢弃聊天 ${saved.chatId} 的谜题进度`);
+                continue;
+            }
+
+            this.sessions.set(saved.chatId, {
+                chatId: saved.chatId,
+                puzzle,
+                daily: saved.daily,
+                startedAt: saved.startedAt,
+                messageIds: new Set(saved.messageIds),
+                solvers: saved.solvers,
+                progress: new Map()
+            });
+        }
+    }
+
+    /**
+     * 在聊天中开始新的谜题，替换之前的谜题
+     */
+    startPuzzle(chatId: number, puzzle: IPuzzle, daily: boolean): PuzzleSession {
+        const session: PuzzleSession = {
+            chatId,
+            puzzle,
+            daily,
+            startedAt: Date.now(),
+            messageIds: new Set(),
+            solvers: [],
+            progress: new Map()
+        };
+
+        this.sessions.set(chatId, session);
+        void this.save();
+        return session;
+    }
+
+    /**
+     * 获取聊天中正在进行的谜题
+     */
+    getSession(chatId: number): PuzzleSession | undefined {
+        return this.sessions.get(chatId);
+    }
+
+    /**
+     * 消息是否为聊天中当前谜题的棋盘消息
+     */
+    isPuzzleMessage(chatId: number, messageId: number): boolean {
+        return this.sessions.get(chatId)?.messageIds.has(messageId) ?? false;
+    }
+
+    /**
+     * 记录谜题的棋盘消息，回复该消息即可作答
+     */
+    rememberMessage(chatId: number, messageId: number): void {
+        const session = this.sessions.get(chatId);
+        if (!session) return;
+
+        session.messageIds.add(messageId);
+        void this.save();
+    }
+
+    /**
+     * 获取玩家的解题局面，没有作答过时为起始局面
+     */
+    getPlayerGame(session: PuzzleSession, userId: number): Game {
+        let game = session.progress.get(userId);
+        if (!game) {
+            game = Game.fromFEN(session.puzzle.fen, userId, 'AI', session.chatId);
+            session.progress.set(userId, game);
+        }
+        return game;
+    }
+
+    /**
+     * 提交一步走法
+     * 走法与解法一致，或者仍能在剩余步数内连将杀，都视为正确；正确后由防守方应着
+     * @param text 走法，支持中文记谱、ICCS 和 WXF
+     * @returns 聊天中没有谜题时返回 null
+     */
+    attempt(chatId: number, userId: number, text: string): PuzzleAttemptResult | null {
+        const session = this.sessions.get(chatId);
+        if (!session) return null;
+
+        const solvedIndex = session.solvers.findIndex(solver => solver.userId === userId);
+        if (solvedIndex >= 0) {
+            return { status: 'done', rank: solvedIndex + 1 };
+        }
+
+        const game = this.getPlayerGame(session, userId);
+        const ply = game.moveStack.length;
+        const remaining = PuzzleSet.getMateIn(session.puzzle) - Math.ceil(ply / 2);
+        const onSolutionLine = this.isOnSolutionLine(session.puzzle, game);
+        const board = game.getBoardObject().clone();
+
+        const result = game.moveByRecord(text);
+        if (!result.success || !game.lastMovePositions) {
+            return { status: 'invalid', message: result.message || '无法识别的走法' };
+        }
+
+        const move = game.lastMovePositions;
+        const expected = onSolutionLine ? this.parseSolutionMove(session.puzzle, ply) : null;
+        const followsSolution = !!expected && PuzzleSolver.isSameMove(move, expected);
+
+        if (!followsSolution && !this.solver.isWinningMove(board, move, remaining)) {
+            game.undo();
+            return { status: 'wrong', game };
+        }
+
+        if (game.status === GameStatus.FINISHED && game.winner === PieceColor.RED) {
+            session.solvers.push({ userId, solvedAt: Date.now() });
+            void this.save();
+            return { status: 'solved', game, rank: session.solvers.length };
+        }
+
+        // 沿解法走时直接使用解法中的应着，否则搜索最顽强的应着
+        const solutionReply = followsSolution ? this.parseSolutionMove(session.puzzle, ply + 1) : null;
+        const reply = solutionReply
+            ?? this.solver.findBestDefense(game.getBoardObject(), PieceColor.BLACK, remaining - 1);
+        if (!reply) {
+            game.undo();
+            return { status: 'wrong', game };
+        }
+
+        game.move(reply.from, reply.to);
+        return { status: 'correct', game, reply: game.lastMove ?? GameRecord.toICCS(reply.from, reply.to) };
+    }
+
+    /**
+     * 获取玩家下一步的提示：要走的棋子
+     * @returns 没有谜题或已解出时返回 null
+     */
+    getHint(chatId: number, userId: number): string | null {
+        const session = this.sessions.get(chatId);
+        if (!session || session.solvers.some(solver => solver.userId === userId)) {
+            return null;
+        }
+
+        const game = this.getPlayerGame(session, userId);
+        const ply = game.moveStack.length;
+        let move: PuzzleMove | null = this.isOnSolutionLine(session.puzzle, game)
+            ? this.parseSolutionMove(session.puzzle, ply)
+            : null;
+
+        if (!move) {
+            const remaining = PuzzleSet.getMateIn(session.puzzle) - Math.ceil(ply / 2);
+            move = this.solver.findMateLine(game.getBoardObject(), PieceColor.RED, remaining)?.[0] ?? null;
+        }
+
+        return move ? game.getBoardObject().getPiece(move.from)?.name ?? null : null;
+    }
+
+    /**
+     * 设置聊天是否订阅每日谜题
+     */
+    setSubscribed(chatId: number, subscribed: boolean): void {
+        if (subscribed) {
+            this.subscribedChats.add(chatId);
+        } else {
+            this.subscribedChats.delete(chatId);
+        }
+        void this.save();
+    }
+
+    isSubscribed(chatId: number): boolean {
+        return this.subscribedChats.has(chatId);
+    }
+
+    getSubscribedChats(): number[] {
+        return Array.from(this.subscribedChats);
+    }
+
+    /**
+     * 玩家目前的走法是否都与解法一致
+     */
+    private isOnSolutionLine(puzzle: IPuzzle, game: Game): boolean {
+        return game.moveStack.every((record, index) => {
+            const expected = this.parseSolutionMove(puzzle, index);
+            return !!expected && PuzzleSolver.isSameMove(record, expected);
+        });
+    }
+
+    private parseSolutionMove(puzzle: IPuzzle, ply: number): PuzzleMove | null {
+        const text = puzzle.solution[ply];
+        return text ? GameRecord.parseICCS(text) : null;
+    }
+
+    /**
+     * 等待所有写入完成
+     */
+    flush(): Promise<void> {
+        return this.store.flush();
+    }
+
+    /**
+     * 保存订阅和谜题进度
+     */
+    private async save(): Promise<void> {
+        const data: PuzzleStoreData = {
+            subscribedChats: Array.from(this.subscribedChats),
+            sessions: Array.from(this.sessions.values()).map(session => ({
+                chatId: session.chatId,
+                puzzleId: session.puzzle.id,
+                daily: session.daily,
+                startedAt: session.startedAt,
+                messageIds: Array.from(session.messageIds),
+                solvers: session.solvers
+            }))
+        };
+
+        if (!await this.store.save(PuzzleManager.CONFIG_NAME, data)) {
+            this.logger?.warn('保存象棋谜题失败');
+        }
+    }
+}
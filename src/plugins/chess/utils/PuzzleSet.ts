@@ -0,0 +1,104 @@
+import type { IPuzzle } from '../models/ChessTypes';
+
+/**
+ * 本地谜题库
+ * 均为红先连将杀，解法中的黑方应着是拖延被杀最久的走法，已用 PuzzleSolver 校验
+ */
+const PUZZLES: readonly IPuzzle[] = [
+    {
+        id: 'p001',
+        title: '白脸将',
+        fen: '3k5/R8/9/9/9/9/9/9/9/R3K4 w',
+        solution: ['A0-D0']
+    },
+    {
+        id: 'p002',
+        title: '重炮',
+        fen: '3aka3/9/9/9/4C4/9/1C7/9/9/4K4 w',
+        solution: ['B3-E3']
+    },
+    {
+        id: 'p003',
+        title: '马后炮',
+        fen: '4k4/9/4N4/9/9/9/9/1C7/9/3K5 w',
+        solution: ['B2-E2']
+    },
+    {
+        id: 'p004',
+        title: '卧槽马',
+        fen: '1Cbaka3/9/4N4/9/9/9/9/9/9/5K3 w',
+        solution: ['E7-C8', 'E9-E8', 'B9-B8']
+    },
+    {
+        id: 'p005',
+        title: '车马冷着',
+        fen: '1N1a1k3/9/3c5/9/1R7/9/9/9/4K4/9 w',
+        solution: ['B5-F5', 'D7-F7', 'F5-F7']
+    },
+    {
+        id: 'p006',
+        title: '双车夺宫',
+        fen: '1Cbakab2/9/4c3R/5R3/8n/9/9/9/5K3/9 w',
+        solution: ['F6-F9', 'E9-E8', 'I7-I8']
+    },
+    {
+        id: 'p007',
+        title: '车兵联攻',
+        fen: '2ba2N2/4ak3/4b4/4P3R/9/9/9/9/9/4K4 w',
+        solution: ['I6-F6', 'E8-F7', 'F6-F7']
+    },
+    {
+        id: 'p008',
+        title: '车马挂角',
+        fen: '1N1aka3/9/4b4/9/5R3/9/9/9/9/5K3 w',
+        solution: ['F5-F9', 'E9-E8', 'B9-C7', 'E8-D8', 'F9-D9']
+    },
+    {
+        id: 'p009',
+        title: '双车追将',
+        fen: '1C3kb2/9/1R7/p4c3/6R2/9/9/9/9/3K5 w',
+        solution: ['G5-G9', 'F9-F8', 'B7-B8', 'F8-F7', 'G9-G7']
+    },
+    {
+        id: 'p010',
+        title: '双马饮泉',
+        fen: '1N1k1a3/4a4/9/3N5/1R7/9/9/9/9/5K3 w',
+        solution: ['B9-C7', 'D9-E9', 'D6-F7', 'E8-F7', 'B5-B9']
+    }
+];
+
+/**
+ * 谜题库查询
+ */
+export class PuzzleSet {
+    /**
+     * 根据ID获取谜题
+     */
+    static getById(id: string): IPuzzle | undefined {
+        return PUZZLES.find(puzzle => puzzle.id === id);
+    }
+
+    /**
+     * 获取指定日期的每日谜题，同一天所有聊天相同
+     */
+    static getDaily(date: Date = new Date()): IPuzzle {
+        const day = Math.floor((date.getTime() - date.getTimezoneOffset() * 60 * 1000) / (24 * 60 * 60 * 1000));
+        return PUZZLES[day % PUZZLES.length]!;
+    }
+
+    /**
+     * 随机获取一道谜题
+     * @param excludeId 尽量避开的谜题（通常是当前谜题）
+     */
+    static getRandom(excludeId?: string): IPuzzle {
+        const candidates = PUZZLES.filter(puzzle => puzzle.id !== excludeId);
+        return candidates[Math.floor(Math.random() * candidates.length)] ?? PUZZLES[0]!;
+    }
+
+    /**
+     * 谜题需要红方走几步
+     */
+    static getMateIn(puzzle: IPuzzle): number {
+        return Math.ceil(puzzle.solution.length / 2);
+    }
+}
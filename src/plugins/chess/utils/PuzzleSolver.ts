@@ -0,0 +1,137 @@
+import { Board } from '../models/Board';
+import { PieceColor } from '../models/ChessTypes';
+import type { Position } from '../models/ChessTypes';
+import { MoveValidator } from './MoveValidator';
+
+// 坐标走法
+export interface PuzzleMove {
+    from: Position;
+    to: Position;
+}
+
+/**
+ * 杀棋搜索器
+ * 用于验证谜题答案和为防守方选择应着。进攻方只搜索将军的走法（连将杀），
+ * 防守方无子可走（绝杀或困毙）即为进攻方获胜
+ */
+export class PuzzleSolver {
+    private readonly validator = new MoveValidator();
+
+    /**
+     * 进攻方能否在指定步数内连将杀
+     * @param board 进攻方行棋的局面
+     * @param moves 进攻方可用的步数
+     */
+    canForceMate(board: Board, attacker: PieceColor, moves: number): boolean {
+        if (moves <= 0) return false;
+
+        return this.getCheckingMoves(board, attacker)
+            .some(move => this.isWinningMove(board, move, moves));
+    }
+
+    /**
+     * 进攻方的走法能否在指定步数内取胜（含这一步）
+     * 这一步本身不要求将军，之后的进攻走法只考虑将军
+     */
+    isWinningMove(board: Board, move: PuzzleMove, moves: number): boolean {
+        const attacker = board.getPiece(move.from)?.color;
+        if (!attacker || !this.validator.isLegalMove(board, move.from, move.to)) {
+            return false;
+        }
+
+        const after = this.applyMove(board, move);
+        const defender = this.getOpponent(attacker);
+        if (!this.validator.hasLegalMove(after, defender)) {
+            return true;
+        }
+        if (moves <= 1) {
+            return false;
+        }
+
+        return this.validator.getLegalMoves(after, defender)
+            .every(reply => this.canForceMate(this.applyMove(after, reply), attacker, moves - 1));
+    }
+
+    /**
+     * 为防守方选择最顽强的应着，即被杀前能坚持最多步的走法
+     * @param board 防守方行棋的局面
+     * @param moves 进攻方剩余的步数
+     * @param preferred 坚持步数相同时优先选择的走法（通常是解法中的应着）
+     * @returns 防守方无子可走时返回 null
+     */
+    findBestDefense(board: Board, defender: PieceColor, moves: number, preferred?: PuzzleMove): PuzzleMove | null {
+        const attacker = this.getOpponent(defender);
+        let best: PuzzleMove | null = null;
+        let bestSurvival = -1;
+
+        for (const reply of this.validator.getLegalMoves(board, defender)) {
+            const after = this.applyMove(board, reply);
+
+            // 在限定步数内不会被杀时视为坚持了 moves + 1 步
+            let survival = moves + 1;
+            for (let depth = 1; depth <= moves; depth++) {
+                if (this.canForceMate(after, attacker, depth)) {
+                    survival = depth;
+                    break;
+                }
+            }
+
+            const isPreferred = !!preferred && PuzzleSolver.isSameMove(reply, preferred);
+            if (survival > bestSurvival || (survival === bestSurvival && isPreferred)) {
+                best = reply;
+                bestSurvival = survival;
+            }
+        }
+
+        return best;
+    }
+
+    /**
+     * 搜索最短的连将杀主变（双方交替的走法），用于校验谜题和提示
+     * @returns 指定步数内无法连将杀时返回 null
+     */
+    findMateLine(board: Board, attacker: PieceColor, moves: number): PuzzleMove[] | null {
+        for (let depth = 1; depth <= moves; depth++) {
+            const move = this.getCheckingMoves(board, attacker)
+                .find(candidate => this.isWinningMove(board, candidate, depth));
+            if (!move) continue;
+
+            const after = this.applyMove(board, move);
+            const reply = this.findBestDefense(after, this.getOpponent(attacker), depth - 1);
+            if (!reply) {
+                return [move];
+            }
+
+            const rest = this.findMateLine(this.applyMove(after, reply), attacker, depth - 1);
+            return rest ? [move, reply, ...rest] : null;
+        }
+
+        return null;
+    }
+
+    /**
+     * 两个走法是否相同
+     */
+    static isSameMove(a: PuzzleMove, b: PuzzleMove): boolean {
+        return a.from[0] === b.from[0] && a.from[1] === b.from[1] && a.to[0] === b.to[0] && a.to[1] === b.to[1];
+    }
+
+    /**
+     * 获取进攻方所有将军的合法走法
+     */
+    private getCheckingMoves(board: Board, attacker: PieceColor): PuzzleMove[] {
+        const defender = this.getOpponent(attacker);
+        return this.validator.getLegalMoves(board, attacker)
+            .filter(move => this.validator.isInCheck(this.applyMove(board, move), defender));
+    }
+
+    private applyMove(board: Board, move: PuzzleMove): Board {
+        const copy = board.clone();
+        copy.movePiece(move.from, move.to);
+        return copy;
+    }
+
+    private getOpponent(color: PieceColor): PieceColor {
+        return color === PieceColor.RED ? PieceColor.BLACK : PieceColor.RED;
+    }
+}
@@ -0,0 +1,200 @@
+import type { Features } from '../../../features';
+import { ConfigStore } from '../../../utils/ConfigStore';
+import type { Game } from '../models/Game';
+import type { IGameResult, IPlayerRating } from '../models/ChessTypes';
+import { GameRecord } from './GameRecord';
+
+// 初始等级分
+const INITIAL_RATING = 1500;
+// 前若干局为定级赛，等级分变化更快
+const PROVISIONAL_GAMES = 20;
+const PROVISIONAL_K = 40;
+const STANDARD_K = 20;
+// 最多保留的对局结果数量
+const MAX_RESULTS = 1000;
+
+// 各难度AI的固定等级分（键为AI搜索深度）
+const AI_RATINGS: Record<number, number> = {
+    3: 1200, // 简单
+    5: 1500, // 普通
+    6: 1800  // 困难
+};
+
+// 积分榜类型：玩家对战，或与指定难度的AI对战
+export type RatingLadder = 'pvp' | number;
+
+// 持久化文件内容
+export interface RatingStoreData {
+    ladders: Record<string, Record<string, IPlayerRating>>; // 积分榜ID -> 玩家ID -> 等级分
+    results: IGameResult[]; // 按结束时间排列的对局结果
+}
+
+/**
+ * 象棋等级分存储
+ * 每个聊天分别维护玩家对战积分榜和各难度AI的积分榜，使用 Elo 计算等级分，
+ * 数据保存到配置目录下的 chess-ratings.json
+ */
+export class RatingStore {
+    static readonly CONFIG_NAME = 'chess-ratings';
+
+    private data: RatingStoreData = { ladders: {}, results: [] };
+    private readonly store: ConfigStore;
+
+    constructor(features: Features, private readonly logger?: any) {
+        this.store = new ConfigStore(features);
+    }
+
+    /**
+     * 读取保存的等级分和对局结果
+     */
+    async load(): Promise<void> {
+        const data = await this.store.load<RatingStoreData>(RatingStore.CONFIG_NAME, {
+            ladders: {},
+            results: []
+        });
+
+        this.data = {
+            ladders: data.ladders && typeof data.ladders === 'object' ? { ...data.ladders } : {},
+            results: Array.isArray(data.results) ? [...data.results] : []
+        };
+    }
+
+    /**
+     * 记录已结束的对局并更新双方等级分
+     * 未分出结果（如被中止）或自己对自己的对局不计入
+     * @returns 记录的对局结果，不计入时返回 null
+     */
+    recordGame(game: Game): IGameResult | null {
+        const result = GameRecord.getResultTag(game);
+        if (result === '*' || !game.endReason || game.redPlayer === game.blackPlayer) {
+            return null;
+        }
+        if (this.data.results.some(saved => saved.gameId === game.id)) {
+            return null;
+        }
+
+        // 红方得分：胜 1，和 0.5，负 0
+        const redScore = result === '1-0' ? 1 : result === '0-1' ? 0 : 0.5;
+        const ratingChanges: Record<string, number> = {};
+
+        if (game.blackPlayer === 'AI') {
+            const difficulty = game.aiDifficulty ?? 5;
+            const entry = this.getOrCreateEntry(this.getLadderId(game.chatId, difficulty), game.redPlayer);
+            ratingChanges[game.redPlayer] = this.applyResult(entry, RatingStore.getAiRating(difficulty), redScore);
+        } else {
+            const ladderId = this.getLadderId(game.chatId, 'pvp');
+            const red = this.getOrCreateEntry(ladderId, game.redPlayer);
+            const black = this.getOrCreateEntry(ladderId, game.blackPlayer);
+            // 双方都按赛前等级分计算
+            const redBefore = red.rating;
+            ratingChanges[game.redPlayer] = this.applyResult(red, black.rating, redScore);
+            ratingChanges[game.blackPlayer] = this.applyResult(black, redBefore, 1 - redScore);
+        }
+
+        const record: IGameResult = {
+            gameId: game.id,
+            chatId: game.chatId,
+            redPlayer: game.redPlayer,
+            blackPlayer: game.blackPlayer,
+            aiDifficulty: game.blackPlayer === 'AI' ? game.aiDifficulty : undefined,
+            result,
+            endReason: game.endReason,
+            endTime: Date.now(),
+            ratingChanges
+        };
+
+        this.data.results.push(record);
+        if (this.data.results.length > MAX_RESULTS) {
+            this.data.results.splice(0, this.data.results.length - MAX_RESULTS);
+        }
+
+        void this.save();
+        return record;
+    }
+
+    /**
+     * 获取积分榜，按等级分从高到低排列
+     * @param limit 最多返回的玩家数量
+     */
+    getLeaderboard(chatId: number, ladder: RatingLadder, limit: number = 10): ({ userId: number } & IPlayerRating)[] {
+        const entries = this.data.ladders[this.getLadderId(chatId, ladder)] ?? {};
+        return Object.entries(entries)
+            .map(([userId, rating]) => ({ userId: Number(userId), ...rating }))
+            .filter(entry => entry.games > 0)
+            .sort((a, b) => b.rating - a.rating || b.games - a.games)
+            .slice(0, limit);
+    }
+
+    /**
+     * 获取玩家在积分榜中的等级分，没有下过时返回 undefined
+     */
+    getPlayerRating(chatId: number, userId: number, ladder: RatingLadder): IPlayerRating | undefined {
+        return this.data.ladders[this.getLadderId(chatId, ladder)]?.[userId];
+    }
+
+    /**
+     * 获取玩家在聊天中最近的对局结果，最新的在前
+     */
+    getRecentResults(chatId: number, userId: number, limit: number = 5): IGameResult[] {
+        return this.data.results
+            .filter(result => result.chatId === chatId && (result.redPlayer === userId || result.blackPlayer === userId))
+            .slice(-limit)
+            .reverse();
+    }
+
+    /**
+     * 获取指定难度AI的等级分
+     */
+    static getAiRating(difficulty: number): number {
+        return AI_RATINGS[difficulty] ?? INITIAL_RATING;
+    }
+
+    /**
+     * 按 Elo 公式更新等级分和战绩
+     * @param score 本局得分（胜 1，和 0.5，负 0）
+     * @returns 等级分变化
+     */
+    private applyResult(entry: IPlayerRating, opponentRating: number, score: number): number {
+        const expected = 1 / (1 + Math.pow(10, (opponentRating - entry.rating) / 400));
+        const k = entry.games < PROVISIONAL_GAMES ? PROVISIONAL_K : STANDARD_K;
+        const change = Math.round(k * (score - expected));
+
+        entry.rating += change;
+        entry.peak = Math.max(entry.peak, entry.rating);
+        entry.games++;
+        if (score === 1) entry.wins++;
+        else if (score === 0) entry.losses++;
+        else entry.draws++;
+
+        return change;
+    }
+
+    private getLadderId(chatId: number, ladder: RatingLadder): string {
+        return ladder === 'pvp' ? `${chatId}:pvp` : `${chatId}:ai${ladder}`;
+    }
+
+    private getOrCreateEntry(ladderId: string, userId: number): IPlayerRating {
+        const ladder = this.data.ladders[ladderId] ??= {};
+        return ladder[userId] ??= {
+            rating: INITIAL_RATING,
+            peak: INITIAL_RATING,
+            games: 0,
+            wins: 0,
+            losses: 0,
+            draws: 0
+        };
+    }
+
+    /**
+     * 等待所有写入完成
+     */
+    flush(): Promise<void> {
+        return this.store.flush();
+    }
+
+    private async save(): Promise<void> {
+        if (!await this.store.save(RatingStore.CONFIG_NAME, this.data)) {
+            this.logger?.warn('保存象棋等级分失败');
+        }
+    }
+}
@@ -3,6 +3,13 @@ import { PieceColor, PieceType } from '../models/ChessTypes';
 import type { Position } from '../models/ChessTypes';
 import { Board } from '../models/Board';
 
+// 棋子类型和颜色到键表下标的映射
+const PIECE_TYPES = Object.values(PieceType);
+const PIECE_COLORS = Object.values(PieceColor);
+
+// 键值生成的固定种子，保证每次启动得到相同的哈希，开局库按局面哈希索引
+const KEY_SEED = 0x584951494e47n;
+
 /**
  * Implements Zobrist hashing for Chinese Chess boards.
  * Used for efficient position identification in transposition tables.
@@ -15,45 +22,38 @@ export class ZobristHash {
     // Key for side to move (Black)
     private sideToMoveKey: bigint;
     // TODO: Add keys for castling rights, en passant target square if needed for standard chess
+    // 已生成的键值数量
+    private keyCount = 0;
 
     constructor() {
         this.pieceKeys = [];
         this.initializeKeys();
-        this.sideToMoveKey = this.randomBigInt();
+        this.sideToMoveKey = this.nextKey();
     }
 
     /**
-     * 使用Bun.hash生成64位随机BigInt
-     * (保留原注释和异常处理以保持代码稳定性)
+     * 使用Bun.hash按序号生成64位伪随机BigInt
+     * 键值只取决于生成顺序和固定种子，不同进程中同一局面的哈希相同
      */
-    private randomBigInt(): bigint {
-        const timeBuf = Buffer.alloc(8);
-        timeBuf.writeBigUInt64BE(BigInt(Date.now()));
-
-        const randBuf = Buffer.alloc(8);
-        randBuf.writeBigUInt64BE(BigInt(Math.floor(Math.random() * 0xFFFFFFFFFFFFFFFF)));
-
-        // 合并时间戳和随机数为 16 字节输入
-        const input = Buffer.concat([timeBuf, randBuf]);
-
-        // 调用哈希函数（需确保哈希输出 16 字节）
-        return Bun.hash.xxHash3(input); // 如果 Bun.hash 支持 16 字节输出
+    private nextKey(): bigint {
+        const input = Buffer.alloc(8);
+        input.writeBigUInt64BE(BigInt(this.keyCount++));
+        return Bun.hash.xxHash3(input, KEY_SEED);
     }
 
     /**
      * Initializes the random keys for each piece type, color, and square.
      */
     private initializeKeys(): void {
-        // Ensure PieceType and PieceColor enum values are treated as numbers for indexing
-        // 初始化所有可能的棋子类型和颜色组合
-        for (let type = 0; type < Object.keys(PieceType).length / 2; type++) {
+        // PieceType 和 PieceColor 是字符串枚举，按声明顺序映射为数组下标
+        for (let type = 0; type < PIECE_TYPES.length; type++) {
             this.pieceKeys[type] = [];
-            for (let color = 0; color < Object.keys(PieceColor).length / 2; color++) {
+            for (let color = 0; color < PIECE_COLORS.length; color++) {
                 this.pieceKeys[type]![color] = [];
                 for (let r = 0; r < Board.ROWS; r++) {
                     this.pieceKeys[type]![color]![r] = [];
                     for (let c = 0; c < Board.COLS; c++) {
-                        this.pieceKeys[type]![color]![r]![c] = this.randomBigInt();
+                        this.pieceKeys[type]![color]![r]![c] = this.nextKey();
                     }
                 }
             }
@@ -73,10 +73,8 @@ export class ZobristHash {
             for (let c = 0; c < Board.COLS; c++) {
                 const piece = board.getPiece([r, c]);
                 if (piece) {
-                    // Use enum values directly as indices. TypeScript handles numeric enums.
-                    // Assert numeric enum values and validate array structure
-                    const typeIndex = piece.type as unknown as number;
-                    const colorIndex = piece.color as unknown as number;
+                    const typeIndex = PIECE_TYPES.indexOf(piece.type);
+                    const colorIndex = PIECE_COLORS.indexOf(piece.color);
 
                     // Validate the multidimensional array structure exists
                     if (!this.pieceKeys[typeIndex] ||
@@ -128,9 +126,8 @@ export class ZobristHash {
         let newHash = currentHash;
         const [fromRow, fromCol] = move.from;
         const [toRow, toCol] = move.to;
-        // Use enum values directly
-        const movedType = pieceMoved.type as unknown as number;
-        const movedColor = pieceMoved.color as unknown as number;
+        const movedType = PIECE_TYPES.indexOf(pieceMoved.type);
+        const movedColor = PIECE_COLORS.indexOf(pieceMoved.color);
 
         // Add checks before XORing
         const keyFrom = this.pieceKeys[movedType]?.[movedColor]?.[fromRow]?.[fromCol];
@@ -150,8 +147,8 @@ export class ZobristHash {
 
         // 3. If a piece was captured, XOR it out from the destination square
         if (pieceCaptured) {
-            const capturedType = pieceCaptured.type as unknown as number;
-            const capturedColor = pieceCaptured.color as unknown as number;
+            const capturedType = PIECE_TYPES.indexOf(pieceCaptured.type);
+            const capturedColor = PIECE_COLORS.indexOf(pieceCaptured.color);
             const keyCaptured = this.pieceKeys[capturedType]?.[capturedColor]?.[toRow]?.[toCol];
             if (keyCaptured !== undefined) {
                 newHash ^= keyCaptured;
@@ -1,9 +1,8 @@
-import { getFastAI, getHighQualityAI } from "../ai/AiManager";
+import { getFastAI, getHighQualityAI, getSummarizationAI, renderPrompt } from "../ai/AiManager";
 import { fetchRSS, type RSSItem, type RSSFeed } from "../utils/RssParse";
 import type { BotPlugin, CommandContext } from '../features';
 import { html, Message, type TelegramClient, type TextWithEntities } from "@mtcute/bun";
 import { Cron } from "croner";
-import { enableChats } from "../app";
 import { cleanHTML } from "../utils/HtmlHelper";
 
 /**
@@ -76,7 +75,7 @@ const NEWS_CONFIG = {
 } as const;
 
 /**
- * AI摘要提示词
+ * AI摘要提示词，可以在聊天人设中覆盖（模板名称 news_summary）
  */
 const AI_SUMMARY_PROMPT = `你是一名专业新闻编辑，擅长提炼新闻核心要点，并以简洁、精准、生动的语言表达。请对以下新闻进行总结，确保信息准确，逻辑清晰，易读易懂。
 
@@ -122,7 +121,7 @@ const AI_SUMMARY_PROMPT = `你是一名专业新闻编辑，擅长提炼新闻
 请严格遵守上述要求，确保输出内容准确、清晰、规范。`
 
 /**
- * AI评论提示词
+ * AI评论提示词，可以在聊天人设中覆盖（模板名称 news_comment）
  */
 const AI_COMMENT_PROMPT = `你是一位幽默风趣的新闻评论者，擅长用调侃、双关语、谐音梗、打油诗、幽默比喻等方式，将新闻内容轻松总结评论。  
 
@@ -883,7 +882,7 @@ class NewsService {
             }
 
             // 处理新闻内容
-            const formattedContent = await this.processNewsContent(news);
+            const formattedContent = await this.processNewsContent(news, chatId);
 
             // 从结果中提取文本和图片
             const { text, images } = formattedContent;
@@ -993,9 +992,10 @@ class NewsService {
     /**
      * 处理新闻内容
      * @param news - 新闻项
+     * @param chatId - 发送到的聊天
      * @returns 格式化的内容
      */
-    private async processNewsContent(news: NewsItem): Promise<{
+    private async processNewsContent(news: NewsItem, chatId: number): Promise<{
         text: TextWithEntities;
         images: string[];
     }> {
@@ -1014,12 +1014,12 @@ class NewsService {
         const [contentText, aiComment] = await Promise.all([
             // 条件性地获取AI摘要
             needsAiSummary
-                ? this.getAiSummary(news).then(summary => summary || this.formatContent(news))
+                ? this.getAiSummary(news, chatId).then(summary => summary || this.formatContent(news))
                 : this.formatContent(news),
 
             // 对于较长的新闻才获取AI评论，避免对短新闻浪费API调用
             rawContent.length > 300 && !news.title.includes('天气') && !news.title.includes('预报')
-                ? this.getAiComment(news)
+                ? this.getAiComment(news, chatId)
                 : Promise.resolve('')
         ]);
 
@@ -1036,23 +1036,24 @@ class NewsService {
     /**
      * 获取AI摘要 - 优化版本
      * @param news - 新闻项
+     * @param chatId - 发送到的聊天，用于获取聊天人设中的提示词
      * @returns AI生成的摘要
      */
-    private async getAiSummary(news: NewsItem): Promise<string> {
+    private async getAiSummary(news: NewsItem, chatId: number): Promise<string> {
         // 如果内容太短，不需要摘要
         const content = news.content || news.description || '';
         if (content.length < 200) return '';
 
         try {
             // 构建更简洁的提示词，减少token用量
-            const prompt = `${AI_SUMMARY_PROMPT}\n标题: ${news.title}\n内容: ${this.truncateContent(content, 1500)}`;
+            const prompt = `${renderPrompt('news_summary', AI_SUMMARY_PROMPT, { chatId })}\n标题: ${news.title}\n内容: ${this.truncateContent(content, 1500)}`;
 
             // 添加超时处理
             const timeoutPromise = new Promise<string>((_, reject) => {
                 setTimeout(() => reject(new Error('AI摘要生成超时')), 60000); // 超时时间
             });
 
-            const aiPromise = getHighQualityAI().get(prompt, false);
+            const aiPromise = getSummarizationAI().get(prompt, false);
             const comment = await Promise.race([aiPromise, timeoutPromise]);
 
             if (!comment || comment === '[CANCEL]') return '';
@@ -1068,13 +1069,14 @@ class NewsService {
     /**
      * 获取AI评论 - 优化版本
      * @param news - 新闻项
+     * @param chatId - 发送到的聊天，用于获取聊天人设中的提示词
      * @returns AI生成的评论
      */
-    private async getAiComment(news: NewsItem): Promise<string> {
+    private async getAiComment(news: NewsItem, chatId: number): Promise<string> {
         try {
             // 构建更简洁的提示词，减少token用量
             const titleOnly = news.title.length < 100;
-            const prompt = `${AI_COMMENT_PROMPT}\n标题: ${news.title}${titleOnly ? '' : `\n内容: ${this.truncateContent(news.description || '', 600)}`
+            const prompt = `${renderPrompt('news_comment', AI_COMMENT_PROMPT, { chatId })}\n标题: ${news.title}${titleOnly ? '' : `\n内容: ${this.truncateContent(news.description || '', 600)}`
                 }`;
 
             // 添加超时处理
@@ -1405,6 +1407,43 @@ class NewsService {
         }
     }
 
+    /**
+     * 获取各RSS源的最新标题（提供给AI工具）
+     * @param limit - 返回条数
+     * @param keyword - 只返回标题或简介包含关键词的新闻
+     * @returns 按发布时间倒序的标题列表
+     */
+    async getHeadlines(limit: number, keyword?: string): Promise<string> {
+        const feeds = await Promise.all(RSS_SOURCES.map(async url => {
+            if (this.cache.isValid(url)) {
+                return this.cache.get(url)!;
+            }
+            try {
+                const feed = await this.fetchFeed(url);
+                this.cache.set(url, feed);
+                return feed;
+            } catch {
+                return null;
+            }
+        }));
+
+        const query = keyword?.trim().toLowerCase();
+        const items = feeds
+            .flatMap(feed => feed ? feed.channel.items.map(item => ({ item, sourceName: feed.channel.title || '' })) : [])
+            .filter(({ item }) => !query || `${item.title} ${item.description || ''}`.toLowerCase().includes(query))
+            .sort((a, b) => new Date(b.item.pubDate || 0).getTime() - new Date(a.item.pubDate || 0).getTime())
+            .slice(0, limit);
+
+        if (items.length === 0) {
+            return query ? `没有找到包含“${keyword}”的新闻` : '暂时无法获取新闻';
+        }
+
+        return items.map(({ item, sourceName }) => {
+            const time = item.pubDate ? new Date(item.pubDate).toLocaleString('zh-CN', { hour12: false }) : '时间未知';
+            return `• ${item.title}（${sourceName}，${time}）\n  ${item.link}`;
+        }).join('\n');
+    }
+
     /**
      * 获取RSS源数据
      * @param url - RSS源URL
@@ -1498,13 +1537,34 @@ const plugin: BotPlugin = {
         }
     ],
 
+    // 提供给AI调用的工具
+    tools: [
+        {
+            name: 'get_news_headlines',
+            title: '新闻',
+            description: '获取订阅的中文新闻和科技资讯RSS源（纽约时报中文、BBC中文、德国之声、IT之家、Solidot等）的最新标题和链接，可按关键词筛选。',
+            parameters: {
+                keyword: { type: 'string', description: '筛选关键词，不填则返回全部最新新闻' },
+                limit: { type: 'integer', description: '返回条数，1-20，默认 10' }
+            },
+            async execute(args) {
+                if (!serviceInstance) {
+                    throw new Error('RSS服务未初始化');
+                }
+                const limit = Math.min(Math.max(Number(args.limit) || 10, 1), 20);
+                return serviceInstance.getHeadlines(limit, typeof args.keyword === 'string' ? args.keyword : undefined);
+            }
+        }
+    ],
+
     async onLoad(client: TelegramClient) {
         // 初始化服务
         serviceInstance = new NewsService();
         await serviceInstance.init();
 
         cycleSendJob = new Cron("0 * * * *", () => {
-            for (const chatId of enableChats) {
+            // 只推送到启用了本插件的聊天
+            for (const chatId of client.features.getChatsWithPlugin('rss')) {
                 serviceInstance?.fetchAndSendNews(client, chatId, null, false);
             }
         });
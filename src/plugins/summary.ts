@@ -0,0 +1,496 @@
+import { html, TelegramClient } from '@mtcute/bun';
+import { Cron } from 'croner';
+import { getFastAI, renderPrompt } from '../ai/AiManager';
+import { ChatArchive } from '../ai/ChatArchive';
+import type { BotPlugin, CommandContext, EventContext, MessageEventContext } from '../features';
+import { cleanHTML } from '../utils/HtmlHelper';
+
+// 缓存的一条消息
+interface BufferedMessage {
+    id: number;
+    name: string;   // 发送者名称
+    text: string;
+    date: number;   // 发送时间（毫秒）
+}
+
+// 插件配置（配置目录下的 summary.json）
+interface SummaryConfig {
+    bufferSize: number;     // 每个聊天缓存的最近消息数量
+    defaultCount: number;   // /summary 不带参数时总结的消息数量
+    chunkChars: number;     // 每次交给AI的聊天记录字数，超出时分段总结后再合并
+    maxTextLength: number;  // 每条消息保留的字数
+    minMessages: number;    // 每日摘要至少需要的消息数量，不足时跳过
+    dailyChats: Record<string, string>; // 聊天ID -> 每日摘要时间（HH:mm）
+}
+
+const DEFAULT_CONFIG: SummaryConfig = {
+    bufferSize: 2000,
+    defaultCount: 200,
+    chunkChars: 6000,
+    maxTextLength: 500,
+    minMessages: 20,
+    dailyChats: {}
+};
+
+// 分段总结后合并的最多轮数，超出后截断
+const MAX_REDUCE_ROUNDS = 3;
+
+// 时间范围参数：30m、2h、1d 或 09:30
+const RELATIVE_TIME = /^(\d+)\s*(m|min|h|d)$/i;
+const CLOCK_TIME = /^(\d{1,2}):(\d{2})$/;
+const UNIT_MS: Record<string, number> = { m: 60 * 1000, min: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 };
+
+// 分段总结的提示词，可以在聊天人设中覆盖（模板名称 summary_chunk）
+const CHUNK_PROMPT = `下面是群聊「{{chatTitle}}」的一段聊天记录，每条消息前的 [#编号] 是消息编号：
+
+{{messages}}
+
+请提炼这段记录的要点笔记，包括：讨论的话题、做出的决定、尚未解决的问题、主要发言人各自的观点。
+每条要点后标注最相关的一到两个消息编号，例如 [#1234]。只输出纯文本要点，不超过600字，忽略闲聊和表情。`;
+
+// 生成最终摘要的提示词，可以在聊天人设中覆盖（模板名称 summary_digest）
+const DIGEST_PROMPT = `下面是群聊「{{chatTitle}}」{{range}}的{{source}}，[#编号] 是消息编号：
+
+{{messages}}
+
+请整理成一份帮助群成员快速了解讨论内容的摘要，使用{{language}}，按以下结构输出：
+<b>🗂 话题</b>：讨论了哪些话题，每个话题一两句话
+<b>✅ 决定</b>：达成的结论或决定
+<b>❓ 待解决</b>：提出但尚未解决的问题
+<b>👥 谁说了什么</b>：主要发言人和他们的核心观点
+
+要求：
+1. 每条内容后标注最相关的一到两个消息编号，例如 [#1234]，不要编造编号
+2. 没有内容的部分写"无"
+3. 只使用<b>、<i>、<code>标签，用<br>换行，列表项前加"•"，不要使用Markdown
+4. 总长度不超过1500字`;
+
+let config: SummaryConfig = DEFAULT_CONFIG;
+
+// 聊天ID -> 最近的消息
+const buffers = new Map<number, MessageRing>();
+// 聊天ID -> 聊天名称和公开群组的用户名（用于生成消息链接）
+const chatInfos = new Map<number, { title: string; username?: string }>();
+// 聊天ID -> 每日摘要任务
+const dailyJobs = new Map<number, Cron>();
+// 聊天ID -> 上次发送每日摘要的时间
+const lastDigestAt = new Map<number, number>();
+
+let botClient: TelegramClient | null = null;
+
+/**
+ * 固定容量的环形缓冲区，写满后覆盖最早的消息
+ */
+class MessageRing {
+    private items: BufferedMessage[] = [];
+    private start = 0;
+
+    constructor(private readonly capacity: number) { }
+
+    push(message: BufferedMessage): void {
+        if (this.items.length < this.capacity) {
+            this.items.push(message);
+            return;
+        }
+        this.items[this.start] = message;
+        this.start = (this.start + 1) % this.capacity;
+    }
+
+    /**
+     * 按时间顺序返回所有消息
+     */
+    toArray(): BufferedMessage[] {
+        return [...this.items.slice(this.start), ...this.items.slice(0, this.start)];
+    }
+}
+
+/**
+ * 帮助信息
+ */
+const getHelp = () => `<b>📋 聊天摘要</b><br>
+<br>
+/summary - 总结最近 ${config.defaultCount} 条消息<br>
+/summary 500 - 总结最近 500 条消息<br>
+/summary since 2h - 总结最近2小时的消息，也可以用 30m、1d 或 09:30<br>
+/summary daily on [HH:mm] - 每天定时发送摘要，默认 22:00（管理员）<br>
+/summary daily off - 关闭每日摘要（管理员）<br>
+<br>
+只能总结机器人启动后收到的消息，每个聊天最多缓存 ${config.bufferSize} 条`;
+
+/**
+ * 缓存一条消息
+ */
+function recordMessage(ctx: MessageEventContext): void {
+    let buffer = buffers.get(ctx.chatId);
+    if (!buffer) {
+        buffer = new MessageRing(config.bufferSize);
+        buffers.set(ctx.chatId, buffer);
+    }
+    buffer.push({
+        id: ctx.message.id,
+        name: ctx.message.sender.displayName,
+        text: ctx.message.text.trim().slice(0, config.maxTextLength),
+        date: ctx.message.date.getTime()
+    });
+
+    const chat = ctx.message.chat;
+    chatInfos.set(ctx.chatId, {
+        title: chat.displayName,
+        username: chat.type === 'chat' ? chat.username ?? undefined : undefined
+    });
+}
+
+/**
+ * 解析时间范围参数
+ * @returns 起始时间（毫秒），无法解析时返回 null
+ */
+function parseSince(value: string, now = Date.now()): number | null {
+    const relative = RELATIVE_TIME.exec(value);
+    if (relative) {
+        return now - Number(relative[1]) * UNIT_MS[relative[2]!.toLowerCase()]!;
+    }
+
+    const clock = CLOCK_TIME.exec(value);
+    if (clock) {
+        const hours = Number(clock[1]);
+        const minutes = Number(clock[2]);
+        if (hours > 23 || minutes > 59) return null;
+        const since = new Date(now);
+        since.setHours(hours, minutes, 0, 0);
+        // 还没到这个时间时指昨天
+        if (since.getTime() > now) {
+            since.setDate(since.getDate() - 1);
+        }
+        return since.getTime();
+    }
+    return null;
+}
+
+/**
+ * 格式化消息时间
+ */
+function formatTime(time: number): string {
+    return new Date(time).toLocaleString('zh-CN', {
+        month: '2-digit', day: '2-digit',
+        hour: '2-digit', minute: '2-digit', hour12: false
+    });
+}
+
+/**
+ * 把文本按字数分段，每段尽量接近 maxChars
+ */
+function chunkLines(lines: string[], maxChars: number): string[] {
+    const chunks: string[] = [];
+    let current: string[] = [];
+    let length = 0;
+    for (const line of lines) {
+        const text = line.slice(0, maxChars);
+        if (length + text.length > maxChars && current.length > 0) {
+            chunks.push(current.join('\n'));
+            current = [];
+            length = 0;
+        }
+        current.push(text);
+        length += text.length + 1;
+    }
+    if (current.length > 0) {
+        chunks.push(current.join('\n'));
+    }
+    return chunks;
+}
+
+/**
+ * 分段总结聊天记录后合并成摘要
+ * 记录超过 chunkChars 时先逐段生成要点笔记，笔记仍然过长时继续合并，最后由笔记生成摘要
+ * @param onProgress 每段总结开始前调用
+ */
+async function summarize(
+    chatId: number,
+    chatTitle: string,
+    messages: BufferedMessage[],
+    onProgress?: (step: number, total: number) => Promise<void>
+): Promise<string> {
+    const ai = getFastAI();
+    let chunks = chunkLines(messages.map(message => `[#${message.id}] ${formatTime(message.date)} ${message.name}: ${message.text}`), config.chunkChars);
+    let isNotes = false;
+
+    for (let round = 0; chunks.length > 1; round++) {
+        if (round >= MAX_REDUCE_ROUNDS) {
+            chunks = [chunks.join('\n').slice(0, config.chunkChars)];
+            break;
+        }
+
+        const notes: string[] = [];
+        for (const [index, chunk] of chunks.entries()) {
+            await onProgress?.(index + 1, chunks.length);
+            const prompt = renderPrompt('summary_chunk', CHUNK_PROMPT, { chatId, chatTitle, messages: chunk });
+            notes.push((await ai.get(prompt, false)).trim());
+        }
+        chunks = chunkLines(notes.filter(Boolean), config.chunkChars);
+        isNotes = true;
+    }
+
+    const first = messages[0]!;
+    const last = messages[messages.length - 1]!;
+    const prompt = renderPrompt('summary_digest', DIGEST_PROMPT, {
+        chatId,
+        chatTitle,
+        range: `${formatTime(first.date)} 至 ${formatTime(last.date)}`,
+        source: isNotes ? '分段整理的要点笔记' : `${messages.length} 条聊天记录`,
+        messages: chunks[0] ?? ''
+    });
+    return (await ai.get(prompt, false)).trim();
+}
+
+/**
+ * 把摘要中的 [#编号] 替换为消息链接，普通群组没有链接时去掉编号
+ */
+function linkMessageRefs(digest: string, chatId: number, messageIds: Set<number>): string {
+    const username = chatInfos.get(chatId)?.username;
+    return digest.replace(/\s*\[#(\d+)\]/g, (_, id: string) => {
+        const link = messageIds.has(Number(id)) ? ChatArchive.getMessageLink(chatId, Number(id), username) : undefined;
+        return link ? ` <a href="${link}">↗</a>` : '';
+    });
+}
+
+/**
+ * 生成可以发送的摘要消息
+ */
+async function buildDigest(
+    chatId: number,
+    chatTitle: string,
+    title: string,
+    messages: BufferedMessage[],
+    onProgress?: (step: number, total: number) => Promise<void>
+): Promise<string> {
+    const digest = await summarize(chatId, chatTitle, messages, onProgress);
+    const body = linkMessageRefs(digest, chatId, new Set(messages.map(message => message.id)))
+        .replace(/<br\s*\/?>\s*\n/gi, '<br>')
+        .replace(/\n/g, '<br>');
+    return cleanHTML(`<b>📋 ${title}</b><br>` +
+        `<i>${formatTime(messages[0]!.date)} - ${formatTime(messages[messages.length - 1]!.date)}，共 ${messages.length} 条消息</i><br><br>${body}`);
+}
+
+/**
+ * 处理 /summary 命令
+ */
+async function handleSummaryCommand(ctx: CommandContext): Promise<void> {
+    const action = ctx.args[0]?.toLowerCase();
+    if (action === 'help') {
+        await ctx.message.replyText(html(getHelp()));
+        return;
+    }
+    if (action === 'daily') {
+        await handleDailyCommand(ctx);
+        return;
+    }
+
+    const all = buffers.get(ctx.chatId)?.toArray() ?? [];
+    let messages: BufferedMessage[];
+    let title: string;
+    if (action === 'since') {
+        const since = parseSince(ctx.args.slice(1).join(''));
+        if (since === null) {
+            await ctx.message.replyText('用法: /summary since 2h，也可以用 30m、1d 或 09:30');
+            return;
+        }
+        messages = all.filter(message => message.date >= since);
+        title = `${formatTime(since)} 以来的聊天摘要`;
+    } else if (action) {
+        const count = Number(action);
+        if (!Number.isInteger(count) || count <= 0) {
+            await ctx.message.replyText(html(getHelp()));
+            return;
+        }
+        messages = all.slice(-count);
+        title = `最近 ${messages.length} 条消息摘要`;
+    } else {
+        messages = all.slice(-config.defaultCount);
+        title = `最近 ${messages.length} 条消息摘要`;
+    }
+
+    if (messages.length === 0) {
+        await ctx.message.replyText('📭 没有可以总结的消息，只能总结机器人启动后收到的消息');
+        return;
+    }
+
+    const waitMsg = await ctx.message.replyText(`📋 正在总结 ${messages.length} 条消息...`);
+    const updateStatus = (text: string) => ctx.client.editMessage({ chatId: ctx.chatId, message: waitMsg.id, text })
+        .then(() => undefined)
+        .catch(() => undefined);
+
+    try {
+        const digest = await buildDigest(ctx.chatId, ctx.message.chat.displayName, title, messages,
+            (step, total) => updateStatus(`📋 消息较多，正在分段总结 ${step}/${total}...`));
+        await ctx.client.editMessage({ chatId: ctx.chatId, message: waitMsg.id, text: html(digest) });
+    } catch (err) {
+        const error = err instanceof Error ? err : new Error(String(err));
+        plugin.logger?.error(`生成聊天摘要失败: ${error.message}`);
+        await updateStatus(`❌ 生成摘要失败: ${error.message}`);
+    }
+}
+
+/**
+ * 处理 /summary daily 命令
+ */
+async function handleDailyCommand(ctx: CommandContext): Promise<void> {
+    if (!ctx.hasPermission('summary.daily')) {
+        await ctx.message.replyText('⚠️ 需要管理员权限');
+        return;
+    }
+
+    const key = String(ctx.chatId);
+    const option = ctx.args[1]?.toLowerCase();
+    if (option === 'off') {
+        delete config.dailyChats[key];
+        scheduleDaily(ctx.chatId, undefined);
+        await saveConfig();
+        await ctx.message.replyText('✅ 已关闭本聊天的每日摘要');
+        return;
+    }
+    if (option !== 'on') {
+        const time = config.dailyChats[key];
+        await ctx.message.replyText(time
+            ? `本聊天每天 ${time} 发送摘要，/summary daily off 关闭`
+            : '本聊天未开启每日摘要，/summary daily on [HH:mm] 开启');
+        return;
+    }
+
+    const time = ctx.args[2] ?? '22:00';
+    const clock = CLOCK_TIME.exec(time);
+    if (!clock || Number(clock[1]) > 23 || Number(clock[2]) > 59) {
+        await ctx.message.replyText('用法: /summary daily on HH:mm，例如 /summary daily on 22:00');
+        return;
+    }
+
+    config.dailyChats[key] = time;
+    scheduleDaily(ctx.chatId, time);
+    const success = await saveConfig();
+    await ctx.message.replyText(success
+        ? `✅ 本聊天将在每天 ${time} 发送过去一天的聊天摘要`
+        : '❌ 保存设置失败');
+}
+
+/**
+ * 创建或取消聊天的每日摘要任务
+ * @param time 每天发送的时间（HH:mm），为空时取消
+ */
+function scheduleDaily(chatId: number, time: string | undefined): void {
+    dailyJobs.get(chatId)?.stop();
+    dailyJobs.delete(chatId);
+    if (!time) return;
+
+    const clock = CLOCK_TIME.exec(time);
+    if (!clock) {
+        plugin.logger?.warn(`聊天 ${chatId} 的每日摘要时间 ${time} 无效，已忽略`);
+        return;
+    }
+    dailyJobs.set(chatId, new Cron(`${Number(clock[2])} ${Number(clock[1])} * * *`, async () => {
+        try {
+            await postDailyDigest(chatId);
+        } catch (err) {
+            const error = err instanceof Error ? err : new Error(String(err));
+            plugin.logger?.error(`发送聊天 ${chatId} 的每日摘要失败: ${error.message}`);
+        }
+    }));
+}
+
+/**
+ * 发送过去一天（或上次摘要以来）的聊天摘要，消息太少时跳过
+ */
+async function postDailyDigest(chatId: number): Promise<void> {
+    const client = botClient;
+    if (!client) return;
+
+    // 聊天已移出允许列表或关闭了本插件时不再推送
+    if (!client.features.getChatsWithPlugin('summary').includes(chatId)) {
+        plugin.logger?.debug(`聊天 ${chatId} 未启用摘要插件，跳过每日摘要`);
+        return;
+    }
+
+    const now = Date.now();
+    const since = Math.max(now - UNIT_MS.d!, lastDigestAt.get(chatId) ?? 0);
+    const messages = (buffers.get(chatId)?.toArray() ?? []).filter(message => message.date >= since);
+    if (messages.length < config.minMessages) {
+        plugin.logger?.debug(`聊天 ${chatId} 只有 ${messages.length} 条新消息，跳过每日摘要`);
+        return;
+    }
+
+    const digest = await buildDigest(chatId, chatInfos.get(chatId)?.title ?? String(chatId), '每日聊天摘要', messages);
+    await client.sendText(chatId, html(digest));
+    lastDigestAt.set(chatId, now);
+}
+
+async function saveConfig(): Promise<boolean> {
+    if (!botClient) return false;
+    return botClient.features.savePluginConfig('summary', config);
+}
+
+const plugin: BotPlugin = {
+    name: 'summary',
+    description: '总结群聊中最近的讨论',
+    version: '1.0.0',
+
+    permissions: [
+        {
+            name: 'summary.daily',
+            description: '开启或关闭本聊天的每日摘要',
+            parent: 'admin',
+            isSystem: false,
+            allowedUsers: []
+        }
+    ],
+
+    commands: [
+        {
+            name: 'summary',
+            description: '总结最近的聊天消息',
+            aliases: ['tldr'],
+            cooldown: 30,
+            async handler(ctx: CommandContext) {
+                await handleSummaryCommand(ctx);
+            }
+        }
+    ],
+
+    // 缓存收到的文字消息
+    events: [
+        {
+            type: 'message',
+            filter: (ctx: EventContext) => {
+                return ctx.type === 'message' &&
+                    !!ctx.message.text?.trim() &&
+                    !ctx.message.text.startsWith('/');
+            },
+            handler: async (ctx: MessageEventContext) => {
+                recordMessage(ctx);
+            }
+        }
+    ],
+
+    async onLoad(client: TelegramClient) {
+        botClient = client;
+        const saved = await client.features.getPluginConfig<SummaryConfig>('summary', DEFAULT_CONFIG);
+        config = {
+            ...DEFAULT_CONFIG,
+            ...saved,
+            dailyChats: saved.dailyChats && typeof saved.dailyChats === 'object' ? { ...saved.dailyChats } : {}
+        };
+
+        for (const [chatId, time] of Object.entries(config.dailyChats)) {
+            scheduleDaily(Number(chatId), time);
+        }
+    },
+
+    async onUnload() {
+        for (const job of dailyJobs.values()) {
+            job.stop();
+        }
+        dailyJobs.clear();
+        buffers.clear();
+        chatInfos.clear();
+        botClient = null;
+    }
+};
+
+export default plugin;
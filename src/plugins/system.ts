@@ -1,15 +1,16 @@
-import type { BotPlugin, CommandContext, PluginCommand } from '../features';
+import type { BotPlugin, CallbackEventContext, CommandContext, PluginCommand } from '../features';
 import { PluginStatus } from '../features';
 import { html } from '@mtcute/bun';
 import { md } from '@mtcute/markdown-parser';
-import { managerIds } from '../app';
+import { managerIds } from '../env';
 import os from 'os';
 import fs from 'fs/promises';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { exec } from 'child_process';
 import { promisify } from 'util';
-import { cleanHTML } from '../utils/HtmlHelper';
+import { cleanHTML, escapeHTML } from '../utils/HtmlHelper';
+import { ChatReviewCB, type ChatStatus } from '../chats';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -236,6 +237,211 @@ function formatPluginStatus(status?: PluginStatus): string {
     }
 }
 
+/**
+ * 处理聊天级插件开关命令
+ * 用法: /plugins chat [enable|disable|reset <名称> [聊天ID|*]]
+ * @param ctx 命令上下文
+ */
+async function handleChatPluginCommand(ctx: CommandContext): Promise<void> {
+    const features = ctx.client.features;
+    const action = ctx.args[1]?.toLowerCase();
+
+    // 无操作时显示当前聊天的插件状态
+    if (!action || action === 'list') {
+        const scopeArg = ctx.args[2];
+        const chatId = scopeArg === '*' ? '*' : Number(scopeArg || ctx.chatId);
+        if (chatId !== '*' && isNaN(chatId)) {
+            await ctx.message.replyText('❌ 无效的聊天ID');
+            return;
+        }
+
+        const settings = features.getChatPluginSettings(chatId);
+        const defaults = features.getChatPluginSettings('*');
+        const names = features.getPluginNames()
+            .filter(name => features.getPlugin(name)?.status === PluginStatus.ACTIVE)
+            .sort((a, b) => a.localeCompare(b));
+
+        let message = `📂 **聊天插件设置 (${chatId === '*' ? '默认' : chatId})**\n\n`;
+        for (const name of names) {
+            const enabled = chatId === '*'
+                ? defaults[name] ?? true
+                : features.isPluginEnabledForChat(name, chatId);
+            const source = settings[name] === undefined && chatId !== '*' && defaults[name] !== undefined ? ' (默认)' : '';
+            message += `${enabled ? '✅' : '❌'} ${name}${source}\n`;
+        }
+
+        message += `\n使用 /plugins chat enable|disable|reset <名称> [聊天ID|*] 修改设置，* 表示所有聊天的默认值`;
+        await ctx.message.replyText(md(message));
+        return;
+    }
+
+    if (action !== 'enable' && action !== 'disable' && action !== 'reset') {
+        await ctx.message.replyText('❌ 未知操作，可用操作: enable, disable, reset');
+        return;
+    }
+
+    const pluginName = ctx.args[2];
+    if (!pluginName) {
+        await ctx.message.replyText('❌ 请指定插件名称');
+        return;
+    }
+
+    if (action === 'disable' && pluginName === 'system') {
+        await ctx.message.replyText('⛔ 不能禁用系统插件');
+        return;
+    }
+
+    const scopeArg = ctx.args[3];
+    const chatId = scopeArg === '*' ? '*' : Number(scopeArg || ctx.chatId);
+    if (chatId !== '*' && isNaN(chatId)) {
+        await ctx.message.replyText('❌ 无效的聊天ID');
+        return;
+    }
+
+    if (!features.getPlugin(pluginName)) {
+        await ctx.message.replyText(`❌ 插件 ${pluginName} 不存在`);
+        return;
+    }
+
+    const result = action === 'enable'
+        ? await features.enablePluginForChat(pluginName, chatId)
+        : action === 'disable'
+            ? await features.disablePluginForChat(pluginName, chatId)
+            : await features.resetPluginForChat(pluginName, chatId);
+
+    const scopeText = chatId === '*' ? '所有聊天（默认）' : chatId === ctx.chatId ? '当前聊天' : `聊天 ${chatId}`;
+    const actionText = action === 'enable' ? '启用' : action === 'disable' ? '禁用' : '恢复默认设置';
+
+    if (result) {
+        await ctx.message.replyText(`✅ 插件 ${pluginName} 已在${scopeText}中${actionText}`);
+    } else {
+        await ctx.message.replyText(`❌ 在${scopeText}中${actionText}插件 ${pluginName} 失败`);
+    }
+}
+
+// 聊天状态的显示文本
+const CHAT_STATUS_TEXT: Record<ChatStatus, string> = {
+    approved: '✅ 已批准',
+    pending: '⏳ 待审核',
+    blocked: '⛔ 已屏蔽'
+};
+
+/**
+ * 处理 /chats 命令，管理允许使用机器人的聊天
+ * 用法: /chats [list [approved|pending|blocked]]
+ *       /chats add [聊天ID]
+ *       /chats remove <聊天ID>
+ *       /chats approval [on|off]
+ */
+async function handleChatsCommand(ctx: CommandContext): Promise<void> {
+    const registry = ctx.client.features.getChatRegistry();
+    const action = ctx.args[0]?.toLowerCase() || 'list';
+
+    if (action === 'list') {
+        const filter = ctx.args[1]?.toLowerCase() as ChatStatus | undefined;
+        if (filter && !(filter in CHAT_STATUS_TEXT)) {
+            await ctx.message.replyText('❌ 未知状态，可用状态: approved, pending, blocked');
+            return;
+        }
+
+        const chats = registry.list(filter).sort((a, b) => b.updatedAt - a.updatedAt);
+        let message = `💬 <b>聊天白名单</b> (${chats.length} 个)<br><br>`;
+        if (chats.length === 0) {
+            message += '暂无记录<br>';
+        }
+        for (const chat of chats) {
+            const title = chat.title ? ` ${escapeHTML(chat.title)}` : '';
+            message += `${CHAT_STATUS_TEXT[chat.status]} <code>${chat.id}</code>${title}<br>`;
+        }
+        message += `<br>新群组审核: ${registry.isApprovalRequired() ? '开启' : '关闭'}<br>`;
+        message += '使用 /chats add|remove &lt;聊天ID&gt; 修改白名单，/chats approval on|off 切换审核';
+
+        await ctx.message.replyText(html(message));
+        return;
+    }
+
+    if (action === 'add' || action === 'remove') {
+        const chatId = Number(ctx.args[1] || (action === 'add' ? ctx.chatId : NaN));
+        if (!Number.isInteger(chatId) || chatId === 0) {
+            await ctx.message.replyText('❌ 请指定有效的聊天ID');
+            return;
+        }
+
+        const senderId = ctx.message.sender.id;
+        const title = chatId === ctx.chatId ? ctx.message.chat.displayName : undefined;
+        const result = action === 'add'
+            ? await registry.approve(chatId, { title, addedBy: senderId })
+            : await registry.block(chatId);
+
+        if (result) {
+            plugin.logger?.info(`用户 ${senderId} ${action === 'add' ? '添加' : '移除'}了聊天 ${chatId}`, { remote: true });
+            await ctx.message.replyText(`✅ 聊天 ${chatId} 已${action === 'add' ? '加入白名单' : '从白名单移除'}`);
+        } else {
+            await ctx.message.replyText(`❌ 保存聊天 ${chatId} 失败`);
+        }
+        return;
+    }
+
+    if (action === 'approval') {
+        const value = ctx.args[1]?.toLowerCase();
+        if (value !== 'on' && value !== 'off') {
+            await ctx.message.replyText(`新群组审核当前${registry.isApprovalRequired() ? '开启' : '关闭'}，使用 /chats approval on|off 切换`);
+            return;
+        }
+
+        await registry.setApprovalRequired(value === 'on');
+        await ctx.message.replyText(value === 'on'
+            ? '✅ 已开启新群组审核，机器人被加入未知群组时会通知管理员'
+            : '✅ 已关闭新群组审核，机器人被加入未知群组时不会响应也不会通知');
+        return;
+    }
+
+    await ctx.message.replyText('❌ 未知操作，可用操作: list, add, remove, approval');
+}
+
+/**
+ * 处理待审核群组的批准/拒绝按钮
+ */
+async function handleChatReviewCallback(ctx: CallbackEventContext): Promise<void> {
+    if (!managerIds.includes(ctx.query.user.id)) {
+        await ctx.query.answer({ text: '❌ 只有管理员才能审核群组', alert: true });
+        return;
+    }
+
+    const data = ChatReviewCB.parse(ctx.data);
+    const chatId = Number(data?.chatId);
+    if (!data || !Number.isInteger(chatId) || chatId === 0) {
+        await ctx.query.answer({ text: '无效的回调数据', alert: true });
+        return;
+    }
+
+    const registry = ctx.client.features.getChatRegistry();
+    const record = registry.get(chatId);
+    const title = record?.title ? `${record.title} (${chatId})` : String(chatId);
+
+    if (data.action === 'approve') {
+        await registry.approve(chatId);
+        plugin.logger?.info(`管理员 ${ctx.query.user.id} 批准了群组 ${chatId}`, { remote: true });
+        await ctx.query.editMessage({ text: html`✅ 已批准群组 ${title}` });
+        await ctx.query.answer({ text: '已批准' });
+        return;
+    }
+
+    if (data.action === 'deny') {
+        await registry.block(chatId);
+        plugin.logger?.info(`管理员 ${ctx.query.user.id} 拒绝了群组 ${chatId}`, { remote: true });
+        await ctx.client.leaveChat(chatId).catch(err => {
+            const error = err instanceof Error ? err : new Error(String(err));
+            plugin.logger?.warn(`退出群组 ${chatId} 失败: ${error.message}`);
+        });
+        await ctx.query.editMessage({ text: html`⛔ 已拒绝并退出群组 ${title}` });
+        await ctx.query.answer({ text: '已拒绝' });
+        return;
+    }
+
+    await ctx.query.answer({ text: '未知操作', alert: true });
+}
+
 /**
  * 执行终端命令并返回结果
  * @param command 要执行的命令
@@ -317,6 +523,12 @@ const plugin: BotPlugin = {
             description: '执行终端命令的权限',
             isSystem: true,
             parent: 'system.admin'
+        },
+        {
+            name: 'system.chats',
+            description: '管理聊天白名单的权限',
+            isSystem: true,
+            parent: 'admin'
         }
     ],
 
@@ -406,7 +618,7 @@ const plugin: BotPlugin = {
             description: 'Display help information',
             aliases: ['h'],
             async handler(ctx: CommandContext) {
-                const plugins = ctx.client.features.getPlugins();
+                const features = ctx.client.features;
 
                 // 分类存储命令
                 const categories = new Map<string, {
@@ -415,9 +627,11 @@ const plugin: BotPlugin = {
                 }>();
 
                 // 按插件分类并过滤用户有权限的命令
-                for (const plugin of plugins) {
-                    if (!plugin.commands?.length) continue;
+                for (const pluginName of features.getPluginNames()) {
+                    const plugin = features.getPlugin(pluginName);
+                    if (!plugin?.commands?.length) continue;
                     if (plugin.status !== PluginStatus.ACTIVE) continue; // 只显示已启用的插件命令
+                    if (!features.isPluginEnabledForChat(pluginName, ctx.chatId)) continue; // 跳过当前聊天中禁用的插件
 
                     // 过滤出用户有权限的命令
                     const availableCommands = plugin.commands.filter(cmd => {
@@ -636,6 +850,9 @@ const plugin: BotPlugin = {
                             }
                         }
                         return;
+                    } else if (subCommand === 'chat') {
+                        await handleChatPluginCommand(ctx);
+                        return;
                     } else if (subCommand === 'reload') {
                         const pluginName = ctx.args[1];
                         if (!pluginName) {
@@ -779,7 +996,7 @@ const plugin: BotPlugin = {
                 }
 
                 message += `使用 /plugins <名称> 查看特定插件的详细信息。\n`;
-                message += `其他命令: /plugins enable <名称> 启用插件, /plugins disable <名称> 禁用插件, /plugins reload [名称] 重载插件`;
+                message += `其他命令: /plugins enable <名称> 启用插件, /plugins disable <名称> 禁用插件, /plugins reload [名称] 重载插件, /plugins chat 管理当前聊天的插件`;
 
                 await ctx.message.replyText(md(message));
             }
@@ -903,6 +1120,14 @@ const plugin: BotPlugin = {
                 }
             }
         },
+        {
+            name: 'chats',
+            description: '管理允许使用机器人的聊天\n用法: /chats [list|add|remove|approval]',
+            requiredPermission: 'system.chats',
+            async handler(ctx: CommandContext) {
+                await handleChatsCommand(ctx);
+            }
+        },
         {
             name: 'clearmem',
             description: '清理内存和缓存',
@@ -970,6 +1195,17 @@ const plugin: BotPlugin = {
             }
         }
     ],
+
+    events: [
+        {
+            type: 'callback',
+            name: 'review',
+            filter: ChatReviewCB.filter(),
+            async handler(ctx: CallbackEventContext) {
+                await handleChatReviewCallback(ctx);
+            }
+        }
+    ]
 };
 
 export default plugin; 
@@ -1,5 +1,5 @@
 import type { BotPlugin, CommandContext, MessageEventContext, CallbackEventContext } from "../features";
-import { getFastAI } from "../ai/AiManager";
+import { getTranslationAI, renderPrompt } from "../ai/AiManager";
 import { md } from "@mtcute/markdown-parser";
 import { BotKeyboard, TelegramClient } from '@mtcute/bun';
 import { CallbackDataBuilder } from "../utils/callback";
@@ -33,7 +33,7 @@ const RETRY = { times: 3, delay: 1000 };
 // total: 中文+非中文总语言字符比例阈值
 const THR = { text: 5, clean: 5, chinese: 0.4, foreign: 0.4, dominance: 0.5, total: 0.6 };
 
-// AI翻译提示词
+// AI翻译提示词，可以在聊天人设中覆盖（模板名称 translation）
 const DEFAULT_PROMPT = `请将以下文本翻译成简体中文，要求译文忠实、流畅、优雅（信达雅）。译文需以"翻译: "开头，仅在遇到明显的歧义或中文母语者大多都不知道的文化背景需要澄清时，另起一行以"补充: "进行简短明了的说明，在翻译措辞上等等不必要的内容不要进行补充。`;
 
 // ===== 正则说明 =====
@@ -85,13 +85,13 @@ function needsTranslation(s: string): boolean {
 const pfx = (t = ''): string => t.startsWith('翻译:') ? t : `翻译: ${t}`;
 
 // Google 翻译
-async function gTrans(txt: string): Promise<string> {
+async function gTrans(txt: string, lang = DEFAULT_LANG): Promise<string> {
   if (!txt) return pfx('无文本');
   if (txt.length >= 5000) return pfx('文本过长，无法翻译');
   for (let i = 0; i < RETRY.times; i++) {
     try {
       const res = await fetch(
-        `https://translate.googleapis.com/translate_a/single?client=gtx&dt=t&sl=auto&tl=${DEFAULT_LANG}&q=${encodeURIComponent(txt)}`
+        `https://translate.googleapis.com/translate_a/single?client=gtx&dt=t&sl=auto&tl=${encodeURIComponent(lang)}&q=${encodeURIComponent(txt)}`
       );
       if (!res.ok) throw new Error(res.statusText);
       // 明确 JSON 类型为 any 并进行转换
@@ -108,9 +108,9 @@ async function gTrans(txt: string): Promise<string> {
 }
 
 // AI 翻译
-async function aiTrans(txt: string): Promise<string> {
-  const ai = getFastAI();
-  const out: string = await ai.get(`${DEFAULT_PROMPT}\n\n${txt}`);
+async function aiTrans(txt: string, chatId?: number): Promise<string> {
+  const ai = getTranslationAI();
+  const out: string = await ai.get(`${renderPrompt('translation', DEFAULT_PROMPT, { chatId })}\n\n${txt}`);
   return pfx(out);
 }
 
@@ -118,7 +118,7 @@ async function aiTrans(txt: string): Promise<string> {
 async function streamTrans(ctx: any, txt: string, orig = 0) {
   const wait = await ctx.message.replyText('正在翻译...');
   let prev = '', time = Date.now(), final = '';
-  await getFastAI().stream((chunk: string, done: boolean) => {
+  await getTranslationAI().stream((chunk: string, done: boolean) => {
     const nowTxt = pfx(chunk);
     if (done || (nowTxt.length - prev.length > STREAM.chars && Date.now() - time > STREAM.intervalMs)) {
       final = nowTxt;
@@ -128,7 +128,7 @@ async function streamTrans(ctx: any, txt: string, orig = 0) {
       prev = nowTxt;
       time = Date.now();
     }
-  }, `${DEFAULT_PROMPT}\n\n${txt}`);
+  }, `${renderPrompt('translation', DEFAULT_PROMPT, { chatId: ctx.chatId })}\n\n${txt}`);
   const kb = BotKeyboard.inline([
     [BotKeyboard.callback('🗑️ 删除', DelCB.build({ initiator: ctx.message.sender.id, original: orig }))]
   ]);
@@ -153,6 +153,20 @@ const plugin: BotPlugin = {
   name: 'translator',
   description: '✨ 翻译助手 | 自动 & 命令',
   version: '1.3.1',
+  // 提供给 AI 调用的工具
+  tools: [
+    {
+      name: 'translate_text',
+      title: '翻译',
+      description: '使用 Google 翻译将文本翻译为目标语言，自动识别源语言。',
+      parameters: {
+        text: { type: 'string', description: '要翻译的文本' },
+        target: { type: 'string', description: `目标语言代码，如 zh_CN、en、ja、ko，默认 ${DEFAULT_LANG}` }
+      },
+      required: ['text'],
+      execute: async (args) => gTrans(String(args.text), typeof args.target === 'string' && args.target ? args.target : DEFAULT_LANG)
+    }
+  ],
   commands: [
     {
       name: 'translate',
@@ -173,7 +187,7 @@ const plugin: BotPlugin = {
         if (txt.length > STREAM.minLength) return streamTrans(ctx, txt, orig);
         const wait = await ctx.message.replyText('正在翻译...');
         try {
-          const res = await aiTrans(txt);
+          const res = await aiTrans(txt, ctx.chatId);
           await ctx.client.editMessage({
             chatId: ctx.chatId,
             message: wait.id,
@@ -200,7 +214,7 @@ const plugin: BotPlugin = {
         const txt = ctx.message.text!;
         if (txt.length > STREAM.minLength) return streamTrans(ctx, txt);
         try {
-          const out = await aiTrans(txt);
+          const out = await aiTrans(txt, ctx.chatId);
           const kb = BotKeyboard.inline([
             [BotKeyboard.callback('🗑️ 删除', DelCB.build({ initiator: 0, original: ctx.message.sender.id }))]
           ]);
@@ -100,6 +100,26 @@ const plugin: BotPlugin = {
     description: '维基百科查询工具',
     version: '1.0.0',
 
+    tools: [
+        {
+            name: 'search_wikipedia',
+            title: '维基百科',
+            description: '搜索维基百科条目，返回条目标题、简介和链接。适合查询人物、地点、事件、概念等百科知识。',
+            parameters: {
+                keyword: { type: 'string', description: '搜索关键词' },
+                lang: { type: 'string', description: '维基百科语言版本，默认 zh', enum: Object.keys(WIKI_API) },
+                limit: { type: 'integer', description: `返回条目数量，1-${MAX_RESULTS}，默认 2` }
+            },
+            required: ['keyword'],
+            async execute(args) {
+                const lang = typeof args.lang === 'string' && isValidWikiLang(args.lang) ? args.lang : DEFAULT_LANG;
+                const limit = Math.min(Math.max(Number(args.limit) || 2, 1), MAX_RESULTS);
+                const results = await searchWiki(String(args.keyword), lang, limit);
+                return results.map(result => formatSearchResult(result, lang)).join('\n\n');
+            }
+        }
+    ],
+
     commands: [
         {
             name: 'wiki',
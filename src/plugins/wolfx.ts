@@ -1,5 +1,4 @@
 import type { BotPlugin, CommandContext } from "../features";
-import { enableChats } from "../app";
 import WebSocket from 'ws';
 import { InputMedia, type TelegramClient } from "@mtcute/bun";
 
@@ -441,7 +440,9 @@ class EarthquakeService {
      * 向所有启用的聊天发送地震信息
      */
     private async sendEarthquakeInfo(text: string, lat: number, lon: number) {
-        if (!enableChats || enableChats.length === 0) {
+        // 只推送到启用了本插件的聊天
+        const targetChats = this.client.features.getChatsWithPlugin('wolfx');
+        if (targetChats.length === 0) {
             plugin.logger?.warn('没有启用接收地震信息的聊天');
             return;
         }
@@ -452,7 +453,7 @@ class EarthquakeService {
             return;
         }
 
-        for (const chatId of enableChats) {
+        for (const chatId of targetChats) {
             try {
                 // 发送位置和消息
                 const [locMsg, txtMsg] = await Promise.all([
@@ -804,6 +805,52 @@ ${originTime} 发生
         this.cencMd5 = data.md5;
     }
 
+    /**
+     * 获取各数据源最近一次地震的摘要（提供给AI工具）
+     * 时间为各机构发布的当地时间
+     */
+    public getLatestEarthquakes(): string {
+        const lines: string[] = [];
+
+        const cenc = this.data.cenc_eqlist?.No1;
+        if (cenc) {
+            const type = cenc.type === 'automatic' ? '自动测定' : '正式测定';
+            lines.push(`中国地震台网(${type}): ${cenc.time}(北京时间) ${cenc.location} 震级M${cenc.magnitude} 深度${cenc.depth}${cenc.intensity ? ` 烈度${cenc.intensity}` : ''}`);
+        }
+
+        const jma = this.data.jma_eqlist?.No1;
+        if (jma) {
+            lines.push(`日本气象厅: ${jma.time}(日本时间) ${jma.location} 震级M${jma.magnitude} 深度${jma.depth} 最大震度${jma.shindo} ${jma.info}`);
+        }
+
+        const jmaEew = this.data.jma_eew;
+        if (jmaEew && !jmaEew.isCancel) {
+            lines.push(`日本紧急地震速报(第${jmaEew.Serial}报${jmaEew.isFinal ? ' 最终报' : ''}): ${jmaEew.OriginTime}(日本时间) ${jmaEew.Hypocenter} 震级M${jmaEew.Magunitude} 深度${jmaEew.Depth}km 最大震度${jmaEew.MaxIntensity}`);
+        }
+
+        const fj = this.data.fj_eew;
+        if (fj) {
+            lines.push(`福建地震预警(第${fj.ReportNum}报): ${fj.OriginTime}(北京时间) ${fj.HypoCenter} 震级M${fj.Magunitude}`);
+        }
+
+        const sc = this.data.sc_eew;
+        if (sc) {
+            lines.push(`四川地震预警(第${sc.ReportNum}报): ${sc.OriginTime}(北京时间) ${sc.HypoCenter} 震级M${sc.Magunitude} 最大烈度${sc.MaxIntensity}`);
+        }
+
+        const cwa = this.data.cwa_eew;
+        if (cwa) {
+            lines.push(`台湾气象署预警(第${cwa.ReportNum}报): ${cwa.OriginTime}(台北时间) ${cwa.HypoCenter} 规模${cwa.Magunitude} 深度${cwa.Depth}km`);
+        }
+
+        if (lines.length === 0) {
+            return '暂无地震数据，预警服务可能尚未获取到数据';
+        }
+
+        const age = this.lastDataTimestamp ? `${Math.floor((Date.now() - this.lastDataTimestamp) / 1000)}秒前` : '未知';
+        return `各数据源最近一次地震（数据更新于${age}）:\n${lines.join('\n')}`;
+    }
+
     /**
      * 获取插件状态信息
      */
@@ -861,7 +908,7 @@ ${originTime} 发生
             content += `\nWebSocket: ${this.socket ? (['连接中', '已连接', '关闭中', '已关闭'][this.socket.readyState]) : '未连接'}`;
 
             // 启用的聊天数量
-            content += `\n\n已启用预警的聊天: ${enableChats.length} 个`;
+            content += `\n\n已启用预警的聊天: ${this.client.features.getChatsWithPlugin('wolfx').length} 个`;
         }
 
         return content;
@@ -988,6 +1035,22 @@ const plugin: BotPlugin = {
         earthquakeService.shutdown();
     },
 
+    // 提供给AI调用的工具
+    tools: [
+        {
+            name: 'get_latest_earthquakes',
+            title: '地震信息',
+            description: '获取中国地震台网、日本气象厅及福建、四川、台湾地震预警最近一次发布的地震信息（时间、地点、震级、深度、烈度）。',
+            parameters: {},
+            async execute() {
+                if (!earthquakeService) {
+                    throw new Error('地震预警服务未启动');
+                }
+                return earthquakeService.getLatestEarthquakes();
+            }
+        }
+    ],
+
     // 注册命令
     commands: [
         {
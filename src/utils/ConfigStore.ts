@@ -0,0 +1,90 @@
+import { log } from '../log';
+import type { Features } from '../features';
+
+/**
+ * 插件数据存储
+ * 通过插件配置系统把数据保存到配置目录下的 JSON 文件。写入按顺序排队执行，
+ * 避免并发写入导致文件内容错乱；频繁变动的数据可以延迟保存，合并短时间内的多次写入。
+ * 卸载插件前调用 flush 等待所有写入完成
+ */
+export class ConfigStore {
+    // 写入队列
+    private queue: Promise<unknown> = Promise.resolve();
+    // 延迟保存的计时器和要调用的保存方法
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private scheduled: (() => Promise<unknown>) | null = null;
+
+    /**
+     * @param features 插件配置系统，加载前未知时可以之后调用 attach 设置
+     */
+    constructor(private features: Features | null = null) { }
+
+    /**
+     * 设置插件配置系统
+     */
+    attach(features: Features): void {
+        this.features = features;
+    }
+
+    /**
+     * 读取配置，文件不存在时使用默认值
+     */
+    async load<T extends Record<string, any>>(name: string, defaults: T): Promise<T> {
+        return this.features ? this.features.getPluginConfig<T>(name, defaults) : defaults;
+    }
+
+    /**
+     * 保存配置，排在之前的写入之后执行
+     * @param name 配置名称（对应配置目录下的文件名）
+     * @returns 是否保存成功
+     */
+    save(name: string, data: unknown): Promise<boolean> {
+        return this.enqueue(async () => {
+            if (!this.features) {
+                log.warn(`配置 ${name} 尚未加载，无法保存`);
+                return false;
+            }
+            return this.features.savePluginConfig(name, data);
+        });
+    }
+
+    /**
+     * 把写入操作加入队列，用于一次保存多个文件等需要自行组织的写入
+     * 写入操作中应直接调用 features，不能再调用 save，否则会等待自身完成
+     */
+    enqueue<T>(write: () => Promise<T>): Promise<T> {
+        const result = this.queue.then(write);
+        this.queue = result.catch(() => undefined);
+        return result;
+    }
+
+    /**
+     * 延迟调用保存方法，已有等待中的保存时不重复安排
+     * @param save 保存方法，其中通过 save 或 enqueue 排队写入
+     * @param delay 延迟时间（毫秒）
+     */
+    schedule(save: () => Promise<unknown>, delay: number): void {
+        if (this.timer) return;
+        this.scheduled = save;
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            const scheduled = this.scheduled;
+            this.scheduled = null;
+            void scheduled?.();
+        }, delay);
+    }
+
+    /**
+     * 立即执行等待中的延迟写入，并等待队列中的所有写入完成
+     */
+    async flush(): Promise<void> {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        const scheduled = this.scheduled;
+        this.scheduled = null;
+        await scheduled?.();
+        await this.queue;
+    }
+}
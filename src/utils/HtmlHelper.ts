@@ -134,7 +134,7 @@ interface TagInfo {
  * @param text 要转义的文本
  * @returns 转义后的安全文本
  */
-function escapeHTML(text: string): string {
+export function escapeHTML(text: string): string {
   return text
     .replace(/&/g, '&amp;')   // & 必须首先转义，否则会影响其他实体
     .replace(/</g, '&lt;')    // 小于号